@@ -0,0 +1,119 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.28;
+
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {ICPROBridgeToken} from "./ICPROBridgeToken.sol";
+
+/// @title Relayed burn/mint bridge of CPRO
+/// @notice One adapter is deployed per chain and registered on the token with `setBridgeLimits`. Tokens sent
+/// to another chain are burned here and a `TransferSent` event is emitted; the relayer delivers it to the
+/// adapter of the destination chain, which mints the tokens to the receiver. Each transfer is delivered once.
+contract CPROBridgeAdapter is Ownable {
+    /// @notice Token burned and minted by this adapter
+    ICPROBridgeToken public immutable token;
+
+    /// @notice Account delivering the transfers sent from other chains
+    address public relayer;
+
+    /// @notice Adapter of each chain transfers can be sent to and received from
+    mapping(uint256 chainId => address adapter) public peers;
+
+    /// @notice Number of transfers sent, also the nonce of the last one
+    uint256 public sentCount;
+
+    /// @notice Transfers delivered, by source chain and nonce
+    mapping(uint256 sourceChainId => mapping(uint256 nonce => bool))
+        public delivered;
+
+    event PeerUpdated(uint256 indexed chainId, address adapter);
+    event RelayerUpdated(address relayer);
+    event TransferSent(
+        uint256 indexed nonce,
+        uint256 indexed destinationChainId,
+        address indexed from,
+        address to,
+        uint256 amount
+    );
+    event TransferDelivered(
+        uint256 indexed sourceChainId,
+        uint256 indexed nonce,
+        address indexed to,
+        uint256 amount
+    );
+
+    error UnknownChain(uint256 chainId);
+    error NotRelayer(address account);
+    error AlreadyDelivered(uint256 sourceChainId, uint256 nonce);
+    error InvalidTransfer();
+
+    /// @param token_ CPROToken or CPROBridgedToken of this chain
+    /// @param relayer_ Account delivering the transfers
+    /// @param initialOwner Manages the peers and the relayer
+    constructor(
+        address token_,
+        address relayer_,
+        address initialOwner
+    ) Ownable(initialOwner) {
+        require(
+            token_ != address(0),
+            "CPROBridgeAdapter: token is zero address"
+        );
+        token = ICPROBridgeToken(token_);
+        relayer = relayer_;
+    }
+
+    /// @notice Set the adapter of another chain, zero to stop bridging with it.
+    function setPeer(uint256 chainId, address adapter) external onlyOwner {
+        peers[chainId] = adapter;
+        emit PeerUpdated(chainId, adapter);
+    }
+
+    function setRelayer(address relayer_) external onlyOwner {
+        relayer = relayer_;
+        emit RelayerUpdated(relayer_);
+    }
+
+    /// @notice Send tokens of the caller to another chain. The caller approves this adapter beforehand.
+    /// @param destinationChainId Chain receiving the tokens
+    /// @param to Receiver on the destination chain
+    /// @param amount Amount sent, within the burning limit of this adapter
+    /// @return nonce Identifier of the transfer on this chain
+    function transferToChain(
+        uint256 destinationChainId,
+        address to,
+        uint256 amount
+    ) external returns (uint256 nonce) {
+        if (peers[destinationChainId] == address(0)) {
+            revert UnknownChain(destinationChainId);
+        }
+        if (to == address(0) || amount == 0) revert InvalidTransfer();
+
+        token.bridgeBurn(msg.sender, amount);
+        nonce = ++sentCount;
+        emit TransferSent(nonce, destinationChainId, msg.sender, to, amount);
+    }
+
+    /// @notice Mint the tokens of a transfer sent from another chain. Relayer only.
+    /// @param sourceChainId Chain the transfer was sent from
+    /// @param nonce Identifier of the transfer on the source chain
+    /// @param to Receiver of the tokens
+    /// @param amount Amount sent, within the minting limit of this adapter
+    function deliverTransfer(
+        uint256 sourceChainId,
+        uint256 nonce,
+        address to,
+        uint256 amount
+    ) external {
+        if (msg.sender != relayer) revert NotRelayer(msg.sender);
+        if (peers[sourceChainId] == address(0)) {
+            revert UnknownChain(sourceChainId);
+        }
+        if (delivered[sourceChainId][nonce]) {
+            revert AlreadyDelivered(sourceChainId, nonce);
+        }
+
+        delivered[sourceChainId][nonce] = true;
+        token.bridgeMint(to, amount);
+        emit TransferDelivered(sourceChainId, nonce, to, amount);
+    }
+}
@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.28;
+
+import "./CPROToken.sol";
+
+/**
+ * CPROToken deployed on a chain other than the home chain of the supply. It starts without supply and
+ * cannot queue mints: every token is minted by a bridge for a token burned on another chain, so
+ * `MAX_SUPPLY` is only enforced, for all chains together, by the home chain.
+ */
+contract CPROBridgedToken is CPROToken {
+    function queueMint(
+        address,
+        uint256
+    ) external pure override returns (uint256) {
+        revert("CPROBridgedToken: Mint on the home chain");
+    }
+
+    function _initialSupply() internal pure override returns (uint256) {
+        return 0;
+    }
+
+    /**
+     * No accounting here: the home chain tracks the tokens out of it.
+     */
+    function _recordBridgeMint(uint256) internal pure override {}
+
+    function _recordBridgeBurn(uint256) internal pure override {}
+}
@@ -0,0 +1,121 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.28;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+import {ICPROCompliance} from "./ICPROCompliance.sol";
+
+/// @title Compliance module of CPROToken
+/// @notice Contains single accounts without pausing the whole token: a blocked account can neither send nor
+/// receive, and a frozen part of an account's balance cannot leave it. In allowlist mode, e.g. before listing,
+/// tokens only move between allowlisted accounts. Mints and burns are checked like transfers on their non-zero side.
+contract CPROCompliance is AccessControl, ICPROCompliance {
+    /// @notice Can block accounts, freeze balances and manage the allowlist
+    bytes32 public constant COMPLIANCE_ROLE = keccak256("COMPLIANCE_ROLE");
+
+    /// @notice Token whose transfers are checked
+    IERC20 public immutable token;
+
+    /// @notice Accounts that can neither send nor receive
+    mapping(address => bool) public blocked;
+
+    /// @notice Part of an account's balance that cannot be sent
+    mapping(address => uint256) public frozenAmount;
+
+    /// @notice Whether only allowlisted accounts can send and receive
+    bool public allowlistEnabled;
+
+    /// @notice Accounts that can send and receive in allowlist mode
+    mapping(address => bool) public allowlisted;
+
+    event BlockedUpdated(address indexed account, bool blocked);
+    event FrozenAmountUpdated(address indexed account, uint256 amount);
+    event AllowlistModeUpdated(bool enabled);
+    event AllowlistUpdated(address indexed account, bool allowed);
+
+    error AccountBlocked(address account);
+    error NotAllowlisted(address account);
+    error BalanceFrozen(address account, uint256 transferable, uint256 amount);
+
+    /// @param token_ Token whose transfers are checked
+    /// @param admin Manages the roles, and gets COMPLIANCE_ROLE
+    constructor(address token_, address admin) {
+        require(token_ != address(0), "CPROCompliance: token is zero address");
+        token = IERC20(token_);
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+        _grantRole(COMPLIANCE_ROLE, admin);
+    }
+
+    /// @notice Block or unblock an account.
+    function setBlocked(
+        address account,
+        bool isBlocked
+    ) external onlyRole(COMPLIANCE_ROLE) {
+        blocked[account] = isBlocked;
+        emit BlockedUpdated(account, isBlocked);
+    }
+
+    /// @notice Freeze part of an account's balance, 0 to unfreeze. It may exceed the current balance.
+    function setFrozenAmount(
+        address account,
+        uint256 amount
+    ) external onlyRole(COMPLIANCE_ROLE) {
+        frozenAmount[account] = amount;
+        emit FrozenAmountUpdated(account, amount);
+    }
+
+    /// @notice Turn allowlist mode on or off.
+    function setAllowlistEnabled(
+        bool enabled
+    ) external onlyRole(COMPLIANCE_ROLE) {
+        allowlistEnabled = enabled;
+        emit AllowlistModeUpdated(enabled);
+    }
+
+    /// @notice Add accounts to the allowlist or remove them.
+    function setAllowlisted(
+        address[] calldata accounts,
+        bool allowed
+    ) external onlyRole(COMPLIANCE_ROLE) {
+        for (uint256 i = 0; i < accounts.length; i++) {
+            allowlisted[accounts[i]] = allowed;
+            emit AllowlistUpdated(accounts[i], allowed);
+        }
+    }
+
+    /// @notice Balance an account can currently send.
+    function transferableBalance(
+        address account
+    ) public view returns (uint256) {
+        uint256 balance = token.balanceOf(account);
+        uint256 frozen = frozenAmount[account];
+        return balance > frozen ? balance - frozen : 0;
+    }
+
+    /// @inheritdoc ICPROCompliance
+    function checkTransfer(
+        address from,
+        address to,
+        uint256 amount
+    ) external view {
+        if (from != address(0)) {
+            _checkAccount(from);
+            if (frozenAmount[from] > 0) {
+                uint256 transferable = transferableBalance(from);
+                if (amount > transferable) {
+                    revert BalanceFrozen(from, transferable, amount);
+                }
+            }
+        }
+        if (to != address(0)) {
+            _checkAccount(to);
+        }
+    }
+
+    function _checkAccount(address account) private view {
+        if (blocked[account]) revert AccountBlocked(account);
+        if (allowlistEnabled && !allowlisted[account]) {
+            revert NotAllowlisted(account);
+        }
+    }
+}
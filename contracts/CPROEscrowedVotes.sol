@@ -0,0 +1,93 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.28;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {IVotes} from "@openzeppelin/contracts/governance/utils/IVotes.sol";
+import {CPROVotingEscrow} from "./CPROVotingEscrow.sol";
+
+/// @title Voting power of tokens held for beneficiaries
+/// @notice A contract holding tokens for many beneficiaries can only delegate its whole balance at once.
+/// A beneficiary who delegates gets a `CPROVotingEscrow` holding their unclaimed tokens, and every later
+/// deposit and payout for them goes through it.
+abstract contract CPROEscrowedVotes {
+    using SafeERC20 for IERC20;
+
+    /// @notice Beneficiary => escrow holding their unclaimed tokens, zero until they first delegate
+    mapping(address => CPROVotingEscrow) public votingEscrow;
+
+    /// @notice Tokens currently held in escrows, still owed by this contract
+    uint256 public totalEscrowed;
+
+    event VotesDelegated(
+        address indexed beneficiary,
+        address indexed escrow,
+        address indexed delegatee
+    );
+
+    /// @dev Token held for the beneficiaries, must implement `IVotes` for delegation to work
+    function _votesToken() internal view virtual returns (IERC20);
+
+    /// @notice Current delegate of a beneficiary's unclaimed tokens, zero if they never delegated.
+    function votesDelegatee(
+        address beneficiary
+    ) external view returns (address) {
+        CPROVotingEscrow escrow = votingEscrow[beneficiary];
+        if (address(escrow) == address(0)) return address(0);
+        return IVotes(address(_votesToken())).delegates(address(escrow));
+    }
+
+    /// @dev Delegate the votes of a beneficiary. On first use, creates their escrow and moves `unclaimed` into it.
+    function _delegateVotes(
+        address beneficiary,
+        address delegatee,
+        uint256 unclaimed
+    ) internal {
+        CPROVotingEscrow escrow = votingEscrow[beneficiary];
+        if (address(escrow) == address(0)) {
+            escrow = new CPROVotingEscrow(_votesToken(), beneficiary);
+            votingEscrow[beneficiary] = escrow;
+            _depositToEscrow(beneficiary, unclaimed);
+        }
+        escrow.delegate(delegatee);
+        emit VotesDelegated(beneficiary, address(escrow), delegatee);
+    }
+
+    /// @dev Move tokens held by this contract into the beneficiary's escrow, if they have one.
+    function _depositToEscrow(address beneficiary, uint256 amount) internal {
+        address escrow = address(votingEscrow[beneficiary]);
+        if (escrow == address(0) || amount == 0) return;
+
+        totalEscrowed += amount;
+        _votesToken().safeTransfer(escrow, amount);
+    }
+
+    /// @dev Reassign tokens owed for one beneficiary to another, moving them between their escrows.
+    function _moveEscrowed(address from, address to, uint256 amount) internal {
+        _withdrawEscrowed(from, amount);
+        _depositToEscrow(to, amount);
+    }
+
+    /// @dev Take tokens no longer owed for a beneficiary back from their escrow, if they have one.
+    function _withdrawEscrowed(address beneficiary, uint256 amount) internal {
+        CPROVotingEscrow escrow = votingEscrow[beneficiary];
+        if (address(escrow) != address(0) && amount > 0) {
+            totalEscrowed -= amount;
+            escrow.transfer(address(this), amount);
+        }
+    }
+
+    /// @dev Pay tokens owed for a beneficiary, from their escrow if they have one.
+    function _payOut(address beneficiary, address to, uint256 amount) internal {
+        CPROVotingEscrow escrow = votingEscrow[beneficiary];
+        if (address(escrow) == address(0)) {
+            _votesToken().safeTransfer(to, amount);
+        } else {
+            totalEscrowed -= amount;
+            escrow.transfer(to, amount);
+        }
+    }
+
+    /// @dev Keeps the layout of the upgradeable vaults stable if state is added here
+    uint256[48] private __gap;
+}
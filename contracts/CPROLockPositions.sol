@@ -0,0 +1,55 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.28;
+
+import {Strings} from "@openzeppelin/contracts/utils/Strings.sol";
+import {CPROPositions} from "./CPROPositions.sol";
+import {CPROLocking} from "./CPROLocking.sol";
+
+/// @title Locks of CPROLocking as ERC-721 tokens
+/// @notice The holder of a token is the beneficiary of its lock and claims it. Only unclaimed locks of the types the
+/// locking owner made transferable can be transferred, to an account without a lock.
+contract CPROLockPositions is CPROPositions {
+    using Strings for uint256;
+
+    /// @notice Locking contract holding the locks, CPROLocking or CPROLockingUpgradeable
+    CPROLocking public immutable locking;
+
+    constructor(
+        address locking_
+    ) CPROPositions(locking_, "CPRO Lock", "CPRO-LOCK") {
+        locking = CPROLocking(locking_);
+    }
+
+    function _positionOwner(
+        uint256 id
+    ) internal view override returns (address) {
+        return locking.lockOwner(id);
+    }
+
+    function _attributes(
+        uint256 id
+    ) internal view override returns (string memory) {
+        (
+            ,
+            uint256 amount,
+            uint256 unlockTime,
+            bool claimed,
+            uint8 lockType
+        ) = locking.getLockInfo(id);
+        return
+            string.concat(
+                _amountAttribute("Amount", amount),
+                ",",
+                _dateAttribute("Unlock time", unlockTime),
+                ",",
+                _attribute("Lock type", uint256(lockType).toString()),
+                ",",
+                _boolAttribute("Claimed", claimed),
+                ",",
+                _boolAttribute(
+                    "Transferable",
+                    !claimed && locking.transferableLockType(lockType)
+                )
+            );
+    }
+}
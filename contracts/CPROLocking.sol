@@ -5,20 +5,73 @@ import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
 import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {Nonces} from "@openzeppelin/contracts/utils/Nonces.sol";
+import {CPROEscrowedVotes} from "./CPROEscrowedVotes.sol";
+import {ICPROLockStaking} from "./ICPROLockStaking.sol";
+import {ICPROPositions, ICPROPositionSource} from "./ICPROPositions.sol";
 
 /// @title CPRO locking contract
-contract CPROLocking is Ownable, ReentrancyGuard {
+contract CPROLocking is
+    Ownable,
+    ReentrancyGuard,
+    CPROEscrowedVotes,
+    EIP712,
+    Nonces,
+    ICPROPositionSource
+{
     using SafeERC20 for IERC20;
 
+    /// @notice EIP-712 type of the claims signed for `claimWithSignature`
+    bytes32 public constant CLAIM_TYPEHASH =
+        keccak256(
+            "Claim(address beneficiary,address recipient,uint256 nonce,uint256 deadline)"
+        );
+
+    /// @notice A lock as returned by `getLocks`
+    struct Lock {
+        address owner;
+        uint256 amount;
+        uint256 unlockTime;
+        bool claimed;
+        uint8 lockType;
+    }
+
+    /// @notice Tokens locked and claimed for one lock type
+    struct LockTypeTotals {
+        uint256 assigned;
+        uint256 claimed;
+    }
+
+    /// @notice Recipient of a part of the swept tokens
+    struct SweepShare {
+        address recipient;
+        uint16 bps;
+    }
+
+    /// @notice Shortest claim window that can be set, so that expiry never surprises beneficiaries. Locks unlocked
+    /// before the window is set get it in full from then.
+    uint256 public constant MIN_CLAIM_WINDOW = 180 days;
+
+    /// @notice Most recipients the swept tokens can be split between
+    uint256 public constant MAX_SWEEP_RECIPIENTS = 10;
+
+    /// @notice Furthest from now an extended lock can unlock
+    uint256 public constant MAX_EXTENSION = 4 * 365 days;
+
+    uint256 private constant BPS = 10_000;
+
     IERC20 public immutable token;
 
-    /// @notice Global unlock timestamp
+    /// @notice Global unlock timestamp, also the deadline for adding beneficiaries
     uint256 public immutable endTime;
 
-    /// @notice Fixed amount each beneficiary receives
+    /// @notice Default amount each beneficiary receives
     uint256 public immutable sharePerBeneficiary;
 
-    /// @notice Where leftover (unassigned) tokens go after endTime
+    /// @notice Where leftover (unassigned) tokens go when no sweep split is set
     address public immutable sweepRecipient;
 
     /// @dev Total tokens allocated to beneficiaries
@@ -42,9 +95,77 @@ contract CPROLocking is Ownable, ReentrancyGuard {
     /// @dev LockId => lock type identifier (0=team, 1=liquidity, 2=marketing, etc.)
     mapping(uint256 => uint8) public lockType;
 
+    /// @dev LockId => amount locked
+    mapping(uint256 => uint256) public lockAmount;
+
+    /// @dev LockId => timestamp from which the lock can be claimed
+    mapping(uint256 => uint256) public lockUnlockTime;
+
+    /// @dev LockId => whether the lock was claimed
+    mapping(uint256 => bool) public lockClaimed;
+
     /// @dev Counter for unique lock IDs
     uint256 private nextLockId = 1;
 
+    /// @notice Root of the (address, lockType, amount) allocation tree, 0 if not used
+    bytes32 public merkleRoot;
+
+    /// @notice Sum of all amounts committed in the Merkle tree
+    uint256 public merkleTotal;
+
+    /// @dev Beneficiary address => whether their Merkle allocation was claimed
+    mapping(address => bool) public merkleClaimed;
+
+    /// @notice Lock type => totals of its locks. Merkle allocations count once claimed.
+    mapping(uint8 => LockTypeTotals) public lockTypeTotals;
+
+    /// @notice Staking contract locks can be staked in place with, notified of every claim. Zero until set.
+    ICPROLockStaking public lockStaking;
+
+    /// @notice ERC-721 collection representing the locks, whose transfers move them. Zero until set.
+    ICPROPositions public positions;
+
+    /// @notice Lock type => whether its locks can be transferred through `positions`
+    mapping(uint8 => bool) public transferableLockType;
+
+    /// @dev Recipients of the swept tokens, all to `sweepRecipient` when empty
+    SweepShare[] private sweepSplit;
+
+    /// @notice Seconds after its unlock time a lock can still be claimed, 0 when claims never expire.
+    /// Merkle allocations unlock at `endTime`.
+    uint256 public claimWindow;
+
+    /// @notice Tokens of the locks and Merkle allocations that expired unclaimed, no longer reserved
+    uint256 public totalExpired;
+
+    /// @dev LockId => whether the lock expired unclaimed
+    mapping(uint256 => bool) public lockExpired;
+
+    /// @notice Sum of the Merkle allocations claimed
+    uint256 public merkleClaimedTotal;
+
+    /// @notice Whether the unclaimed Merkle allocations expired
+    bool public merkleExpired;
+
+    /// @notice Bonus added to a lock extended by a year, in basis points of its amount without bonuses and top-ups.
+    /// Prorated to the extension.
+    uint256 public extensionBonusBps;
+
+    /// @notice Share of a lock forfeited when it is unlocked early, in basis points. 0 when early unlocks are disabled.
+    uint256 public earlyUnlockPenaltyBps;
+
+    /// @notice Tokens forfeited by early unlocks, no longer reserved
+    uint256 public totalForfeited;
+
+    /// @notice When `claimWindow` was last set, claim windows of earlier unlocks start then
+    uint256 public claimWindowSetAt;
+
+    /// @dev LockId => extension bonuses added to the lock, forfeited if it is unlocked early
+    mapping(uint256 => uint256) public lockBonus;
+
+    /// @dev LockId => tokens added with `topUpLock`, which earn no extension bonus
+    mapping(uint256 => uint256) public lockToppedUp;
+
     event Funded(address indexed from, uint256 amount);
     event BeneficiaryAdded(
         address indexed beneficiary,
@@ -59,6 +180,37 @@ contract CPROLocking is Ownable, ReentrancyGuard {
         uint256 amount
     );
     event Swept(address indexed to, uint256 amount);
+    event SweepSplitSet(SweepShare[] split);
+    event ClaimWindowSet(uint256 window);
+    event LockExpired(
+        uint256 indexed lockId,
+        address indexed beneficiary,
+        uint256 amount
+    );
+    event MerkleAllocationsExpired(uint256 amount);
+    event ExtensionBonusSet(uint256 bps);
+    event EarlyUnlockPenaltySet(uint256 bps);
+    event LockExtended(
+        uint256 indexed lockId,
+        uint256 unlockTime,
+        uint256 bonus
+    );
+    event LockToppedUp(uint256 indexed lockId, uint256 amount);
+    event LockUnlockedEarly(
+        uint256 indexed lockId,
+        address indexed beneficiary,
+        uint256 amount,
+        uint256 penalty
+    );
+    event MerkleRootSet(bytes32 indexed root, uint256 total);
+    event LockStakingSet(address indexed staking);
+    event PositionsSet(address indexed positions);
+    event LockTypeTransferableSet(uint8 indexed lockType, bool transferable);
+    event LockTransferred(
+        uint256 indexed lockId,
+        address indexed from,
+        address indexed to
+    );
 
     error PastDeadline();
     error BeforeDeadline();
@@ -67,13 +219,34 @@ contract CPROLocking is Ownable, ReentrancyGuard {
     error NotEnoughFunded();
     error NoSweepable();
     error InvalidLockType();
+    error MerkleRootAlreadySet();
+    error LockStakingAlreadySet();
+    error PositionsAlreadySet();
+    error NotPositions(address account);
+    error LockNotTransferable(uint256 lockId);
+    error InvalidProof();
+    error AlreadyClaimed();
+    error ExpiredSignature(uint256 deadline);
+    error InvalidSigner(address signer, address beneficiary);
+    error TransferFeeNotSupported();
+    error ClaimExpired();
+    error LockNotExpired(uint256 lockId);
+    error NothingToExpire();
+    error InvalidClaimWindow();
+    error InvalidSweepSplit();
+    error InvalidBps();
+    error NotLockOwner(uint256 lockId);
+    error LockNotActive(uint256 lockId);
+    error AlreadyUnlocked(uint256 lockId);
+    error InvalidUnlockTime();
+    error EarlyUnlockDisabled();
 
     constructor(
         address token_,
         uint256 poolSize_,
         uint256 numBeneficiaries_,
         address sweepRecipient_
-    ) Ownable(msg.sender) {
+    ) Ownable(msg.sender) EIP712("CPROLocking", "1") {
         require(token_ != address(0), "CPROLocking: token is zero address");
         require(
             sweepRecipient_ != address(0),
@@ -97,18 +270,51 @@ contract CPROLocking is Ownable, ReentrancyGuard {
     }
 
     /// @notice Transfer tokens from owner into this contract.
+    /// @dev Reverts unless the whole amount arrived, fee-on-transfer tokens cannot fund the locks.
     function fund(uint256 amount) external onlyOwner {
+        uint256 balanceBefore = token.balanceOf(address(this));
         token.safeTransferFrom(msg.sender, address(this), amount);
+        if (token.balanceOf(address(this)) < balanceBefore + amount) {
+            revert TransferFeeNotSupported();
+        }
         emit Funded(msg.sender, amount);
     }
 
-    /// @notice Add a new beneficiary. Can be added only before the deadline.
+    /// @notice Add a new beneficiary with the default share, unlocking at `endTime`. Can be added only before the deadline.
     /// @param beneficiary Address to receive tokens
     /// @param lockType_ Type identifier (0-25)
     function addBeneficiary(
         address beneficiary,
         uint8 lockType_
     ) external onlyOwner {
+        _addBeneficiary(beneficiary, lockType_, sharePerBeneficiary, endTime);
+    }
+
+    /// @notice Add a new beneficiary with its own amount and unlock time. Can be added only before the deadline.
+    /// @param beneficiary Address to receive tokens
+    /// @param lockType_ Type identifier (0-25)
+    /// @param amount Tokens locked for this beneficiary
+    /// @param unlockTime Timestamp from which the tokens can be claimed
+    function addBeneficiaryWithTerms(
+        address beneficiary,
+        uint8 lockType_,
+        uint256 amount,
+        uint256 unlockTime
+    ) external onlyOwner {
+        require(amount > 0, "CPROLocking: amount must be greater than 0");
+        require(
+            unlockTime > block.timestamp,
+            "CPROLocking: unlock time must be in future"
+        );
+        _addBeneficiary(beneficiary, lockType_, amount, unlockTime);
+    }
+
+    function _addBeneficiary(
+        address beneficiary,
+        uint8 lockType_,
+        uint256 amount,
+        uint256 unlockTime
+    ) internal {
         if (block.timestamp >= endTime) revert PastDeadline();
         require(
             beneficiary != address(0),
@@ -117,50 +323,386 @@ contract CPROLocking is Ownable, ReentrancyGuard {
         if (allocation[beneficiary] != 0) revert AlreadyBeneficiary();
         if (lockType_ > 25) revert InvalidLockType(); //should be the number of locking contracts
 
-        // Ensure funding covers all assigned shares (including this one)
-        if (
-            token.balanceOf(address(this)) < totalAssigned + sharePerBeneficiary
-        ) revert NotEnoughFunded();
+        // Ensure funding covers all unclaimed amounts (including this one)
+        if (heldBalance() < reservedForUnclaimed() + amount)
+            revert NotEnoughFunded();
 
         uint256 lockId = nextLockId++;
 
-        allocation[beneficiary] = sharePerBeneficiary;
+        allocation[beneficiary] = amount;
         beneficiaryLockId[beneficiary] = lockId;
         lockOwner[lockId] = beneficiary;
         lockType[lockId] = lockType_;
-        totalAssigned += sharePerBeneficiary;
+        lockAmount[lockId] = amount;
+        lockUnlockTime[lockId] = unlockTime;
+        totalAssigned += amount;
         beneficiariesCount += 1;
+        lockTypeTotals[lockType_].assigned += amount;
+        // A beneficiary who delegated for an earlier lock keeps voting with this one
+        _depositToEscrow(beneficiary, amount);
 
         emit BeneficiaryAdded(
             beneficiary,
             lockId,
-            sharePerBeneficiary,
+            amount,
             lockType_,
-            endTime
+            unlockTime
         );
     }
 
-    /// @notice Check if you can claim your tokens after the deadline has ended.
+    /// @notice Check if you can claim your tokens after your lock's unlock time.
     function canClaim(address user) external view returns (bool) {
-        return block.timestamp >= endTime && allocation[user] != 0;
+        uint256 unlockTime = lockUnlockTime[beneficiaryLockId[user]];
+        return
+            allocation[user] != 0 &&
+            block.timestamp >= unlockTime &&
+            !_claimExpired(unlockTime);
     }
 
-    /// @notice Claim your tokens after the fixed global unlock time.
+    /// @notice Claim your tokens after your lock's unlock time.
     function claim() external nonReentrant {
-        if (block.timestamp < endTime) revert BeforeDeadline();
+        _claim(msg.sender, msg.sender);
+    }
 
+    /// @notice Claim the tokens of a beneficiary on their behalf, after their lock's unlock time.
+    /// The tokens are always paid to the beneficiary.
+    /// @param beneficiary Beneficiary to claim for
+    function claimFor(address beneficiary) external nonReentrant {
+        _claim(beneficiary, beneficiary);
+    }
+
+    /// @notice Claim the tokens of a beneficiary with their EIP-712 signature of a `Claim`,
+    /// so that a relayer can pay the gas. The signature can be used once, before `deadline`.
+    /// @param beneficiary Beneficiary who signed the claim
+    /// @param recipient Address receiving the tokens, chosen by the beneficiary
+    /// @param deadline Timestamp after which the signature is no longer valid
+    function claimWithSignature(
+        address beneficiary,
+        address recipient,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant {
+        if (block.timestamp > deadline) revert ExpiredSignature(deadline);
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                CLAIM_TYPEHASH,
+                beneficiary,
+                recipient,
+                _useNonce(beneficiary),
+                deadline
+            )
+        );
+        address signer = ECDSA.recover(_hashTypedDataV4(structHash), v, r, s);
+        if (signer != beneficiary) revert InvalidSigner(signer, beneficiary);
+
+        _claim(beneficiary, recipient);
+    }
+
+    function _claim(address beneficiary, address to) internal {
+        uint256 amount = allocation[beneficiary];
+        if (amount == 0) revert NothingToClaim();
+
+        uint256 lockId = beneficiaryLockId[beneficiary];
+        if (block.timestamp < lockUnlockTime[lockId]) revert BeforeDeadline();
+        if (_claimExpired(lockUnlockTime[lockId])) revert ClaimExpired();
+
+        allocation[beneficiary] = 0;
+        lockClaimed[lockId] = true;
+        totalClaimed += amount;
+        lockTypeTotals[lockType[lockId]].claimed += amount;
+        if (address(lockStaking) != address(0)) {
+            lockStaking.onLockClaimed(lockId);
+        }
+
+        _payOut(beneficiary, to, amount);
+        emit Claimed(beneficiary, lockId, amount);
+    }
+
+    /// @notice Set the bonus for extending a lock, in basis points of its amount per year of extension.
+    /// Bonuses are paid from the tokens not reserved for unclaimed allocations.
+    function setExtensionBonus(uint256 bps) external onlyOwner {
+        if (bps > BPS) revert InvalidBps();
+        extensionBonusBps = bps;
+        emit ExtensionBonusSet(bps);
+    }
+
+    /// @notice Let beneficiaries unlock early, forfeiting `bps` basis points of their lock. 0 disables early unlocks.
+    function setEarlyUnlockPenalty(uint256 bps) external onlyOwner {
+        if (bps > BPS) revert InvalidBps();
+        earlyUnlockPenaltyBps = bps;
+        emit EarlyUnlockPenaltySet(bps);
+    }
+
+    /// @notice Move the unlock time of your lock later, for a bonus prorated to the extension. An unlocked lock is
+    /// extended from now. The bonus is paid only if the lock is claimed at its unlock time.
+    /// @param lockId Your lock
+    /// @param unlockTime New unlock time, at most MAX_EXTENSION from now
+    /// @return bonus Tokens added to the lock
+    function extendLock(
+        uint256 lockId,
+        uint256 unlockTime
+    ) external nonReentrant returns (uint256 bonus) {
+        address beneficiary = _activeLock(lockId);
+        uint256 from = lockUnlockTime[lockId];
+        if (from < block.timestamp) from = block.timestamp;
+        if (unlockTime <= from || unlockTime > block.timestamp + MAX_EXTENSION)
+            revert InvalidUnlockTime();
+
+        uint256 base = lockAmount[lockId] -
+            lockBonus[lockId] -
+            lockToppedUp[lockId];
+        bonus =
+            (base * extensionBonusBps * (unlockTime - from)) /
+            (BPS * 365 days);
+        if (heldBalance() < reservedForUnclaimed() + bonus)
+            revert NotEnoughFunded();
+
+        lockUnlockTime[lockId] = unlockTime;
+        if (bonus > 0) {
+            lockBonus[lockId] += bonus;
+            _increaseLock(beneficiary, lockId, bonus);
+        }
+        emit LockExtended(lockId, unlockTime, bonus);
+    }
+
+    /// @notice Add tokens to your lock, unlocking with it. You approve this contract beforehand.
+    /// @param lockId Your lock
+    /// @param amount Tokens added
+    function topUpLock(uint256 lockId, uint256 amount) external nonReentrant {
+        address beneficiary = _activeLock(lockId);
+        require(amount > 0, "CPROLocking: amount must be greater than 0");
+
+        uint256 balanceBefore = token.balanceOf(address(this));
+        token.safeTransferFrom(msg.sender, address(this), amount);
+        if (token.balanceOf(address(this)) < balanceBefore + amount) {
+            revert TransferFeeNotSupported();
+        }
+
+        lockToppedUp[lockId] += amount;
+        _increaseLock(beneficiary, lockId, amount);
+        emit LockToppedUp(lockId, amount);
+    }
+
+    /// @notice Claim your lock before its unlock time, forfeiting `earlyUnlockPenaltyBps` of it and its extension
+    /// bonuses. The forfeited tokens are no longer reserved and go to the sweep recipients with the next sweep.
+    /// @param lockId Your lock
+    function unlockEarly(uint256 lockId) external nonReentrant {
+        if (earlyUnlockPenaltyBps == 0) revert EarlyUnlockDisabled();
+        address beneficiary = _activeLock(lockId);
+        if (block.timestamp >= lockUnlockTime[lockId]) {
+            revert AlreadyUnlocked(lockId);
+        }
+
+        uint256 amount = allocation[beneficiary];
+        uint256 bonus = lockBonus[lockId];
+        uint256 forfeited = bonus +
+            ((amount - bonus) * earlyUnlockPenaltyBps) /
+            BPS;
+        uint256 paid = amount - forfeited;
+
+        allocation[beneficiary] = 0;
+        lockClaimed[lockId] = true;
+        totalClaimed += paid;
+        totalForfeited += forfeited;
+        lockTypeTotals[lockType[lockId]].claimed += paid;
+        if (address(lockStaking) != address(0)) {
+            lockStaking.onLockClaimed(lockId);
+        }
+
+        _withdrawEscrowed(beneficiary, forfeited);
+        _payOut(beneficiary, beneficiary, paid);
+        emit Claimed(beneficiary, lockId, paid);
+        emit LockUnlockedEarly(lockId, beneficiary, paid, forfeited);
+    }
+
+    /// @dev Lock of the caller that can still be claimed, returns its beneficiary.
+    function _activeLock(uint256 lockId) internal view returns (address) {
+        if (lockOwner[lockId] != msg.sender) revert NotLockOwner(lockId);
+        if (
+            lockClaimed[lockId] ||
+            lockExpired[lockId] ||
+            _claimExpired(lockUnlockTime[lockId])
+        ) revert LockNotActive(lockId);
+        return msg.sender;
+    }
+
+    /// @dev Add tokens already held by this contract to a lock.
+    function _increaseLock(
+        address beneficiary,
+        uint256 lockId,
+        uint256 amount
+    ) internal {
+        allocation[beneficiary] += amount;
+        lockAmount[lockId] += amount;
+        totalAssigned += amount;
+        lockTypeTotals[lockType[lockId]].assigned += amount;
+        _depositToEscrow(beneficiary, amount);
+        if (address(lockStaking) != address(0)) {
+            lockStaking.onLockAmountChanged(lockId);
+        }
+    }
+
+    /// @notice Delegate the voting power of your locked tokens until you claim them.
+    /// The first call moves them into a voting escrow of yours, which `claim` later pays from.
+    /// Merkle allocations have no voting power before they are claimed.
+    /// @param delegatee Account receiving the voting power, yourself to vote directly
+    function delegateVotes(address delegatee) external nonReentrant {
         uint256 amount = allocation[msg.sender];
         if (amount == 0) revert NothingToClaim();
+        _delegateVotes(msg.sender, delegatee, amount);
+    }
 
-        uint256 lockId = beneficiaryLockId[msg.sender];
+    function _votesToken() internal view override returns (IERC20) {
+        return token;
+    }
 
-        allocation[msg.sender] = 0;
+    /// @notice Let beneficiaries stake their locks in place with `staking`. It can be set once, since the stakes
+    /// it holds end only when it is notified of the claims.
+    function setLockStaking(address staking) external onlyOwner {
+        if (address(lockStaking) != address(0)) revert LockStakingAlreadySet();
+        require(staking != address(0), "CPROLocking: staking is zero address");
+        lockStaking = ICPROLockStaking(staking);
+        emit LockStakingSet(staking);
+    }
+
+    /// @notice Represent the locks as tokens of `positions_`, transferring a token moves its lock. Can be set once.
+    function setPositions(address positions_) external onlyOwner {
+        if (address(positions) != address(0)) revert PositionsAlreadySet();
+        require(
+            positions_ != address(0),
+            "CPROLocking: positions is zero address"
+        );
+        positions = ICPROPositions(positions_);
+        emit PositionsSet(positions_);
+    }
+
+    /// @notice Allow or forbid transfers of the locks of a type. Locks cannot be transferred by default.
+    function setLockTypeTransferable(
+        uint8 lockType_,
+        bool transferable
+    ) external onlyOwner {
+        transferableLockType[lockType_] = transferable;
+        emit LockTypeTransferableSet(lockType_, transferable);
+    }
+
+    /// @inheritdoc ICPROPositionSource
+    /// @dev Only unclaimed, unexpired locks of a transferable type move, to an address without a lock of its own.
+    /// A staked lock stops being staked.
+    function transferPosition(
+        uint256 lockId,
+        address from,
+        address to
+    ) external nonReentrant {
+        if (msg.sender != address(positions)) revert NotPositions(msg.sender);
+        if (
+            lockOwner[lockId] != from ||
+            lockClaimed[lockId] ||
+            lockExpired[lockId] ||
+            _claimExpired(lockUnlockTime[lockId]) ||
+            !transferableLockType[lockType[lockId]]
+        ) revert LockNotTransferable(lockId);
+        if (allocation[to] != 0) revert AlreadyBeneficiary();
+
+        uint256 amount = allocation[from];
+        allocation[from] = 0;
+        delete beneficiaryLockId[from];
+        allocation[to] = amount;
+        beneficiaryLockId[to] = lockId;
+        lockOwner[lockId] = to;
+        _moveEscrowed(from, to, amount);
+        if (address(lockStaking) != address(0)) {
+            lockStaking.onLockTransferred(lockId);
+        }
+        emit LockTransferred(lockId, from, to);
+    }
+
+    /// @notice Commit the allocations of a community lock as a Merkle root instead of adding every beneficiary.
+    /// Leaves are `keccak256(bytes.concat(keccak256(abi.encode(beneficiary, lockType, amount))))`.
+    /// Can be set only once and only before the deadline.
+    /// @param root Merkle root of the allocations
+    /// @param total Sum of all amounts in the tree, reserved like direct allocations
+    function setMerkleRoot(bytes32 root, uint256 total) external onlyOwner {
+        if (block.timestamp >= endTime) revert PastDeadline();
+        if (merkleRoot != bytes32(0)) revert MerkleRootAlreadySet();
+        require(root != bytes32(0), "CPROLocking: merkle root is zero");
+        require(total > 0, "CPROLocking: merkle total must be greater than 0");
+
+        // Ensure funding covers the unclaimed allocations and the whole tree
+        if (heldBalance() < reservedForUnclaimed() + total)
+            revert NotEnoughFunded();
+
+        merkleRoot = root;
+        merkleTotal = total;
+        totalAssigned += total;
+
+        emit MerkleRootSet(root, total);
+    }
+
+    /// @notice Check if a Merkle allocation can be claimed.
+    function canClaimWithProof(
+        address user,
+        uint8 lockType_,
+        uint256 amount,
+        bytes32[] calldata proof
+    ) external view returns (bool) {
+        return
+            block.timestamp >= endTime &&
+            !merkleExpired &&
+            !_claimExpired(endTime) &&
+            !merkleClaimed[user] &&
+            _verifyMerkleProof(user, lockType_, amount, proof);
+    }
+
+    /// @notice Claim a Merkle allocation after the fixed global unlock time.
+    /// @param lockType_ Type identifier committed in the leaf
+    /// @param amount Amount committed in the leaf
+    /// @param proof Merkle proof of the caller's leaf
+    function claimWithProof(
+        uint8 lockType_,
+        uint256 amount,
+        bytes32[] calldata proof
+    ) external nonReentrant {
+        if (block.timestamp < endTime) revert BeforeDeadline();
+        if (merkleExpired || _claimExpired(endTime)) revert ClaimExpired();
+        if (merkleClaimed[msg.sender]) revert AlreadyClaimed();
+        if (lockType_ > 25) revert InvalidLockType();
+        if (amount == 0) revert NothingToClaim();
+        if (!_verifyMerkleProof(msg.sender, lockType_, amount, proof))
+            revert InvalidProof();
+
+        uint256 lockId = nextLockId++;
+
+        merkleClaimed[msg.sender] = true;
+        lockOwner[lockId] = msg.sender;
+        lockType[lockId] = lockType_;
+        lockAmount[lockId] = amount;
+        lockUnlockTime[lockId] = endTime;
+        lockClaimed[lockId] = true;
         totalClaimed += amount;
+        merkleClaimedTotal += amount;
+        lockTypeTotals[lockType_].assigned += amount;
+        lockTypeTotals[lockType_].claimed += amount;
 
         token.safeTransfer(msg.sender, amount);
         emit Claimed(msg.sender, lockId, amount);
     }
 
+    function _verifyMerkleProof(
+        address user,
+        uint8 lockType_,
+        uint256 amount,
+        bytes32[] calldata proof
+    ) internal view returns (bool) {
+        if (merkleRoot == bytes32(0)) return false;
+        bytes32 leaf = keccak256(
+            bytes.concat(keccak256(abi.encode(user, lockType_, amount)))
+        );
+        return MerkleProof.verifyCalldata(proof, merkleRoot, leaf);
+    }
+
     /// @notice Get lock information for a beneficiary
     /// @param beneficiary Address to query
     /// @return lockId Unique lock identifier
@@ -186,10 +728,9 @@ contract CPROLocking is Ownable, ReentrancyGuard {
             return (0, 0, 0, false, 0);
         }
 
-        amount = sharePerBeneficiary;
-        unlockTime = endTime;
-        claimed = (allocation[beneficiary] == 0 &&
-            lockOwner[lockId] != address(0));
+        amount = lockAmount[lockId];
+        unlockTime = lockUnlockTime[lockId];
+        claimed = lockClaimed[lockId];
         lockTypeId = lockType[lockId];
     }
 
@@ -218,28 +759,181 @@ contract CPROLocking is Ownable, ReentrancyGuard {
         if (owner == address(0)) {
             return (address(0), 0, 0, false, 0);
         }
-        amount = sharePerBeneficiary;
-        unlockTime = endTime;
-        claimed = (allocation[owner] == 0);
+        amount = lockAmount[lockId];
+        unlockTime = lockUnlockTime[lockId];
+        claimed = lockClaimed[lockId];
         lockTypeId = lockType[lockId];
     }
 
+    /// @notice Number of locks created, lock IDs run from 1 to this count
+    function lockCount() public view returns (uint256) {
+        return nextLockId - 1;
+    }
+
+    /// @notice Get a page of locks in ID order. The lock at index i has ID offset + i + 1.
+    /// The page is cut at the last lock.
+    /// @param offset Number of locks skipped
+    /// @param limit Maximum number of locks returned
+    function getLocks(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (Lock[] memory page) {
+        uint256 count = lockCount();
+        if (offset >= count) return page;
+        if (limit > count - offset) limit = count - offset;
+
+        page = new Lock[](limit);
+        for (uint256 i = 0; i < limit; i++) {
+            uint256 lockId = offset + i + 1;
+            page[i] = Lock(
+                lockOwner[lockId],
+                lockAmount[lockId],
+                lockUnlockTime[lockId],
+                lockClaimed[lockId],
+                lockType[lockId]
+            );
+        }
+    }
+
+    /// @notice Totals of every lock type, indexed by lock type.
+    function getAllLockTypeTotals()
+        external
+        view
+        returns (LockTypeTotals[26] memory totals)
+    {
+        for (uint8 i = 0; i < 26; i++) {
+            totals[i] = lockTypeTotals[i];
+        }
+    }
+
+    /// @notice Tokens held for this contract, in it and in the voting escrows of its beneficiaries.
+    function heldBalance() public view returns (uint256) {
+        return token.balanceOf(address(this)) + totalEscrowed;
+    }
+
     /// @notice Amount that must remain in the contract to satisfy all unclaimed allocations.
     function reservedForUnclaimed() public view returns (uint256) {
-        return totalAssigned - totalClaimed;
+        return totalAssigned - totalClaimed - totalExpired - totalForfeited;
     }
 
-    function sweepUnassigned() external onlyOwner {
-        if (block.timestamp < endTime) revert BeforeDeadline();
+    /// @notice Whether the claim window of a lock is over, even if `expireLocks` did not release it yet.
+    function lockClaimExpired(uint256 lockId) external view returns (bool) {
+        return lockExpired[lockId] || _claimExpired(lockUnlockTime[lockId]);
+    }
+
+    /// @notice Let locks be claimed for `window` seconds after their unlock time, 0 for no expiry.
+    /// The window applies to every lock, it is at least MIN_CLAIM_WINDOW. Locks already unlocked can be claimed
+    /// for the whole window from now.
+    function setClaimWindow(uint256 window) external onlyOwner {
+        if (window != 0 && window < MIN_CLAIM_WINDOW)
+            revert InvalidClaimWindow();
+        claimWindow = window;
+        claimWindowSetAt = block.timestamp;
+        emit ClaimWindowSet(window);
+    }
+
+    /// @notice Release the tokens of locks left unclaimed past their claim window, which become sweepable.
+    /// Their beneficiaries can no longer claim them and their stake ends.
+    /// @param lockIds Expired locks, all reverts if one of them cannot expire
+    function expireLocks(
+        uint256[] calldata lockIds
+    ) external onlyOwner nonReentrant {
+        for (uint256 i = 0; i < lockIds.length; i++) {
+            uint256 lockId = lockIds[i];
+            address beneficiary = lockOwner[lockId];
+            if (
+                beneficiary == address(0) ||
+                lockClaimed[lockId] ||
+                lockExpired[lockId]
+            ) revert NothingToExpire();
+            if (!_claimExpired(lockUnlockTime[lockId])) {
+                revert LockNotExpired(lockId);
+            }
+
+            uint256 amount = allocation[beneficiary];
+            allocation[beneficiary] = 0;
+            delete beneficiaryLockId[beneficiary];
+            lockExpired[lockId] = true;
+            totalExpired += amount;
+            _withdrawEscrowed(beneficiary, amount);
+            if (address(lockStaking) != address(0)) {
+                lockStaking.onLockClaimed(lockId);
+            }
+            emit LockExpired(lockId, beneficiary, amount);
+        }
+    }
+
+    /// @notice Release the Merkle allocations left unclaimed past the claim window after `endTime`,
+    /// which become sweepable.
+    function expireMerkleAllocations() external onlyOwner {
+        if (merkleRoot == bytes32(0) || merkleExpired) revert NothingToExpire();
+        if (!_claimExpired(endTime)) revert BeforeDeadline();
+
+        uint256 amount = merkleTotal - merkleClaimedTotal;
+        merkleExpired = true;
+        totalExpired += amount;
+        emit MerkleAllocationsExpired(amount);
+    }
+
+    /// @notice Split the swept tokens between recipients by basis points summing to 10000.
+    /// An empty split sends them all to `sweepRecipient`.
+    function setSweepSplit(SweepShare[] calldata split) external onlyOwner {
+        if (split.length > MAX_SWEEP_RECIPIENTS) revert InvalidSweepSplit();
+
+        delete sweepSplit;
+        uint256 totalBps;
+        for (uint256 i = 0; i < split.length; i++) {
+            if (split[i].recipient == address(0) || split[i].bps == 0)
+                revert InvalidSweepSplit();
+            totalBps += split[i].bps;
+            sweepSplit.push(split[i]);
+        }
+        if (split.length > 0 && totalBps != BPS) revert InvalidSweepSplit();
+        emit SweepSplitSet(split);
+    }
+
+    /// @notice Recipients of the swept tokens, empty when they all go to `sweepRecipient`.
+    function getSweepSplit() external view returns (SweepShare[] memory) {
+        return sweepSplit;
+    }
 
-        uint256 balance = token.balanceOf(address(this));
+    /// @notice Send the tokens not reserved for unclaimed allocations to the sweep recipients. Can be called
+    /// before `endTime` to take surplus funding back, the unclaimed allocations stay covered.
+    function sweepUnassigned() external onlyOwner {
+        uint256 balance = heldBalance();
         uint256 reserved = reservedForUnclaimed();
         require(balance >= reserved, "CPROLocking: invariant violated");
 
         uint256 sweepable = balance - reserved;
         if (sweepable == 0) revert NoSweepable();
 
-        token.safeTransfer(sweepRecipient, sweepable);
-        emit Swept(sweepRecipient, sweepable);
+        uint256 count = sweepSplit.length;
+        if (count == 0) {
+            _sweep(sweepRecipient, sweepable);
+            return;
+        }
+        // Rounding leftovers go to the last recipient
+        uint256 remaining = sweepable;
+        for (uint256 i = 0; i < count - 1; i++) {
+            uint256 share = (sweepable * sweepSplit[i].bps) / BPS;
+            remaining -= share;
+            _sweep(sweepSplit[i].recipient, share);
+        }
+        _sweep(sweepSplit[count - 1].recipient, remaining);
+    }
+
+    function _sweep(address to, uint256 amount) internal {
+        if (amount == 0) return;
+        token.safeTransfer(to, amount);
+        emit Swept(to, amount);
+    }
+
+    /// @dev The window starts at the unlock time, or when it was set for earlier unlocks.
+    function _claimExpired(uint256 unlockTime) internal view returns (bool) {
+        if (claimWindow == 0) return false;
+        uint256 start = unlockTime > claimWindowSetAt
+            ? unlockTime
+            : claimWindowSetAt;
+        return block.timestamp >= start + claimWindow;
     }
 }
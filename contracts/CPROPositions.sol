@@ -0,0 +1,121 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.28;
+
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import {Base64} from "@openzeppelin/contracts/utils/Base64.sol";
+import {Strings} from "@openzeppelin/contracts/utils/Strings.sol";
+import {ICPROPositions, ICPROPositionSource} from "./ICPROPositions.sol";
+
+/// @title ERC-721 representation of CPRO positions
+/// @notice Each token stands for a position of the source contract, with the same ID, and is held by the account
+/// that claims it. Tokens are minted on request for existing positions. Transferring a token moves its position,
+/// and the source reverts the transfer when the position cannot change hands. Metadata is generated on chain.
+abstract contract CPROPositions is ERC721, ICPROPositions {
+    using Strings for uint256;
+
+    /// @notice Contract holding the positions, which must register this collection with `setPositions`
+    address public immutable source;
+
+    error UnknownPosition(uint256 id);
+    error NotSource(address account);
+
+    constructor(
+        address source_,
+        string memory name_,
+        string memory symbol_
+    ) ERC721(name_, symbol_) {
+        require(source_ != address(0), "CPROPositions: source is zero address");
+        source = source_;
+    }
+
+    /// @notice Mint the token of a position to its current beneficiary. Anyone can mint it, once.
+    function mint(uint256 id) external {
+        address beneficiary = _positionOwner(id);
+        if (beneficiary == address(0)) revert UnknownPosition(id);
+        _mint(beneficiary, id);
+    }
+
+    /// @inheritdoc ICPROPositions
+    function positionTransferred(uint256 id, address to) external {
+        if (msg.sender != source) revert NotSource(msg.sender);
+        address holder = _ownerOf(id);
+        if (holder != address(0) && holder != to) {
+            _update(to, id, address(0));
+        }
+    }
+
+    /// @notice Metadata of a position, as a base64 encoded JSON data URI.
+    function tokenURI(uint256 id) public view override returns (string memory) {
+        _requireOwned(id);
+        bytes memory json = bytes(
+            string.concat(
+                '{"name":"',
+                name(),
+                " #",
+                id.toString(),
+                '","attributes":[',
+                _attributes(id),
+                "]}"
+            )
+        );
+        return
+            string.concat("data:application/json;base64,", Base64.encode(json));
+    }
+
+    /// @dev Moves the position along with its token, unless the source already moved it.
+    function _update(
+        address to,
+        uint256 id,
+        address auth
+    ) internal override returns (address from) {
+        from = super._update(to, id, auth);
+        if (from != address(0) && _positionOwner(id) != to) {
+            ICPROPositionSource(source).transferPosition(id, from, to);
+        }
+    }
+
+    /// @dev Beneficiary of a position in the source, zero when it does not exist.
+    function _positionOwner(uint256 id) internal view virtual returns (address);
+
+    /// @dev JSON attributes of a position, joined by commas.
+    function _attributes(
+        uint256 id
+    ) internal view virtual returns (string memory);
+
+    function _attribute(
+        string memory trait,
+        string memory value
+    ) internal pure returns (string memory) {
+        return
+            string.concat('{"trait_type":"', trait, '","value":', value, "}");
+    }
+
+    /// @dev Amounts are quoted, they do not fit in JSON numbers.
+    function _amountAttribute(
+        string memory trait,
+        uint256 amount
+    ) internal pure returns (string memory) {
+        return _attribute(trait, string.concat('"', amount.toString(), '"'));
+    }
+
+    function _dateAttribute(
+        string memory trait,
+        uint256 timestamp
+    ) internal pure returns (string memory) {
+        return
+            string.concat(
+                '{"display_type":"date","trait_type":"',
+                trait,
+                '","value":',
+                timestamp.toString(),
+                "}"
+            );
+    }
+
+    function _boolAttribute(
+        string memory trait,
+        bool value
+    ) internal pure returns (string memory) {
+        return _attribute(trait, value ? "true" : "false");
+    }
+}
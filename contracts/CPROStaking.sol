@@ -0,0 +1,390 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.28;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {CPROLocking} from "./CPROLocking.sol";
+import {ICPROLockStaking} from "./ICPROLockStaking.sol";
+
+/// @title CPRO staking contract
+/// @notice Holders stake CPRO and earn CPRO rewards, funded by the owner and paid out evenly over a reward period
+/// to every staked token. Unstaked tokens are released after the unbonding period. Locks of CPROLocking can be
+/// staked in place: their tokens stay locked and earn rewards until the lock is claimed or transferred.
+contract CPROStaking is Ownable, ReentrancyGuard, ICPROLockStaking {
+    using SafeERC20 for IERC20;
+
+    /// @notice Tokens unstaked by an account and not withdrawn yet
+    struct Unbonding {
+        uint256 amount;
+        uint256 releaseTime;
+    }
+
+    /// @notice Token staked and paid as rewards
+    IERC20 public immutable token;
+
+    /// @notice Locking contract whose locks can be staked in place, zero when locks cannot be staked
+    CPROLocking public immutable locking;
+
+    /// @notice Length of the reward periods started from now on
+    uint256 public rewardsDuration;
+
+    /// @notice End of the current reward period
+    uint256 public periodFinish;
+
+    /// @notice Rewards paid per second to all stakers together, until `periodFinish`
+    uint256 public rewardRate;
+
+    /// @notice Time `rewardPerTokenStored` was last updated
+    uint256 public lastUpdateTime;
+
+    /// @notice Rewards accumulated per staked token (scaled by 1e18) until `lastUpdateTime`
+    uint256 public rewardPerTokenStored;
+
+    /// @notice Delay between unstaking and withdrawing, 0 to withdraw at once
+    uint256 public unbondingPeriod;
+
+    /// @notice Stake of all accounts, deposited and locked
+    uint256 public totalStaked;
+
+    /// @notice Tokens deposited by each account
+    mapping(address => uint256) public deposited;
+
+    /// @notice Tokens of each account staked in place in CPROLocking
+    mapping(address => uint256) public lockedStake;
+
+    /// @notice Lock ID => account whose stake it is part of, zero when the lock is not staked
+    mapping(uint256 => address) public lockStaker;
+
+    /// @notice Lock ID => amount it adds to the stake of its staker
+    mapping(uint256 => uint256) public lockStakeAmount;
+
+    /// @notice `rewardPerTokenStored` at the last reward update of each account
+    mapping(address => uint256) public userRewardPerTokenPaid;
+
+    /// @notice Rewards earned by each account until its last reward update, not paid yet
+    mapping(address => uint256) public rewards;
+
+    /// @notice Tokens of each account being unbonded
+    mapping(address => Unbonding) public unbonding;
+
+    /// @notice Rewards of the time nothing was staked, owed to no one, settled at the last reward update
+    uint256 public unallocatedRewards;
+
+    event RewardAdded(uint256 reward, uint256 periodFinish);
+    event RewardsDurationUpdated(uint256 duration);
+    event UnbondingPeriodUpdated(uint256 period);
+    event Staked(address indexed account, uint256 amount);
+    event Unstaked(
+        address indexed account,
+        uint256 amount,
+        uint256 releaseTime
+    );
+    event Withdrawn(address indexed account, uint256 amount);
+    event RewardPaid(address indexed account, uint256 reward);
+    event LockStaked(
+        address indexed account,
+        uint256 indexed lockId,
+        uint256 amount
+    );
+    event LockUnstaked(
+        address indexed account,
+        uint256 indexed lockId,
+        uint256 amount
+    );
+    event LockStakeUpdated(
+        address indexed account,
+        uint256 indexed lockId,
+        uint256 amount
+    );
+    event UnallocatedRewardsRecovered(address indexed to, uint256 amount);
+
+    error InvalidAmount();
+    error InsufficientStake(uint256 staked, uint256 amount);
+    error NothingToWithdraw();
+    error UnbondingNotElapsed(uint256 releaseTime);
+    error RewardPeriodNotFinished(uint256 periodFinish);
+    error InvalidDuration();
+    error LockStakingDisabled();
+    error LockNotStakeable(uint256 lockId);
+    error LockNotStaked(uint256 lockId);
+    error NotLocking(address account);
+
+    /// @param token_ CPRO token
+    /// @param locking_ CPROLocking whose locks can be staked, zero for none
+    /// @param rewardsDuration_ Length of a reward period in seconds
+    /// @param unbondingPeriod_ Delay between unstaking and withdrawing in seconds
+    constructor(
+        address token_,
+        address locking_,
+        uint256 rewardsDuration_,
+        uint256 unbondingPeriod_
+    ) Ownable(msg.sender) {
+        require(token_ != address(0), "CPROStaking: token is zero address");
+        require(
+            locking_ == address(0) ||
+                address(CPROLocking(locking_).token()) == token_,
+            "CPROStaking: locking holds another token"
+        );
+        if (rewardsDuration_ == 0) revert InvalidDuration();
+        token = IERC20(token_);
+        locking = CPROLocking(locking_);
+        rewardsDuration = rewardsDuration_;
+        unbondingPeriod = unbondingPeriod_;
+    }
+
+    /// @dev Settle the rewards of `account` up to now before its stake changes.
+    modifier updateReward(address account) {
+        _updateReward(account);
+        _;
+    }
+
+    /// @notice Now, or the end of the reward period once it is over.
+    function lastTimeRewardApplicable() public view returns (uint256) {
+        return block.timestamp < periodFinish ? block.timestamp : periodFinish;
+    }
+
+    /// @notice Rewards accumulated per staked token so far, scaled by 1e18.
+    function rewardPerToken() public view returns (uint256) {
+        if (totalStaked == 0) {
+            return rewardPerTokenStored;
+        }
+        return
+            rewardPerTokenStored +
+            ((lastTimeRewardApplicable() - lastUpdateTime) *
+                rewardRate *
+                1e18) /
+            totalStaked;
+    }
+
+    /// @notice Stake of an account, deposited and locked.
+    function stakeOf(address account) public view returns (uint256) {
+        return deposited[account] + lockedStake[account];
+    }
+
+    /// @notice Rewards an account can claim now.
+    function earned(address account) public view returns (uint256) {
+        return
+            (stakeOf(account) *
+                (rewardPerToken() - userRewardPerTokenPaid[account])) /
+            1e18 +
+            rewards[account];
+    }
+
+    /// @notice Rewards paid over a whole reward period at the current rate.
+    function rewardForDuration() external view returns (uint256) {
+        return rewardRate * rewardsDuration;
+    }
+
+    /// @notice Stake tokens. The caller approves this contract beforehand.
+    function stake(
+        uint256 amount
+    ) external nonReentrant updateReward(msg.sender) {
+        if (amount == 0) revert InvalidAmount();
+        deposited[msg.sender] += amount;
+        totalStaked += amount;
+        token.safeTransferFrom(msg.sender, address(this), amount);
+        emit Staked(msg.sender, amount);
+    }
+
+    /// @notice Stop staking deposited tokens. They stop earning at once and can be withdrawn after the unbonding
+    /// period, which restarts for tokens already unbonding. Without unbonding period they are sent back at once.
+    function unstake(uint256 amount) external nonReentrant {
+        _unstake(msg.sender, amount);
+    }
+
+    /// @notice Withdraw unbonded tokens once their unbonding period is over.
+    function withdraw() external nonReentrant {
+        Unbonding memory pending = unbonding[msg.sender];
+        if (pending.amount == 0) revert NothingToWithdraw();
+        if (block.timestamp < pending.releaseTime) {
+            revert UnbondingNotElapsed(pending.releaseTime);
+        }
+        delete unbonding[msg.sender];
+        token.safeTransfer(msg.sender, pending.amount);
+        emit Withdrawn(msg.sender, pending.amount);
+    }
+
+    /// @notice Claim the rewards earned so far.
+    function claimRewards() external nonReentrant {
+        _claimRewards(msg.sender);
+    }
+
+    /// @notice Unstake every deposited token and claim the rewards. A staked lock keeps earning.
+    function exit() external nonReentrant {
+        uint256 amount = deposited[msg.sender];
+        if (amount > 0) {
+            _unstake(msg.sender, amount);
+        }
+        _claimRewards(msg.sender);
+    }
+
+    /// @notice Stake your lock of CPROLocking in place, until you unstake it or claim it.
+    function stakeLock() external nonReentrant updateReward(msg.sender) {
+        if (
+            address(locking) == address(0) ||
+            address(locking.lockStaking()) != address(this)
+        ) revert LockStakingDisabled();
+
+        uint256 lockId = locking.beneficiaryLockId(msg.sender);
+        if (
+            lockId == 0 ||
+            locking.lockClaimed(lockId) ||
+            locking.lockClaimExpired(lockId) ||
+            lockStaker[lockId] != address(0)
+        ) revert LockNotStakeable(lockId);
+
+        uint256 amount = locking.lockAmount(lockId);
+        lockStaker[lockId] = msg.sender;
+        lockStakeAmount[lockId] = amount;
+        lockedStake[msg.sender] += amount;
+        totalStaked += amount;
+        emit LockStaked(msg.sender, lockId, amount);
+    }
+
+    /// @notice Stop staking your lock. Its rewards so far stay claimable.
+    function unstakeLock() external nonReentrant {
+        uint256 lockId = locking.beneficiaryLockId(msg.sender);
+        if (lockStaker[lockId] != msg.sender) revert LockNotStaked(lockId);
+        _removeLock(lockId);
+    }
+
+    /// @inheritdoc ICPROLockStaking
+    function onLockClaimed(uint256 lockId) external {
+        _releaseLock(lockId);
+    }
+
+    /// @inheritdoc ICPROLockStaking
+    /// @dev The new holder can stake the lock again with `stakeLock`.
+    function onLockTransferred(uint256 lockId) external {
+        _releaseLock(lockId);
+    }
+
+    /// @inheritdoc ICPROLockStaking
+    /// @dev The stake follows the new amount of the lock, its rewards so far are settled first.
+    function onLockAmountChanged(uint256 lockId) external {
+        if (msg.sender != address(locking)) revert NotLocking(msg.sender);
+        address account = lockStaker[lockId];
+        if (account == address(0)) return;
+        _updateReward(account);
+
+        uint256 amount = locking.lockAmount(lockId);
+        uint256 previous = lockStakeAmount[lockId];
+        lockStakeAmount[lockId] = amount;
+        lockedStake[account] = lockedStake[account] - previous + amount;
+        totalStaked = totalStaked - previous + amount;
+        emit LockStakeUpdated(account, lockId, amount);
+    }
+
+    /// @notice Add rewards paid over a new reward period starting now. Rewards left from the current period are
+    /// added to them. The owner approves this contract beforehand.
+    function notifyRewardAmount(
+        uint256 reward
+    ) external onlyOwner updateReward(address(0)) {
+        if (reward == 0) revert InvalidAmount();
+        token.safeTransferFrom(msg.sender, address(this), reward);
+
+        if (block.timestamp < periodFinish) {
+            reward += (periodFinish - block.timestamp) * rewardRate;
+        }
+        rewardRate = reward / rewardsDuration;
+        if (rewardRate == 0) revert InvalidAmount();
+        lastUpdateTime = block.timestamp;
+        periodFinish = block.timestamp + rewardsDuration;
+        emit RewardAdded(reward, periodFinish);
+    }
+
+    /// @notice Change the length of the next reward periods, once the current one is over.
+    function setRewardsDuration(uint256 duration) external onlyOwner {
+        if (block.timestamp < periodFinish) {
+            revert RewardPeriodNotFinished(periodFinish);
+        }
+        if (duration == 0) revert InvalidDuration();
+        rewardsDuration = duration;
+        emit RewardsDurationUpdated(duration);
+    }
+
+    /// @notice Send the rewards of the time nothing was staked to `to`. Rewards owed to stakers and those left in
+    /// the current period stay.
+    function recoverUnallocatedRewards(
+        address to
+    ) external onlyOwner nonReentrant updateReward(address(0)) {
+        uint256 amount = unallocatedRewards;
+        if (amount == 0) revert NothingToWithdraw();
+        unallocatedRewards = 0;
+        token.safeTransfer(to, amount);
+        emit UnallocatedRewardsRecovered(to, amount);
+    }
+
+    /// @notice Change the unbonding period of the tokens unstaked from now on.
+    function setUnbondingPeriod(uint256 period) external onlyOwner {
+        unbondingPeriod = period;
+        emit UnbondingPeriodUpdated(period);
+    }
+
+    function _unstake(
+        address account,
+        uint256 amount
+    ) internal updateReward(account) {
+        if (amount == 0) revert InvalidAmount();
+        if (amount > deposited[account]) {
+            revert InsufficientStake(deposited[account], amount);
+        }
+        deposited[account] -= amount;
+        totalStaked -= amount;
+
+        if (unbondingPeriod == 0) {
+            token.safeTransfer(account, amount);
+            emit Unstaked(account, amount, block.timestamp);
+            emit Withdrawn(account, amount);
+        } else {
+            Unbonding storage pending = unbonding[account];
+            pending.amount += amount;
+            pending.releaseTime = block.timestamp + unbondingPeriod;
+            emit Unstaked(account, amount, pending.releaseTime);
+        }
+    }
+
+    function _claimRewards(address account) internal updateReward(account) {
+        uint256 reward = rewards[account];
+        if (reward > 0) {
+            rewards[account] = 0;
+            token.safeTransfer(account, reward);
+            emit RewardPaid(account, reward);
+        }
+    }
+
+    function _updateReward(address account) internal {
+        if (totalStaked == 0) {
+            unallocatedRewards +=
+                (lastTimeRewardApplicable() - lastUpdateTime) *
+                rewardRate;
+        }
+        rewardPerTokenStored = rewardPerToken();
+        lastUpdateTime = lastTimeRewardApplicable();
+        if (account != address(0)) {
+            rewards[account] = earned(account);
+            userRewardPerTokenPaid[account] = rewardPerTokenStored;
+        }
+    }
+
+    function _releaseLock(uint256 lockId) internal {
+        if (msg.sender != address(locking)) revert NotLocking(msg.sender);
+        if (lockStaker[lockId] != address(0)) {
+            _removeLock(lockId);
+        }
+    }
+
+    function _removeLock(uint256 lockId) internal {
+        address account = lockStaker[lockId];
+        _updateReward(account);
+
+        uint256 amount = lockStakeAmount[lockId];
+        delete lockStaker[lockId];
+        delete lockStakeAmount[lockId];
+        lockedStake[account] -= amount;
+        totalStaked -= amount;
+        emit LockUnstaked(account, lockId, amount);
+    }
+}
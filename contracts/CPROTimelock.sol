@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/governance/TimelockController.sol";
+
+/**
+ * Timelock executing the proposals of CPROGovernor. It is meant to hold the roles of CPROToken
+ * and the ownership of CPROVesting and CPROLocking, so every privileged call waits `minDelay`.
+ */
+contract CPROTimelock is TimelockController {
+    /**
+     * @param minDelay Minimum delay between queueing and executing an operation, in seconds
+     * @param proposers Accounts allowed to queue and cancel operations, usually only CPROGovernor
+     * @param executors Accounts allowed to execute ready operations, address(0) lets anyone execute
+     * @param admin Optional account able to configure the timelock roles, address(0) for none
+     */
+    constructor(
+        uint256 minDelay,
+        address[] memory proposers,
+        address[] memory executors,
+        address admin
+    ) TimelockController(minDelay, proposers, executors, admin) {}
+}
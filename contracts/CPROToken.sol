@@ -3,53 +3,278 @@ pragma solidity ^0.8.28;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/access/extensions/AccessControlEnumerable.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Burnable.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Capped.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Pausable.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Votes.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./ICPROBridgeToken.sol";
+import "./ICPROCompliance.sol";
 
 contract CPROToken is
     ERC20,
-    Ownable,
+    AccessControlEnumerable,
     ERC20Burnable,
     ERC20Capped,
     ERC20Pausable,
     ERC20Votes,
-    ERC20Permit
+    ERC20Permit,
+    ICPROBridgeToken
 {
     uint256 public constant MAX_SUPPLY = 1_000_000_000 * 10 ** 18;
 
+    /// @notice Manages the operational roles below. Itself managed by DEFAULT_ADMIN_ROLE.
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    /// @notice Can mint new tokens
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+    /// @notice Can pause and unpause transfers
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    /// @notice Can burn its own treasury balance and recover foreign tokens
+    bytes32 public constant TREASURY_ROLE = keccak256("TREASURY_ROLE");
+
+    /// @notice Lower bound of `mintDelay`
+    uint256 public constant MIN_MINT_DELAY = 1 days;
+    /// @notice Time a queued mint stays executable once its delay has passed
+    uint256 public constant MINT_REQUEST_VALIDITY = 30 days;
+
+    /// @notice A queued mint, executable once `executableAt` is reached
+    struct MintRequest {
+        address to;
+        uint256 amount;
+        uint256 executableAt;
+        bool executed;
+        bool cancelled;
+    }
+
+    /// @notice Delay between queueing a mint and being able to execute it
+    uint256 public mintDelay = 2 days;
+    /// @notice Maximum amount minted per epoch
+    uint256 public mintEpochCeiling = MAX_SUPPLY / 100;
+    /// @notice Length of a mint epoch
+    uint256 public mintEpochDuration = 30 days;
+    /// @notice Start of the epoch `mintedInEpoch` refers to
+    uint256 public mintEpochStart;
+    /// @notice Amount minted since `mintEpochStart`
+    uint256 public mintedInEpoch;
+
+    /// @notice Number of mint requests queued so far, also the id of the last one
+    uint256 public mintRequestCount;
+    mapping(uint256 => MintRequest) public mintRequests;
+
+    /// @notice Transfer restrictions checked on every transfer, mint and burn, none when zero
+    ICPROCompliance public complianceModule;
+
+    /// @notice Time over which a bridge limit replenishes from zero to its maximum
+    uint256 public constant BRIDGE_LIMIT_DURATION = 1 days;
+
+    /// @notice Rate limit of a bridge in one direction. `currentLimit` is the amount left at `timestamp`.
+    struct BridgeLimit {
+        uint256 maxLimit;
+        uint256 currentLimit;
+        uint256 timestamp;
+    }
+
+    mapping(address => BridgeLimit) private _mintingLimits;
+    mapping(address => BridgeLimit) private _burningLimits;
+
+    /// @notice Tokens burned by bridges and not minted back, i.e. held on other chains. They still count
+    /// towards `MAX_SUPPLY`.
+    uint256 public bridgedOutSupply;
+
     event TokensMinted(address indexed to, uint256 amount);
     event TokensBurnedByOwner(uint256 amount);
     event TokensRecovered(address indexed tokenAddress, uint256 amount);
+    event MintQueued(
+        uint256 indexed requestId,
+        address indexed to,
+        uint256 amount,
+        uint256 executableAt
+    );
+    event MintExecuted(
+        uint256 indexed requestId,
+        address indexed to,
+        uint256 amount
+    );
+    event MintCancelled(uint256 indexed requestId);
+    event MintDelayUpdated(uint256 mintDelay);
+    event MintCeilingUpdated(uint256 ceiling, uint256 epochDuration);
+    event ComplianceModuleUpdated(address indexed module);
+    event BridgeLimitsUpdated(
+        address indexed bridge,
+        uint256 mintingLimit,
+        uint256 burningLimit
+    );
+    event BridgeMinted(
+        address indexed bridge,
+        address indexed to,
+        uint256 amount
+    );
+    event BridgeBurned(
+        address indexed bridge,
+        address indexed from,
+        uint256 amount
+    );
 
     constructor()
         ERC20("CPROToken", "CPRO")
         ERC20Capped(MAX_SUPPLY)
-        Ownable(msg.sender)
         ERC20Permit("CPROToken")
     {
-        _mint(msg.sender, 1000000 * 10 ** decimals());
+        _setRoleAdmin(ADMIN_ROLE, DEFAULT_ADMIN_ROLE);
+        _setRoleAdmin(MINTER_ROLE, ADMIN_ROLE);
+        _setRoleAdmin(PAUSER_ROLE, ADMIN_ROLE);
+        _setRoleAdmin(TREASURY_ROLE, ADMIN_ROLE);
+
+        // The deployer starts with every role and is expected to hand them out
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(ADMIN_ROLE, msg.sender);
+        _grantRole(MINTER_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
+        _grantRole(TREASURY_ROLE, msg.sender);
+
+        mintEpochStart = block.timestamp;
+
+        uint256 initialSupply = _initialSupply();
+        if (initialSupply > 0) {
+            _mint(msg.sender, initialSupply);
+        }
     }
 
     /**
-     * Mint new tokens. Only contract owner can mint new tokens when not in paused state.
+     * Queue a mint. It can be executed after `mintDelay`, for `MINT_REQUEST_VALIDITY`, and cancelled until then.
      * @param to Receiver address of the new tokens
      * @param amount amount of tokens to mint in wei
+     * @return requestId Id of the queued request
      */
-    function mint(address to, uint256 amount) external onlyOwner whenNotPaused {
-        _mint(to, amount);
-        emit TokensMinted(to, amount);
+    function queueMint(
+        address to,
+        uint256 amount
+    ) external virtual onlyRole(MINTER_ROLE) returns (uint256 requestId) {
+        require(to != address(0), "CPROToken: Invalid receiver");
+        require(amount > 0, "CPROToken: Amount must be greater than 0");
+
+        requestId = ++mintRequestCount;
+        uint256 executableAt = block.timestamp + mintDelay;
+        mintRequests[requestId] = MintRequest(
+            to,
+            amount,
+            executableAt,
+            false,
+            false
+        );
+        emit MintQueued(requestId, to, amount, executableAt);
+    }
+
+    /**
+     * Mint the tokens of a queued request. Only minters can execute, once the delay has passed and before
+     * the request expires, when not in paused state and within the ceiling of the current epoch.
+     * @param requestId Id returned by `queueMint`
+     */
+    function executeMint(
+        uint256 requestId
+    ) external onlyRole(MINTER_ROLE) whenNotPaused {
+        MintRequest storage request = _pendingMintRequest(requestId);
+        require(
+            block.timestamp >= request.executableAt,
+            "CPROToken: Mint delay not elapsed"
+        );
+        require(
+            block.timestamp < request.executableAt + MINT_REQUEST_VALIDITY,
+            "CPROToken: Mint request expired"
+        );
+        require(
+            totalSupply() + bridgedOutSupply + request.amount <= MAX_SUPPLY,
+            "CPROToken: Cap exceeded"
+        );
+
+        uint256 epochStart = currentMintEpochStart();
+        if (epochStart != mintEpochStart) {
+            mintEpochStart = epochStart;
+            mintedInEpoch = 0;
+        }
+        require(
+            mintedInEpoch + request.amount <= mintEpochCeiling,
+            "CPROToken: Epoch mint ceiling exceeded"
+        );
+        mintedInEpoch += request.amount;
+        request.executed = true;
+
+        _mint(request.to, request.amount);
+        emit MintExecuted(requestId, request.to, request.amount);
+        emit TokensMinted(request.to, request.amount);
+    }
+
+    /**
+     * Cancel a queued request. Any minter or admin can cancel any pending request, so that one of them
+     * can veto the mints of another.
+     * @param requestId Id returned by `queueMint`
+     */
+    function cancelMint(uint256 requestId) external {
+        if (!hasRole(MINTER_ROLE, msg.sender)) {
+            _checkRole(ADMIN_ROLE);
+        }
+        _pendingMintRequest(requestId).cancelled = true;
+        emit MintCancelled(requestId);
+    }
+
+    /**
+     * Change the delay of the requests queued from now on.
+     * @param newDelay New delay in seconds, at least `MIN_MINT_DELAY`
+     */
+    function setMintDelay(uint256 newDelay) external onlyRole(ADMIN_ROLE) {
+        require(newDelay >= MIN_MINT_DELAY, "CPROToken: Mint delay too short");
+        mintDelay = newDelay;
+        emit MintDelayUpdated(newDelay);
+    }
+
+    /**
+     * Change the per-epoch mint ceiling. A new epoch of `epochDuration` starts now, in which the amount
+     * already minted in the current epoch still counts, so that changing the duration cannot reset it.
+     * @param ceiling Maximum amount minted per epoch
+     * @param epochDuration Length of an epoch in seconds
+     */
+    function setMintCeiling(
+        uint256 ceiling,
+        uint256 epochDuration
+    ) external onlyRole(ADMIN_ROLE) {
+        require(epochDuration > 0, "CPROToken: Invalid epoch duration");
+        if (currentMintEpochStart() != mintEpochStart) {
+            mintedInEpoch = 0;
+        }
+        mintEpochStart = block.timestamp;
+        mintEpochCeiling = ceiling;
+        mintEpochDuration = epochDuration;
+        emit MintCeilingUpdated(ceiling, epochDuration);
+    }
+
+    /**
+     * Start of the current mint epoch. Epochs follow each other from deployment, or from the last change of
+     * the ceiling.
+     */
+    function currentMintEpochStart() public view returns (uint256) {
+        return
+            mintEpochStart +
+            ((block.timestamp - mintEpochStart) / mintEpochDuration) *
+            mintEpochDuration;
+    }
+
+    /**
+     * Amount that can still be minted in the current epoch.
+     */
+    function mintableInCurrentEpoch() external view returns (uint256) {
+        uint256 minted = currentMintEpochStart() == mintEpochStart
+            ? mintedInEpoch
+            : 0;
+        return minted >= mintEpochCeiling ? 0 : mintEpochCeiling - minted;
     }
 
     /**
      * Burns a set amount of tokens by sending them to a burn address removing a set amount of tokens from supply. Effect similar to that of public trading company buying back its stock.
-     * @param amount amount of tokens to burn from the owners balance
+     * @param amount amount of tokens to burn from the treasury balance of the caller
      */
-    function burnFromOwner(uint256 amount) external onlyOwner {
+    function burnFromOwner(uint256 amount) external onlyRole(TREASURY_ROLE) {
         _burn(msg.sender, amount);
         emit TokensBurnedByOwner(amount);
     }
@@ -58,36 +283,208 @@ contract CPROToken is
      * Emergency pause functionality for stop all transfers
      */
 
-    function pause() external onlyOwner {
+    function pause() external onlyRole(PAUSER_ROLE) {
         _pause();
     }
 
-    function unpause() external onlyOwner {
+    function unpause() external onlyRole(PAUSER_ROLE) {
         _unpause();
     }
 
+    /**
+     * Set the module consulted before every balance change, to contain single accounts without pausing.
+     * @param module ICPROCompliance implementation, zero to remove the restrictions
+     */
+    function setComplianceModule(
+        address module
+    ) external onlyRole(ADMIN_ROLE) {
+        complianceModule = ICPROCompliance(module);
+        emit ComplianceModuleUpdated(module);
+    }
+
+    /**
+     * Set the limits of a bridge, zero for both to revoke it. The amounts left are moved by the change of
+     * each maximum, and replenish to it over `BRIDGE_LIMIT_DURATION`.
+     * @param bridge Bridge contract minting and burning on this chain
+     * @param mintingLimit Maximum amount minted per `BRIDGE_LIMIT_DURATION`
+     * @param burningLimit Maximum amount burned per `BRIDGE_LIMIT_DURATION`
+     */
+    function setBridgeLimits(
+        address bridge,
+        uint256 mintingLimit,
+        uint256 burningLimit
+    ) external onlyRole(ADMIN_ROLE) {
+        require(bridge != address(0), "CPROToken: Invalid bridge");
+        _setBridgeLimit(_mintingLimits[bridge], mintingLimit);
+        _setBridgeLimit(_burningLimits[bridge], burningLimit);
+        emit BridgeLimitsUpdated(bridge, mintingLimit, burningLimit);
+    }
+
+    /**
+     * Mint tokens received from another chain. On this chain, the home of the supply, a bridge only
+     * mints back tokens that bridges burned.
+     * @param to Receiver of the tokens
+     * @param amount Amount received
+     */
+    function bridgeMint(address to, uint256 amount) external {
+        require(amount > 0, "CPROToken: Amount must be greater than 0");
+        _useBridgeLimit(
+            _mintingLimits[msg.sender],
+            amount,
+            "CPROToken: Bridge minting limit exceeded"
+        );
+        _recordBridgeMint(amount);
+        _mint(to, amount);
+        emit BridgeMinted(msg.sender, to, amount);
+    }
+
+    /**
+     * Burn tokens sent to another chain.
+     * @param from Holder of the tokens, who approved the bridge unless it is the caller
+     * @param amount Amount sent
+     */
+    function bridgeBurn(address from, uint256 amount) external {
+        require(amount > 0, "CPROToken: Amount must be greater than 0");
+        _useBridgeLimit(
+            _burningLimits[msg.sender],
+            amount,
+            "CPROToken: Bridge burning limit exceeded"
+        );
+        if (from != msg.sender) {
+            _spendAllowance(from, msg.sender, amount);
+        }
+        _recordBridgeBurn(amount);
+        _burn(from, amount);
+        emit BridgeBurned(msg.sender, from, amount);
+    }
+
+    function mintingMaxLimitOf(address bridge) external view returns (uint256) {
+        return _mintingLimits[bridge].maxLimit;
+    }
+
+    function burningMaxLimitOf(address bridge) external view returns (uint256) {
+        return _burningLimits[bridge].maxLimit;
+    }
+
+    function mintingCurrentLimitOf(
+        address bridge
+    ) external view returns (uint256) {
+        return _currentBridgeLimit(_mintingLimits[bridge]);
+    }
+
+    function burningCurrentLimitOf(
+        address bridge
+    ) external view returns (uint256) {
+        return _currentBridgeLimit(_burningLimits[bridge]);
+    }
+
+    /**
+     * Recover foreign tokens sent to this contract by mistake. They are sent to the calling treasury account.
+     * @param tokenAddress Token to recover
+     * @param tokenAmount Amount to recover
+     */
     function recoverERC20(
         address tokenAddress,
         uint256 tokenAmount
-    ) external onlyOwner {
+    ) external onlyRole(TREASURY_ROLE) {
         require(
             tokenAddress != address(this),
             "CPROToken: Cannot recover own tokens"
         );
         require(tokenAddress != address(0), "CPROToken: Invalid token address");
         require(tokenAmount > 0, "CPROToken: Amount must be greater than 0");
-        SafeERC20.safeTransfer(IERC20(tokenAddress), owner(), tokenAmount);
+        SafeERC20.safeTransfer(IERC20(tokenAddress), msg.sender, tokenAmount);
         emit TokensRecovered(tokenAddress, tokenAmount);
     }
 
+    function _pendingMintRequest(
+        uint256 requestId
+    ) private view returns (MintRequest storage request) {
+        request = mintRequests[requestId];
+        require(request.to != address(0), "CPROToken: Unknown mint request");
+        require(
+            !request.executed && !request.cancelled,
+            "CPROToken: Mint request not pending"
+        );
+    }
+
+    /**
+     * Supply minted to the deployer. Deployments on other chains start empty and receive their supply
+     * from bridges.
+     */
+    function _initialSupply() internal view virtual returns (uint256) {
+        return 1000000 * 10 ** decimals();
+    }
+
+    /**
+     * Accounting of a bridge mint. Tokens come back from another chain, so they must have left first.
+     */
+    function _recordBridgeMint(uint256 amount) internal virtual {
+        require(
+            amount <= bridgedOutSupply,
+            "CPROToken: Exceeds bridged out supply"
+        );
+        bridgedOutSupply -= amount;
+    }
+
+    /**
+     * Accounting of a bridge burn. The tokens leave for another chain.
+     */
+    function _recordBridgeBurn(uint256 amount) internal virtual {
+        bridgedOutSupply += amount;
+    }
+
+    function _currentBridgeLimit(
+        BridgeLimit storage limit
+    ) private view returns (uint256) {
+        uint256 elapsed = block.timestamp - limit.timestamp;
+        if (elapsed >= BRIDGE_LIMIT_DURATION) {
+            return limit.maxLimit;
+        }
+        uint256 replenished = limit.currentLimit +
+            (elapsed * limit.maxLimit) /
+            BRIDGE_LIMIT_DURATION;
+        return replenished > limit.maxLimit ? limit.maxLimit : replenished;
+    }
+
+    function _setBridgeLimit(
+        BridgeLimit storage limit,
+        uint256 maxLimit
+    ) private {
+        uint256 current = _currentBridgeLimit(limit);
+        if (maxLimit > limit.maxLimit) {
+            current += maxLimit - limit.maxLimit;
+        } else {
+            uint256 decrease = limit.maxLimit - maxLimit;
+            current = current > decrease ? current - decrease : 0;
+        }
+        limit.maxLimit = maxLimit;
+        limit.currentLimit = current;
+        limit.timestamp = block.timestamp;
+    }
+
+    function _useBridgeLimit(
+        BridgeLimit storage limit,
+        uint256 amount,
+        string memory message
+    ) private {
+        uint256 current = _currentBridgeLimit(limit);
+        require(amount <= current, message);
+        limit.currentLimit = current - amount;
+        limit.timestamp = block.timestamp;
+    }
+
     /**
-     * Voting functionality
+     * Voting functionality, and the compliance check of every balance change
      */
     function _update(
         address from,
         address to,
         uint256 amount
     ) internal override(ERC20, ERC20Capped, ERC20Pausable, ERC20Votes) {
+        if (address(complianceModule) != address(0)) {
+            complianceModule.checkTransfer(from, to, amount);
+        }
         super._update(from, to, amount);
     }
 
@@ -5,10 +5,23 @@ import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/Nonces.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "./CPROEscrowedVotes.sol";
+import "./ICPROPositions.sol";
 
-contract CPROVesting is Ownable, ReentrancyGuard {
+contract CPROVesting is
+    Ownable,
+    ReentrancyGuard,
+    CPROEscrowedVotes,
+    EIP712,
+    Nonces,
+    ICPROPositionSource
+{
     using SafeERC20 for IERC20;
     struct VestingSchedule {
+        address beneficiary; // Who receives the vested tokens
         uint256 totalAmount; // Total tokens to be vested
         uint256 claimedAmount; // Amount already claimed
         uint256 startTime; // When vesting starts
@@ -16,40 +29,170 @@ contract CPROVesting is Ownable, ReentrancyGuard {
         uint256 vestingDuration; // Total vesting duration in seconds
         bool revoked; // Whether the schedule has been revoked
         bool exists; // Whether this schedule exists
+        bool revocable; // Whether the owner can revoke the schedule, fixed at creation
+    }
+
+    // Input row of createVestingSchedulesBatch
+    struct ScheduleParams {
+        address beneficiary;
+        uint256 totalAmount;
+        uint256 startTime;
+        uint256 cliffDuration;
+        uint256 vestingDuration;
+        bool revocable;
+    }
+
+    // Shape of the vesting between startTime and startTime + vestingDuration
+    enum CurveType {
+        Linear, // Per-second linear vesting after the cliff
+        Stepped, // Linear vesting released every stepInterval seconds
+        InitialUnlock, // initialUnlockBps released at startTime, the rest linear after the cliff
+        Milestones // Tranches released at fixed offsets from startTime
+    }
+
+    // Tranche of a Milestones curve
+    struct Milestone {
+        uint256 offset; // Seconds after startTime
+        uint256 unlockBps; // Share of totalAmount released, in basis points
+    }
+
+    // Vesting curve of a schedule, only the fields of its curve type are set
+    struct VestingCurve {
+        CurveType curveType;
+        uint256 stepInterval; // Stepped
+        uint256 initialUnlockBps; // InitialUnlock
+        Milestone[] milestones; // Milestones, ordered by offset
+    }
+
+    uint256 private constant BPS = 10_000;
+    uint256 public constant MAX_MILESTONES = 48;
+    uint256 public constant RECOVERY_DELAY = 7 days;
+
+    // EIP-712 type of the claims signed for claimWithSignature
+    bytes32 public constant CLAIM_TYPEHASH =
+        keccak256(
+            "Claim(address beneficiary,address recipient,uint256 nonce,uint256 deadline)"
+        );
+
+    // Owner-initiated move of a schedule to a new address
+    struct ScheduleRecovery {
+        address newBeneficiary;
+        uint256 executableAt;
     }
 
     IERC20 public immutable token;
 
-    // Beneficiary address => VestingSchedule
-    mapping(address => VestingSchedule) public vestingSchedules;
+    // Schedule ID => VestingSchedule
+    mapping(uint256 => VestingSchedule) public vestingSchedules;
+
+    // Schedule ID => VestingCurve, Linear unless set at creation
+    mapping(uint256 => VestingCurve) private scheduleCurves;
+
+    // Beneficiary address => IDs of all their schedules
+    mapping(address => uint256[]) private beneficiarySchedules;
 
-    // All beneficiaries
+    // All beneficiaries, including those who transferred all their schedules away
     address[] public beneficiaries;
 
+    // Whether an address is listed in beneficiaries
+    mapping(address => bool) public isBeneficiary;
+
+    // Schedule ID => address proposed by the beneficiary to take the schedule over
+    mapping(uint256 => address) public pendingScheduleTransfers;
+
+    // Schedule ID => pending owner-initiated recovery
+    mapping(uint256 => ScheduleRecovery) public scheduleRecoveries;
+
+    // Counter for unique schedule IDs, 0 is never used
+    uint256 private nextScheduleId = 1;
+
+    // Receives the tokens returned by revocations, the owner when zero
+    address public revocationRecipient;
+
+    // Sum of the totalAmount of all schedules
+    uint256 public totalAllocated;
+
+    // Tokens paid to beneficiaries, by claims and revocations
+    uint256 public totalClaimed;
+
+    // Tokens returned by revocations, unvested and forfeited
+    uint256 public totalRevoked;
+
+    // ERC-721 collection representing the schedules, zero until set
+    ICPROPositions public positions;
+
+    // Schedule ID => whether its beneficiary cancelled a recovery, none can be initiated until the schedule moves
+    mapping(uint256 => bool) public recoveryVetoed;
+
+    // Schedule ID => whether its token is kept from moving through `positions`
+    mapping(uint256 => bool) public nonTransferableSchedule;
+
     // Events
     event VestingScheduleCreated(
         address indexed beneficiary,
+        uint256 indexed scheduleId,
         uint256 totalAmount,
         uint256 startTime,
         uint256 cliffDuration,
         uint256 vestingDuration
     );
 
-    event TokensClaimed(address indexed beneficiary, uint256 amount);
-    event VestingRevoked(address indexed beneficiary, uint256 unvestedAmount);
+    event VestingCurveSet(uint256 indexed scheduleId, CurveType curveType);
+
+    event TokensClaimed(
+        address indexed beneficiary,
+        uint256 indexed scheduleId,
+        uint256 amount
+    );
+    event VestingRevoked(
+        address indexed beneficiary,
+        uint256 indexed scheduleId,
+        uint256 unvestedAmount
+    );
+    event RevocationPolicyApplied(
+        uint256 indexed scheduleId,
+        bool badLeaver,
+        uint256 forfeitedVestedAmount,
+        address indexed returnedTo,
+        uint256 returnedAmount
+    );
+    event RevocationRecipientUpdated(address indexed revocationRecipient);
+    event ScheduleTransferProposed(
+        uint256 indexed scheduleId,
+        address indexed beneficiary,
+        address indexed newBeneficiary
+    );
+    event ScheduleRecoveryInitiated(
+        uint256 indexed scheduleId,
+        address indexed beneficiary,
+        address indexed newBeneficiary,
+        uint256 executableAt
+    );
+    event ScheduleRecoveryCancelled(uint256 indexed scheduleId);
+    event ScheduleTransferred(
+        uint256 indexed scheduleId,
+        address indexed previousBeneficiary,
+        address indexed newBeneficiary
+    );
+    event PositionsSet(address indexed positions);
+    event ScheduleTransferableSet(
+        uint256 indexed scheduleId,
+        bool transferable
+    );
 
-    constructor(address _token) Ownable(msg.sender) {
+    constructor(address _token) Ownable(msg.sender) EIP712("CPROVesting", "1") {
         require(_token != address(0), "CPROVesting: token is zero address");
         token = IERC20(_token);
     }
 
     /**
-     * @dev Creates a vesting schedule for a beneficiary
+     * @dev Creates a new revocable vesting schedule for a beneficiary. A beneficiary can hold several schedules.
      * @param beneficiary Address of the beneficiary
      * @param totalAmount Total amount of tokens to vest
      * @param startTime Timestamp vesting start
      * @param cliffDuration Duration of cliff period in seconds
      * @param vestingDuration Total vesting duration in seconds
+     * @return scheduleId Identifier of the new schedule
      */
     function createVestingSchedule(
         address beneficiary,
@@ -57,7 +200,110 @@ contract CPROVesting is Ownable, ReentrancyGuard {
         uint256 startTime,
         uint256 cliffDuration,
         uint256 vestingDuration
-    ) external onlyOwner {
+    ) external onlyOwner returns (uint256 scheduleId) {
+        // Transfer tokens to this contract for vesting
+        _pullTokens(totalAmount);
+
+        scheduleId = _createVestingSchedule(
+            beneficiary,
+            totalAmount,
+            startTime,
+            cliffDuration,
+            vestingDuration,
+            true
+        );
+    }
+
+    /**
+     * @dev Creates a new vesting schedule following another curve than per-second linear vesting.
+     * The cliff applies to every curve, except for the initial unlock of an InitialUnlock curve.
+     * @param params Parameters of the schedule
+     * @param curve Curve of the schedule, see `VestingCurve`
+     * @return scheduleId Identifier of the new schedule
+     */
+    function createVestingScheduleWithCurve(
+        ScheduleParams calldata params,
+        VestingCurve calldata curve
+    ) external onlyOwner returns (uint256 scheduleId) {
+        // Transfer tokens to this contract for vesting
+        _pullTokens(params.totalAmount);
+
+        scheduleId = _createVestingSchedule(
+            params.beneficiary,
+            params.totalAmount,
+            params.startTime,
+            params.cliffDuration,
+            params.vestingDuration,
+            params.revocable
+        );
+        _setVestingCurve(scheduleId, params.vestingDuration, curve);
+    }
+
+    /**
+     * @dev Creates several vesting schedules at once, pulling the summed amount in a single transfer.
+     * Every row is validated, one invalid row reverts the whole batch.
+     * @param schedules Parameters of the schedules to create
+     * @return scheduleIds Identifiers of the new schedules, in input order
+     */
+    function createVestingSchedulesBatch(
+        ScheduleParams[] calldata schedules
+    ) external onlyOwner returns (uint256[] memory scheduleIds) {
+        require(schedules.length > 0, "CPROVesting: empty batch");
+
+        uint256 batchTotal;
+        for (uint256 i = 0; i < schedules.length; i++) {
+            batchTotal += schedules[i].totalAmount;
+        }
+
+        // Transfer tokens to this contract for vesting
+        _pullTokens(batchTotal);
+
+        scheduleIds = new uint256[](schedules.length);
+        for (uint256 i = 0; i < schedules.length; i++) {
+            ScheduleParams calldata params = schedules[i];
+            scheduleIds[i] = _createVestingSchedule(
+                params.beneficiary,
+                params.totalAmount,
+                params.startTime,
+                params.cliffDuration,
+                params.vestingDuration,
+                params.revocable
+            );
+        }
+    }
+
+    /**
+     * @dev Pulls `amount` tokens from the caller for new schedules. Reverts unless the whole amount arrived,
+     * rejecting fee-on-transfer tokens, and unless the tokens held then cover every schedule, the new ones
+     * included, rejecting tokens whose balances were rebased down.
+     */
+    function _pullTokens(uint256 amount) internal {
+        uint256 balanceBefore = token.balanceOf(address(this));
+        token.safeTransferFrom(msg.sender, address(this), amount);
+        uint256 balanceAfter = token.balanceOf(address(this));
+        require(
+            balanceAfter >= balanceBefore + amount,
+            "CPROVesting: fee-on-transfer tokens not supported"
+        );
+        require(
+            balanceAfter + totalEscrowed >=
+                totalAllocated - totalClaimed - totalRevoked + amount,
+            "CPROVesting: insolvent"
+        );
+    }
+
+    /**
+     * @dev Validates and stores a new vesting schedule. The caller is responsible for funding it,
+     * the tokens move on to the beneficiary's voting escrow if they have one.
+     */
+    function _createVestingSchedule(
+        address beneficiary,
+        uint256 totalAmount,
+        uint256 startTime,
+        uint256 cliffDuration,
+        uint256 vestingDuration,
+        bool revocable
+    ) internal returns (uint256 scheduleId) {
         require(
             beneficiary != address(0),
             "CPROVesting: beneficiary is zero address"
@@ -71,28 +317,27 @@ contract CPROVesting is Ownable, ReentrancyGuard {
             cliffDuration <= vestingDuration,
             "CPROVesting: cliff duration exceeds vesting duration"
         );
-        require(
-            !vestingSchedules[beneficiary].exists,
-            "CPROVesting: schedule already exists for beneficiary"
-        );
 
-        // Transfer tokens to this contract for vesting
-        token.safeTransferFrom(msg.sender, address(this), totalAmount);
-
-        vestingSchedules[beneficiary] = VestingSchedule({
+        scheduleId = nextScheduleId++;
+        vestingSchedules[scheduleId] = VestingSchedule({
+            beneficiary: beneficiary,
             totalAmount: totalAmount,
             claimedAmount: 0,
             startTime: startTime,
             cliffDuration: cliffDuration,
             vestingDuration: vestingDuration,
             revoked: false,
-            exists: true
+            exists: true,
+            revocable: revocable
         });
 
-        beneficiaries.push(beneficiary);
+        _addBeneficiarySchedule(beneficiary, scheduleId);
+        totalAllocated += totalAmount;
+        _depositToEscrow(beneficiary, totalAmount);
 
         emit VestingScheduleCreated(
             beneficiary,
+            scheduleId,
             totalAmount,
             startTime,
             cliffDuration,
@@ -101,50 +346,158 @@ contract CPROVesting is Ownable, ReentrancyGuard {
     }
 
     /**
-     * @dev Calculates the amount of tokens that can be claimed by a beneficiary
-     * @param beneficiary Address to check
+     * @dev Validates and stores the curve of a new schedule. Parameters of other curve types must be left empty.
+     */
+    function _setVestingCurve(
+        uint256 scheduleId,
+        uint256 vestingDuration,
+        VestingCurve calldata curve
+    ) internal {
+        CurveType curveType = curve.curveType;
+        require(
+            curveType == CurveType.Stepped || curve.stepInterval == 0,
+            "CPROVesting: step interval not used by curve"
+        );
+        require(
+            curveType == CurveType.InitialUnlock || curve.initialUnlockBps == 0,
+            "CPROVesting: initial unlock not used by curve"
+        );
+        require(
+            curveType == CurveType.Milestones || curve.milestones.length == 0,
+            "CPROVesting: milestones not used by curve"
+        );
+
+        VestingCurve storage stored = scheduleCurves[scheduleId];
+        stored.curveType = curveType;
+
+        if (curveType == CurveType.Stepped) {
+            require(
+                curve.stepInterval > 0 && curve.stepInterval <= vestingDuration,
+                "CPROVesting: invalid step interval"
+            );
+            stored.stepInterval = curve.stepInterval;
+        } else if (curveType == CurveType.InitialUnlock) {
+            require(
+                curve.initialUnlockBps <= BPS,
+                "CPROVesting: initial unlock exceeds 100%"
+            );
+            stored.initialUnlockBps = curve.initialUnlockBps;
+        } else if (curveType == CurveType.Milestones) {
+            uint256 count = curve.milestones.length;
+            require(
+                count > 0 && count <= MAX_MILESTONES,
+                "CPROVesting: invalid milestone count"
+            );
+
+            uint256 totalBps;
+            for (uint256 i = 0; i < count; i++) {
+                Milestone calldata milestone = curve.milestones[i];
+                require(
+                    i == 0 || milestone.offset > curve.milestones[i - 1].offset,
+                    "CPROVesting: milestones not in order"
+                );
+                require(
+                    milestone.unlockBps > 0,
+                    "CPROVesting: empty milestone"
+                );
+                totalBps += milestone.unlockBps;
+                stored.milestones.push(milestone);
+            }
+            require(
+                curve.milestones[count - 1].offset <= vestingDuration,
+                "CPROVesting: milestone after vesting end"
+            );
+            require(totalBps == BPS, "CPROVesting: milestones must total 100%");
+        }
+
+        emit VestingCurveSet(scheduleId, curveType);
+    }
+
+    /**
+     * @dev Calculates the amount of tokens that can be claimed from a single schedule
+     * @param scheduleId Schedule to check
      * @return claimableAmount Amount of tokens that can be claimed
      */
-    function getClaimableAmount(
-        address beneficiary
+    function getScheduleClaimableAmount(
+        uint256 scheduleId
     ) public view returns (uint256) {
-        VestingSchedule storage schedule = vestingSchedules[beneficiary];
+        VestingSchedule storage schedule = vestingSchedules[scheduleId];
 
         if (!schedule.exists || schedule.revoked) {
             return 0;
         }
 
-        uint256 vested = _calculateVestedAmount(schedule);
+        uint256 vested = _calculateVestedAmount(scheduleId);
         if (vested <= schedule.claimedAmount) return 0;
         return vested - schedule.claimedAmount;
     }
 
     /**
-     * @dev Calculates total vested amount for a beneficiary at current time
-     * @param beneficiary Address to check
+     * @dev Calculates total vested amount of a single schedule at current time
+     * @param scheduleId Schedule to check
      * @return vestedAmount Total amount vested so far
      */
-    function getVestedAmount(
-        address beneficiary
+    function getScheduleVestedAmount(
+        uint256 scheduleId
     ) public view returns (uint256) {
-        VestingSchedule storage schedule = vestingSchedules[beneficiary];
+        VestingSchedule storage schedule = vestingSchedules[scheduleId];
 
         if (!schedule.exists || schedule.revoked) {
             return 0;
         }
 
-        return _calculateVestedAmount(schedule);
+        return _calculateVestedAmount(scheduleId);
+    }
+
+    /**
+     * @dev Calculates the amount of tokens that can be claimed by a beneficiary across all their schedules
+     * @param beneficiary Address to check
+     * @return claimableAmount Amount of tokens that can be claimed
+     */
+    function getClaimableAmount(
+        address beneficiary
+    ) public view returns (uint256 claimableAmount) {
+        uint256[] storage ids = beneficiarySchedules[beneficiary];
+        for (uint256 i = 0; i < ids.length; i++) {
+            claimableAmount += getScheduleClaimableAmount(ids[i]);
+        }
+    }
+
+    /**
+     * @dev Calculates total vested amount for a beneficiary across all their schedules
+     * @param beneficiary Address to check
+     * @return vestedAmount Total amount vested so far
+     */
+    function getVestedAmount(
+        address beneficiary
+    ) public view returns (uint256 vestedAmount) {
+        uint256[] storage ids = beneficiarySchedules[beneficiary];
+        for (uint256 i = 0; i < ids.length; i++) {
+            vestedAmount += getScheduleVestedAmount(ids[i]);
+        }
     }
 
     /**
-     * @dev Internal function to calculate vested amount based on time
+     * @dev Internal function to calculate vested amount based on time, following the schedule's curve
      */
     function _calculateVestedAmount(
-        VestingSchedule storage schedule
+        uint256 scheduleId
     ) internal view returns (uint256) {
+        VestingSchedule storage schedule = vestingSchedules[scheduleId];
+        VestingCurve storage curve = scheduleCurves[scheduleId];
+
+        if (block.timestamp < schedule.startTime) {
+            // not started
+            return 0;
+        }
+
+        uint256 initialAmount = curve.curveType == CurveType.InitialUnlock
+            ? (schedule.totalAmount * curve.initialUnlockBps) / BPS
+            : 0;
+
         if (block.timestamp < schedule.startTime + schedule.cliffDuration) {
             // in cliff
-            return 0;
+            return initialAmount;
         }
 
         if (block.timestamp >= schedule.startTime + schedule.vestingDuration) {
@@ -152,93 +505,513 @@ contract CPROVesting is Ownable, ReentrancyGuard {
             return schedule.totalAmount;
         }
 
-        // Linear vesting after cliff
         uint256 timeFromStart = block.timestamp - schedule.startTime;
+
+        if (curve.curveType == CurveType.Milestones) {
+            // Tranches whose offset has passed
+            uint256 unlockedBps;
+            Milestone[] storage milestones = curve.milestones;
+            for (
+                uint256 i = 0;
+                i < milestones.length && milestones[i].offset <= timeFromStart;
+                i++
+            ) {
+                unlockedBps += milestones[i].unlockBps;
+            }
+            return (schedule.totalAmount * unlockedBps) / BPS;
+        }
+
+        if (curve.curveType == CurveType.Stepped) {
+            // Round down to the last completed step
+            timeFromStart -= timeFromStart % curve.stepInterval;
+        }
+
+        // Linear vesting after cliff
         return
-            (schedule.totalAmount * timeFromStart) / schedule.vestingDuration;
+            initialAmount +
+            ((schedule.totalAmount - initialAmount) * timeFromStart) /
+            schedule.vestingDuration;
     }
 
     /**
-     * Only valid CPRO - ERC20 will have no transfer or burn fees.
-     * @dev Allows beneficiary to claim vested tokens
+     * @dev Allows beneficiary to claim vested tokens of one of their schedules
+     * @param scheduleId Schedule to claim from
      */
-    function claimTokens() external nonReentrant {
+    function claimTokens(uint256 scheduleId) external nonReentrant {
         address beneficiary = msg.sender;
-        uint256 claimableAmount = getClaimableAmount(beneficiary);
+        require(
+            vestingSchedules[scheduleId].beneficiary == beneficiary,
+            "CPROVesting: caller is not the beneficiary"
+        );
 
+        uint256 claimableAmount = getScheduleClaimableAmount(scheduleId);
         require(claimableAmount > 0, "CPROVesting: no tokens to claim");
 
-        vestingSchedules[beneficiary].claimedAmount += claimableAmount;
+        vestingSchedules[scheduleId].claimedAmount += claimableAmount;
+        totalClaimed += claimableAmount;
 
-        token.safeTransfer(beneficiary, claimableAmount);
+        _payOut(beneficiary, beneficiary, claimableAmount);
 
-        emit TokensClaimed(beneficiary, claimableAmount);
+        emit TokensClaimed(beneficiary, scheduleId, claimableAmount);
     }
 
     /**
-     * @dev Owner can revoke vesting schedule (returns unvested tokens)
-     * @param beneficiary Address whose vesting to revoke
+     * @dev Allows beneficiary to claim vested tokens of all their schedules in one transfer
      */
-    function revokeVesting(
-        address beneficiary
+    function claimAll() external nonReentrant {
+        _claimAll(msg.sender, msg.sender);
+    }
+
+    /**
+     * @dev Anyone can claim the vested tokens of all the schedules of a beneficiary, on their behalf.
+     * The tokens are always paid to the beneficiary.
+     * @param beneficiary Beneficiary to claim for
+     */
+    function claimFor(address beneficiary) external nonReentrant {
+        _claimAll(beneficiary, beneficiary);
+    }
+
+    /**
+     * @dev Claims the vested tokens of all the schedules of a beneficiary with their EIP-712 signature
+     * of a `Claim`, so that a relayer can pay the gas. The signature can be used once, before `deadline`.
+     * @param beneficiary Beneficiary who signed the claim
+     * @param recipient Address receiving the tokens, chosen by the beneficiary
+     * @param deadline Timestamp after which the signature is no longer valid
+     */
+    function claimWithSignature(
+        address beneficiary,
+        address recipient,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant {
+        require(block.timestamp <= deadline, "CPROVesting: expired signature");
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                CLAIM_TYPEHASH,
+                beneficiary,
+                recipient,
+                _useNonce(beneficiary),
+                deadline
+            )
+        );
+        address signer = ECDSA.recover(_hashTypedDataV4(structHash), v, r, s);
+        require(signer == beneficiary, "CPROVesting: invalid signature");
+
+        _claimAll(beneficiary, recipient);
+    }
+
+    /**
+     * @dev Claims the vested tokens of all the schedules of `beneficiary` and pays them to `to`
+     */
+    function _claimAll(address beneficiary, address to) internal {
+        uint256[] storage ids = beneficiarySchedules[beneficiary];
+        uint256 totalClaimable;
+
+        for (uint256 i = 0; i < ids.length; i++) {
+            uint256 claimableAmount = getScheduleClaimableAmount(ids[i]);
+            if (claimableAmount == 0) continue;
+
+            vestingSchedules[ids[i]].claimedAmount += claimableAmount;
+            totalClaimable += claimableAmount;
+            emit TokensClaimed(beneficiary, ids[i], claimableAmount);
+        }
+
+        require(totalClaimable > 0, "CPROVesting: no tokens to claim");
+        totalClaimed += totalClaimable;
+
+        _payOut(beneficiary, to, totalClaimable);
+    }
+
+    /**
+     * @dev Owner can revoke a revocable vesting schedule as a good leaver: the vested tokens
+     * are paid to the beneficiary, the unvested tokens are returned
+     * @param scheduleId Schedule to revoke
+     */
+    function revokeVesting(uint256 scheduleId) external onlyOwner nonReentrant {
+        _revokeVesting(scheduleId, false);
+    }
+
+    /**
+     * @dev Owner can revoke a revocable vesting schedule as a bad leaver: the vested but
+     * unclaimed tokens are forfeited and returned together with the unvested tokens
+     * @param scheduleId Schedule to revoke
+     */
+    function revokeVestingAsBadLeaver(
+        uint256 scheduleId
     ) external onlyOwner nonReentrant {
-        VestingSchedule storage schedule = vestingSchedules[beneficiary];
+        _revokeVesting(scheduleId, true);
+    }
+
+    /**
+     * @dev Owner can change where revoked tokens are returned, zero to return them to the owner
+     * @param recipient New recipient of revoked tokens
+     */
+    function setRevocationRecipient(address recipient) external onlyOwner {
+        revocationRecipient = recipient;
+        emit RevocationRecipientUpdated(recipient);
+    }
+
+    /**
+     * @dev Settles and revokes a schedule, see `revokeVesting` and `revokeVestingAsBadLeaver`
+     */
+    function _revokeVesting(uint256 scheduleId, bool badLeaver) internal {
+        VestingSchedule storage schedule = vestingSchedules[scheduleId];
 
         require(schedule.exists, "CPROVesting: no vesting schedule exists");
         require(!schedule.revoked, "CPROVesting: already revoked");
+        require(schedule.revocable, "CPROVesting: schedule is not revocable");
 
-        uint256 vestedAmount = _calculateVestedAmount(schedule);
-        uint256 dueToBeneficiary = vestedAmount > schedule.claimedAmount
+        address beneficiary = schedule.beneficiary;
+        uint256 vestedAmount = _calculateVestedAmount(scheduleId);
+        uint256 vestedUnclaimed = vestedAmount > schedule.claimedAmount
             ? (vestedAmount - schedule.claimedAmount)
             : 0;
         uint256 unvestedAmount = schedule.totalAmount - vestedAmount;
 
+        uint256 dueToBeneficiary = badLeaver ? 0 : vestedUnclaimed;
+        uint256 forfeitedAmount = badLeaver ? vestedUnclaimed : 0;
+        uint256 returnedAmount = unvestedAmount + forfeitedAmount;
+
         schedule.claimedAmount += dueToBeneficiary;
+        totalClaimed += dueToBeneficiary;
+        totalRevoked += returnedAmount;
         schedule.revoked = true;
-        schedule.exists = false; //if left true we cannot create a new schedule for the same beneficiary
 
         //Transfer due tokens to beneficiaries
         if (dueToBeneficiary > 0) {
-            token.safeTransfer(beneficiary, dueToBeneficiary);
-            emit TokensClaimed(beneficiary, dueToBeneficiary);
+            _payOut(beneficiary, beneficiary, dueToBeneficiary);
+            emit TokensClaimed(beneficiary, scheduleId, dueToBeneficiary);
         }
 
-        // Return unvested tokens to owner
-        if (unvestedAmount > 0) {
-            token.safeTransfer(owner(), unvestedAmount);
+        // Return unvested and forfeited tokens
+        address returnedTo = revocationRecipient == address(0)
+            ? owner()
+            : revocationRecipient;
+        if (returnedAmount > 0) {
+            _payOut(beneficiary, returnedTo, returnedAmount);
         }
 
-        emit VestingRevoked(beneficiary, unvestedAmount);
+        emit VestingRevoked(beneficiary, scheduleId, unvestedAmount);
+        emit RevocationPolicyApplied(
+            scheduleId,
+            badLeaver,
+            forfeitedAmount,
+            returnedTo,
+            returnedAmount
+        );
     }
 
     /**
-     * @dev Get vesting schedule details for a beneficiary
+     * @dev Beneficiary proposes to move one of their schedules to a new address, which then has to
+     * accept it. Proposing the zero address withdraws the proposal.
+     * @param scheduleId Schedule to transfer
+     * @param newBeneficiary Address taking over the schedule
      */
-    function getBeneficiaryVestingSchedule(
-        address beneficiary
+    function proposeScheduleTransfer(
+        uint256 scheduleId,
+        address newBeneficiary
+    ) external {
+        VestingSchedule storage schedule = vestingSchedules[scheduleId];
+        require(
+            schedule.beneficiary == msg.sender,
+            "CPROVesting: caller is not the beneficiary"
+        );
+        require(!schedule.revoked, "CPROVesting: already revoked");
+        require(
+            newBeneficiary != msg.sender,
+            "CPROVesting: already the beneficiary"
+        );
+
+        pendingScheduleTransfers[scheduleId] = newBeneficiary;
+        emit ScheduleTransferProposed(scheduleId, msg.sender, newBeneficiary);
+    }
+
+    /**
+     * @dev The proposed address accepts a schedule transfer and becomes its beneficiary
+     * @param scheduleId Schedule to take over
+     */
+    function acceptScheduleTransfer(uint256 scheduleId) external nonReentrant {
+        require(
+            pendingScheduleTransfers[scheduleId] == msg.sender &&
+                msg.sender != address(0),
+            "CPROVesting: caller is not the proposed beneficiary"
+        );
+        _transferSchedule(scheduleId, msg.sender);
+    }
+
+    /**
+     * @dev Owner starts moving a schedule to a new address for a beneficiary who lost their key.
+     * The recovery can be executed after RECOVERY_DELAY, the beneficiary can cancel it until then, which
+     * vetoes further recoveries of the schedule. Non-revocable schedules are only moved by their beneficiary.
+     * @param scheduleId Schedule to recover
+     * @param newBeneficiary Address taking over the schedule
+     * @return executableAt Timestamp from which the recovery can be executed
+     */
+    function initiateScheduleRecovery(
+        uint256 scheduleId,
+        address newBeneficiary
+    ) external onlyOwner returns (uint256 executableAt) {
+        VestingSchedule storage schedule = vestingSchedules[scheduleId];
+        require(schedule.exists, "CPROVesting: no vesting schedule exists");
+        require(!schedule.revoked, "CPROVesting: already revoked");
+        require(schedule.revocable, "CPROVesting: schedule is not revocable");
+        require(
+            !recoveryVetoed[scheduleId],
+            "CPROVesting: recovery vetoed by the beneficiary"
+        );
+        require(
+            newBeneficiary != address(0),
+            "CPROVesting: beneficiary is zero address"
+        );
+        require(
+            newBeneficiary != schedule.beneficiary,
+            "CPROVesting: already the beneficiary"
+        );
+
+        executableAt = block.timestamp + RECOVERY_DELAY;
+        scheduleRecoveries[scheduleId] = ScheduleRecovery(
+            newBeneficiary,
+            executableAt
+        );
+        emit ScheduleRecoveryInitiated(
+            scheduleId,
+            schedule.beneficiary,
+            newBeneficiary,
+            executableAt
+        );
+    }
+
+    /**
+     * @dev Owner completes a recovery once its delay has passed
+     * @param scheduleId Schedule to recover
+     */
+    function executeScheduleRecovery(
+        uint256 scheduleId
+    ) external onlyOwner nonReentrant {
+        ScheduleRecovery storage recovery = scheduleRecoveries[scheduleId];
+        require(
+            recovery.newBeneficiary != address(0),
+            "CPROVesting: no recovery pending"
+        );
+        require(
+            block.timestamp >= recovery.executableAt,
+            "CPROVesting: recovery delay not elapsed"
+        );
+        _transferSchedule(scheduleId, recovery.newBeneficiary);
+    }
+
+    /**
+     * @dev Owner or current beneficiary cancels a pending recovery. A beneficiary cancelling vetoes new
+     * recoveries of the schedule until it moves.
+     * @param scheduleId Schedule of the recovery
+     */
+    function cancelScheduleRecovery(uint256 scheduleId) external {
+        require(
+            msg.sender == owner() ||
+                msg.sender == vestingSchedules[scheduleId].beneficiary,
+            "CPROVesting: caller is not the owner or beneficiary"
+        );
+        require(
+            scheduleRecoveries[scheduleId].newBeneficiary != address(0),
+            "CPROVesting: no recovery pending"
+        );
+
+        delete scheduleRecoveries[scheduleId];
+        if (msg.sender == vestingSchedules[scheduleId].beneficiary) {
+            recoveryVetoed[scheduleId] = true;
+        }
+        emit ScheduleRecoveryCancelled(scheduleId);
+    }
+
+    /**
+     * @dev Owner represents the schedules as tokens of `_positions`, can be set once.
+     * Transferring a token moves its schedule, and a schedule moved here moves its token.
+     */
+    function setPositions(address _positions) external onlyOwner {
+        require(
+            address(positions) == address(0),
+            "CPROVesting: positions already set"
+        );
+        require(
+            _positions != address(0),
+            "CPROVesting: positions is zero address"
+        );
+        positions = ICPROPositions(_positions);
+        emit PositionsSet(_positions);
+    }
+
+    /**
+     * @dev Owner allows or stops moving a schedule through `positions`, for instance an investor schedule
+     * that must stay with its beneficiary. Transfers and recoveries by the vesting contract are not affected.
+     */
+    function setScheduleTransferable(
+        uint256 scheduleId,
+        bool transferable
+    ) external onlyOwner {
+        require(
+            vestingSchedules[scheduleId].exists,
+            "CPROVesting: no vesting schedule exists"
+        );
+        nonTransferableSchedule[scheduleId] = !transferable;
+        emit ScheduleTransferableSet(scheduleId, transferable);
+    }
+
+    /**
+     * @dev Called by `positions` when the token of a schedule is transferred, moves the schedule to the new holder
+     */
+    function transferPosition(
+        uint256 scheduleId,
+        address from,
+        address to
+    ) external nonReentrant {
+        require(
+            msg.sender == address(positions),
+            "CPROVesting: caller is not the positions contract"
+        );
+        require(
+            vestingSchedules[scheduleId].beneficiary == from,
+            "CPROVesting: caller is not the beneficiary"
+        );
+        require(
+            !nonTransferableSchedule[scheduleId],
+            "CPROVesting: schedule is not transferable"
+        );
+        _transferSchedule(scheduleId, to);
+    }
+
+    /**
+     * @dev Moves a schedule, its unclaimed tokens and their voting power to a new beneficiary.
+     * Claimed amount and curve are kept, pending transfers and recoveries are cleared.
+     */
+    function _transferSchedule(
+        uint256 scheduleId,
+        address newBeneficiary
+    ) internal {
+        VestingSchedule storage schedule = vestingSchedules[scheduleId];
+        require(!schedule.revoked, "CPROVesting: already revoked");
+        address previousBeneficiary = schedule.beneficiary;
+
+        delete pendingScheduleTransfers[scheduleId];
+        delete scheduleRecoveries[scheduleId];
+        delete recoveryVetoed[scheduleId];
+
+        // Keep the remaining IDs of the previous beneficiary in creation order
+        uint256[] storage ids = beneficiarySchedules[previousBeneficiary];
+        uint256 i;
+        while (ids[i] != scheduleId) i++;
+        for (; i + 1 < ids.length; i++) {
+            ids[i] = ids[i + 1];
+        }
+        ids.pop();
+
+        schedule.beneficiary = newBeneficiary;
+        _addBeneficiarySchedule(newBeneficiary, scheduleId);
+        _moveEscrowed(
+            previousBeneficiary,
+            newBeneficiary,
+            schedule.totalAmount - schedule.claimedAmount
+        );
+
+        emit ScheduleTransferred(
+            scheduleId,
+            previousBeneficiary,
+            newBeneficiary
+        );
+        if (address(positions) != address(0)) {
+            positions.positionTransferred(scheduleId, newBeneficiary);
+        }
+    }
+
+    /**
+     * @dev Records a schedule ID for a beneficiary, listing them in `beneficiaries` the first time
+     */
+    function _addBeneficiarySchedule(
+        address beneficiary,
+        uint256 scheduleId
+    ) internal {
+        if (!isBeneficiary[beneficiary]) {
+            isBeneficiary[beneficiary] = true;
+            beneficiaries.push(beneficiary);
+        }
+        beneficiarySchedules[beneficiary].push(scheduleId);
+    }
+
+    /**
+     * @dev Delegates the voting power of the caller's unclaimed tokens, across all their schedules.
+     * The first call moves those tokens into a voting escrow of the caller, which later claims pay from.
+     * @param delegatee Account receiving the voting power, the caller itself to vote directly
+     */
+    function delegateVotes(address delegatee) external nonReentrant {
+        uint256[] storage ids = beneficiarySchedules[msg.sender];
+        require(ids.length > 0, "CPROVesting: no vesting schedule exists");
+
+        uint256 unclaimed;
+        for (uint256 i = 0; i < ids.length; i++) {
+            VestingSchedule storage schedule = vestingSchedules[ids[i]];
+            if (!schedule.revoked) {
+                unclaimed += schedule.totalAmount - schedule.claimedAmount;
+            }
+        }
+        _delegateVotes(msg.sender, delegatee, unclaimed);
+    }
+
+    function _votesToken() internal view override returns (IERC20) {
+        return token;
+    }
+
+    /**
+     * @dev Get vesting schedule details by schedule ID
+     */
+    function getVestingSchedule(
+        uint256 scheduleId
     )
         external
         view
         returns (
+            address beneficiary,
             uint256 totalAmount,
             uint256 claimedAmount,
             uint256 startTime,
             uint256 cliffDuration,
             uint256 vestingDuration,
-            bool revoked
+            bool revoked,
+            bool revocable
         )
     {
-        VestingSchedule storage schedule = vestingSchedules[beneficiary];
+        VestingSchedule storage schedule = vestingSchedules[scheduleId];
         return (
+            schedule.beneficiary,
             schedule.totalAmount,
             schedule.claimedAmount,
             schedule.startTime,
             schedule.cliffDuration,
             schedule.vestingDuration,
-            schedule.revoked
+            schedule.revoked,
+            schedule.revocable
         );
     }
 
+    /**
+     * @dev Get the vesting curve of a schedule, Linear for schedules created without one
+     */
+    function getVestingCurve(
+        uint256 scheduleId
+    ) external view returns (VestingCurve memory) {
+        return scheduleCurves[scheduleId];
+    }
+
+    /**
+     * @dev Get the IDs of all schedules of a beneficiary, in creation order
+     */
+    function getBeneficiaryScheduleIds(
+        address beneficiary
+    ) external view returns (uint256[] memory) {
+        return beneficiarySchedules[beneficiary];
+    }
+
     /**
      * @dev Get total number of beneficiaries
      */
@@ -257,6 +1030,75 @@ contract CPROVesting is Ownable, ReentrancyGuard {
         return beneficiaries[index];
     }
 
+    /**
+     * @dev Get a page of beneficiaries, in the order of `beneficiaries`. The page is cut at the last one.
+     * @param offset Index of the first beneficiary
+     * @param limit Maximum number of beneficiaries returned
+     */
+    function getBeneficiaries(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory page) {
+        uint256 count = beneficiaries.length;
+        if (offset >= count) return page;
+        if (limit > count - offset) limit = count - offset;
+
+        page = new address[](limit);
+        for (uint256 i = 0; i < limit; i++) {
+            page[i] = beneficiaries[offset + i];
+        }
+    }
+
+    /**
+     * @dev Get the number of schedules created, their IDs run from 1 to this count
+     */
+    function getScheduleCount() public view returns (uint256) {
+        return nextScheduleId - 1;
+    }
+
+    /**
+     * @dev Get a page of schedules in ID order, with their amount vested at current time.
+     * The schedule at index i has ID offset + i + 1. The page is cut at the last schedule.
+     * @param offset Number of schedules skipped
+     * @param limit Maximum number of schedules returned
+     */
+    function getVestingSchedules(
+        uint256 offset,
+        uint256 limit
+    )
+        external
+        view
+        returns (
+            VestingSchedule[] memory schedules,
+            uint256[] memory vestedAmounts
+        )
+    {
+        uint256 count = getScheduleCount();
+        if (offset >= count) return (schedules, vestedAmounts);
+        if (limit > count - offset) limit = count - offset;
+
+        schedules = new VestingSchedule[](limit);
+        vestedAmounts = new uint256[](limit);
+        for (uint256 i = 0; i < limit; i++) {
+            schedules[i] = vestingSchedules[offset + i + 1];
+            vestedAmounts[i] = getScheduleVestedAmount(offset + i + 1);
+        }
+    }
+
+    /**
+     * @dev Total amount vested across all schedules at current time, claimed or not. Revoked schedules
+     * count what their beneficiary was paid. Iterates over every schedule, meant for off-chain calls.
+     */
+    function getTotalVested() external view returns (uint256 totalVested) {
+        uint256 count = getScheduleCount();
+        for (uint256 id = 1; id <= count; id++) {
+            VestingSchedule storage schedule = vestingSchedules[id];
+            totalVested += schedule.revoked
+                ? schedule.claimedAmount
+                : _calculateVestedAmount(id);
+        }
+    }
+
     /**
      * @dev Emergency function to withdraw any ERC20 tokens sent by mistake
      * Only works for tokens other than the vesting token
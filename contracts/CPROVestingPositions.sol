@@ -0,0 +1,56 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.28;
+
+import {CPROPositions} from "./CPROPositions.sol";
+import {CPROVesting} from "./CPROVesting.sol";
+
+/// @title Vesting schedules of CPROVesting as ERC-721 tokens
+/// @notice The holder of a token is the beneficiary of its schedule and claims its tokens. Schedules moved by
+/// `acceptScheduleTransfer` or a recovery take their token along. Revoked schedules, and schedules the
+/// vesting owner marked with `setScheduleTransferable`, cannot be transferred.
+contract CPROVestingPositions is CPROPositions {
+    /// @notice Vesting contract holding the schedules, CPROVesting or CPROVestingUpgradeable
+    CPROVesting public immutable vesting;
+
+    constructor(
+        address vesting_
+    ) CPROPositions(vesting_, "CPRO Vesting", "CPRO-VEST") {
+        vesting = CPROVesting(vesting_);
+    }
+
+    function _positionOwner(
+        uint256 id
+    ) internal view override returns (address) {
+        (address beneficiary, , , , , , , ) = vesting.getVestingSchedule(id);
+        return beneficiary;
+    }
+
+    function _attributes(
+        uint256 id
+    ) internal view override returns (string memory) {
+        (
+            ,
+            uint256 totalAmount,
+            uint256 claimedAmount,
+            uint256 startTime,
+            ,
+            uint256 vestingDuration,
+            bool revoked,
+
+        ) = vesting.getVestingSchedule(id);
+        return
+            string.concat(
+                _amountAttribute("Amount", totalAmount),
+                ",",
+                _amountAttribute("Claimed amount", claimedAmount),
+                ",",
+                _dateAttribute("Start time", startTime),
+                ",",
+                _dateAttribute("Unlock time", startTime + vestingDuration),
+                ",",
+                _boolAttribute("Claimed", claimedAmount == totalAmount),
+                ",",
+                _boolAttribute("Revoked", revoked)
+            );
+    }
+}
@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.28;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {IVotes} from "@openzeppelin/contracts/governance/utils/IVotes.sol";
+
+/// @title Per-beneficiary escrow of CPROVesting and CPROLocking
+/// @notice Holds the unclaimed tokens of one beneficiary so their voting power can be delegated.
+/// Only the vault that created it can move the tokens or change the delegate.
+contract CPROVotingEscrow {
+    using SafeERC20 for IERC20;
+
+    /// @notice Contract that created this escrow and accounts for its tokens
+    address public immutable vault;
+
+    IERC20 public immutable token;
+
+    /// @notice Beneficiary whose tokens are held
+    address public immutable beneficiary;
+
+    constructor(IERC20 token_, address beneficiary_) {
+        vault = msg.sender;
+        token = token_;
+        beneficiary = beneficiary_;
+    }
+
+    modifier onlyVault() {
+        require(
+            msg.sender == vault,
+            "CPROVotingEscrow: caller is not the vault"
+        );
+        _;
+    }
+
+    /// @notice Delegate the voting power of the held tokens.
+    function delegate(address delegatee) external onlyVault {
+        IVotes(address(token)).delegate(delegatee);
+    }
+
+    /// @notice Send held tokens out of the escrow.
+    function transfer(address to, uint256 amount) external onlyVault {
+        token.safeTransfer(to, amount);
+    }
+}
@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.28;
+
+/// @title Burn/mint interface of CPROToken for bridges
+/// @notice Modelled on xERC20: every bridge mints and burns within its own limits, set by the token admin and
+/// replenished linearly over a day. A bridge without limits cannot mint or burn.
+interface ICPROBridgeToken {
+    /// @notice Mint tokens received from another chain, within the minting limit of the calling bridge.
+    function bridgeMint(address to, uint256 amount) external;
+
+    /// @notice Burn tokens sent to another chain, within the burning limit of the calling bridge.
+    /// Burning from another account spends the allowance it gave the bridge.
+    function bridgeBurn(address from, uint256 amount) external;
+
+    /// @notice Amount `bridge` can currently mint
+    function mintingCurrentLimitOf(
+        address bridge
+    ) external view returns (uint256);
+
+    /// @notice Amount `bridge` can currently burn
+    function burningCurrentLimitOf(
+        address bridge
+    ) external view returns (uint256);
+}
@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.28;
+
+/// @title Transfer restrictions consulted by CPROToken
+/// @notice CPROToken calls `checkTransfer` before every balance change once a module is set with
+/// `setComplianceModule`. The module reverts to reject the transfer.
+interface ICPROCompliance {
+    /// @notice Revert if `amount` may not move from `from` to `to`. Called before the balances change.
+    /// @param from Sender, zero for mints
+    /// @param to Receiver, zero for burns
+    /// @param amount Amount moved
+    function checkTransfer(
+        address from,
+        address to,
+        uint256 amount
+    ) external view;
+}
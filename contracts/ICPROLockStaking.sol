@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.28;
+
+/// @title Staking of CPROLocking positions in place
+/// @notice Set on CPROLocking with `setLockStaking`, which then reports every claimed, expired or transferred lock
+/// so that its stake ends with it, and every lock whose amount changes so that its stake follows.
+interface ICPROLockStaking {
+    /// @notice Called by CPROLocking when a lock is claimed or expires. Must not revert for locks that are not staked.
+    function onLockClaimed(uint256 lockId) external;
+
+    /// @notice Called by CPROLocking when a lock changes hands. Must not revert for locks that are not staked.
+    function onLockTransferred(uint256 lockId) external;
+
+    /// @notice Called by CPROLocking after the amount of a lock changed. Must not revert for locks that are not staked.
+    function onLockAmountChanged(uint256 lockId) external;
+}
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.28;
+
+/// @title ERC-721 collection of CPRO positions
+/// @notice Set on CPROVesting or CPROLocking with `setPositions`. Each token stands for a schedule or a lock and is
+/// held by its beneficiary.
+interface ICPROPositions {
+    /// @notice Called by the source when a position changes hands by other means than a token transfer, so the
+    /// token follows it.
+    function positionTransferred(uint256 id, address to) external;
+}
+
+/// @title Contract whose positions are represented by an ICPROPositions collection
+interface ICPROPositionSource {
+    /// @notice Called by the collection when a token is transferred, to move the position from `from` to `to`.
+    /// Reverts when the position cannot change hands.
+    function transferPosition(uint256 id, address from, address to) external;
+}
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.28;
+
+import {CPROLockingUpgradeable} from "../../upgradeable/CPROLockingUpgradeable.sol";
+
+/// @dev Second version of CPROLockingUpgradeable used by the upgrade tests, adds a state variable after the
+/// existing layout and a reinitializer.
+contract CPROLockingUpgradeableV2Mock is CPROLockingUpgradeable {
+    uint256 public upgradedAt;
+
+    function initializeV2() external reinitializer(2) {
+        upgradedAt = block.timestamp;
+    }
+
+    function version() external pure returns (string memory) {
+        return "2";
+    }
+}
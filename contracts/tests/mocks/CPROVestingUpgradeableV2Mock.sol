@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.28;
+
+import "../../upgradeable/CPROVestingUpgradeable.sol";
+
+/**
+ * @dev Second version of CPROVestingUpgradeable used by the upgrade tests, adds a state variable after the
+ * existing layout and a reinitializer.
+ */
+contract CPROVestingUpgradeableV2Mock is CPROVestingUpgradeable {
+    uint256 public upgradedAt;
+
+    function initializeV2() external reinitializer(2) {
+        upgradedAt = block.timestamp;
+    }
+
+    function version() external pure returns (string memory) {
+        return "2";
+    }
+}
@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @dev Token burning a fee on every transfer, used by the compatibility tests to check that deflationary
+ * tokens are rejected.
+ */
+contract FeeOnTransferERC20Mock is ERC20 {
+    // Fee in basis points of each transferred amount
+    uint256 public immutable feeBps;
+
+    constructor(uint256 supply, uint256 feeBps_) ERC20("Fee Token", "FEE") {
+        feeBps = feeBps_;
+        _mint(msg.sender, supply);
+    }
+
+    function _update(
+        address from,
+        address to,
+        uint256 value
+    ) internal override {
+        if (from != address(0) && to != address(0)) {
+            uint256 fee = (value * feeBps) / 10_000;
+            super._update(from, address(0), fee);
+            value -= fee;
+        }
+        super._update(from, to, value);
+    }
+}
@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @dev Token whose balances are shares of a supply the deployer can rebase up or down, used by the
+ * compatibility tests to move balances without transfers.
+ */
+contract RebasingERC20Mock is ERC20 {
+    // Balances are shares, worth `multiplierBps` basis points of a token each
+    uint256 public multiplierBps = 10_000;
+
+    address private immutable rebaser;
+
+    constructor(uint256 supply) ERC20("Rebasing Token", "REB") {
+        rebaser = msg.sender;
+        _mint(msg.sender, supply);
+    }
+
+    function rebase(uint256 multiplierBps_) external {
+        require(msg.sender == rebaser, "RebasingERC20Mock: not rebaser");
+        multiplierBps = multiplierBps_;
+    }
+
+    function balanceOf(address account) public view override returns (uint256) {
+        return (super.balanceOf(account) * multiplierBps) / 10_000;
+    }
+
+    function totalSupply() public view override returns (uint256) {
+        return (super.totalSupply() * multiplierBps) / 10_000;
+    }
+
+    function _update(
+        address from,
+        address to,
+        uint256 value
+    ) internal override {
+        super._update(from, to, (value * 10_000) / multiplierBps);
+    }
+}
@@ -0,0 +1,452 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import {Test} from "forge-std/Test.sol";
+import {CommonBase} from "forge-std/Base.sol";
+import {StdCheats} from "forge-std/StdCheats.sol";
+import {StdUtils} from "forge-std/StdUtils.sol";
+import {CPROToken} from "../src/CPROToken.sol";
+import {CPROVesting} from "../src/CPROVesting.sol";
+import {CPROLocking} from "../src/CPROLocking.sol";
+
+// Random operations on the token, vesting and locking contracts for the invariant tests.
+// The handler deploys and owns the contracts; the actors hold tokens and are the beneficiaries.
+// Operations that would revert are skipped, so every call of a run changes the state.
+contract CPROHandler is CommonBase, StdCheats, StdUtils {
+    uint256 public constant LOCKING_POOL = 100_000 * 10 ** 18;
+    uint256 public constant MAX_AMOUNT = 10_000 * 10 ** 18;
+    uint256 public constant EXTENSION_BONUS_BPS = 1000;
+    uint256 public constant EARLY_UNLOCK_PENALTY_BPS = 2500;
+
+    CPROToken public token;
+    CPROVesting public vesting;
+    CPROLocking public locking;
+
+    address[] public actors;
+
+    // Mint requests queued and not executed yet
+    uint256[] public pendingMints;
+
+    // Ghost accounting, what the contracts should have recorded
+    uint256 public ghostMinted;
+    uint256 public ghostBurned;
+    uint256 public ghostVestingPaid;
+    uint256 public ghostLockingPaid;
+    mapping(uint256 => uint256) public ghostReturned;
+    // Paid by early unlocks beyond the tokens locked without bonuses, must stay 0
+    uint256 public ghostEarlyUnlockExcess;
+
+    constructor() {
+        token = new CPROToken();
+        vesting = new CPROVesting(address(token));
+        locking = new CPROLocking(
+            address(token),
+            LOCKING_POOL,
+            10,
+            address(this)
+        );
+        token.approve(address(vesting), type(uint256).max);
+        token.approve(address(locking), type(uint256).max);
+        locking.fund(LOCKING_POOL);
+        locking.setExtensionBonus(EXTENSION_BONUS_BPS);
+        locking.setEarlyUnlockPenalty(EARLY_UNLOCK_PENALTY_BPS);
+
+        actors.push(makeAddr("alice"));
+        actors.push(makeAddr("bob"));
+        actors.push(makeAddr("carol"));
+    }
+
+    // Token
+
+    function queueMint(uint256 actorSeed, uint256 amount) external {
+        amount = bound(amount, 1, MAX_AMOUNT);
+        pendingMints.push(token.queueMint(_actor(actorSeed), amount));
+    }
+
+    function executeMint(uint256 requestSeed) external {
+        if (pendingMints.length == 0) return;
+        uint256 index = requestSeed % pendingMints.length;
+        uint256 requestId = pendingMints[index];
+        (, uint256 amount, uint256 executableAt, , ) = token.mintRequests(
+            requestId
+        );
+        if (
+            block.timestamp < executableAt ||
+            block.timestamp >= executableAt + token.MINT_REQUEST_VALIDITY() ||
+            amount > token.mintableInCurrentEpoch()
+        ) return;
+
+        token.executeMint(requestId);
+        ghostMinted += amount;
+        pendingMints[index] = pendingMints[pendingMints.length - 1];
+        pendingMints.pop();
+    }
+
+    function burn(uint256 actorSeed, uint256 amount) external {
+        address actor = _actor(actorSeed);
+        uint256 balance = token.balanceOf(actor);
+        if (balance == 0) return;
+        amount = bound(amount, 1, balance);
+
+        vm.prank(actor);
+        token.burn(amount);
+        ghostBurned += amount;
+    }
+
+    function transfer(
+        uint256 fromSeed,
+        uint256 toSeed,
+        uint256 amount
+    ) external {
+        address from = _actor(fromSeed);
+        uint256 balance = token.balanceOf(from);
+        if (balance == 0) return;
+        amount = bound(amount, 1, balance);
+
+        vm.prank(from);
+        token.transfer(_actor(toSeed), amount);
+    }
+
+    // Vesting
+
+    function createSchedule(
+        uint256 actorSeed,
+        uint256 amount,
+        uint256 cliff,
+        uint256 duration
+    ) external {
+        amount = bound(amount, 1, MAX_AMOUNT);
+        duration = bound(duration, 1, 365 days);
+        cliff = bound(cliff, 0, duration);
+        vesting.createVestingSchedule(
+            _actor(actorSeed),
+            amount,
+            block.timestamp,
+            cliff,
+            duration
+        );
+    }
+
+    function claimVesting(uint256 actorSeed) external {
+        address actor = _actor(actorSeed);
+        if (vesting.getClaimableAmount(actor) == 0) return;
+
+        uint256 balance = token.balanceOf(actor);
+        vm.prank(actor);
+        vesting.claimAll();
+        ghostVestingPaid += token.balanceOf(actor) - balance;
+    }
+
+    function revoke(uint256 scheduleSeed, bool badLeaver) external {
+        uint256 count = vesting.getScheduleCount();
+        if (count == 0) return;
+        uint256 scheduleId = 1 + (scheduleSeed % count);
+        (address beneficiary, , , , , , bool revoked, ) = vesting
+            .getVestingSchedule(scheduleId);
+        if (revoked) return;
+
+        uint256 returnedBefore = token.balanceOf(address(this));
+        uint256 paidBefore = token.balanceOf(beneficiary);
+        if (badLeaver) {
+            vesting.revokeVestingAsBadLeaver(scheduleId);
+        } else {
+            vesting.revokeVesting(scheduleId);
+        }
+        ghostReturned[scheduleId] =
+            token.balanceOf(address(this)) -
+            returnedBefore;
+        ghostVestingPaid += token.balanceOf(beneficiary) - paidBefore;
+    }
+
+    function delegateVesting(
+        uint256 actorSeed,
+        uint256 delegateeSeed
+    ) external {
+        address actor = _actor(actorSeed);
+        if (vesting.getBeneficiaryScheduleIds(actor).length == 0) return;
+
+        vm.prank(actor);
+        vesting.delegateVotes(_actor(delegateeSeed));
+    }
+
+    // Locking
+
+    function fundLocking(uint256 amount) external {
+        locking.fund(bound(amount, 1, MAX_AMOUNT));
+    }
+
+    function addLock(
+        uint256 actorSeed,
+        uint256 lockType,
+        uint256 amount,
+        uint256 unlockDelay
+    ) external {
+        address actor = _actor(actorSeed);
+        uint256 held = locking.heldBalance();
+        uint256 reserved = locking.reservedForUnclaimed();
+        uint256 room = held > reserved ? held - reserved : 0;
+        if (
+            block.timestamp >= locking.endTime() ||
+            locking.allocation(actor) != 0 ||
+            room == 0
+        ) return;
+
+        locking.addBeneficiaryWithTerms(
+            actor,
+            uint8(bound(lockType, 0, 25)),
+            bound(amount, 1, room),
+            block.timestamp + bound(unlockDelay, 1, 400 days)
+        );
+    }
+
+    function claimLock(uint256 actorSeed) external {
+        address actor = _actor(actorSeed);
+        if (
+            locking.allocation(actor) == 0 ||
+            block.timestamp <
+            locking.lockUnlockTime(locking.beneficiaryLockId(actor))
+        ) return;
+
+        uint256 balance = token.balanceOf(actor);
+        vm.prank(actor);
+        locking.claim();
+        ghostLockingPaid += token.balanceOf(actor) - balance;
+    }
+
+    function extendLock(uint256 actorSeed, uint256 extension) external {
+        address actor = _actor(actorSeed);
+        uint256 lockId = locking.beneficiaryLockId(actor);
+        uint256 from = locking.lockUnlockTime(lockId);
+        if (from < block.timestamp) from = block.timestamp;
+        uint256 latest = block.timestamp + locking.MAX_EXTENSION();
+        if (locking.allocation(actor) == 0 || from >= latest) return;
+
+        uint256 unlockTime = from + bound(extension, 1, latest - from);
+        uint256 base = locking.lockAmount(lockId) -
+            locking.lockBonus(lockId) -
+            locking.lockToppedUp(lockId);
+        uint256 bonus = (base * EXTENSION_BONUS_BPS * (unlockTime - from)) /
+            (10_000 * 365 days);
+        if (locking.heldBalance() < locking.reservedForUnclaimed() + bonus)
+            return;
+
+        vm.prank(actor);
+        locking.extendLock(lockId, unlockTime);
+    }
+
+    function topUpLock(uint256 actorSeed, uint256 amount) external {
+        address actor = _actor(actorSeed);
+        uint256 balance = token.balanceOf(actor);
+        if (locking.allocation(actor) == 0 || balance == 0) return;
+        amount = bound(amount, 1, balance);
+
+        vm.startPrank(actor);
+        token.approve(address(locking), amount);
+        locking.topUpLock(locking.beneficiaryLockId(actor), amount);
+        vm.stopPrank();
+    }
+
+    function unlockEarly(uint256 actorSeed) external {
+        address actor = _actor(actorSeed);
+        uint256 lockId = locking.beneficiaryLockId(actor);
+        if (
+            locking.allocation(actor) == 0 ||
+            block.timestamp >= locking.lockUnlockTime(lockId)
+        ) return;
+
+        uint256 locked = locking.lockAmount(lockId) - locking.lockBonus(lockId);
+        uint256 balance = token.balanceOf(actor);
+        vm.prank(actor);
+        locking.unlockEarly(lockId);
+        uint256 paid = token.balanceOf(actor) - balance;
+        ghostLockingPaid += paid;
+        if (paid > locked) ghostEarlyUnlockExcess += paid - locked;
+    }
+
+    function delegateLock(uint256 actorSeed, uint256 delegateeSeed) external {
+        address actor = _actor(actorSeed);
+        if (locking.allocation(actor) == 0) return;
+
+        vm.prank(actor);
+        locking.delegateVotes(_actor(delegateeSeed));
+    }
+
+    function sweep() external {
+        // Surplus can also be swept before endTime
+        if (locking.heldBalance() <= locking.reservedForUnclaimed()) return;
+        locking.sweepUnassigned();
+    }
+
+    // Time
+
+    function warp(uint256 duration) external {
+        vm.warp(block.timestamp + bound(duration, 1, 60 days));
+    }
+
+    function actorsCount() external view returns (uint256) {
+        return actors.length;
+    }
+
+    function _actor(uint256 seed) internal view returns (address) {
+        return actors[seed % actors.length];
+    }
+}
+
+contract CPROInvariantsTest is Test {
+    uint256 public constant INITIAL_SUPPLY = 1000000 * 10 ** 18;
+
+    CPROHandler public handler;
+    CPROToken public token;
+    CPROVesting public vesting;
+    CPROLocking public locking;
+
+    function setUp() public {
+        handler = new CPROHandler();
+        token = handler.token();
+        vesting = handler.vesting();
+        locking = handler.locking();
+        targetContract(address(handler));
+    }
+
+    // Token
+
+    function invariant_supplyWithinCap() public view {
+        assertLe(
+            token.totalSupply() + token.bridgedOutSupply(),
+            token.MAX_SUPPLY()
+        );
+    }
+
+    function invariant_supplyMatchesMintsAndBurns() public view {
+        assertEq(
+            token.totalSupply(),
+            INITIAL_SUPPLY + handler.ghostMinted() - handler.ghostBurned()
+        );
+        assertLe(token.mintedInEpoch(), token.mintEpochCeiling());
+    }
+
+    // Vesting
+
+    function invariant_scheduleAccounting() public view {
+        uint256 count = vesting.getScheduleCount();
+        for (uint256 scheduleId = 1; scheduleId <= count; scheduleId++) {
+            (
+                ,
+                uint256 totalAmount,
+                uint256 claimedAmount,
+                ,
+                ,
+                ,
+                bool revoked,
+
+            ) = vesting.getVestingSchedule(scheduleId);
+
+            if (revoked) {
+                // Paid to the beneficiary or returned, nothing left behind
+                assertEq(
+                    claimedAmount + handler.ghostReturned(scheduleId),
+                    totalAmount
+                );
+                continue;
+            }
+            uint256 vested = vesting.getScheduleVestedAmount(scheduleId);
+            assertLe(claimedAmount, vested);
+            assertLe(vested, totalAmount);
+            // sum(claimed) + claimable + unvested == totalAmount
+            assertEq(
+                claimedAmount +
+                    vesting.getScheduleClaimableAmount(scheduleId) +
+                    (totalAmount - vested),
+                totalAmount
+            );
+        }
+    }
+
+    function invariant_vestingEscrows() public view {
+        uint256 escrowed;
+        for (uint256 i = 0; i < handler.actorsCount(); i++) {
+            address actor = handler.actors(i);
+            address escrow = address(vesting.votingEscrow(actor));
+            if (escrow == address(0)) continue;
+
+            // An escrow holds exactly the unclaimed tokens of its beneficiary
+            uint256 unclaimed;
+            uint256[] memory ids = vesting.getBeneficiaryScheduleIds(actor);
+            for (uint256 j = 0; j < ids.length; j++) {
+                (
+                    ,
+                    uint256 totalAmount,
+                    uint256 claimedAmount,
+                    ,
+                    ,
+                    ,
+                    bool revoked,
+
+                ) = vesting.getVestingSchedule(ids[j]);
+                if (!revoked) unclaimed += totalAmount - claimedAmount;
+            }
+            assertEq(token.balanceOf(escrow), unclaimed);
+            escrowed += unclaimed;
+        }
+        assertEq(vesting.totalEscrowed(), escrowed);
+    }
+
+    function invariant_vestingSolvent() public view {
+        uint256 outstanding = vesting.totalAllocated() -
+            vesting.totalClaimed() -
+            vesting.totalRevoked();
+        assertGe(
+            token.balanceOf(address(vesting)) + vesting.totalEscrowed(),
+            outstanding
+        );
+        assertEq(vesting.totalClaimed(), handler.ghostVestingPaid());
+    }
+
+    // Locking
+
+    function invariant_lockingCoversUnclaimed() public view {
+        assertGe(locking.heldBalance(), locking.reservedForUnclaimed());
+        // Early unlocks never pay out extension bonuses
+        assertEq(handler.ghostEarlyUnlockExcess(), 0);
+    }
+
+    function invariant_lockingEscrows() public view {
+        uint256 escrowed;
+        for (uint256 i = 0; i < handler.actorsCount(); i++) {
+            address actor = handler.actors(i);
+            address escrow = address(locking.votingEscrow(actor));
+            if (escrow == address(0)) continue;
+
+            // An escrow holds exactly the unclaimed lock of its beneficiary
+            assertEq(token.balanceOf(escrow), locking.allocation(actor));
+            escrowed += locking.allocation(actor);
+        }
+        assertEq(locking.totalEscrowed(), escrowed);
+    }
+
+    function invariant_escrowedVotes() public view {
+        // The actors only receive votes through escrows, never delegating their own balances
+        uint256 votes;
+        for (uint256 i = 0; i < handler.actorsCount(); i++) {
+            votes += token.getVotes(handler.actors(i));
+        }
+        assertEq(votes, vesting.totalEscrowed() + locking.totalEscrowed());
+    }
+
+    function invariant_lockingTotals() public view {
+        assertLe(locking.totalClaimed(), locking.totalAssigned());
+        assertEq(locking.totalClaimed(), handler.ghostLockingPaid());
+
+        uint256 assigned;
+        uint256 claimed;
+        for (uint8 lockType = 0; lockType <= 25; lockType++) {
+            (uint256 typeAssigned, uint256 typeClaimed) = locking
+                .lockTypeTotals(lockType);
+            assertLe(typeClaimed, typeAssigned);
+            assigned += typeAssigned;
+            claimed += typeClaimed;
+        }
+        assertEq(assigned, locking.totalAssigned());
+        assertEq(claimed, locking.totalClaimed());
+    }
+}
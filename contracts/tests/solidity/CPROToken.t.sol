@@ -5,7 +5,7 @@ import {Test, console} from "forge-std/Test.sol";
 import {CPROToken} from "../src/CPROToken.sol";
 import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {IAccessControl} from "@openzeppelin/contracts/access/IAccessControl.sol";
 
 // Mock ERC20 token for testing recovery functionality
 contract MockERC20 is ERC20 {
@@ -29,6 +29,18 @@ contract CPROTokenTest is Test {
     event TokensMinted(address indexed to, uint256 amount);
     event TokensBurnedByOwner(uint256 amount);
     event TokensRecovered(address indexed tokenAddress, uint256 amount);
+    event MintQueued(
+        uint256 indexed requestId,
+        address indexed to,
+        uint256 amount,
+        uint256 executableAt
+    );
+    event MintExecuted(
+        uint256 indexed requestId,
+        address indexed to,
+        uint256 amount
+    );
+    event MintCancelled(uint256 indexed requestId);
     event Transfer(address indexed from, address indexed to, uint256 value);
     event Paused(address account);
     event Unpaused(address account);
@@ -43,6 +55,23 @@ contract CPROTokenTest is Test {
         mockToken = new MockERC20();
     }
 
+    // Queue a mint and warp past its delay
+    function _queueAndWait(
+        address to,
+        uint256 amount
+    ) internal returns (uint256 requestId) {
+        requestId = token.queueMint(to, amount);
+        vm.warp(block.timestamp + token.mintDelay());
+    }
+
+    function _mintNow(address to, uint256 amount) internal {
+        token.executeMint(_queueAndWait(to, amount));
+    }
+
+    function _liftMintCeiling() internal {
+        token.setMintCeiling(MAX_SUPPLY, token.mintEpochDuration());
+    }
+
     // Constructor
     function testConstructor() public view {
         assertEq(token.name(), "CPROToken");
@@ -50,7 +79,11 @@ contract CPROTokenTest is Test {
         assertEq(token.decimals(), 18);
         assertEq(token.totalSupply(), INITIAL_SUPPLY);
         assertEq(token.balanceOf(owner), INITIAL_SUPPLY);
-        assertEq(token.owner(), owner);
+        assertTrue(token.hasRole(token.DEFAULT_ADMIN_ROLE(), owner));
+        assertTrue(token.hasRole(token.ADMIN_ROLE(), owner));
+        assertTrue(token.hasRole(token.MINTER_ROLE(), owner));
+        assertTrue(token.hasRole(token.PAUSER_ROLE(), owner));
+        assertTrue(token.hasRole(token.TREASURY_ROLE(), owner));
         assertEq(token.cap(), MAX_SUPPLY);
         assertFalse(token.paused());
     }
@@ -61,40 +94,47 @@ contract CPROTokenTest is Test {
         uint256 initialSupply = token.totalSupply();
         uint256 initialBalance = token.balanceOf(user1);
 
+        uint256 requestId = _queueAndWait(user1, mintAmount);
+
         vm.expectEmit(true, false, false, true);
         emit TokensMinted(user1, mintAmount);
 
-        token.mint(user1, mintAmount);
+        token.executeMint(requestId);
 
         assertEq(token.totalSupply(), initialSupply + mintAmount);
         assertEq(token.balanceOf(user1), initialBalance + mintAmount);
     }
 
-    function testMintOnlyOwner() public {
+    function testMintOnlyMinter() public {
         uint256 mintAmount = 1000 * 10 ** 18;
 
+        bytes32 minterRole = token.MINTER_ROLE();
         vm.prank(nonOwner);
         vm.expectRevert(
             abi.encodeWithSelector(
-                Ownable.OwnableUnauthorizedAccount.selector,
-                nonOwner
+                IAccessControl.AccessControlUnauthorizedAccount.selector,
+                nonOwner,
+                minterRole
             )
         );
-        token.mint(user1, mintAmount);
+        token.queueMint(user1, mintAmount);
     }
 
     function testMintCapExceeded() public {
         uint256 remainingSupply = MAX_SUPPLY - token.totalSupply();
         uint256 excessAmount = remainingSupply + 1;
+        _liftMintCeiling();
+        uint256 requestId = _queueAndWait(user1, excessAmount);
 
         vm.expectRevert("CPROToken: Cap exceeded");
-        token.mint(user1, excessAmount);
+        token.executeMint(requestId);
     }
 
     function testMintExactlyCap() public {
         uint256 remainingSupply = MAX_SUPPLY - token.totalSupply();
+        _liftMintCeiling();
 
-        token.mint(user1, remainingSupply);
+        _mintNow(user1, remainingSupply);
 
         assertEq(token.totalSupply(), MAX_SUPPLY);
         assertEq(token.balanceOf(user1), remainingSupply);
@@ -115,14 +155,16 @@ contract CPROTokenTest is Test {
         assertEq(token.balanceOf(owner), initialBalance - burnAmount);
     }
 
-    function testBurnFromOwnerOnlyOwner() public {
+    function testBurnFromOwnerOnlyTreasury() public {
         uint256 burnAmount = 100 * 10 ** 18;
 
+        bytes32 treasuryRole = token.TREASURY_ROLE();
         vm.prank(nonOwner);
         vm.expectRevert(
             abi.encodeWithSelector(
-                Ownable.OwnableUnauthorizedAccount.selector,
-                nonOwner
+                IAccessControl.AccessControlUnauthorizedAccount.selector,
+                nonOwner,
+                treasuryRole
             )
         );
         token.burnFromOwner(burnAmount);
@@ -151,7 +193,7 @@ contract CPROTokenTest is Test {
         uint256 burnAmount = 100 * 10 ** 18;
 
         // Give user1 some tokens
-        token.mint(user1, burnAmount * 2);
+        _mintNow(user1, burnAmount * 2);
 
         // User1 approves owner to burn tokens
         vm.prank(user1);
@@ -189,32 +231,36 @@ contract CPROTokenTest is Test {
         assertFalse(token.paused());
     }
 
-    function testPauseOnlyOwner() public {
+    function testPauseOnlyPauser() public {
+        bytes32 pauserRole = token.PAUSER_ROLE();
         vm.prank(nonOwner);
         vm.expectRevert(
             abi.encodeWithSelector(
-                Ownable.OwnableUnauthorizedAccount.selector,
-                nonOwner
+                IAccessControl.AccessControlUnauthorizedAccount.selector,
+                nonOwner,
+                pauserRole
             )
         );
         token.pause();
     }
 
-    function testUnpauseOnlyOwner() public {
+    function testUnpauseOnlyPauser() public {
         token.pause();
 
+        bytes32 pauserRole = token.PAUSER_ROLE();
         vm.prank(nonOwner);
         vm.expectRevert(
             abi.encodeWithSelector(
-                Ownable.OwnableUnauthorizedAccount.selector,
-                nonOwner
+                IAccessControl.AccessControlUnauthorizedAccount.selector,
+                nonOwner,
+                pauserRole
             )
         );
         token.unpause();
     }
 
     function testTransferWhenPaused() public {
-        token.mint(user1, 1000 * 10 ** 18);
+        _mintNow(user1, 1000 * 10 ** 18);
         token.pause();
 
         vm.prank(user1);
@@ -223,10 +269,11 @@ contract CPROTokenTest is Test {
     }
 
     function testMintWhenPaused() public {
+        uint256 requestId = _queueAndWait(user1, 1000 * 10 ** 18);
         token.pause();
 
         vm.expectRevert();
-        token.mint(user1, 1000 * 10 ** 18);
+        token.executeMint(requestId);
     }
 
     // Recovery
@@ -251,14 +298,16 @@ contract CPROTokenTest is Test {
         );
     }
 
-    function testRecoverERC20OnlyOwner() public {
+    function testRecoverERC20OnlyTreasury() public {
         uint256 recoveryAmount = 1000 * 10 ** 18;
 
+        bytes32 treasuryRole = token.TREASURY_ROLE();
         vm.prank(nonOwner);
         vm.expectRevert(
             abi.encodeWithSelector(
-                Ownable.OwnableUnauthorizedAccount.selector,
-                nonOwner
+                IAccessControl.AccessControlUnauthorizedAccount.selector,
+                nonOwner,
+                treasuryRole
             )
         );
         token.recoverERC20(address(mockToken), recoveryAmount);
@@ -283,6 +332,193 @@ contract CPROTokenTest is Test {
         token.recoverERC20(address(mockToken), 0);
     }
 
+    // Roles
+    function testRoleAdmins() public view {
+        assertEq(
+            token.getRoleAdmin(token.ADMIN_ROLE()),
+            token.DEFAULT_ADMIN_ROLE()
+        );
+        assertEq(token.getRoleAdmin(token.MINTER_ROLE()), token.ADMIN_ROLE());
+        assertEq(token.getRoleAdmin(token.PAUSER_ROLE()), token.ADMIN_ROLE());
+        assertEq(token.getRoleAdmin(token.TREASURY_ROLE()), token.ADMIN_ROLE());
+    }
+
+    function testRoleEnumeration() public {
+        bytes32 minterRole = token.MINTER_ROLE();
+        token.grantRole(minterRole, user1);
+
+        assertEq(token.getRoleMemberCount(minterRole), 2);
+        assertEq(token.getRoleMember(minterRole, 0), owner);
+        assertEq(token.getRoleMember(minterRole, 1), user1);
+
+        token.revokeRole(minterRole, owner);
+        assertEq(token.getRoleMemberCount(minterRole), 1);
+        assertEq(token.getRoleMember(minterRole, 0), user1);
+    }
+
+    function testPauserCannotMint() public {
+        token.grantRole(token.PAUSER_ROLE(), user1);
+
+        vm.prank(user1);
+        token.pause();
+        assertTrue(token.paused());
+
+        vm.prank(user1);
+        token.unpause();
+
+        bytes32 minterRole = token.MINTER_ROLE();
+        vm.prank(user1);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                IAccessControl.AccessControlUnauthorizedAccount.selector,
+                user1,
+                minterRole
+            )
+        );
+        token.queueMint(user1, 1);
+    }
+
+    function testMinterCannotPause() public {
+        token.grantRole(token.MINTER_ROLE(), user1);
+
+        vm.startPrank(user1);
+        _mintNow(user2, 1000);
+        assertEq(token.balanceOf(user2), 1000);
+
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                IAccessControl.AccessControlUnauthorizedAccount.selector,
+                user1,
+                token.PAUSER_ROLE()
+            )
+        );
+        token.pause();
+        vm.stopPrank();
+    }
+
+    function testAdminCannotGrantAdmin() public {
+        token.grantRole(token.ADMIN_ROLE(), user1);
+
+        // ADMIN_ROLE manages operational roles...
+        vm.startPrank(user1);
+        token.grantRole(token.TREASURY_ROLE(), user2);
+        assertTrue(token.hasRole(token.TREASURY_ROLE(), user2));
+
+        // ...but only DEFAULT_ADMIN_ROLE manages ADMIN_ROLE
+        bytes32 adminRole = token.ADMIN_ROLE();
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                IAccessControl.AccessControlUnauthorizedAccount.selector,
+                user1,
+                token.DEFAULT_ADMIN_ROLE()
+            )
+        );
+        token.grantRole(adminRole, user2);
+        vm.stopPrank();
+    }
+
+    // Timelocked minting
+    function testQueueMint() public {
+        uint256 executableAt = block.timestamp + token.mintDelay();
+
+        vm.expectEmit(true, true, false, true);
+        emit MintQueued(1, user1, 1000, executableAt);
+
+        assertEq(token.queueMint(user1, 1000), 1);
+        assertEq(token.balanceOf(user1), 0);
+        assertEq(token.mintRequestCount(), 1);
+    }
+
+    function testExecuteMintBeforeDelay() public {
+        uint256 requestId = token.queueMint(user1, 1000);
+
+        vm.warp(block.timestamp + token.mintDelay() - 1);
+        vm.expectRevert("CPROToken: Mint delay not elapsed");
+        token.executeMint(requestId);
+
+        vm.warp(block.timestamp + 1);
+        vm.expectEmit(true, true, false, true);
+        emit MintExecuted(requestId, user1, 1000);
+        token.executeMint(requestId);
+
+        vm.expectRevert("CPROToken: Mint request not pending");
+        token.executeMint(requestId);
+    }
+
+    function testCancelMint() public {
+        uint256 requestId = token.queueMint(user1, 1000);
+
+        vm.expectEmit(true, false, false, false);
+        emit MintCancelled(requestId);
+        token.cancelMint(requestId);
+
+        vm.warp(block.timestamp + token.mintDelay());
+        vm.expectRevert("CPROToken: Mint request not pending");
+        token.executeMint(requestId);
+    }
+
+    function testCancelMintOnlyMinterOrAdmin() public {
+        uint256 requestId = token.queueMint(user1, 1000);
+        bytes32 adminRole = token.ADMIN_ROLE();
+
+        vm.prank(nonOwner);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                IAccessControl.AccessControlUnauthorizedAccount.selector,
+                nonOwner,
+                adminRole
+            )
+        );
+        token.cancelMint(requestId);
+
+        // An admin without MINTER_ROLE can veto
+        token.grantRole(adminRole, user2);
+        vm.prank(user2);
+        token.cancelMint(requestId);
+    }
+
+    function testMintEpochCeiling() public {
+        uint256 ceiling = token.mintEpochCeiling();
+        uint256 first = token.queueMint(user1, ceiling);
+        uint256 second = token.queueMint(user2, 1);
+        vm.warp(block.timestamp + token.mintDelay());
+
+        token.executeMint(first);
+        assertEq(token.mintableInCurrentEpoch(), 0);
+
+        vm.expectRevert("CPROToken: Epoch mint ceiling exceeded");
+        token.executeMint(second);
+
+        vm.warp(token.mintEpochStart() + token.mintEpochDuration());
+        assertEq(token.mintableInCurrentEpoch(), ceiling);
+        token.executeMint(second);
+        assertEq(token.mintedInEpoch(), 1);
+    }
+
+    function testSetMintDelay() public {
+        uint256 tooShort = token.MIN_MINT_DELAY() - 1;
+        vm.expectRevert("CPROToken: Mint delay too short");
+        token.setMintDelay(tooShort);
+
+        token.setMintDelay(7 days);
+        uint256 requestId = token.queueMint(user1, 1000);
+
+        vm.warp(block.timestamp + 7 days - 1);
+        vm.expectRevert("CPROToken: Mint delay not elapsed");
+        token.executeMint(requestId);
+    }
+
+    function testFuzzMintEpochCeiling(uint256 amount) public {
+        amount = bound(amount, 1, MAX_SUPPLY - token.totalSupply());
+        uint256 requestId = _queueAndWait(user1, amount);
+
+        if (amount > token.mintEpochCeiling()) {
+            vm.expectRevert("CPROToken: Epoch mint ceiling exceeded");
+        }
+        token.executeMint(requestId);
+        assertLe(token.mintedInEpoch(), token.mintEpochCeiling());
+    }
+
     // Transfer Tests
     function testTransfer() public {
         uint256 transferAmount = 1000 * 10 ** 18;
@@ -313,9 +549,10 @@ contract CPROTokenTest is Test {
     // Edge Cases and Fuzz Tests
     function testFuzzMint(uint256 amount) public {
         amount = bound(amount, 1, MAX_SUPPLY - token.totalSupply());
+        _liftMintCeiling();
 
         uint256 initialSupply = token.totalSupply();
-        token.mint(user1, amount);
+        _mintNow(user1, amount);
 
         assertEq(token.totalSupply(), initialSupply + amount);
         assertEq(token.balanceOf(user1), amount);
@@ -341,8 +578,8 @@ contract CPROTokenTest is Test {
         uint256 initialSupply = token.totalSupply();
 
         // Multiple mints
-        token.mint(user1, mintAmount1);
-        token.mint(user2, mintAmount2);
+        _mintNow(user1, mintAmount1);
+        _mintNow(user2, mintAmount2);
 
         // Burn from owner
         token.burnFromOwner(burnAmount);
@@ -358,8 +595,10 @@ contract CPROTokenTest is Test {
 
     // Gas optimization tests
     function testGasMint() public {
+        uint256 requestId = _queueAndWait(user1, 1000 * 10 ** 18);
+
         uint256 gasStart = gasleft();
-        token.mint(user1, 1000 * 10 ** 18);
+        token.executeMint(requestId);
         uint256 gasUsed = gasStart - gasleft();
 
         console.log("Gas used for mint:", gasUsed);
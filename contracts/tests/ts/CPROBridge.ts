@@ -0,0 +1,258 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import { CproTokenClient } from "../../../sdk/src/index.js";
+import { relayTransfers } from "../../../scripts/bridge/relayer.js";
+
+// Two chains: the home chain of the supply and an L2
+const home = await network.connect();
+const l2 = await network.connect({ override: { chainId: 31338 } });
+
+const DAY = 24 * 60 * 60;
+
+describe("Bridge", function () {
+  const HOME_CHAIN_ID = 31337n;
+  const L2_CHAIN_ID = 31338n;
+  const LIMIT = home.ethers.parseEther("10000");
+
+  let homeOwner, homeRelayer, alice, bob, l2Owner, l2Relayer;
+  let homeToken, homeAdapter, l2Token, l2Adapter;
+  let homeFromBlock: number, l2FromBlock: number;
+  let homeSnapshot, l2Snapshot;
+
+  before(async function () {
+    [homeOwner, homeRelayer, alice, bob] = await home.ethers.getSigners();
+    [l2Owner, l2Relayer] = await l2.ethers.getSigners();
+
+    homeToken = await home.ethers.deployContract("CPROToken");
+    homeAdapter = await home.ethers.deployContract("CPROBridgeAdapter", [
+      await homeToken.getAddress(),
+      homeRelayer.address,
+      homeOwner.address,
+    ]);
+    l2Token = await l2.ethers.deployContract("CPROBridgedToken");
+    l2Adapter = await l2.ethers.deployContract("CPROBridgeAdapter", [
+      await l2Token.getAddress(),
+      l2Relayer.address,
+      l2Owner.address,
+    ]);
+
+    await homeToken.setBridgeLimits(
+      await homeAdapter.getAddress(),
+      LIMIT,
+      LIMIT
+    );
+    await l2Token.setBridgeLimits(await l2Adapter.getAddress(), LIMIT, LIMIT);
+    await homeAdapter.setPeer(L2_CHAIN_ID, await l2Adapter.getAddress());
+    await l2Adapter.setPeer(HOME_CHAIN_ID, await homeAdapter.getAddress());
+
+    await homeToken.transfer(alice.address, home.ethers.parseEther("50000"));
+    await homeToken
+      .connect(alice)
+      .approve(await homeAdapter.getAddress(), home.ethers.MaxUint256);
+
+    homeFromBlock = await home.ethers.provider.getBlockNumber();
+    l2FromBlock = await l2.ethers.provider.getBlockNumber();
+    homeSnapshot = await home.networkHelpers.takeSnapshot();
+    l2Snapshot = await l2.networkHelpers.takeSnapshot();
+  });
+
+  afterEach(async function () {
+    await homeSnapshot.restore();
+    await l2Snapshot.restore();
+  });
+
+  /** Mock relayer delivering home chain transfers to the L2 */
+  function relayToL2() {
+    return relayTransfers(
+      {
+        provider: home.ethers.provider,
+        adapter: homeAdapter.target,
+        fromBlock: homeFromBlock,
+      },
+      { relayer: l2Relayer, adapter: l2Adapter.target }
+    );
+  }
+
+  /** Mock relayer delivering L2 transfers to the home chain */
+  function relayToHome() {
+    return relayTransfers(
+      {
+        provider: l2.ethers.provider,
+        adapter: l2Adapter.target,
+        fromBlock: l2FromBlock,
+      },
+      { relayer: homeRelayer, adapter: homeAdapter.target }
+    );
+  }
+
+  it("moves tokens to the L2 and back", async function () {
+    const amount = home.ethers.parseEther("1000");
+    const homeSupply = await homeToken.totalSupply();
+
+    await expect(
+      homeAdapter
+        .connect(alice)
+        .transferToChain(L2_CHAIN_ID, bob.address, amount)
+    )
+      .to.emit(homeAdapter, "TransferSent")
+      .withArgs(1n, L2_CHAIN_ID, alice.address, bob.address, amount)
+      .and.to.emit(homeToken, "BridgeBurned")
+      .withArgs(await homeAdapter.getAddress(), alice.address, amount);
+    expect(await homeToken.totalSupply()).to.equal(homeSupply - amount);
+    expect(await homeToken.bridgedOutSupply()).to.equal(amount);
+
+    const { relayed } = await relayToL2();
+    expect(relayed.map(({ nonce, to }) => ({ nonce, to }))).to.deep.equal([
+      { nonce: 1n, to: bob.address },
+    ]);
+    expect(await l2Token.balanceOf(bob.address)).to.equal(amount);
+    expect(await l2Token.totalSupply()).to.equal(amount);
+    expect(await l2Adapter.delivered(HOME_CHAIN_ID, 1n)).to.equal(true);
+    // Nothing left to deliver
+    expect((await relayToL2()).relayed).to.be.empty;
+
+    // Bob sends part of it back to alice, the L2 adapter burns his tokens
+    const [, , , l2Bob] = await l2.ethers.getSigners();
+    const back = home.ethers.parseEther("400");
+    await l2Token
+      .connect(l2Bob)
+      .approve(await l2Adapter.getAddress(), home.ethers.MaxUint256);
+    await l2Adapter
+      .connect(l2Bob)
+      .transferToChain(HOME_CHAIN_ID, alice.address, back);
+    expect(await l2Token.totalSupply()).to.equal(amount - back);
+
+    await relayToHome();
+    expect(await homeToken.balanceOf(alice.address)).to.equal(
+      home.ethers.parseEther("50000") - amount + back
+    );
+    expect(await homeToken.bridgedOutSupply()).to.equal(amount - back);
+    // Supply across both chains is unchanged
+    expect(
+      (await homeToken.totalSupply()) + (await l2Token.totalSupply())
+    ).to.equal(homeSupply);
+  });
+
+  it("only lets the relayer deliver, once per transfer", async function () {
+    await homeAdapter
+      .connect(alice)
+      .transferToChain(L2_CHAIN_ID, bob.address, 100n);
+
+    await expect(
+      l2Adapter.deliverTransfer(HOME_CHAIN_ID, 1n, l2Owner.address, 100n)
+    )
+      .to.be.revertedWithCustomError(l2Adapter, "NotRelayer")
+      .withArgs(l2Owner.address);
+    await expect(
+      l2Adapter.connect(l2Relayer).deliverTransfer(1n, 1n, bob.address, 100n)
+    )
+      .to.be.revertedWithCustomError(l2Adapter, "UnknownChain")
+      .withArgs(1n);
+
+    await relayToL2();
+    await expect(
+      l2Adapter
+        .connect(l2Relayer)
+        .deliverTransfer(HOME_CHAIN_ID, 1n, bob.address, 100n)
+    )
+      .to.be.revertedWithCustomError(l2Adapter, "AlreadyDelivered")
+      .withArgs(HOME_CHAIN_ID, 1n);
+  });
+
+  it("rejects transfers to unknown chains and empty transfers", async function () {
+    await expect(
+      homeAdapter.connect(alice).transferToChain(1n, bob.address, 100n)
+    )
+      .to.be.revertedWithCustomError(homeAdapter, "UnknownChain")
+      .withArgs(1n);
+    await expect(
+      homeAdapter.connect(alice).transferToChain(L2_CHAIN_ID, bob.address, 0n)
+    ).to.be.revertedWithCustomError(homeAdapter, "InvalidTransfer");
+    await expect(
+      homeAdapter
+        .connect(alice)
+        .transferToChain(L2_CHAIN_ID, home.ethers.ZeroAddress, 100n)
+    ).to.be.revertedWithCustomError(homeAdapter, "InvalidTransfer");
+  });
+
+  it("limits each bridge per day, replenished over time", async function () {
+    const bridge = await homeAdapter.getAddress();
+    await homeAdapter
+      .connect(alice)
+      .transferToChain(L2_CHAIN_ID, bob.address, LIMIT);
+    const sentAt = await home.networkHelpers.time.latest();
+    expect(await homeToken.burningCurrentLimitOf(bridge)).to.equal(0n);
+    await expect(
+      homeAdapter
+        .connect(alice)
+        .transferToChain(L2_CHAIN_ID, bob.address, LIMIT / 100n)
+    ).to.be.revertedWith("CPROToken: Bridge burning limit exceeded");
+
+    await home.networkHelpers.time.increaseTo(sentAt + DAY / 4);
+    const client = new CproTokenClient(await homeToken.getAddress(), homeOwner);
+    expect(await client.getBridgeLimits(bridge)).to.deep.equal({
+      mintingMaxLimit: LIMIT,
+      mintingCurrentLimit: LIMIT,
+      burningMaxLimit: LIMIT,
+      burningCurrentLimit: LIMIT / 4n,
+    });
+    await home.networkHelpers.time.increase(DAY);
+    expect(await homeToken.burningCurrentLimitOf(bridge)).to.equal(LIMIT);
+
+    // Lowering the maximum lowers the amount left by as much
+    await client.setBridgeLimits(bridge, LIMIT, LIMIT / 2n);
+    expect(await homeToken.burningCurrentLimitOf(bridge)).to.equal(LIMIT / 2n);
+
+    // A bridge without limits can neither mint nor burn
+    await expect(
+      homeToken.connect(alice).bridgeBurn(alice.address, 1n)
+    ).to.be.revertedWith("CPROToken: Bridge burning limit exceeded");
+    await expect(
+      homeToken.connect(alice).bridgeMint(alice.address, 1n)
+    ).to.be.revertedWith("CPROToken: Bridge minting limit exceeded");
+    await expect(
+      homeToken.connect(alice).setBridgeLimits(alice.address, 1n, 1n)
+    ).to.be.revertedWithCustomError(
+      homeToken,
+      "AccessControlUnauthorizedAccount"
+    );
+  });
+
+  it("only burns another account's tokens with its allowance", async function () {
+    await homeToken.setBridgeLimits(bob.address, LIMIT, LIMIT);
+    await expect(
+      homeToken.connect(bob).bridgeBurn(alice.address, 100n)
+    ).to.be.revertedWithCustomError(homeToken, "ERC20InsufficientAllowance");
+
+    await homeToken.connect(alice).approve(bob.address, 100n);
+    await homeToken.connect(bob).bridgeBurn(alice.address, 100n);
+    expect(await homeToken.allowance(alice.address, bob.address)).to.equal(0n);
+  });
+
+  it("keeps MAX_SUPPLY across chains on the home chain", async function () {
+    // The home chain only mints back what left it
+    await homeToken.setBridgeLimits(bob.address, LIMIT, LIMIT);
+    await expect(
+      homeToken.connect(bob).bridgeMint(bob.address, 1n)
+    ).to.be.revertedWith("CPROToken: Exceeds bridged out supply");
+
+    // Tokens on the L2 still count towards the cap of regular mints
+    await homeAdapter
+      .connect(alice)
+      .transferToChain(L2_CHAIN_ID, bob.address, LIMIT);
+    const room =
+      (await homeToken.MAX_SUPPLY()) - (await homeToken.totalSupply());
+    await homeToken.setMintCeiling(room, 30 * DAY);
+    await homeToken.queueMint(bob.address, room);
+    await home.networkHelpers.time.increase(await homeToken.mintDelay());
+    await expect(
+      homeToken.executeMint(await homeToken.mintRequestCount())
+    ).to.be.revertedWith("CPROToken: Cap exceeded");
+
+    // The L2 token has no supply of its own and cannot queue mints
+    expect(await l2Token.totalSupply()).to.equal(0n);
+    await expect(l2Token.queueMint(l2Owner.address, 1n)).to.be.revertedWith(
+      "CPROBridgedToken: Mint on the home chain"
+    );
+  });
+});
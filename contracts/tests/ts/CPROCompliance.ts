@@ -0,0 +1,223 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+const { ethers, networkHelpers } = await network.connect();
+
+const { time, loadFixture } = networkHelpers;
+
+describe("CPROCompliance", function () {
+  async function deployFixture() {
+    const [owner, officer, alice, bob, carol] = await ethers.getSigners();
+    const token = await ethers.deployContract("CPROToken");
+    const compliance = await ethers.deployContract("CPROCompliance", [
+      await token.getAddress(),
+      owner.address,
+    ]);
+    await compliance.grantRole(
+      await compliance.COMPLIANCE_ROLE(),
+      officer.address
+    );
+
+    await token.transfer(alice.address, ethers.parseEther("1000"));
+    await token.transfer(bob.address, ethers.parseEther("1000"));
+    await expect(token.setComplianceModule(await compliance.getAddress()))
+      .to.emit(token, "ComplianceModuleUpdated")
+      .withArgs(await compliance.getAddress());
+
+    return { owner, officer, alice, bob, carol, token, compliance };
+  }
+
+  it("rejects a zero token", async function () {
+    const [owner] = await ethers.getSigners();
+    await expect(
+      ethers.deployContract("CPROCompliance", [
+        ethers.ZeroAddress,
+        owner.address,
+      ])
+    ).to.be.revertedWith("CPROCompliance: token is zero address");
+  });
+
+  it("stops a blocked account from sending and receiving", async function () {
+    const { officer, alice, bob, token, compliance } = await loadFixture(
+      deployFixture
+    );
+    await expect(compliance.connect(officer).setBlocked(alice.address, true))
+      .to.emit(compliance, "BlockedUpdated")
+      .withArgs(alice.address, true);
+
+    await expect(token.connect(alice).transfer(bob.address, 1n))
+      .to.be.revertedWithCustomError(compliance, "AccountBlocked")
+      .withArgs(alice.address);
+    await expect(token.connect(bob).transfer(alice.address, 1n))
+      .to.be.revertedWithCustomError(compliance, "AccountBlocked")
+      .withArgs(alice.address);
+    // transferFrom by an unrestricted spender is checked on the holder
+    await token.connect(alice).approve(bob.address, 1n);
+    await expect(
+      token.connect(bob).transferFrom(alice.address, bob.address, 1n)
+    ).to.be.revertedWithCustomError(compliance, "AccountBlocked");
+    await expect(token.connect(alice).burn(1n)).to.be.revertedWithCustomError(
+      compliance,
+      "AccountBlocked"
+    );
+
+    await compliance.connect(officer).setBlocked(alice.address, false);
+    await token.connect(alice).transfer(bob.address, 1n);
+    await token.connect(bob).transfer(alice.address, 1n);
+  });
+
+  it("blocks mints to a blocked account", async function () {
+    const { owner, alice, token, compliance } = await loadFixture(
+      deployFixture
+    );
+    await compliance.setBlocked(alice.address, true);
+    await token.queueMint(alice.address, 1000n);
+    await time.increase(await token.mintDelay());
+    await expect(
+      token.executeMint(await token.mintRequestCount())
+    ).to.be.revertedWithCustomError(compliance, "AccountBlocked");
+
+    await token.queueMint(owner.address, 1000n);
+    await time.increase(await token.mintDelay());
+    await token.executeMint(await token.mintRequestCount());
+  });
+
+  it("keeps the frozen part of a balance", async function () {
+    const { officer, alice, bob, token, compliance } = await loadFixture(
+      deployFixture
+    );
+    await expect(
+      compliance
+        .connect(officer)
+        .setFrozenAmount(alice.address, ethers.parseEther("600"))
+    )
+      .to.emit(compliance, "FrozenAmountUpdated")
+      .withArgs(alice.address, ethers.parseEther("600"));
+    expect(await compliance.transferableBalance(alice.address)).to.equal(
+      ethers.parseEther("400")
+    );
+
+    await expect(
+      token.connect(alice).transfer(bob.address, ethers.parseEther("401"))
+    )
+      .to.be.revertedWithCustomError(compliance, "BalanceFrozen")
+      .withArgs(
+        alice.address,
+        ethers.parseEther("400"),
+        ethers.parseEther("401")
+      );
+    await token.connect(alice).transfer(bob.address, ethers.parseEther("400"));
+    expect(await compliance.transferableBalance(alice.address)).to.equal(0n);
+
+    // Incoming tokens are transferable, the frozen amount stays
+    await token.connect(bob).transfer(alice.address, ethers.parseEther("50"));
+    await token.connect(alice).transfer(bob.address, ethers.parseEther("50"));
+    expect(await token.balanceOf(alice.address)).to.equal(
+      ethers.parseEther("600")
+    );
+
+    await compliance.connect(officer).setFrozenAmount(alice.address, 0);
+    await token.connect(alice).transfer(bob.address, ethers.parseEther("600"));
+  });
+
+  it("only moves tokens between allowlisted accounts in allowlist mode", async function () {
+    const { owner, alice, bob, carol, token, compliance } = await loadFixture(
+      deployFixture
+    );
+    await expect(compliance.setAllowlistEnabled(true))
+      .to.emit(compliance, "AllowlistModeUpdated")
+      .withArgs(true);
+    await expect(compliance.setAllowlisted([alice.address, bob.address], true))
+      .to.emit(compliance, "AllowlistUpdated")
+      .withArgs(bob.address, true);
+
+    await token.connect(alice).transfer(bob.address, 1n);
+    await expect(token.connect(alice).transfer(carol.address, 1n))
+      .to.be.revertedWithCustomError(compliance, "NotAllowlisted")
+      .withArgs(carol.address);
+    await expect(token.transfer(alice.address, 1n))
+      .to.be.revertedWithCustomError(compliance, "NotAllowlisted")
+      .withArgs(owner.address);
+
+    await compliance.setAllowlisted([bob.address], false);
+    await expect(
+      token.connect(alice).transfer(bob.address, 1n)
+    ).to.be.revertedWithCustomError(compliance, "NotAllowlisted");
+
+    await compliance.setAllowlistEnabled(false);
+    await token.connect(alice).transfer(carol.address, 1n);
+  });
+
+  it("restricts the settings to their roles", async function () {
+    const { alice, token, compliance } = await loadFixture(deployFixture);
+    const COMPLIANCE_ROLE = await compliance.COMPLIANCE_ROLE();
+
+    for (const call of [
+      compliance.connect(alice).setBlocked(alice.address, true),
+      compliance.connect(alice).setFrozenAmount(alice.address, 1n),
+      compliance.connect(alice).setAllowlistEnabled(true),
+      compliance.connect(alice).setAllowlisted([alice.address], true),
+    ]) {
+      await expect(call)
+        .to.be.revertedWithCustomError(
+          compliance,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(alice.address, COMPLIANCE_ROLE);
+    }
+    await expect(
+      token.connect(alice).setComplianceModule(ethers.ZeroAddress)
+    ).to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount");
+  });
+
+  it("lifts every restriction when the module is removed", async function () {
+    const { alice, bob, token, compliance } = await loadFixture(deployFixture);
+    await compliance.setBlocked(alice.address, true);
+
+    await expect(token.setComplianceModule(ethers.ZeroAddress))
+      .to.emit(token, "ComplianceModuleUpdated")
+      .withArgs(ethers.ZeroAddress);
+    expect(await token.complianceModule()).to.equal(ethers.ZeroAddress);
+    await token.connect(alice).transfer(bob.address, 1n);
+  });
+
+  it("leaves pausing to the token", async function () {
+    const { alice, bob, token } = await loadFixture(deployFixture);
+    await token.pause();
+    await expect(
+      token.connect(alice).transfer(bob.address, 1n)
+    ).to.be.revertedWithCustomError(token, "EnforcedPause");
+    await token.unpause();
+    await token.connect(alice).transfer(bob.address, 1n);
+  });
+
+  it("holds vested tokens of a blocked beneficiary in the vesting contract", async function () {
+    const { alice, token, compliance } = await loadFixture(deployFixture);
+    const vesting = await ethers.deployContract("CPROVesting", [
+      await token.getAddress(),
+    ]);
+    await token.approve(await vesting.getAddress(), ethers.MaxUint256);
+    const start = await time.latest();
+    await vesting.createVestingSchedule(
+      alice.address,
+      ethers.parseEther("100"),
+      start,
+      0,
+      1000
+    );
+    await compliance.setBlocked(alice.address, true);
+
+    await time.increaseTo(start + 1000);
+    await expect(
+      vesting.connect(alice).claimAll()
+    ).to.be.revertedWithCustomError(compliance, "AccountBlocked");
+    expect(await token.balanceOf(await vesting.getAddress())).to.equal(
+      ethers.parseEther("100")
+    );
+
+    await compliance.setBlocked(alice.address, false);
+    await vesting.connect(alice).claimAll();
+    expect(await token.balanceOf(alice.address)).to.equal(
+      ethers.parseEther("1100")
+    );
+  });
+});
@@ -0,0 +1,202 @@
+import { expect } from "chai";
+import { mkdtemp, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { network } from "hardhat";
+import { parseDeployConfig } from "../../../scripts/deploy/config.js";
+import { deployAll } from "../../../scripts/deploy/pipeline.js";
+const { ethers } = await network.connect();
+
+describe("Deployment pipeline", function () {
+  let deployer, sweepRecipient, admin, manifestFile;
+
+  beforeEach(async function () {
+    [deployer, sweepRecipient, admin] = await ethers.getSigners();
+    const dir = await mkdtemp(path.join(tmpdir(), "cpro-deploy-"));
+    manifestFile = path.join(dir, "deployments", "hardhat.json");
+  });
+
+  function config(overrides = {}) {
+    const { config, errors } = parseDeployConfig({
+      locking: {
+        poolSize: "500000",
+        beneficiaries: 50,
+        sweepRecipient: sweepRecipient.address,
+        fund: true,
+      },
+      ...overrides,
+    });
+    expect(errors).to.deep.equal([]);
+    return config;
+  }
+
+  function deploy(cfg) {
+    return deployAll(ethers, deployer, cfg, {
+      network: "hardhat",
+      manifestFile,
+    });
+  }
+
+  describe("parseDeployConfig", function () {
+    it("collects every invalid field", function () {
+      const { config, errors } = parseDeployConfig({
+        locking: {
+          poolSize: "-1",
+          beneficiaries: 0,
+          sweepRecipient: "0x70997970c51812DC3A010C7d01b50e0d17dc79C8",
+          fund: "yes",
+        },
+        admin: "0x0000000000000000000000000000000000000000",
+      });
+      expect(config).to.equal(undefined);
+      expect(errors).to.deep.equal([
+        "locking.poolSize: must be greater than 0",
+        "locking.beneficiaries: must be a positive integer, got 0",
+        "locking.sweepRecipient: bad checksum for 0x70997970c51812DC3A010C7d01b50e0d17dc79C8",
+        "locking.fund: must be true or false",
+        "admin: must not be the zero address",
+      ]);
+    });
+
+    it("rejects a pool too small for the beneficiary count", function () {
+      const { errors } = parseDeployConfig({
+        locking: {
+          poolSize: "0.000000000000000001",
+          beneficiaries: 2,
+          sweepRecipient: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+        },
+      });
+      expect(errors).to.deep.equal([
+        "locking.beneficiaries: the per-beneficiary share would be 0",
+      ]);
+    });
+
+    it("converts the pool to wei", function () {
+      const { config } = parseDeployConfig({
+        locking: {
+          poolSize: "500000",
+          beneficiaries: 50,
+          sweepRecipient: "0x70997970c51812dc3a010c7d01b50e0d17dc79c8",
+        },
+      });
+      expect(config).to.deep.equal({
+        locking: {
+          poolSize: ethers.parseEther("500000"),
+          beneficiaries: 50n,
+          sweepRecipient: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+          fund: false,
+        },
+        admin: undefined,
+      });
+    });
+  });
+
+  it("deploys, funds and records everything in the manifest", async function () {
+    const manifest = await deploy(config());
+
+    const written = JSON.parse(await readFile(manifestFile, "utf8"));
+    expect(written).to.deep.equal(manifest);
+    expect(written.chainId).to.equal("31337");
+    expect(written.deployer).to.equal(deployer.address);
+    expect(Object.keys(written.contracts)).to.deep.equal([
+      "CPROToken",
+      "CPROVesting",
+      "CPROLocking",
+    ]);
+    expect(Object.keys(written.steps)).to.deep.equal(["fundLocking"]);
+
+    const { CPROToken, CPROVesting, CPROLocking } = written.contracts;
+    expect(CPROVesting.args).to.deep.equal([CPROToken.address]);
+    expect(CPROLocking.args).to.deep.equal([
+      CPROToken.address,
+      ethers.parseEther("500000").toString(),
+      "50",
+      sweepRecipient.address,
+    ]);
+    expect(CPROToken.blockNumber).to.be.lessThan(CPROLocking.blockNumber);
+
+    const token = await ethers.getContractAt("CPROToken", CPROToken.address);
+    const locking = await ethers.getContractAt(
+      "CPROLocking",
+      CPROLocking.address
+    );
+    expect(await token.balanceOf(CPROLocking.address)).to.equal(
+      ethers.parseEther("500000")
+    );
+    expect(await locking.sharePerBeneficiary()).to.equal(
+      ethers.parseEther("10000")
+    );
+    expect(await locking.sweepRecipient()).to.equal(sweepRecipient.address);
+  });
+
+  it("sends nothing when re-run against a complete manifest", async function () {
+    const first = await deploy(config());
+    const block = await ethers.provider.getBlockNumber();
+
+    const second = await deploy(config());
+    expect(second).to.deep.equal(first);
+    expect(await ethers.provider.getBlockNumber()).to.equal(block);
+  });
+
+  it("resumes with the steps that are missing", async function () {
+    const unfunded = config();
+    unfunded.locking.fund = false;
+    const first = await deploy(unfunded);
+    expect(first.steps).to.deep.equal({});
+
+    const resumed = await deploy(config({ admin: admin.address }));
+    expect(resumed.contracts).to.deep.equal(first.contracts);
+    expect(Object.keys(resumed.steps)).to.deep.equal([
+      "fundLocking",
+      "transferVestingOwnership",
+      "transferLockingOwnership",
+      "grantTokenRoles",
+      "renounceDeployerTokenRoles",
+    ]);
+
+    const token = await ethers.getContractAt(
+      "CPROToken",
+      resumed.contracts.CPROToken.address
+    );
+    const vesting = await ethers.getContractAt(
+      "CPROVesting",
+      resumed.contracts.CPROVesting.address
+    );
+    expect(
+      await token.balanceOf(resumed.contracts.CPROLocking.address)
+    ).to.equal(ethers.parseEther("500000"));
+    expect(await vesting.owner()).to.equal(admin.address);
+    expect(await token.hasRole(await token.MINTER_ROLE(), admin.address)).to.be
+      .true;
+    expect(
+      await token.hasRole(await token.DEFAULT_ADMIN_ROLE(), deployer.address)
+    ).to.be.false;
+  });
+
+  it("refuses a manifest that does not match the configuration or the chain", async function () {
+    await deploy(config());
+
+    await expect(
+      deploy(
+        config({
+          locking: {
+            poolSize: "600000",
+            beneficiaries: 50,
+            sweepRecipient: sweepRecipient.address,
+          },
+        })
+      )
+    ).to.be.rejectedWith("CPROLocking in");
+
+    const manifest = JSON.parse(await readFile(manifestFile, "utf8"));
+    manifest.contracts.CPROToken.address = admin.address;
+    await writeFile(manifestFile, JSON.stringify(manifest));
+    await expect(deploy(config())).to.be.rejectedWith("has no code at");
+
+    manifest.chainId = "1";
+    await writeFile(manifestFile, JSON.stringify(manifest));
+    await expect(deploy(config())).to.be.rejectedWith(
+      "was written for chain 1, not 31337"
+    );
+  });
+});
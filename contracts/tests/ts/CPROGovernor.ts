@@ -0,0 +1,353 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+const { ethers, networkHelpers } = await network.connect();
+
+const { time, mine, loadFixture } = networkHelpers;
+
+const DAY = 24 * 60 * 60;
+const VOTING_DELAY = 1; // blocks
+const VOTING_PERIOD = 50; // blocks
+const QUORUM_PERCENT = 4;
+
+// Governor.ProposalState
+const PENDING = 0n;
+const ACTIVE = 1n;
+const DEFEATED = 3n;
+const SUCCEEDED = 4n;
+const QUEUED = 5n;
+const EXECUTED = 7n;
+
+// GovernorCountingSimple.VoteType
+const AGAINST = 0;
+const FOR = 1;
+
+describe("CPROGovernor", function () {
+  /**
+   * Deploys the token, timelock and governor, and hands every privilege of the token, vesting
+   * and locking contracts over to the timelock.
+   */
+  async function deployFixture() {
+    const [deployer, alice, bob, sweepRecipient] = await ethers.getSigners();
+
+    const token = await ethers.deployContract("CPROToken");
+    const timelock = await ethers.deployContract("CPROTimelock", [
+      DAY,
+      [],
+      [ethers.ZeroAddress],
+      deployer.address,
+    ]);
+    const governor = await ethers.deployContract("CPROGovernor", [
+      await token.getAddress(),
+      await timelock.getAddress(),
+      VOTING_DELAY,
+      VOTING_PERIOD,
+      ethers.parseEther("1000"),
+      QUORUM_PERCENT,
+    ]);
+
+    // Only the governor proposes, the deployer gives up the timelock admin
+    await timelock.grantRole(
+      await timelock.PROPOSER_ROLE(),
+      await governor.getAddress()
+    );
+    await timelock.grantRole(
+      await timelock.CANCELLER_ROLE(),
+      await governor.getAddress()
+    );
+    await timelock.renounceRole(
+      await timelock.DEFAULT_ADMIN_ROLE(),
+      deployer.address
+    );
+
+    // Vesting schedule created before the handover, revoked later by governance
+    const vesting = await ethers.deployContract("CPROVesting", [
+      await token.getAddress(),
+    ]);
+    await token.approve(await vesting.getAddress(), ethers.parseEther("1000"));
+    await vesting.createVestingSchedule(
+      bob.address,
+      ethers.parseEther("1000"),
+      await time.latest(),
+      0,
+      365 * DAY
+    );
+
+    const locking = await ethers.deployContract("CPROLocking", [
+      await token.getAddress(),
+      ethers.parseEther("10000"),
+      10,
+      sweepRecipient.address,
+    ]);
+    await token.transfer(
+      await locking.getAddress(),
+      ethers.parseEther("10000")
+    );
+
+    await vesting.transferOwnership(await timelock.getAddress());
+    await locking.transferOwnership(await timelock.getAddress());
+
+    const roles = [
+      await token.DEFAULT_ADMIN_ROLE(),
+      await token.ADMIN_ROLE(),
+      await token.MINTER_ROLE(),
+      await token.PAUSER_ROLE(),
+      await token.TREASURY_ROLE(),
+    ];
+    for (const role of roles) {
+      await token.grantRole(role, await timelock.getAddress());
+    }
+    for (const role of roles) {
+      await token.renounceRole(role, deployer.address);
+    }
+
+    // Voting power: deployer 589k, alice 100k, bob keeps his tokens undelegated
+    await token.transfer(alice.address, ethers.parseEther("100000"));
+    await token.transfer(bob.address, ethers.parseEther("300000"));
+    await token.delegate(deployer.address);
+    await token.connect(alice).delegate(alice.address);
+    await mine();
+
+    return {
+      deployer,
+      alice,
+      bob,
+      token,
+      timelock,
+      governor,
+      vesting,
+      locking,
+      roles,
+    };
+  }
+
+  /**
+   * Builds a proposal from `[contract, method, args]` calls.
+   */
+  function proposal(calls, description) {
+    return {
+      targets: calls.map(([contract]) => contract.target),
+      values: calls.map(() => 0),
+      calldatas: calls.map(([contract, method, args]) =>
+        contract.interface.encodeFunctionData(method, args)
+      ),
+      description,
+      descriptionHash: ethers.id(description),
+    };
+  }
+
+  /**
+   * Proposes, votes for (with `voter`), queues and executes a proposal.
+   */
+  async function passProposal(governor, voter, p) {
+    await governor
+      .connect(voter)
+      .propose(p.targets, p.values, p.calldatas, p.description);
+    const proposalId = await governor.hashProposal(
+      p.targets,
+      p.values,
+      p.calldatas,
+      p.descriptionHash
+    );
+
+    await mine(VOTING_DELAY + 1);
+    await governor.connect(voter).castVote(proposalId, FOR);
+    await mine(VOTING_PERIOD);
+
+    await governor.queue(p.targets, p.values, p.calldatas, p.descriptionHash);
+    await time.increase(DAY);
+    await governor.execute(p.targets, p.values, p.calldatas, p.descriptionHash);
+    return proposalId;
+  }
+
+  it("is configured from its constructor", async function () {
+    const { token, timelock, governor } = await loadFixture(deployFixture);
+
+    expect(await governor.name()).to.equal("CPROGovernor");
+    expect(await governor.token()).to.equal(await token.getAddress());
+    expect(await governor.timelock()).to.equal(await timelock.getAddress());
+    expect(await governor.votingDelay()).to.equal(VOTING_DELAY);
+    expect(await governor.votingPeriod()).to.equal(VOTING_PERIOD);
+    expect(await governor.proposalThreshold()).to.equal(
+      ethers.parseEther("1000")
+    );
+
+    const snapshot = (await ethers.provider.getBlockNumber()) - 1;
+    expect(await governor.quorum(snapshot)).to.equal(
+      ((await token.totalSupply()) * BigInt(QUORUM_PERCENT)) / 100n
+    );
+  });
+
+  it("leaves the timelock as the only privileged account", async function () {
+    const { deployer, token, timelock, vesting, locking, roles } =
+      await loadFixture(deployFixture);
+
+    for (const role of roles) {
+      expect(await token.hasRole(role, await timelock.getAddress())).to.equal(
+        true
+      );
+      expect(await token.getRoleMemberCount(role)).to.equal(1n);
+    }
+    expect(await vesting.owner()).to.equal(await timelock.getAddress());
+    expect(await locking.owner()).to.equal(await timelock.getAddress());
+
+    await expect(token.pause()).to.be.revertedWithCustomError(
+      token,
+      "AccessControlUnauthorizedAccount"
+    );
+    await expect(vesting.revokeVesting(1))
+      .to.be.revertedWithCustomError(vesting, "OwnableUnauthorizedAccount")
+      .withArgs(deployer.address);
+  });
+
+  it("pauses the token through propose, vote, queue and execute", async function () {
+    const { deployer, alice, token, timelock, governor } = await loadFixture(
+      deployFixture
+    );
+    const p = proposal([[token, "pause", []]], "Pause CPRO transfers");
+
+    await governor.propose(p.targets, p.values, p.calldatas, p.description);
+    const proposalId = await governor.hashProposal(
+      p.targets,
+      p.values,
+      p.calldatas,
+      p.descriptionHash
+    );
+    expect(await governor.state(proposalId)).to.equal(PENDING);
+
+    await mine(VOTING_DELAY + 1);
+    expect(await governor.state(proposalId)).to.equal(ACTIVE);
+    await expect(governor.castVote(proposalId, FOR))
+      .to.emit(governor, "VoteCast")
+      .withArgs(
+        deployer.address,
+        proposalId,
+        FOR,
+        ethers.parseEther("589000"),
+        ""
+      );
+    await governor.connect(alice).castVote(proposalId, AGAINST);
+
+    await mine(VOTING_PERIOD);
+    expect(await governor.state(proposalId)).to.equal(SUCCEEDED);
+
+    await governor.queue(p.targets, p.values, p.calldatas, p.descriptionHash);
+    expect(await governor.state(proposalId)).to.equal(QUEUED);
+
+    // The timelock delay still applies
+    await expect(
+      governor.execute(p.targets, p.values, p.calldatas, p.descriptionHash)
+    ).to.be.revertedWithCustomError(
+      timelock,
+      "TimelockUnexpectedOperationState"
+    );
+
+    await time.increase(DAY);
+    await governor.execute(p.targets, p.values, p.calldatas, p.descriptionHash);
+    expect(await governor.state(proposalId)).to.equal(EXECUTED);
+    expect(await token.paused()).to.equal(true);
+  });
+
+  it("mints through a queueMint and an executeMint proposal", async function () {
+    const { deployer, alice, token, governor } = await loadFixture(
+      deployFixture
+    );
+    const amount = ethers.parseEther("5000");
+
+    await passProposal(
+      governor,
+      deployer,
+      proposal(
+        [[token, "queueMint", [alice.address, amount]]],
+        "Queue a grant mint"
+      )
+    );
+    const requestId = await token.mintRequestCount();
+    expect((await token.mintRequests(requestId)).to).to.equal(alice.address);
+
+    await time.increase(await token.mintDelay());
+    await passProposal(
+      governor,
+      deployer,
+      proposal([[token, "executeMint", [requestId]]], "Execute the grant mint")
+    );
+
+    expect(await token.balanceOf(alice.address)).to.equal(
+      ethers.parseEther("100000") + amount
+    );
+  });
+
+  it("administers vesting and locking in one proposal", async function () {
+    const { deployer, bob, token, timelock, vesting, locking, governor } =
+      await loadFixture(deployFixture);
+
+    await passProposal(
+      governor,
+      deployer,
+      proposal(
+        [
+          [vesting, "revokeVesting", [1]],
+          [locking, "addBeneficiary", [bob.address, 2]],
+        ],
+        "Revoke bob's vesting and lock his allocation instead"
+      )
+    );
+
+    expect((await vesting.getVestingSchedule(1)).revoked).to.equal(true);
+    expect(await locking.beneficiaryLockId(bob.address)).to.not.equal(0n);
+    // Unvested tokens went back to the vesting owner, the timelock
+    expect(
+      await token.balanceOf(await timelock.getAddress())
+    ).to.be.greaterThan(0n);
+  });
+
+  it("requires the proposal threshold", async function () {
+    const { bob, token, governor } = await loadFixture(deployFixture);
+    const p = proposal([[token, "pause", []]], "Pause CPRO transfers");
+
+    // bob holds tokens but never delegated, so he has no votes
+    await expect(
+      governor
+        .connect(bob)
+        .propose(p.targets, p.values, p.calldatas, p.description)
+    )
+      .to.be.revertedWithCustomError(
+        governor,
+        "GovernorInsufficientProposerVotes"
+      )
+      .withArgs(bob.address, 0, ethers.parseEther("1000"));
+  });
+
+  it("defeats proposals without quorum", async function () {
+    const { deployer, alice, token, governor } = await loadFixture(
+      deployFixture
+    );
+    // alice alone is below the 4% quorum
+    await token
+      .connect(alice)
+      .transfer(deployer.address, ethers.parseEther("70000"));
+    await mine();
+
+    const p = proposal([[token, "pause", []]], "Pause CPRO transfers");
+    await governor
+      .connect(alice)
+      .propose(p.targets, p.values, p.calldatas, p.description);
+    const proposalId = await governor.hashProposal(
+      p.targets,
+      p.values,
+      p.calldatas,
+      p.descriptionHash
+    );
+
+    await mine(VOTING_DELAY + 1);
+    await governor.connect(alice).castVote(proposalId, FOR);
+    await mine(VOTING_PERIOD);
+
+    expect(await governor.state(proposalId)).to.equal(DEFEATED);
+    await expect(
+      governor.queue(p.targets, p.values, p.calldatas, p.descriptionHash)
+    ).to.be.revertedWithCustomError(
+      governor,
+      "GovernorUnexpectedProposalState"
+    );
+  });
+});
@@ -0,0 +1,391 @@
+import { expect } from "chai";
+import { mkdtemp } from "node:fs/promises";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { network } from "hardhat";
+import { parseDeployConfig } from "../../../scripts/deploy/config.js";
+import { deployAll } from "../../../scripts/deploy/pipeline.js";
+import { createApiServer } from "../../../scripts/indexer/api.js";
+import { IndexerStore } from "../../../scripts/indexer/store.js";
+import {
+  contractsFromManifest,
+  syncOnce,
+} from "../../../scripts/indexer/sync.js";
+const { ethers, networkHelpers } = await network.connect();
+
+const { time } = networkHelpers;
+
+const DAY = 24 * 60 * 60;
+
+describe("Event indexer", function () {
+  let deployer, alice, bob, carol;
+  let token, vesting, locking, contracts, store, server, baseUrl;
+
+  beforeEach(async function () {
+    [deployer, alice, bob, carol] = await ethers.getSigners();
+    const dir = await mkdtemp(path.join(tmpdir(), "cpro-indexer-"));
+
+    const { config } = parseDeployConfig({
+      locking: {
+        poolSize: "3000",
+        beneficiaries: 3,
+        sweepRecipient: deployer.address,
+        fund: true,
+      },
+    });
+    const manifest = await deployAll(ethers, deployer, config!, {
+      network: "hardhat",
+      manifestFile: path.join(dir, "hardhat.json"),
+    });
+    token = await ethers.getContractAt(
+      "CPROToken",
+      manifest.contracts.CPROToken.address
+    );
+    vesting = await ethers.getContractAt(
+      "CPROVesting",
+      manifest.contracts.CPROVesting.address
+    );
+    locking = await ethers.getContractAt(
+      "CPROLocking",
+      manifest.contracts.CPROLocking.address
+    );
+    await token.approve(await vesting.getAddress(), ethers.MaxUint256);
+
+    contracts = contractsFromManifest(manifest);
+    store = new IndexerStore(path.join(dir, "index.sqlite"));
+    store.open(contracts);
+
+    server = createApiServer(store);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async function () {
+    await new Promise((resolve) => server.close(resolve));
+    store.close();
+  });
+
+  function sync() {
+    return syncOnce(ethers.provider, store, contracts, {
+      confirmations: 0,
+      blockRange: 3,
+    });
+  }
+
+  async function get(route: string) {
+    const response = await fetch(baseUrl + route);
+    return { status: response.status, body: await response.json() };
+  }
+
+  it("serves positions, claims and supply changes", async function () {
+    const start = await time.latest();
+    await vesting.createVestingSchedule(
+      alice.address,
+      ethers.parseEther("100"),
+      start,
+      0,
+      1000
+    );
+    await vesting.createVestingSchedule(
+      bob.address,
+      ethers.parseEther("200"),
+      start,
+      0,
+      1000
+    );
+    await vesting.createVestingSchedule(
+      alice.address,
+      ethers.parseEther("300"),
+      start,
+      0,
+      1000
+    );
+    await locking.addBeneficiaryWithTerms(
+      alice.address,
+      7,
+      ethers.parseEther("500"),
+      start + 100
+    );
+    await locking.addBeneficiary(carol.address, 1);
+
+    await time.setNextBlockTimestamp(start + 500);
+    await vesting.revokeVesting(2);
+    await time.setNextBlockTimestamp(start + 600);
+    await vesting.connect(alice).claimAll();
+    await locking.connect(alice).claim();
+    await vesting.connect(alice).proposeScheduleTransfer(3, carol.address);
+    await vesting.connect(carol).acceptScheduleTransfer(3);
+    await token.burn(ethers.parseEther("10"));
+
+    const result = await sync();
+    expect(result.indexedBlock).to.equal(
+      await ethers.provider.getBlockNumber()
+    );
+    expect(result.rolledBackTo).to.equal(undefined);
+
+    const status = await get("/status");
+    expect(status.body).to.deep.equal({
+      chainId: "31337",
+      indexedBlock: result.indexedBlock,
+    });
+
+    const alicePositions = await get(`/positions/${alice.address}`);
+    expect(alicePositions.status).to.equal(200);
+    expect(alicePositions.body.schedules).to.have.length(1);
+    expect(alicePositions.body.schedules[0]).to.include({
+      scheduleId: "1",
+      beneficiary: alice.address,
+      totalAmount: ethers.parseEther("100").toString(),
+      claimedAmount: ethers.parseEther("60").toString(),
+      revoked: false,
+    });
+    expect(alicePositions.body.locks).to.have.length(1);
+    expect(alicePositions.body.locks[0]).to.include({
+      lockId: "1",
+      amount: ethers.parseEther("500").toString(),
+      lockType: 7,
+      unlockTime: String(start + 100),
+      claimed: true,
+    });
+
+    // Schedule 3 was transferred with its claimed amount
+    const carolPositions = await get(
+      `/positions/${carol.address.toLowerCase()}`
+    );
+    expect(carolPositions.body.address).to.equal(carol.address);
+    expect(carolPositions.body.schedules[0]).to.include({
+      scheduleId: "3",
+      beneficiary: carol.address,
+      claimedAmount: ethers.parseEther("180").toString(),
+    });
+    expect(carolPositions.body.locks[0]).to.include({
+      lockType: 1,
+      claimed: false,
+    });
+
+    const bobPositions = await get(`/positions/${bob.address}`);
+    expect(bobPositions.body.schedules[0]).to.include({
+      revoked: true,
+      claimedAmount: ethers.parseEther("100").toString(),
+      unvestedAmount: ethers.parseEther("100").toString(),
+    });
+
+    const claims = await get(`/claims/${alice.address}`);
+    expect(
+      claims.body.claims.map(({ contract, id, amount }) => ({
+        contract,
+        id,
+        amount,
+      }))
+    ).to.deep.equal([
+      {
+        contract: "CPROVesting",
+        id: "1",
+        amount: ethers.parseEther("60").toString(),
+      },
+      {
+        contract: "CPROVesting",
+        id: "3",
+        amount: ethers.parseEther("180").toString(),
+      },
+      {
+        contract: "CPROLocking",
+        id: "1",
+        amount: ethers.parseEther("500").toString(),
+      },
+    ]);
+    expect(claims.body.claims[0].timestamp).to.equal(start + 600);
+
+    const supply = await get("/supply");
+    expect(supply.body.totalSupply).to.equal(
+      (await token.totalSupply()).toString()
+    );
+    expect(supply.body.changes.map((change) => change.kind)).to.deep.equal([
+      "mint",
+      "burn",
+    ]);
+    expect(supply.body.changes[1]).to.include({
+      account: deployer.address,
+      amount: ethers.parseEther("10").toString(),
+    });
+  });
+
+  it("follows locks transferred with their token", async function () {
+    const positions = await ethers.deployContract("CPROLockPositions", [
+      await locking.getAddress(),
+    ]);
+    await locking.setPositions(await positions.getAddress());
+    await locking.setLockTypeTransferable(7, true);
+    await locking.addBeneficiaryWithTerms(
+      alice.address,
+      7,
+      ethers.parseEther("500"),
+      (await time.latest()) + 100
+    );
+    await positions.mint(1);
+    await positions.connect(alice).transferFrom(alice.address, bob.address, 1);
+    await sync();
+
+    expect((await get(`/positions/${alice.address}`)).body.locks).to.be.empty;
+    const { locks } = (await get(`/positions/${bob.address}`)).body;
+    expect(locks).to.have.length(1);
+    expect(locks[0]).to.include({
+      lockId: "1",
+      beneficiary: bob.address,
+      amount: ethers.parseEther("500").toString(),
+      claimed: false,
+    });
+  });
+
+  it("shows the locks and Merkle allocations that expired", async function () {
+    await locking.setMerkleRoot(
+      ethers.id("allocations"),
+      ethers.parseEther("200")
+    );
+    await locking.setClaimWindow(await locking.MIN_CLAIM_WINDOW());
+    await locking.addBeneficiaryWithTerms(
+      alice.address,
+      7,
+      ethers.parseEther("500"),
+      (await time.latest()) + 100
+    );
+    await time.increaseTo(
+      (await locking.endTime()) + (await locking.MIN_CLAIM_WINDOW())
+    );
+    await locking.expireLocks([1]);
+    await locking.expireMerkleAllocations();
+    await sync();
+
+    const { locks } = (await get(`/positions/${alice.address}`)).body;
+    expect(locks[0]).to.include({ lockId: "1", claimed: false, expired: true });
+
+    const expiries = (await get("/expiries")).body;
+    expect(expiries.locks).to.have.length(1);
+    expect(expiries.locks[0]).to.include({
+      lockId: "1",
+      beneficiary: alice.address,
+      amount: ethers.parseEther("500").toString(),
+    });
+    expect(expiries.merkleAllocations).to.include({
+      amount: ethers.parseEther("200").toString(),
+    });
+  });
+
+  it("follows extended and topped-up locks", async function () {
+    await locking.setExtensionBonus(1000);
+    const start = await time.latest();
+    await locking.addBeneficiaryWithTerms(
+      alice.address,
+      7,
+      ethers.parseEther("500"),
+      start + 100
+    );
+    await locking.connect(alice).extendLock(1, start + 100 + 365 * DAY);
+    await token.transfer(alice.address, ethers.parseEther("50"));
+    await token
+      .connect(alice)
+      .approve(await locking.getAddress(), ethers.parseEther("50"));
+    await locking.connect(alice).topUpLock(1, ethers.parseEther("50"));
+    await sync();
+
+    const { locks } = (await get(`/positions/${alice.address}`)).body;
+    expect(locks[0]).to.include({
+      lockId: "1",
+      // 500 locked, a 10% bonus for one year and the top-up
+      amount: ethers.parseEther("600").toString(),
+      unlockTime: String(start + 100 + 365 * DAY),
+    });
+    expect(locks[0].amount).to.equal((await locking.lockAmount(1)).toString());
+  });
+
+  it("only indexes new blocks when synced again", async function () {
+    await sync();
+    const { indexedBlock } = await sync();
+    expect(indexedBlock).to.equal(await ethers.provider.getBlockNumber());
+
+    const start = await time.latest();
+    await vesting.createVestingSchedule(
+      alice.address,
+      ethers.parseEther("100"),
+      start,
+      0,
+      1000
+    );
+    const next = await sync();
+    expect(next.events).to.equal(1);
+    expect(next.indexedBlock).to.equal(indexedBlock + 1);
+  });
+
+  it("leaves the unconfirmed blocks out", async function () {
+    const start = await time.latest();
+    await vesting.createVestingSchedule(
+      alice.address,
+      ethers.parseEther("100"),
+      start,
+      0,
+      1000
+    );
+    const head = await ethers.provider.getBlockNumber();
+
+    const result = await syncOnce(ethers.provider, store, contracts, {
+      confirmations: 1,
+    });
+    expect(result.indexedBlock).to.equal(head - 1);
+    expect((await get(`/positions/${alice.address}`)).body.schedules).to.be
+      .empty;
+  });
+
+  it("rolls back blocks that were reorganised away", async function () {
+    const start = await time.latest();
+    await vesting.createVestingSchedule(
+      alice.address,
+      ethers.parseEther("100"),
+      start,
+      0,
+      1000
+    );
+    await sync();
+    const forkBlock = await ethers.provider.getBlockNumber();
+    const fork = await networkHelpers.takeSnapshot();
+
+    await time.setNextBlockTimestamp(start + 500);
+    await vesting.connect(alice).claimAll();
+    await ethers.provider.send("evm_mine", []);
+    await sync();
+    expect((await get(`/claims/${alice.address}`)).body.claims).to.have.length(
+      1
+    );
+
+    // Another branch from the fork block, with a different claim
+    await fork.restore();
+    await time.setNextBlockTimestamp(start + 700);
+    await vesting.connect(alice).claimAll();
+    await ethers.provider.send("evm_mine", []);
+    await ethers.provider.send("evm_mine", []);
+
+    const result = await sync();
+    expect(result.rolledBackTo).to.equal(forkBlock);
+    expect(result.indexedBlock).to.equal(forkBlock + 3);
+    const { claims } = (await get(`/claims/${alice.address}`)).body;
+    expect(claims).to.have.length(1);
+    expect(claims[0]).to.include({
+      amount: ethers.parseEther("70").toString(),
+      timestamp: start + 700,
+    });
+  });
+
+  it("refuses a database created for another deployment", async function () {
+    expect(() => store.open({ ...contracts, vesting: alice.address })).to.throw(
+      "database was created for another vesting"
+    );
+  });
+
+  it("rejects invalid addresses and unknown routes", async function () {
+    expect((await get("/positions/0x1234")).status).to.equal(400);
+    expect((await get("/positions")).status).to.equal(404);
+    expect((await get("/claims/a/b")).status).to.equal(404);
+    const response = await fetch(`${baseUrl}/status`, { method: "POST" });
+    expect(response.status).to.equal(405);
+  });
+});
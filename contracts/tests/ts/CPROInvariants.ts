@@ -0,0 +1,476 @@
+import { expect } from "chai";
+import fc from "fast-check";
+import { network } from "hardhat";
+const { ethers, networkHelpers } = await network.connect();
+
+const { time, loadFixture } = networkHelpers;
+
+const DAY = 24 * 60 * 60;
+const BPS = 10_000n;
+const INITIAL_SUPPLY = ethers.parseEther("1000000");
+const LOCKING_POOL = ethers.parseEther("100000");
+const MAX_AMOUNT = ethers.parseEther("10000");
+const EXTENSION_BONUS_BPS = 1000n;
+const EARLY_UNLOCK_PENALTY_BPS = 2500n;
+
+/** Random operations, amounts are drawn as shares of what is available */
+type Operation =
+  | { kind: "queueMint"; actor: number; amount: bigint }
+  | { kind: "executeMint"; request: number }
+  | { kind: "burn"; actor: number; bps: bigint }
+  | { kind: "transfer"; from: number; to: number; bps: bigint }
+  | {
+      kind: "createSchedule";
+      actor: number;
+      amount: bigint;
+      duration: number;
+      cliffBps: bigint;
+    }
+  | { kind: "claimVesting"; actor: number }
+  | { kind: "revoke"; schedule: number; badLeaver: boolean }
+  | { kind: "delegateVesting"; actor: number; delegatee: number }
+  | {
+      kind: "addLock";
+      actor: number;
+      lockType: number;
+      bps: bigint;
+      unlockDelay: number;
+    }
+  | { kind: "claimLock"; actor: number }
+  | { kind: "extendLock"; actor: number; seconds: number }
+  | { kind: "topUpLock"; actor: number; bps: bigint }
+  | { kind: "unlockEarly"; actor: number }
+  | { kind: "delegateLock"; actor: number; delegatee: number }
+  | { kind: "sweep" }
+  | { kind: "warp"; seconds: number };
+
+const actor = fc.nat({ max: 2 });
+const amount = fc.bigInt({ min: 1n, max: MAX_AMOUNT });
+const bps = fc.bigInt({ min: 1n, max: BPS });
+
+const operation: fc.Arbitrary<Operation> = fc.oneof(
+  fc.record({ kind: fc.constant("queueMint" as const), actor, amount }),
+  fc.record({ kind: fc.constant("executeMint" as const), request: fc.nat() }),
+  fc.record({ kind: fc.constant("burn" as const), actor, bps }),
+  fc.record({
+    kind: fc.constant("transfer" as const),
+    from: actor,
+    to: actor,
+    bps,
+  }),
+  fc.record({
+    kind: fc.constant("createSchedule" as const),
+    actor,
+    amount,
+    duration: fc.integer({ min: 1, max: 365 * DAY }),
+    cliffBps: fc.bigInt({ min: 0n, max: BPS }),
+  }),
+  fc.record({ kind: fc.constant("claimVesting" as const), actor }),
+  fc.record({
+    kind: fc.constant("revoke" as const),
+    schedule: fc.nat(),
+    badLeaver: fc.boolean(),
+  }),
+  fc.record({
+    kind: fc.constant("delegateVesting" as const),
+    actor,
+    delegatee: actor,
+  }),
+  fc.record({
+    kind: fc.constant("addLock" as const),
+    actor,
+    lockType: fc.nat({ max: 25 }),
+    bps,
+    unlockDelay: fc.integer({ min: 1, max: 180 * DAY }),
+  }),
+  fc.record({ kind: fc.constant("claimLock" as const), actor }),
+  fc.record({
+    kind: fc.constant("extendLock" as const),
+    actor,
+    seconds: fc.integer({ min: 1, max: 4 * 365 * DAY }),
+  }),
+  fc.record({ kind: fc.constant("topUpLock" as const), actor, bps }),
+  fc.record({ kind: fc.constant("unlockEarly" as const), actor }),
+  fc.record({
+    kind: fc.constant("delegateLock" as const),
+    actor,
+    delegatee: actor,
+  }),
+  fc.record({ kind: fc.constant("sweep" as const) }),
+  // Drawn more often so that unlocks and the locking deadline are reached
+  {
+    weight: 3,
+    arbitrary: fc.record({
+      kind: fc.constant("warp" as const),
+      seconds: fc.integer({ min: 1, max: 120 * DAY }),
+    }),
+  }
+);
+
+const share = (total: bigint, bps: bigint) =>
+  (total * bps) / BPS > 0n ? (total * bps) / BPS : 1n;
+
+describe("Invariants", function () {
+  async function deployFixture() {
+    const [owner, ...actors] = await ethers.getSigners();
+    const token = await ethers.deployContract("CPROToken");
+    const vesting = await ethers.deployContract("CPROVesting", [
+      await token.getAddress(),
+    ]);
+    const locking = await ethers.deployContract("CPROLocking", [
+      await token.getAddress(),
+      LOCKING_POOL,
+      10,
+      owner.address,
+    ]);
+    await token.approve(await vesting.getAddress(), ethers.MaxUint256);
+    await token.approve(await locking.getAddress(), ethers.MaxUint256);
+    await locking.fund(LOCKING_POOL);
+    for (const actor of actors.slice(0, 3)) {
+      await token
+        .connect(actor)
+        .approve(await locking.getAddress(), ethers.MaxUint256);
+    }
+    await locking.setExtensionBonus(EXTENSION_BONUS_BPS);
+    await locking.setEarlyUnlockPenalty(EARLY_UNLOCK_PENALTY_BPS);
+
+    return { owner, actors: actors.slice(0, 3), token, vesting, locking };
+  }
+
+  /**
+   * Applies random operations to fresh contracts and checks the invariants after each of them.
+   * Operations that would revert are skipped. On failure fast-check shrinks the sequence and
+   * reports the shortest one it found.
+   */
+  async function run(operations: Operation[]) {
+    const { owner, actors, token, vesting, locking } = await loadFixture(
+      deployFixture
+    );
+    // Ghost accounting, what the contracts should have recorded
+    const pendingMints: bigint[] = [];
+    const returned = new Map<bigint, bigint>();
+    let minted = 0n;
+    let burned = 0n;
+    let vestingPaid = 0n;
+    let lockingPaid = 0n;
+    // Paid by early unlocks beyond the tokens locked without bonuses
+    let earlyUnlockExcess = 0n;
+
+    /** Tokens received by `account` while `action` runs */
+    async function received(account: string, action: () => Promise<unknown>) {
+      const before = await token.balanceOf(account);
+      await action();
+      return (await token.balanceOf(account)) - before;
+    }
+
+    for (const op of operations) {
+      // Each operation sends at most one transaction, stamped one second
+      // later rather than from the wall clock, so every run is reproducible
+      const next = BigInt(await time.latest()) + 1n;
+      await time.setNextBlockTimestamp(next);
+      switch (op.kind) {
+        case "queueMint": {
+          await token.queueMint(actors[op.actor].address, op.amount);
+          pendingMints.push(await token.mintRequestCount());
+          break;
+        }
+        case "executeMint": {
+          if (pendingMints.length === 0) break;
+          const index = op.request % pendingMints.length;
+          const request = await token.mintRequests(pendingMints[index]);
+          if (
+            next < request.executableAt ||
+            next >=
+              request.executableAt + (await token.MINT_REQUEST_VALIDITY()) ||
+            request.amount > (await token.mintableInCurrentEpoch())
+          ) {
+            break;
+          }
+          await token.executeMint(pendingMints[index]);
+          minted += request.amount;
+          pendingMints.splice(index, 1);
+          break;
+        }
+        case "burn": {
+          const balance = await token.balanceOf(actors[op.actor].address);
+          if (balance === 0n) break;
+          const burnt = share(balance, op.bps);
+          await token.connect(actors[op.actor]).burn(burnt);
+          burned += burnt;
+          break;
+        }
+        case "transfer": {
+          const balance = await token.balanceOf(actors[op.from].address);
+          if (balance === 0n) break;
+          await token
+            .connect(actors[op.from])
+            .transfer(actors[op.to].address, share(balance, op.bps));
+          break;
+        }
+        case "createSchedule": {
+          const cliff = (BigInt(op.duration) * op.cliffBps) / BPS;
+          await vesting.createVestingSchedule(
+            actors[op.actor].address,
+            op.amount,
+            next,
+            cliff,
+            op.duration
+          );
+          break;
+        }
+        case "claimVesting": {
+          const beneficiary = actors[op.actor];
+          // Claimable now, more may vest by the next block
+          if ((await vesting.getClaimableAmount(beneficiary.address)) === 0n) {
+            break;
+          }
+          vestingPaid += await received(beneficiary.address, () =>
+            vesting.connect(beneficiary).claimAll()
+          );
+          break;
+        }
+        case "revoke": {
+          const count = await vesting.getScheduleCount();
+          if (count === 0n) break;
+          const scheduleId = 1n + (BigInt(op.schedule) % count);
+          const schedule = await vesting.getVestingSchedule(scheduleId);
+          if (schedule.revoked) break;
+          const before = await token.balanceOf(schedule.beneficiary);
+          returned.set(
+            scheduleId,
+            await received(owner.address, () =>
+              op.badLeaver
+                ? vesting.revokeVestingAsBadLeaver(scheduleId)
+                : vesting.revokeVesting(scheduleId)
+            )
+          );
+          vestingPaid += (await token.balanceOf(schedule.beneficiary)) - before;
+          break;
+        }
+        case "delegateVesting": {
+          const beneficiary = actors[op.actor];
+          const ids = await vesting.getBeneficiaryScheduleIds(
+            beneficiary.address
+          );
+          if (ids.length === 0) break;
+          await vesting
+            .connect(beneficiary)
+            .delegateVotes(actors[op.delegatee].address);
+          break;
+        }
+        case "addLock": {
+          const beneficiary = actors[op.actor].address;
+          const room =
+            (await locking.heldBalance()) -
+            (await locking.reservedForUnclaimed());
+          if (
+            next >= (await locking.endTime()) ||
+            (await locking.allocation(beneficiary)) !== 0n ||
+            room <= 0n
+          ) {
+            break;
+          }
+          await locking.addBeneficiaryWithTerms(
+            beneficiary,
+            op.lockType,
+            share(room, op.bps),
+            next + BigInt(op.unlockDelay)
+          );
+          break;
+        }
+        case "claimLock": {
+          const beneficiary = actors[op.actor];
+          const lockId = await locking.beneficiaryLockId(beneficiary.address);
+          if (
+            (await locking.allocation(beneficiary.address)) === 0n ||
+            next < (await locking.lockUnlockTime(lockId))
+          ) {
+            break;
+          }
+          lockingPaid += await received(beneficiary.address, () =>
+            locking.connect(beneficiary).claim()
+          );
+          break;
+        }
+        case "extendLock": {
+          const beneficiary = actors[op.actor];
+          const lockId = await locking.beneficiaryLockId(beneficiary.address);
+          const unlockTime = await locking.lockUnlockTime(lockId);
+          const from = unlockTime > next ? unlockTime : next;
+          const latest = next + (await locking.MAX_EXTENSION());
+          if (
+            (await locking.allocation(beneficiary.address)) === 0n ||
+            from >= latest
+          ) {
+            break;
+          }
+          const extended =
+            from + BigInt(op.seconds) < latest
+              ? from + BigInt(op.seconds)
+              : latest;
+          const base =
+            (await locking.lockAmount(lockId)) -
+            (await locking.lockBonus(lockId)) -
+            (await locking.lockToppedUp(lockId));
+          const bonus =
+            (base * EXTENSION_BONUS_BPS * (extended - from)) /
+            (BPS * BigInt(365 * DAY));
+          if (
+            (await locking.heldBalance()) <
+            (await locking.reservedForUnclaimed()) + bonus
+          ) {
+            break;
+          }
+          await locking.connect(beneficiary).extendLock(lockId, extended);
+          break;
+        }
+        case "topUpLock": {
+          const beneficiary = actors[op.actor];
+          const balance = await token.balanceOf(beneficiary.address);
+          if (
+            (await locking.allocation(beneficiary.address)) === 0n ||
+            balance === 0n
+          ) {
+            break;
+          }
+          await locking
+            .connect(beneficiary)
+            .topUpLock(
+              await locking.beneficiaryLockId(beneficiary.address),
+              share(balance, op.bps)
+            );
+          break;
+        }
+        case "unlockEarly": {
+          const beneficiary = actors[op.actor];
+          const lockId = await locking.beneficiaryLockId(beneficiary.address);
+          if (
+            (await locking.allocation(beneficiary.address)) === 0n ||
+            next >= (await locking.lockUnlockTime(lockId))
+          ) {
+            break;
+          }
+          const locked =
+            (await locking.lockAmount(lockId)) -
+            (await locking.lockBonus(lockId));
+          const paid = await received(beneficiary.address, () =>
+            locking.connect(beneficiary).unlockEarly(lockId)
+          );
+          lockingPaid += paid;
+          if (paid > locked) earlyUnlockExcess += paid - locked;
+          break;
+        }
+        case "delegateLock": {
+          const beneficiary = actors[op.actor];
+          if ((await locking.allocation(beneficiary.address)) === 0n) break;
+          await locking
+            .connect(beneficiary)
+            .delegateVotes(actors[op.delegatee].address);
+          break;
+        }
+        case "sweep": {
+          // Surplus can also be swept before endTime
+          if (
+            (await locking.heldBalance()) <=
+            (await locking.reservedForUnclaimed())
+          ) {
+            break;
+          }
+          await locking.sweepUnassigned();
+          break;
+        }
+        case "warp": {
+          await time.increase(op.seconds);
+          break;
+        }
+      }
+
+      // Token: supply within the cap and explained by mints and burns
+      const supply = await token.totalSupply();
+      expect(supply + (await token.bridgedOutSupply())).to.be.lte(
+        await token.MAX_SUPPLY()
+      );
+      expect(supply).to.equal(INITIAL_SUPPLY + minted - burned);
+
+      // Vesting: sum(claimed) + claimable + unvested == totalAmount per schedule
+      const count = await vesting.getScheduleCount();
+      for (let scheduleId = 1n; scheduleId <= count; scheduleId++) {
+        const schedule = await vesting.getVestingSchedule(scheduleId);
+        if (schedule.revoked) {
+          expect(
+            schedule.claimedAmount + (returned.get(scheduleId) ?? 0n)
+          ).to.equal(schedule.totalAmount);
+          continue;
+        }
+        const vested = await vesting.getScheduleVestedAmount(scheduleId);
+        expect(schedule.claimedAmount).to.be.lte(vested);
+        expect(
+          schedule.claimedAmount +
+            (await vesting.getScheduleClaimableAmount(scheduleId)) +
+            (schedule.totalAmount - vested)
+        ).to.equal(schedule.totalAmount);
+      }
+      expect(
+        (await token.balanceOf(await vesting.getAddress())) +
+          (await vesting.totalEscrowed())
+      ).to.be.gte(
+        (await vesting.totalAllocated()) -
+          (await vesting.totalClaimed()) -
+          (await vesting.totalRevoked())
+      );
+      expect(await vesting.totalClaimed()).to.equal(vestingPaid);
+
+      // Locking: the tokens of unclaimed locks are held, in the contract or in escrows
+      expect(await locking.heldBalance()).to.be.gte(
+        await locking.reservedForUnclaimed()
+      );
+      expect(await locking.totalClaimed()).to.equal(lockingPaid);
+      expect(await locking.totalClaimed()).to.be.lte(
+        await locking.totalAssigned()
+      );
+      expect(earlyUnlockExcess).to.equal(0n);
+
+      // Escrows: each holds the unclaimed tokens of its beneficiary, and their
+      // votes are the only ones, the actors never delegate their own balances
+      let vestingEscrowed = 0n;
+      let lockingEscrowed = 0n;
+      let votes = 0n;
+      for (const { address } of actors) {
+        votes += await token.getVotes(address);
+        const vestingEscrow = await vesting.votingEscrow(address);
+        if (vestingEscrow !== ethers.ZeroAddress) {
+          let unclaimed = 0n;
+          for (const id of await vesting.getBeneficiaryScheduleIds(address)) {
+            const schedule = await vesting.getVestingSchedule(id);
+            if (!schedule.revoked) {
+              unclaimed += schedule.totalAmount - schedule.claimedAmount;
+            }
+          }
+          expect(await token.balanceOf(vestingEscrow)).to.equal(unclaimed);
+          vestingEscrowed += unclaimed;
+        }
+        const lockingEscrow = await locking.votingEscrow(address);
+        if (lockingEscrow !== ethers.ZeroAddress) {
+          const allocation = await locking.allocation(address);
+          expect(await token.balanceOf(lockingEscrow)).to.equal(allocation);
+          lockingEscrowed += allocation;
+        }
+      }
+      expect(await vesting.totalEscrowed()).to.equal(vestingEscrowed);
+      expect(await locking.totalEscrowed()).to.equal(lockingEscrowed);
+      expect(votes).to.equal(vestingEscrowed + lockingEscrowed);
+    }
+  }
+
+  it("holds across random sequences of token, vesting and locking operations", async function () {
+    // Shrinking a failure replays many sequences
+    this.timeout(10 * 60 * 1000);
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(operation, { maxLength: 40, size: "max" }),
+        run
+      ),
+      { numRuns: 40 }
+    );
+  });
+});
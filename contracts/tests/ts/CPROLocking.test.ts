@@ -1,5 +1,10 @@
 import { expect } from "chai";
 import { network } from "hardhat";
+import {
+  LockAllocationTree,
+  claimDomain,
+  signClaim,
+} from "../../../sdk/src/index.js";
 const { ethers, networkHelpers } = await network.connect();
 
 const ZERO = 0n;
@@ -19,9 +24,15 @@ describe("CPROLocking", function () {
     const token = await MockERC20.deploy();
     await token.waitForDeployment();
 
-    // Mint a big supply to owner (100M)
+    // Mint a big supply to owner (100M), above the default epoch ceiling
     const initialOwnerSupply = ethers.parseUnits("100000000", 18);
-    await (await token.mint(owner.address, initialOwnerSupply)).wait();
+    await token.setMintCeiling(
+      initialOwnerSupply,
+      await token.mintEpochDuration()
+    );
+    await token.queueMint(owner.address, initialOwnerSupply);
+    await time.increase(await token.mintDelay());
+    await (await token.executeMint(await token.mintRequestCount())).wait();
 
     const POOL = ethers.parseUnits("20000000", 18);
     const EXPECTED_BENEFICIARIES = Math.min(80, rest.length);
@@ -254,4 +265,1232 @@ describe("CPROLocking", function () {
       expect(lt1).to.equal(3n);
     }
   });
+
+  describe("Merkle allocations", function () {
+    const MERKLE_POOL = ethers.parseUnits("3000000", 18);
+
+    /**
+     * Extends the base fixture with a funded Merkle tree over 6 community members.
+     */
+    async function merkleFixture() {
+      const base = await deployFixture();
+      const { owner, token, locker, rest } = base;
+      const members = rest.slice(10, 16);
+
+      const tree = new LockAllocationTree(
+        members.map((member, i) => ({
+          beneficiary: member.address,
+          lockType: i % 3,
+          amount: ethers.parseUnits(String((i + 1) * 100000), 18),
+        }))
+      );
+
+      await token
+        .connect(owner)
+        .approve(await locker.getAddress(), MERKLE_POOL);
+      await locker.connect(owner).fund(MERKLE_POOL);
+
+      return { ...base, members, tree };
+    }
+
+    it("commits the root and reserves the tree total", async function () {
+      const { locker, tree } = await loadFixture(merkleFixture);
+
+      await expect(locker.setMerkleRoot(tree.root, tree.total))
+        .to.emit(locker, "MerkleRootSet")
+        .withArgs(tree.root, tree.total);
+
+      expect(await locker.merkleRoot()).to.equal(tree.root);
+      expect(await locker.merkleTotal()).to.equal(tree.total);
+      expect(await locker.totalAssigned()).to.equal(tree.total);
+      expect(await locker.reservedForUnclaimed()).to.equal(tree.total);
+    });
+
+    it("rejects roots that are not covered, repeated, late or not from the owner", async function () {
+      const { locker, tree, POOL, members } = await loadFixture(merkleFixture);
+
+      await expect(
+        locker.setMerkleRoot(tree.root, POOL + MERKLE_POOL + ONE)
+      ).to.be.revertedWithCustomError(locker, "NotEnoughFunded");
+
+      await expect(
+        locker.connect(members[0]).setMerkleRoot(tree.root, tree.total)
+      ).to.be.revertedWithCustomError(locker, "OwnableUnauthorizedAccount");
+
+      await locker.setMerkleRoot(tree.root, tree.total);
+      await expect(
+        locker.setMerkleRoot(tree.root, tree.total)
+      ).to.be.revertedWithCustomError(locker, "MerkleRootAlreadySet");
+    });
+
+    it("rejects a root after the deadline", async function () {
+      const { locker, tree } = await loadFixture(merkleFixture);
+      await time.increaseTo((await locker.endTime()) + ONE);
+
+      await expect(
+        locker.setMerkleRoot(tree.root, tree.total)
+      ).to.be.revertedWithCustomError(locker, "PastDeadline");
+    });
+
+    it("lets members claim with a proof after endTime", async function () {
+      const { locker, token, tree, members } = await loadFixture(merkleFixture);
+      await locker.setMerkleRoot(tree.root, tree.total);
+
+      const proof = tree.getProof(members[4].address);
+      const args = [proof.lockType, proof.amount, proof.proof] as const;
+
+      await expect(
+        locker.connect(members[4]).claimWithProof(...args)
+      ).to.be.revertedWithCustomError(locker, "BeforeDeadline");
+
+      await time.increaseTo((await locker.endTime()) + ONE);
+      expect(
+        await locker.canClaimWithProof(members[4].address, ...args)
+      ).to.equal(true);
+
+      await expect(locker.connect(members[4]).claimWithProof(...args))
+        .to.emit(locker, "Claimed")
+        .withArgs(members[4].address, 1n, proof.amount);
+
+      expect(await token.balanceOf(members[4].address)).to.equal(proof.amount);
+      expect(await locker.merkleClaimed(members[4].address)).to.equal(true);
+      expect(await locker.reservedForUnclaimed()).to.equal(
+        tree.total - proof.amount
+      );
+
+      const [lockOwner, amount, unlockTime, claimed, lockTypeId] =
+        await locker.getLockInfo(1);
+      expect(lockOwner).to.equal(members[4].address);
+      expect(amount).to.equal(proof.amount);
+      expect(unlockTime).to.equal(await locker.endTime());
+      expect(claimed).to.equal(true);
+      expect(lockTypeId).to.equal(BigInt(proof.lockType));
+
+      await expect(
+        locker.connect(members[4]).claimWithProof(...args)
+      ).to.be.revertedWithCustomError(locker, "AlreadyClaimed");
+    });
+
+    it("rejects tampered amounts, lock types and foreign proofs", async function () {
+      const { locker, tree, members } = await loadFixture(merkleFixture);
+      await locker.setMerkleRoot(tree.root, tree.total);
+      await time.increaseTo((await locker.endTime()) + ONE);
+
+      const proof = tree.getProof(members[1].address);
+
+      await expect(
+        locker
+          .connect(members[1])
+          .claimWithProof(proof.lockType, proof.amount + ONE, proof.proof)
+      ).to.be.revertedWithCustomError(locker, "InvalidProof");
+
+      await expect(
+        locker
+          .connect(members[1])
+          .claimWithProof(proof.lockType + 1, proof.amount, proof.proof)
+      ).to.be.revertedWithCustomError(locker, "InvalidProof");
+
+      await expect(
+        locker
+          .connect(members[2])
+          .claimWithProof(proof.lockType, proof.amount, proof.proof)
+      ).to.be.revertedWithCustomError(locker, "InvalidProof");
+    });
+
+    it("coexists with direct beneficiaries and keeps sweep accounting intact", async function () {
+      const { locker, token, tree, members, beneficiaries, sweepRecipient } =
+        await loadFixture(merkleFixture);
+      const direct = beneficiaries.slice(0, 5);
+      for (const b of direct) {
+        await locker.addBeneficiary(b.address, 0);
+      }
+      await locker.setMerkleRoot(tree.root, tree.total);
+
+      const share = await locker.sharePerBeneficiary();
+      const assigned = share * BigInt(direct.length) + tree.total;
+      expect(await locker.totalAssigned()).to.equal(assigned);
+
+      await time.increaseTo((await locker.endTime()) + ONE);
+
+      // Sweeping only takes what is neither directly nor Merkle assigned
+      const lockerAddress = await locker.getAddress();
+      const before = await token.balanceOf(lockerAddress);
+      await expect(locker.sweepUnassigned())
+        .to.emit(locker, "Swept")
+        .withArgs(sweepRecipient.address, before - assigned);
+      expect(await token.balanceOf(lockerAddress)).to.equal(assigned);
+
+      for (const b of direct) {
+        await locker.connect(b).claim();
+      }
+      for (const member of members) {
+        const proof = tree.getProof(member.address);
+        await locker
+          .connect(member)
+          .claimWithProof(proof.lockType, proof.amount, proof.proof);
+      }
+
+      expect(await locker.totalClaimed()).to.equal(assigned);
+      expect(await locker.reservedForUnclaimed()).to.equal(ZERO);
+      expect(await token.balanceOf(lockerAddress)).to.equal(ZERO);
+      await expect(locker.sweepUnassigned()).to.be.revertedWithCustomError(
+        locker,
+        "NoSweepable"
+      );
+    });
+
+    it("adds claimed Merkle allocations to the lock type totals", async function () {
+      const { locker, tree, members } = await loadFixture(merkleFixture);
+      await locker.setMerkleRoot(tree.root, tree.total);
+      await time.increaseTo(await locker.endTime());
+
+      const proof = tree.getProof(members[4].address);
+      await locker
+        .connect(members[4])
+        .claimWithProof(proof.lockType, proof.amount, proof.proof);
+
+      const totals = await locker.lockTypeTotals(proof.lockType);
+      expect(totals.assigned).to.equal(proof.amount);
+      expect(totals.claimed).to.equal(proof.amount);
+      expect(await locker.lockCount()).to.equal(ONE);
+      const [lock] = await locker.getLocks(0, 10);
+      expect(lock.owner).to.equal(members[4].address);
+      expect(lock.claimed).to.equal(true);
+    });
+
+    it("expires the allocations left unclaimed past the claim window", async function () {
+      const { locker, tree, members } = await loadFixture(merkleFixture);
+      await locker.setMerkleRoot(tree.root, tree.total);
+      const window = await locker.MIN_CLAIM_WINDOW();
+      await locker.setClaimWindow(window);
+      const expiry = (await locker.endTime()) + window;
+
+      const claimed = tree.getProof(members[4].address);
+      await time.setNextBlockTimestamp(expiry - ONE);
+      await locker
+        .connect(members[4])
+        .claimWithProof(claimed.lockType, claimed.amount, claimed.proof);
+
+      const late = tree.getProof(members[1].address);
+      const args = [late.lockType, late.amount, late.proof] as const;
+      expect(
+        await locker.canClaimWithProof(members[1].address, ...args)
+      ).to.equal(true);
+      await time.increaseTo(expiry);
+      expect(
+        await locker.canClaimWithProof(members[1].address, ...args)
+      ).to.equal(false);
+      await expect(
+        locker.connect(members[1]).claimWithProof(...args)
+      ).to.be.revertedWithCustomError(locker, "ClaimExpired");
+
+      await expect(locker.expireMerkleAllocations())
+        .to.emit(locker, "MerkleAllocationsExpired")
+        .withArgs(tree.total - claimed.amount);
+      expect(await locker.totalExpired()).to.equal(tree.total - claimed.amount);
+      expect(await locker.reservedForUnclaimed()).to.equal(ZERO);
+      await expect(
+        locker.expireMerkleAllocations()
+      ).to.be.revertedWithCustomError(locker, "NothingToExpire");
+
+      // Lifting the expiry does not bring the released allocations back
+      await locker.setClaimWindow(0);
+      await expect(
+        locker.connect(members[1]).claimWithProof(...args)
+      ).to.be.revertedWithCustomError(locker, "ClaimExpired");
+    });
+
+    it("only expires Merkle allocations once their window is over", async function () {
+      const { locker, tree } = await loadFixture(merkleFixture);
+      await expect(
+        locker.expireMerkleAllocations()
+      ).to.be.revertedWithCustomError(locker, "NothingToExpire");
+
+      await locker.setMerkleRoot(tree.root, tree.total);
+      await time.increaseTo((await locker.endTime()) + ONE);
+      // No claim window, allocations never expire
+      await expect(
+        locker.expireMerkleAllocations()
+      ).to.be.revertedWithCustomError(locker, "BeforeDeadline");
+
+      const window = await locker.MIN_CLAIM_WINDOW();
+      await locker.setClaimWindow(window);
+      // The next block is in the last second of the window
+      await time.increaseTo((await locker.endTime()) + window - 2n);
+      await expect(
+        locker.expireMerkleAllocations()
+      ).to.be.revertedWithCustomError(locker, "BeforeDeadline");
+    });
+  });
+
+  describe("per-beneficiary terms", function () {
+    const DAY = 24n * 60n * 60n;
+
+    it("stores the amount and unlock time of each lock", async function () {
+      const { locker, beneficiaries } = await loadFixture(deployFixture);
+      const now = BigInt(await time.latest());
+      const amount = ethers.parseUnits("250000", 18);
+
+      await expect(
+        locker.addBeneficiaryWithTerms(
+          beneficiaries[0].address,
+          1,
+          amount,
+          now + 30n * DAY
+        )
+      )
+        .to.emit(locker, "BeneficiaryAdded")
+        .withArgs(beneficiaries[0].address, 1n, amount, 1, now + 30n * DAY);
+
+      const [lockId, lockedAmount, unlockTime, claimed, lockTypeId] =
+        await locker.getBeneficiaryLockInfo(beneficiaries[0].address);
+      expect(lockId).to.equal(1n);
+      expect(lockedAmount).to.equal(amount);
+      expect(unlockTime).to.equal(now + 30n * DAY);
+      expect(claimed).to.equal(false);
+      expect(lockTypeId).to.equal(1n);
+
+      expect(await locker.totalAssigned()).to.equal(amount);
+      expect(await locker.allocation(beneficiaries[0].address)).to.equal(
+        amount
+      );
+    });
+
+    it("validates the terms", async function () {
+      const { locker, beneficiaries, POOL } = await loadFixture(deployFixture);
+      const now = BigInt(await time.latest());
+
+      await expect(
+        locker.addBeneficiaryWithTerms(
+          beneficiaries[0].address,
+          0,
+          0,
+          now + DAY
+        )
+      ).to.be.revertedWith("CPROLocking: amount must be greater than 0");
+
+      await expect(
+        locker.addBeneficiaryWithTerms(beneficiaries[0].address, 0, ONE, now)
+      ).to.be.revertedWith("CPROLocking: unlock time must be in future");
+
+      await expect(
+        locker.addBeneficiaryWithTerms(
+          beneficiaries[0].address,
+          0,
+          POOL + ONE,
+          now + DAY
+        )
+      ).to.be.revertedWithCustomError(locker, "NotEnoughFunded");
+
+      await expect(
+        locker
+          .connect(beneficiaries[0])
+          .addBeneficiaryWithTerms(beneficiaries[0].address, 0, ONE, now + DAY)
+      ).to.be.revertedWithCustomError(locker, "OwnableUnauthorizedAccount");
+    });
+
+    it("unlocks each lock at its own time with mixed horizons", async function () {
+      const { locker, token, beneficiaries, owner } = await loadFixture(
+        deployFixture
+      );
+      const [team, liquidity, marketing, community] = beneficiaries;
+      const now = BigInt(await time.latest());
+      const endTime = await locker.endTime();
+      const share = await locker.sharePerBeneficiary();
+
+      const marketingAmount = ethers.parseUnits("100000", 18);
+      const liquidityAmount = ethers.parseUnits("2000000", 18);
+      const teamAmount = ethers.parseUnits("5000000", 18);
+
+      // Marketing unlocks after 90 days, liquidity after 180, team after 2 years
+      await locker.addBeneficiaryWithTerms(
+        marketing.address,
+        2,
+        marketingAmount,
+        now + 90n * DAY
+      );
+      await locker.addBeneficiaryWithTerms(
+        liquidity.address,
+        1,
+        liquidityAmount,
+        now + 180n * DAY
+      );
+      await locker.addBeneficiaryWithTerms(
+        team.address,
+        0,
+        teamAmount,
+        now + 730n * DAY
+      );
+      // Default share still unlocks at the global endTime
+      await locker.connect(owner).addBeneficiary(community.address, 3);
+
+      const assigned = marketingAmount + liquidityAmount + teamAmount + share;
+      expect(await locker.totalAssigned()).to.equal(assigned);
+
+      await time.increaseTo(now + 91n * DAY);
+      expect(await locker.canClaim(marketing.address)).to.equal(true);
+      expect(await locker.canClaim(liquidity.address)).to.equal(false);
+      await expect(locker.connect(marketing).claim())
+        .to.emit(locker, "Claimed")
+        .withArgs(marketing.address, 1n, marketingAmount);
+      await expect(
+        locker.connect(liquidity).claim()
+      ).to.be.revertedWithCustomError(locker, "BeforeDeadline");
+
+      await time.increaseTo(now + 181n * DAY);
+      await locker.connect(liquidity).claim();
+      await expect(
+        locker.connect(community).claim()
+      ).to.be.revertedWithCustomError(locker, "BeforeDeadline");
+
+      await time.increaseTo(endTime + ONE);
+      await locker.connect(community).claim();
+      expect(await locker.canClaim(team.address)).to.equal(false);
+      await expect(locker.connect(team).claim()).to.be.revertedWithCustomError(
+        locker,
+        "BeforeDeadline"
+      );
+
+      // The team lock stays reserved when sweeping after endTime
+      expect(await locker.reservedForUnclaimed()).to.equal(teamAmount);
+      await locker.sweepUnassigned();
+      expect(await token.balanceOf(await locker.getAddress())).to.equal(
+        teamAmount
+      );
+
+      await time.increaseTo(now + 731n * DAY);
+      await locker.connect(team).claim();
+      expect(await token.balanceOf(team.address)).to.equal(teamAmount);
+      expect(await locker.reservedForUnclaimed()).to.equal(ZERO);
+
+      const [, amount, unlockTime, claimed, lockTypeId] =
+        await locker.getLockInfo(3);
+      expect(amount).to.equal(teamAmount);
+      expect(unlockTime).to.equal(now + 730n * DAY);
+      expect(claimed).to.equal(true);
+      expect(lockTypeId).to.equal(0n);
+    });
+  });
+
+  describe("reporting views", function () {
+    it("pages through locks in ID order", async function () {
+      const { locker, beneficiaries } = await loadFixture(deployFixture);
+      const share = await locker.sharePerBeneficiary();
+      const now = BigInt(await time.latest());
+
+      expect(await locker.getLocks(0, 10)).to.deep.equal([]);
+      await locker.addBeneficiary(beneficiaries[0].address, 2);
+      await locker.addBeneficiaryWithTerms(
+        beneficiaries[1].address,
+        5,
+        ONE,
+        now + 100n
+      );
+      await locker.addBeneficiary(beneficiaries[2].address, 2);
+
+      expect(await locker.lockCount()).to.equal(3n);
+      const page = await locker.getLocks(1, 10);
+      expect(page.map((lock) => lock.owner)).to.deep.equal([
+        beneficiaries[1].address,
+        beneficiaries[2].address,
+      ]);
+      expect(page[0].amount).to.equal(ONE);
+      expect(page[0].unlockTime).to.equal(now + 100n);
+      expect(page[0].lockType).to.equal(5n);
+      expect(page[1].amount).to.equal(share);
+      expect(await locker.getLocks(3, 10)).to.deep.equal([]);
+    });
+
+    it("tracks assigned and claimed amounts per lock type", async function () {
+      const { locker, beneficiaries } = await loadFixture(deployFixture);
+      const share = await locker.sharePerBeneficiary();
+      const now = BigInt(await time.latest());
+
+      await locker.addBeneficiary(beneficiaries[0].address, 2);
+      await locker.addBeneficiary(beneficiaries[1].address, 2);
+      await locker.addBeneficiaryWithTerms(
+        beneficiaries[2].address,
+        25,
+        ONE,
+        now + 100n
+      );
+      await time.increaseTo(now + 100n);
+      await locker.connect(beneficiaries[2]).claim();
+
+      const totals = await locker.getAllLockTypeTotals();
+      expect(totals).to.have.length(26);
+      expect(totals[2].assigned).to.equal(share * 2n);
+      expect(totals[2].claimed).to.equal(ZERO);
+      expect(totals[25].assigned).to.equal(ONE);
+      expect(totals[25].claimed).to.equal(ONE);
+      expect(totals[0].assigned).to.equal(ZERO);
+    });
+  });
+
+  describe("voting power", function () {
+    it("escrows the locked tokens of a delegating beneficiary", async function () {
+      const { token, locker, beneficiaries } = await loadFixture(deployFixture);
+      const [alice, bob] = beneficiaries;
+      const share = await locker.sharePerBeneficiary();
+      await locker.addBeneficiary(alice.address, 0);
+      await locker.addBeneficiary(bob.address, 0);
+
+      await expect(locker.connect(alice).delegateVotes(alice.address)).to.emit(
+        locker,
+        "VotesDelegated"
+      );
+
+      const escrow = await locker.votingEscrow(alice.address);
+      expect(await token.balanceOf(escrow)).to.equal(share);
+      expect(await token.getVotes(alice.address)).to.equal(share);
+      expect(await locker.totalEscrowed()).to.equal(share);
+      expect(await locker.heldBalance()).to.equal(
+        (await token.balanceOf(await locker.getAddress())) + share
+      );
+      // bob did not delegate, his tokens stay in the locker
+      expect(await locker.votingEscrow(bob.address)).to.equal(
+        ethers.ZeroAddress
+      );
+
+      await expect(
+        locker.connect(beneficiaries[2]).delegateVotes(alice.address)
+      ).to.be.revertedWithCustomError(locker, "NothingToClaim");
+    });
+
+    it("keeps funding checks aware of escrowed tokens", async function () {
+      const { locker, POOL, beneficiaries } = await loadFixture(deployFixture);
+      const [alice, bob] = beneficiaries;
+      const now = BigInt(await time.latest());
+      const half = POOL / 2n;
+
+      await locker.addBeneficiaryWithTerms(alice.address, 0, half, now + 100n);
+      await locker.connect(alice).delegateVotes(alice.address);
+
+      await locker.addBeneficiaryWithTerms(bob.address, 0, half, now + 100n);
+      await expect(
+        locker.addBeneficiaryWithTerms(
+          beneficiaries[2].address,
+          0,
+          ONE,
+          now + 100n
+        )
+      ).to.be.revertedWithCustomError(locker, "NotEnoughFunded");
+    });
+
+    it("drops the voting power on claim and leaves it untouched by sweep", async function () {
+      const { token, locker, sweepRecipient, beneficiaries } =
+        await loadFixture(deployFixture);
+      const [alice, bob, carol] = beneficiaries;
+      const share = await locker.sharePerBeneficiary();
+      await locker.addBeneficiary(alice.address, 0);
+      await locker.addBeneficiary(bob.address, 0);
+      await locker.connect(alice).delegateVotes(carol.address);
+      await locker.connect(bob).delegateVotes(carol.address);
+      expect(await token.getVotes(carol.address)).to.equal(share * 2n);
+
+      await time.increaseTo(await locker.endTime());
+
+      await expect(locker.sweepUnassigned()).to.emit(locker, "Swept");
+      expect(await token.getVotes(carol.address)).to.equal(share * 2n);
+      expect(await token.balanceOf(await locker.getAddress())).to.equal(ZERO);
+
+      await expect(locker.connect(alice).claim())
+        .to.emit(locker, "Claimed")
+        .withArgs(alice.address, 1n, share);
+      expect(await token.balanceOf(alice.address)).to.equal(share);
+      expect(await token.getVotes(carol.address)).to.equal(share);
+
+      await locker.connect(bob).claim();
+      expect(await token.getVotes(carol.address)).to.equal(ZERO);
+      expect(await locker.totalEscrowed()).to.equal(ZERO);
+      expect(await token.balanceOf(sweepRecipient.address)).to.be.greaterThan(
+        ZERO
+      );
+    });
+
+    it("escrows the next lock of a beneficiary who delegated before", async function () {
+      const { token, locker, beneficiaries } = await loadFixture(deployFixture);
+      const [alice, , carol] = beneficiaries;
+      const now = BigInt(await time.latest());
+      await locker.addBeneficiaryWithTerms(alice.address, 0, ONE, now + 100n);
+      await locker.connect(alice).delegateVotes(carol.address);
+      await time.increaseTo(now + 100n);
+      await locker.connect(alice).claim();
+
+      await locker.addBeneficiaryWithTerms(
+        alice.address,
+        0,
+        ONE * 2n,
+        now + 200n
+      );
+      const escrow = await locker.votingEscrow(alice.address);
+      expect(await token.balanceOf(escrow)).to.equal(ONE * 2n);
+      expect(await locker.totalEscrowed()).to.equal(ONE * 2n);
+      expect(await token.getVotes(carol.address)).to.equal(ONE * 2n);
+
+      await time.increaseTo(now + 200n);
+      await expect(locker.connect(alice).claim())
+        .to.emit(locker, "Claimed")
+        .withArgs(alice.address, 2n, ONE * 2n);
+      expect(await token.balanceOf(alice.address)).to.equal(ONE * 3n);
+      expect(await locker.totalEscrowed()).to.equal(ZERO);
+    });
+  });
+
+  describe("claims on behalf", function () {
+    async function unlockedFixture() {
+      const fixture = await deployFixture();
+      const { locker, beneficiaries } = fixture;
+      await locker.addBeneficiary(beneficiaries[0].address, 0);
+      await time.increaseTo(await locker.endTime());
+
+      const { chainId } = await ethers.provider.getNetwork();
+      const domain = claimDomain(
+        "CPROLocking",
+        await locker.getAddress(),
+        chainId
+      );
+      return { ...fixture, domain };
+    }
+
+    async function sign(locker, domain, signer, recipient, deadline) {
+      return signClaim(signer, domain, {
+        beneficiary: signer.address,
+        recipient,
+        nonce: await locker.nonces(signer.address),
+        deadline: BigInt(deadline),
+      });
+    }
+
+    function submit(locker, relayer, claim) {
+      return locker
+        .connect(relayer)
+        .claimWithSignature(
+          claim.beneficiary,
+          claim.recipient,
+          claim.deadline,
+          claim.v,
+          claim.r,
+          claim.s
+        );
+    }
+
+    it("lets anyone claim for a beneficiary, paying the beneficiary", async function () {
+      const { token, locker, beneficiaries, rest } = await loadFixture(
+        unlockedFixture
+      );
+      const [beneficiary] = beneficiaries;
+      const relayer = rest[rest.length - 1];
+      const share = await locker.sharePerBeneficiary();
+
+      await expect(locker.connect(relayer).claimFor(beneficiary.address))
+        .to.emit(locker, "Claimed")
+        .withArgs(beneficiary.address, 1, share);
+      expect(await token.balanceOf(beneficiary.address)).to.equal(share);
+      expect(await token.balanceOf(relayer.address)).to.equal(ZERO);
+
+      await expect(
+        locker.connect(relayer).claimFor(beneficiary.address)
+      ).to.be.revertedWithCustomError(locker, "NothingToClaim");
+    });
+
+    it("pays a signed claim to the recipient chosen by the beneficiary", async function () {
+      const { token, locker, beneficiaries, rest, domain } = await loadFixture(
+        unlockedFixture
+      );
+      const [beneficiary, recipient] = beneficiaries;
+      const relayer = rest[rest.length - 1];
+      const share = await locker.sharePerBeneficiary();
+
+      const claim = await sign(
+        locker,
+        domain,
+        beneficiary,
+        recipient.address,
+        (await time.latest()) + 3600
+      );
+      await expect(submit(locker, relayer, claim))
+        .to.emit(locker, "Claimed")
+        .withArgs(beneficiary.address, 1, share);
+
+      expect(await token.balanceOf(recipient.address)).to.equal(share);
+      expect(await locker.nonces(beneficiary.address)).to.equal(ONE);
+    });
+
+    it("rejects replayed, expired and forged signatures", async function () {
+      const { locker, beneficiaries, rest, domain } = await loadFixture(
+        unlockedFixture
+      );
+      const [beneficiary, other] = beneficiaries;
+      const relayer = rest[rest.length - 1];
+      const deadline = (await time.latest()) + 3600;
+
+      // Another beneficiary's signature for this one's tokens
+      const forged = await signClaim(other, domain, {
+        beneficiary: beneficiary.address,
+        recipient: other.address,
+        nonce: ZERO,
+        deadline: BigInt(deadline),
+      });
+      await expect(submit(locker, relayer, forged))
+        .to.be.revertedWithCustomError(locker, "InvalidSigner")
+        .withArgs(other.address, beneficiary.address);
+
+      // Recipient changed after signing
+      const claim = await sign(
+        locker,
+        domain,
+        beneficiary,
+        beneficiary.address,
+        deadline
+      );
+      await expect(
+        submit(locker, relayer, { ...claim, recipient: relayer.address })
+      ).to.be.revertedWithCustomError(locker, "InvalidSigner");
+
+      // Expired
+      const expired = await sign(
+        locker,
+        domain,
+        beneficiary,
+        beneficiary.address,
+        await time.latest()
+      );
+      await expect(submit(locker, relayer, expired))
+        .to.be.revertedWithCustomError(locker, "ExpiredSignature")
+        .withArgs(expired.deadline);
+
+      // Replayed: the nonce was used by the first submission
+      await submit(locker, relayer, claim);
+      await expect(
+        submit(locker, relayer, claim)
+      ).to.be.revertedWithCustomError(locker, "InvalidSigner");
+    });
+
+    it("rejects signatures made for another contract", async function () {
+      const { locker, beneficiaries, rest, domain } = await loadFixture(
+        unlockedFixture
+      );
+      const [beneficiary] = beneficiaries;
+      const relayer = rest[rest.length - 1];
+
+      const claim = await sign(
+        locker,
+        { ...domain, name: "CPROVesting" },
+        beneficiary,
+        beneficiary.address,
+        (await time.latest()) + 3600
+      );
+      await expect(
+        submit(locker, relayer, claim)
+      ).to.be.revertedWithCustomError(locker, "InvalidSigner");
+    });
+  });
+
+  describe("sweep policy", function () {
+    it("sweeps surplus before endTime, keeping unclaimed allocations covered", async function () {
+      const { token, locker, POOL, beneficiaries, sweepRecipient } =
+        await loadFixture(deployFixture);
+      const [alice, bob] = beneficiaries;
+      const share = await locker.sharePerBeneficiary();
+      await locker.addBeneficiary(alice.address, 0);
+      await locker.connect(alice).delegateVotes(alice.address);
+
+      await expect(locker.sweepUnassigned())
+        .to.emit(locker, "Swept")
+        .withArgs(sweepRecipient.address, POOL - share);
+      expect(await locker.heldBalance()).to.equal(share);
+      expect(await locker.reservedForUnclaimed()).to.equal(share);
+      await expect(locker.sweepUnassigned()).to.be.revertedWithCustomError(
+        locker,
+        "NoSweepable"
+      );
+
+      // New locks need new funding
+      await expect(
+        locker.addBeneficiary(bob.address, 0)
+      ).to.be.revertedWithCustomError(locker, "NotEnoughFunded");
+      await token.approve(await locker.getAddress(), share);
+      await locker.fund(share);
+      await locker.addBeneficiary(bob.address, 0);
+
+      await time.increaseTo(await locker.endTime());
+      await locker.connect(alice).claim();
+      await locker.connect(bob).claim();
+      expect(await token.balanceOf(bob.address)).to.equal(share);
+      expect(await locker.heldBalance()).to.equal(ZERO);
+    });
+
+    it("funds new locks from what claimed locks left", async function () {
+      const { locker, POOL, beneficiaries } = await loadFixture(deployFixture);
+      const [alice, bob, carol] = beneficiaries;
+      const half = POOL / 2n;
+      const now = BigInt(await time.latest());
+      await locker.addBeneficiaryWithTerms(alice.address, 0, half, now + 100n);
+
+      await time.increaseTo(now + 100n);
+      await locker.connect(alice).claim();
+      // Claimed tokens are no longer reserved, the other half funds a new lock
+      expect(await locker.reservedForUnclaimed()).to.equal(ZERO);
+      await locker.addBeneficiaryWithTerms(bob.address, 0, half, now + 200n);
+      await expect(
+        locker.addBeneficiaryWithTerms(carol.address, 0, ONE, now + 200n)
+      ).to.be.revertedWithCustomError(locker, "NotEnoughFunded");
+    });
+
+    it("splits the swept tokens by basis points", async function () {
+      const { token, locker, POOL, rest, sweepRecipient } = await loadFixture(
+        deployFixture
+      );
+      const [treasury, grants, burn] = rest.slice(-3);
+      const split = [
+        { recipient: treasury.address, bps: 5000 },
+        { recipient: grants.address, bps: 3333 },
+        { recipient: burn.address, bps: 1667 },
+      ];
+      await expect(locker.setSweepSplit(split))
+        .to.emit(locker, "SweepSplitSet")
+        .withArgs(split.map(({ recipient, bps }) => [recipient, bps]));
+      expect(
+        (await locker.getSweepSplit()).map(({ recipient, bps }) => ({
+          recipient,
+          bps: Number(bps),
+        }))
+      ).to.deep.equal(split);
+
+      // Leave an amount that does not divide evenly
+      const now = BigInt(await time.latest());
+      await locker.addBeneficiaryWithTerms(rest[0].address, 0, ONE, now + 100n);
+      const sweepable = POOL - ONE;
+      const first = (sweepable * 5000n) / 10000n;
+      const second = (sweepable * 3333n) / 10000n;
+      await expect(locker.sweepUnassigned())
+        .to.emit(locker, "Swept")
+        .withArgs(treasury.address, first)
+        .and.to.emit(locker, "Swept")
+        .withArgs(grants.address, second)
+        .and.to.emit(locker, "Swept")
+        .withArgs(burn.address, sweepable - first - second);
+      expect(await token.balanceOf(burn.address)).to.equal(
+        sweepable - first - second
+      );
+      expect(await locker.heldBalance()).to.equal(ONE);
+
+      // An empty split sends everything to the sweep recipient again
+      await locker.setSweepSplit([]);
+      await token.transfer(await locker.getAddress(), 10n);
+      await expect(locker.sweepUnassigned())
+        .to.emit(locker, "Swept")
+        .withArgs(sweepRecipient.address, 10n);
+    });
+
+    it("validates the sweep split", async function () {
+      const { locker, rest } = await loadFixture(deployFixture);
+      const [a, b] = rest.slice(-2);
+      const invalid = [
+        [{ recipient: a.address, bps: 9999 }],
+        [
+          { recipient: a.address, bps: 5000 },
+          { recipient: b.address, bps: 5001 },
+        ],
+        [
+          { recipient: a.address, bps: 10000 },
+          { recipient: b.address, bps: 0 },
+        ],
+        [{ recipient: ethers.ZeroAddress, bps: 10000 }],
+        Array.from({ length: 11 }, (_, i) => ({
+          recipient: rest[i].address,
+          bps: i < 10 ? 1000 : 0,
+        })),
+      ];
+      for (const split of invalid) {
+        await expect(locker.setSweepSplit(split)).to.be.revertedWithCustomError(
+          locker,
+          "InvalidSweepSplit"
+        );
+      }
+      await locker.setSweepSplit(
+        Array.from({ length: 10 }, (_, i) => ({
+          recipient: rest[i].address,
+          bps: 1000,
+        }))
+      );
+      await expect(
+        locker.connect(a).setSweepSplit([])
+      ).to.be.revertedWithCustomError(locker, "OwnableUnauthorizedAccount");
+    });
+
+    it("expires locks left unclaimed past the claim window", async function () {
+      const { token, locker, beneficiaries, sweepRecipient } =
+        await loadFixture(deployFixture);
+      const [alice, bob, carol] = beneficiaries;
+      const amount = ethers.parseUnits("1000", 18);
+      const unlockTime = BigInt(await time.latest()) + 100n;
+      await locker.addBeneficiaryWithTerms(
+        alice.address,
+        0,
+        amount,
+        unlockTime
+      );
+      await locker.addBeneficiaryWithTerms(bob.address, 1, amount, unlockTime);
+      await locker.connect(alice).delegateVotes(carol.address);
+
+      const window = await locker.MIN_CLAIM_WINDOW();
+      await expect(
+        locker.setClaimWindow(window - ONE)
+      ).to.be.revertedWithCustomError(locker, "InvalidClaimWindow");
+      await expect(locker.setClaimWindow(window))
+        .to.emit(locker, "ClaimWindowSet")
+        .withArgs(window);
+      const expiry = unlockTime + window;
+
+      await expect(locker.expireLocks([1]))
+        .to.be.revertedWithCustomError(locker, "LockNotExpired")
+        .withArgs(1n);
+
+      // Bob claims in the last second of the window, alice misses it
+      await time.setNextBlockTimestamp(expiry - ONE);
+      await locker.connect(bob).claim();
+      expect(await locker.canClaim(alice.address)).to.equal(true);
+      await time.increaseTo(expiry);
+      expect(await locker.canClaim(alice.address)).to.equal(false);
+      await expect(locker.connect(alice).claim()).to.be.revertedWithCustomError(
+        locker,
+        "ClaimExpired"
+      );
+
+      await expect(locker.expireLocks([1]))
+        .to.emit(locker, "LockExpired")
+        .withArgs(1n, alice.address, amount);
+      expect(await locker.lockExpired(1)).to.equal(true);
+      expect(await locker.allocation(alice.address)).to.equal(ZERO);
+      expect(await locker.beneficiaryLockId(alice.address)).to.equal(ZERO);
+      expect(await locker.totalExpired()).to.equal(amount);
+      expect(await locker.reservedForUnclaimed()).to.equal(ZERO);
+      // Escrowed tokens come back and their votes go
+      expect(await locker.totalEscrowed()).to.equal(ZERO);
+      expect(await token.getVotes(carol.address)).to.equal(ZERO);
+
+      // Expired, claimed and unknown locks
+      for (const lockId of [1, 2, 3]) {
+        await expect(
+          locker.expireLocks([lockId])
+        ).to.be.revertedWithCustomError(locker, "NothingToExpire");
+      }
+
+      const held = await locker.heldBalance();
+      await expect(locker.sweepUnassigned())
+        .to.emit(locker, "Swept")
+        .withArgs(sweepRecipient.address, held);
+    });
+
+    it("does not expire claimed locks, nor any lock without a claim window", async function () {
+      const { locker, beneficiaries } = await loadFixture(deployFixture);
+      const [alice, bob] = beneficiaries;
+      const amount = ethers.parseUnits("1000", 18);
+      const unlockTime = BigInt(await time.latest()) + 100n;
+      await locker.addBeneficiaryWithTerms(
+        alice.address,
+        0,
+        amount,
+        unlockTime
+      );
+      await locker.addBeneficiaryWithTerms(bob.address, 0, amount, unlockTime);
+
+      await time.increaseTo(unlockTime + 1000n * 24n * 3600n);
+      await expect(locker.expireLocks([1]))
+        .to.be.revertedWithCustomError(locker, "LockNotExpired")
+        .withArgs(1n);
+      await locker.connect(alice).claim();
+
+      await locker.setClaimWindow(await locker.MIN_CLAIM_WINDOW());
+      await expect(locker.expireLocks([1])).to.be.revertedWithCustomError(
+        locker,
+        "NothingToExpire"
+      );
+      await expect(
+        locker.connect(alice).expireLocks([2])
+      ).to.be.revertedWithCustomError(locker, "OwnableUnauthorizedAccount");
+      await time.increase(await locker.MIN_CLAIM_WINDOW());
+      await locker.expireLocks([2]);
+    });
+
+    it("gives locks unlocked before the window is set the whole window", async function () {
+      const { locker, beneficiaries, sweepRecipient } = await loadFixture(
+        deployFixture
+      );
+      const [alice, bob] = beneficiaries;
+      const amount = ethers.parseUnits("1000", 18);
+      const unlockTime = BigInt(await time.latest()) + 100n;
+      await locker.addBeneficiaryWithTerms(
+        alice.address,
+        0,
+        amount,
+        unlockTime
+      );
+      await locker.addBeneficiaryWithTerms(bob.address, 0, amount, unlockTime);
+
+      // The window is set 200 days after the unlock, longer ago than the window
+      const window = await locker.MIN_CLAIM_WINDOW();
+      const setAt = unlockTime + 200n * 24n * 3600n;
+      await time.setNextBlockTimestamp(setAt);
+      await locker.setClaimWindow(window);
+      expect(await locker.claimWindowSetAt()).to.equal(setAt);
+
+      expect(await locker.canClaim(alice.address)).to.equal(true);
+      expect(await locker.lockClaimExpired(1)).to.equal(false);
+      await expect(locker.expireLocks([1]))
+        .to.be.revertedWithCustomError(locker, "LockNotExpired")
+        .withArgs(1n);
+      // Only the surplus is swept, both locks stay covered
+      const held = await locker.heldBalance();
+      await expect(locker.sweepUnassigned())
+        .to.emit(locker, "Swept")
+        .withArgs(sweepRecipient.address, held - amount * 2n);
+
+      await time.setNextBlockTimestamp(setAt + window - ONE);
+      await locker.connect(bob).claim();
+      await time.increaseTo(setAt + window);
+      expect(await locker.lockClaimExpired(1)).to.equal(true);
+      await expect(locker.expireLocks([1]))
+        .to.emit(locker, "LockExpired")
+        .withArgs(1n, alice.address, amount);
+    });
+  });
+
+  describe("lock extension, top-up and early unlock", function () {
+    const YEAR = 365n * 24n * 3600n;
+    const AMOUNT = ethers.parseUnits("1000", 18);
+
+    /**
+     * Extends the base fixture with a lock of AMOUNT for alice (lock 1) and bob (lock 2), unlocking in 100 days.
+     */
+    async function lockedFixture() {
+      const base = await deployFixture();
+      const { owner, token, locker, beneficiaries } = base;
+      const [alice, bob] = beneficiaries;
+      const unlockTime = BigInt(await time.latest()) + 100n * 24n * 3600n;
+      await locker.addBeneficiaryWithTerms(
+        alice.address,
+        0,
+        AMOUNT,
+        unlockTime
+      );
+      await locker.addBeneficiaryWithTerms(bob.address, 1, AMOUNT, unlockTime);
+      await token.connect(owner).transfer(alice.address, AMOUNT);
+      await token
+        .connect(alice)
+        .approve(await locker.getAddress(), ethers.MaxUint256);
+      return { ...base, alice, bob, unlockTime };
+    }
+
+    it("extends a lock for a bonus prorated to the extension", async function () {
+      const { locker, alice, bob, unlockTime } = await loadFixture(
+        lockedFixture
+      );
+      await expect(
+        locker.setExtensionBonus(10001)
+      ).to.be.revertedWithCustomError(locker, "InvalidBps");
+      // 10% per year of extension
+      await expect(locker.setExtensionBonus(1000))
+        .to.emit(locker, "ExtensionBonusSet")
+        .withArgs(1000);
+
+      const extended = unlockTime + YEAR / 2n;
+      const bonus = AMOUNT / 20n;
+      const reserved = await locker.reservedForUnclaimed();
+      await expect(locker.connect(alice).extendLock(1, extended))
+        .to.emit(locker, "LockExtended")
+        .withArgs(1n, extended, bonus);
+
+      const [owner, amount, unlock, claimed] = await locker.getLockInfo(1);
+      expect(owner).to.equal(alice.address);
+      expect(amount).to.equal(AMOUNT + bonus);
+      expect(unlock).to.equal(extended);
+      expect(claimed).to.equal(false);
+      expect(await locker.allocation(alice.address)).to.equal(AMOUNT + bonus);
+      expect(await locker.reservedForUnclaimed()).to.equal(reserved + bonus);
+      expect((await locker.lockTypeTotals(0)).assigned).to.equal(
+        AMOUNT + bonus
+      );
+
+      await expect(
+        locker.connect(alice).extendLock(1, extended)
+      ).to.be.revertedWithCustomError(locker, "InvalidUnlockTime");
+      await expect(locker.connect(bob).extendLock(1, extended + 1n))
+        .to.be.revertedWithCustomError(locker, "NotLockOwner")
+        .withArgs(1n);
+
+      // Bob's lock is claimable, it is extended from now
+      await time.increaseTo(unlockTime + 1000n);
+      const now = unlockTime + 1010n;
+      await time.setNextBlockTimestamp(now);
+      await expect(locker.connect(bob).extendLock(2, now + YEAR))
+        .to.emit(locker, "LockExtended")
+        .withArgs(2n, now + YEAR, AMOUNT / 10n);
+      expect(await locker.canClaim(bob.address)).to.equal(false);
+    });
+
+    it("pays extension bonuses only from unreserved tokens", async function () {
+      const { locker, alice, unlockTime } = await loadFixture(lockedFixture);
+      await locker.setExtensionBonus(1000);
+      await locker.sweepUnassigned();
+
+      await expect(
+        locker.connect(alice).extendLock(1, unlockTime + YEAR)
+      ).to.be.revertedWithCustomError(locker, "NotEnoughFunded");
+
+      // Without bonus a lock can still be extended
+      await locker.setExtensionBonus(0);
+      await expect(locker.connect(alice).extendLock(1, unlockTime + YEAR))
+        .to.emit(locker, "LockExtended")
+        .withArgs(1n, unlockTime + YEAR, ZERO);
+    });
+
+    it("tops up a lock with tokens of its beneficiary", async function () {
+      const { token, locker, alice, bob, unlockTime } = await loadFixture(
+        lockedFixture
+      );
+      const held = await locker.heldBalance();
+      await locker.connect(alice).delegateVotes(alice.address);
+
+      await expect(locker.connect(alice).topUpLock(1, AMOUNT / 2n))
+        .to.emit(locker, "LockToppedUp")
+        .withArgs(1n, AMOUNT / 2n);
+      const [, amount, unlock] = await locker.getLockInfo(1);
+      expect(amount).to.equal(AMOUNT + AMOUNT / 2n);
+      expect(unlock).to.equal(unlockTime);
+      expect(await locker.heldBalance()).to.equal(held + AMOUNT / 2n);
+      // The top-up joins the voting escrow
+      expect(await token.getVotes(alice.address)).to.equal(
+        AMOUNT + AMOUNT / 2n
+      );
+
+      await expect(locker.connect(alice).topUpLock(1, ZERO)).to.be.revertedWith(
+        "CPROLocking: amount must be greater than 0"
+      );
+      await expect(locker.connect(alice).topUpLock(2, AMOUNT))
+        .to.be.revertedWithCustomError(locker, "NotLockOwner")
+        .withArgs(2n);
+
+      await time.increaseTo(unlockTime);
+      await locker.connect(alice).claim();
+      expect(await token.balanceOf(alice.address)).to.equal(AMOUNT * 2n);
+      await expect(locker.connect(alice).topUpLock(1, ONE))
+        .to.be.revertedWithCustomError(locker, "LockNotActive")
+        .withArgs(1n);
+      await expect(
+        locker.connect(bob).topUpLock(2, ONE)
+      ).to.be.revertedWithCustomError(token, "ERC20InsufficientAllowance");
+    });
+
+    it("unlocks early with a penalty that goes to the sweep", async function () {
+      const { token, locker, POOL, rest, alice, bob, unlockTime } =
+        await loadFixture(lockedFixture);
+      await expect(
+        locker.connect(alice).unlockEarly(1)
+      ).to.be.revertedWithCustomError(locker, "EarlyUnlockDisabled");
+
+      await expect(locker.setEarlyUnlockPenalty(2500))
+        .to.emit(locker, "EarlyUnlockPenaltySet")
+        .withArgs(2500);
+      await locker.connect(alice).delegateVotes(alice.address);
+      const aliceBalance = await token.balanceOf(alice.address);
+
+      const penalty = AMOUNT / 4n;
+      await expect(locker.connect(alice).unlockEarly(1))
+        .to.emit(locker, "Claimed")
+        .withArgs(alice.address, 1n, AMOUNT - penalty)
+        .and.to.emit(locker, "LockUnlockedEarly")
+        .withArgs(1n, alice.address, AMOUNT - penalty, penalty);
+      expect(await token.balanceOf(alice.address)).to.equal(
+        aliceBalance + AMOUNT - penalty
+      );
+      expect(await locker.totalForfeited()).to.equal(penalty);
+      expect(await locker.totalClaimed()).to.equal(AMOUNT - penalty);
+      expect(await locker.totalEscrowed()).to.equal(ZERO);
+      expect(await locker.reservedForUnclaimed()).to.equal(AMOUNT);
+      const [, , , claimed] = await locker.getLockInfo(1);
+      expect(claimed).to.equal(true);
+      await expect(
+        locker.connect(alice).unlockEarly(1)
+      ).to.be.revertedWithCustomError(locker, "LockNotActive");
+      await expect(locker.connect(alice).claim()).to.be.revertedWithCustomError(
+        locker,
+        "NothingToClaim"
+      );
+
+      // The penalty is swept with the unassigned tokens
+      const [treasury, grants] = rest.slice(-2);
+      await locker.setSweepSplit([
+        { recipient: treasury.address, bps: 5000 },
+        { recipient: grants.address, bps: 5000 },
+      ]);
+      const sweepable = POOL - AMOUNT * 2n + penalty;
+      await expect(locker.sweepUnassigned())
+        .to.emit(locker, "Swept")
+        .withArgs(treasury.address, sweepable / 2n);
+      expect(await locker.heldBalance()).to.equal(AMOUNT);
+
+      // Once unlocked, bob claims in full
+      await time.increaseTo(unlockTime);
+      await expect(locker.connect(bob).unlockEarly(2))
+        .to.be.revertedWithCustomError(locker, "AlreadyUnlocked")
+        .withArgs(2n);
+      await locker.connect(bob).claim();
+      expect(await token.balanceOf(bob.address)).to.equal(AMOUNT);
+      expect(await locker.heldBalance()).to.equal(ZERO);
+    });
+
+    it("never pays more than the lock when extended and unlocked early", async function () {
+      const { token, locker, alice, unlockTime } = await loadFixture(
+        lockedFixture
+      );
+      await locker.setExtensionBonus(1000);
+      await locker.setEarlyUnlockPenalty(2500);
+      await expect(
+        locker.connect(alice).extendLock(1, unlockTime + 20n * YEAR)
+      ).to.be.revertedWithCustomError(locker, "InvalidUnlockTime");
+      await locker.connect(alice).topUpLock(1, AMOUNT);
+
+      // Extensions stop MAX_EXTENSION from now, and the top-up earns no bonus
+      const now = BigInt(await time.latest()) + 10n;
+      const maxUnlock = now + (await locker.MAX_EXTENSION());
+      const bonus = ((maxUnlock - unlockTime) * AMOUNT) / 10n / YEAR;
+      await time.setNextBlockTimestamp(now);
+      await expect(
+        locker.connect(alice).extendLock(1, maxUnlock + 1n)
+      ).to.be.revertedWithCustomError(locker, "InvalidUnlockTime");
+      await expect(locker.connect(alice).extendLock(1, maxUnlock))
+        .to.emit(locker, "LockExtended")
+        .withArgs(1n, maxUnlock, bonus);
+      expect(await locker.lockBonus(1)).to.equal(bonus);
+      expect(await locker.lockToppedUp(1)).to.equal(AMOUNT);
+
+      // Unlocking right away forfeits the bonus and the penalty on the rest
+      const paid = (AMOUNT * 2n * 3n) / 4n;
+      await expect(locker.connect(alice).unlockEarly(1))
+        .to.emit(locker, "LockUnlockedEarly")
+        .withArgs(1n, alice.address, paid, AMOUNT / 2n + bonus);
+      expect(await token.balanceOf(alice.address)).to.equal(paid);
+      expect(paid).to.be.lessThan(AMOUNT * 2n);
+      expect(await locker.totalForfeited()).to.equal(AMOUNT / 2n + bonus);
+    });
+
+    it("rounds the penalty down in favour of the beneficiary", async function () {
+      const { token, locker, beneficiaries } = await loadFixture(deployFixture);
+      const carol = beneficiaries[2];
+      const unlockTime = BigInt(await time.latest()) + 1000n;
+      await locker.addBeneficiaryWithTerms(carol.address, 0, 999n, unlockTime);
+      await expect(
+        locker.setEarlyUnlockPenalty(10001)
+      ).to.be.revertedWithCustomError(locker, "InvalidBps");
+      await locker.setEarlyUnlockPenalty(2500);
+
+      await expect(locker.connect(carol).unlockEarly(1))
+        .to.emit(locker, "LockUnlockedEarly")
+        .withArgs(1n, carol.address, 750n, 249n);
+      expect(await token.balanceOf(carol.address)).to.equal(750n);
+    });
+  });
 });
@@ -0,0 +1,353 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import {
+  CproLockingClient,
+  CproPositionsClient,
+  CproVestingClient,
+  LockNotTransferableError,
+} from "../../../sdk/src/index.js";
+const { ethers, networkHelpers } = await network.connect();
+
+const { time, loadFixture } = networkHelpers;
+
+const DAY = 24 * 60 * 60;
+
+describe("CPROPositions", function () {
+  const AMOUNT = ethers.parseEther("1000");
+
+  async function deployFixture() {
+    const [owner, alice, bob, carol] = await ethers.getSigners();
+    const token = await ethers.deployContract("CPROToken");
+
+    const vesting = await ethers.deployContract("CPROVesting", [
+      await token.getAddress(),
+    ]);
+    const vestingPositions = await ethers.deployContract(
+      "CPROVestingPositions",
+      [await vesting.getAddress()]
+    );
+    await vesting.setPositions(await vestingPositions.getAddress());
+    await token.approve(await vesting.getAddress(), ethers.MaxUint256);
+    const start = await time.latest();
+    // Schedule 1: alice, 1000 CPRO vesting linearly over 10 days
+    await vesting.createVestingSchedule(
+      alice.address,
+      AMOUNT,
+      start,
+      0,
+      10 * DAY
+    );
+
+    const locking = await ethers.deployContract("CPROLocking", [
+      await token.getAddress(),
+      AMOUNT * 2n,
+      2,
+      owner.address,
+    ]);
+    const lockPositions = await ethers.deployContract("CPROLockPositions", [
+      await locking.getAddress(),
+    ]);
+    await locking.setPositions(await lockPositions.getAddress());
+    await token.approve(await locking.getAddress(), ethers.MaxUint256);
+    await locking.fund(AMOUNT * 2n);
+    const unlockTime = start + 30 * DAY;
+    // Lock 1: alice, marketing (type 2). Lock 2: carol, team (type 0)
+    await locking.addBeneficiaryWithTerms(alice.address, 2, AMOUNT, unlockTime);
+    await locking.addBeneficiaryWithTerms(carol.address, 0, AMOUNT, unlockTime);
+
+    return {
+      owner,
+      alice,
+      bob,
+      carol,
+      token,
+      vesting,
+      vestingPositions,
+      locking,
+      lockPositions,
+      start,
+      unlockTime,
+    };
+  }
+
+  describe("vesting schedules", function () {
+    it("mints the token of a schedule to its beneficiary with on-chain metadata", async function () {
+      const { alice, vestingPositions, start } = await loadFixture(
+        deployFixture
+      );
+      const client = new CproPositionsClient(
+        await vestingPositions.getAddress(),
+        alice
+      );
+      expect(await client.getHolder(1n)).to.equal(null);
+
+      await expect(vestingPositions.mint(1n))
+        .to.emit(vestingPositions, "Transfer")
+        .withArgs(ethers.ZeroAddress, alice.address, 1n);
+      expect(await client.getHolder(1n)).to.equal(alice.address);
+      expect(await client.getMetadata(1n)).to.deep.equal({
+        name: "CPRO Vesting #1",
+        attributes: {
+          Amount: AMOUNT.toString(),
+          "Claimed amount": "0",
+          "Start time": start,
+          "Unlock time": start + 10 * DAY,
+          Claimed: false,
+          Revoked: false,
+        },
+      });
+
+      await expect(vestingPositions.mint(1n))
+        .to.be.revertedWithCustomError(vestingPositions, "ERC721InvalidSender")
+        .withArgs(ethers.ZeroAddress);
+      await expect(vestingPositions.mint(2n))
+        .to.be.revertedWithCustomError(vestingPositions, "UnknownPosition")
+        .withArgs(2n);
+    });
+
+    it("lets the new holder claim after a transfer", async function () {
+      const { alice, bob, token, vesting, vestingPositions, start } =
+        await loadFixture(deployFixture);
+      await vestingPositions.mint(1n);
+
+      // Alice claims the first half, then sells the rest of the schedule
+      await time.setNextBlockTimestamp(start + 5 * DAY);
+      await vesting.connect(alice).claimTokens(1n);
+      await expect(
+        vestingPositions
+          .connect(alice)
+          .safeTransferFrom(alice.address, bob.address, 1n)
+      )
+        .to.emit(vesting, "ScheduleTransferred")
+        .withArgs(1n, alice.address, bob.address);
+      expect((await vesting.getVestingSchedule(1n)).beneficiary).to.equal(
+        bob.address
+      );
+      expect(
+        await vesting.getBeneficiaryScheduleIds(bob.address)
+      ).to.deep.equal([1n]);
+
+      await time.increaseTo(start + 10 * DAY);
+      await expect(vesting.connect(alice).claimTokens(1n)).to.be.revertedWith(
+        "CPROVesting: caller is not the beneficiary"
+      );
+      await vesting.connect(bob).claimAll();
+      expect(await token.balanceOf(alice.address)).to.equal(AMOUNT / 2n);
+      expect(await token.balanceOf(bob.address)).to.equal(AMOUNT / 2n);
+    });
+
+    it("moves the token with schedules transferred by the vesting contract", async function () {
+      const { owner, alice, bob, carol, vesting, vestingPositions } =
+        await loadFixture(deployFixture);
+      await vestingPositions.mint(1n);
+
+      await vesting.connect(alice).proposeScheduleTransfer(1n, bob.address);
+      await expect(vesting.connect(bob).acceptScheduleTransfer(1n))
+        .to.emit(vestingPositions, "Transfer")
+        .withArgs(alice.address, bob.address, 1n);
+      expect(await vestingPositions.ownerOf(1n)).to.equal(bob.address);
+
+      // Only the vesting contract reports moves, and only positions moves schedules
+      await expect(vestingPositions.positionTransferred(1n, carol.address))
+        .to.be.revertedWithCustomError(vestingPositions, "NotSource")
+        .withArgs(owner.address);
+      await expect(
+        vesting.transferPosition(1n, bob.address, carol.address)
+      ).to.be.revertedWith("CPROVesting: caller is not the positions contract");
+      await expect(vesting.setPositions(carol.address)).to.be.revertedWith(
+        "CPROVesting: positions already set"
+      );
+
+      // Revoked schedules stay with their beneficiary
+      const revocable = await vesting.createVestingScheduleWithCurve(
+        {
+          beneficiary: alice.address,
+          totalAmount: AMOUNT,
+          startTime: await time.latest(),
+          cliffDuration: 0,
+          vestingDuration: 10 * DAY,
+          revocable: true,
+        },
+        { curveType: 0, stepInterval: 0, initialUnlockBps: 0, milestones: [] }
+      );
+      await revocable.wait();
+      await vestingPositions.mint(2n);
+      await vesting.revokeVesting(2n);
+      await expect(
+        vestingPositions
+          .connect(alice)
+          .transferFrom(alice.address, bob.address, 2n)
+      ).to.be.revertedWith("CPROVesting: already revoked");
+    });
+
+    it("keeps schedules marked non-transferable with their beneficiary", async function () {
+      const { alice, bob, vesting, vestingPositions } = await loadFixture(
+        deployFixture
+      );
+      const client = new CproVestingClient(await vesting.getAddress(), alice);
+      await vestingPositions.mint(1n);
+      expect(await client.isScheduleTransferable(1n)).to.equal(true);
+
+      await expect(vesting.connect(alice).setScheduleTransferable(1n, false))
+        .to.be.revertedWithCustomError(vesting, "OwnableUnauthorizedAccount")
+        .withArgs(alice.address);
+      await expect(
+        vesting.setScheduleTransferable(2n, false)
+      ).to.be.revertedWith("CPROVesting: no vesting schedule exists");
+      await expect(vesting.setScheduleTransferable(1n, false))
+        .to.emit(vesting, "ScheduleTransferableSet")
+        .withArgs(1n, false);
+      expect(await client.isScheduleTransferable(1n)).to.equal(false);
+      await expect(
+        vestingPositions
+          .connect(alice)
+          .transferFrom(alice.address, bob.address, 1n)
+      ).to.be.revertedWith("CPROVesting: schedule is not transferable");
+
+      // The beneficiary can still move it to a new key of their own
+      await vesting.connect(alice).proposeScheduleTransfer(1n, bob.address);
+      await vesting.connect(bob).acceptScheduleTransfer(1n);
+      expect(await vestingPositions.ownerOf(1n)).to.equal(bob.address);
+
+      await vesting.setScheduleTransferable(1n, true);
+      await vestingPositions
+        .connect(bob)
+        .transferFrom(bob.address, alice.address, 1n);
+      expect(await vestingPositions.ownerOf(1n)).to.equal(alice.address);
+    });
+  });
+
+  describe("locks", function () {
+    it("only transfers locks of transferable types", async function () {
+      const { owner, alice, bob, locking, lockPositions } = await loadFixture(
+        deployFixture
+      );
+      await lockPositions.mint(1n);
+      const client = new CproPositionsClient(
+        await lockPositions.getAddress(),
+        alice
+      );
+
+      await expect(
+        client.transfer(alice.address, bob.address, 1n)
+      ).to.be.rejectedWith(LockNotTransferableError);
+      expect((await client.getMetadata(1n))?.attributes).to.include({
+        "Lock type": 2,
+        Claimed: false,
+        Transferable: false,
+      });
+
+      const lockingClient = new CproLockingClient(
+        await locking.getAddress(),
+        owner
+      );
+      await expect(lockingClient.setLockTypeTransferable(2, true))
+        .to.emit(locking, "LockTypeTransferableSet")
+        .withArgs(2, true);
+      expect(await lockingClient.isLockTypeTransferable(2)).to.equal(true);
+      await expect(client.transfer(alice.address, bob.address, 1n))
+        .to.emit(locking, "LockTransferred")
+        .withArgs(1n, alice.address, bob.address);
+      expect(await lockPositions.ownerOf(1n)).to.equal(bob.address);
+      expect(await locking.lockOwner(1n)).to.equal(bob.address);
+      expect(await locking.beneficiaryLockId(bob.address)).to.equal(1n);
+      expect(await locking.allocation(alice.address)).to.equal(0n);
+    });
+
+    it("lets the new holder claim after a transfer", async function () {
+      const { alice, bob, token, locking, lockPositions, unlockTime } =
+        await loadFixture(deployFixture);
+      await locking.setLockTypeTransferable(2, true);
+      await lockPositions.mint(1n);
+      await lockPositions
+        .connect(alice)
+        .safeTransferFrom(alice.address, bob.address, 1n);
+
+      await time.increaseTo(unlockTime);
+      await expect(
+        locking.connect(alice).claim()
+      ).to.be.revertedWithCustomError(locking, "NothingToClaim");
+      await expect(locking.connect(bob).claim())
+        .to.emit(locking, "Claimed")
+        .withArgs(bob.address, 1n, AMOUNT);
+      expect(await token.balanceOf(bob.address)).to.equal(AMOUNT);
+
+      // Claimed locks cannot move anymore
+      await expect(
+        lockPositions.connect(bob).transferFrom(bob.address, alice.address, 1n)
+      )
+        .to.be.revertedWithCustomError(locking, "LockNotTransferable")
+        .withArgs(1n);
+    });
+
+    it("does not transfer a lock past its claim window", async function () {
+      const { alice, bob, locking, lockPositions, unlockTime } =
+        await loadFixture(deployFixture);
+      await locking.setLockTypeTransferable(2, true);
+      await lockPositions.mint(1n);
+      const window = await locking.MIN_CLAIM_WINDOW();
+      await locking.setClaimWindow(window);
+
+      // Not released by expireLocks yet
+      await time.increaseTo(BigInt(unlockTime) + window);
+      expect(await locking.lockExpired(1n)).to.equal(false);
+      await expect(
+        lockPositions
+          .connect(alice)
+          .transferFrom(alice.address, bob.address, 1n)
+      )
+        .to.be.revertedWithCustomError(locking, "LockNotTransferable")
+        .withArgs(1n);
+    });
+
+    it("does not transfer a lock to an account holding one", async function () {
+      const { alice, carol, locking, lockPositions } = await loadFixture(
+        deployFixture
+      );
+      await locking.setLockTypeTransferable(2, true);
+      await lockPositions.mint(1n);
+
+      await expect(
+        lockPositions
+          .connect(alice)
+          .transferFrom(alice.address, carol.address, 1n)
+      ).to.be.revertedWithCustomError(locking, "AlreadyBeneficiary");
+      await expect(
+        locking
+          .connect(alice)
+          .transferPosition(1n, alice.address, carol.address)
+      )
+        .to.be.revertedWithCustomError(locking, "NotPositions")
+        .withArgs(alice.address);
+    });
+
+    it("ends the stake of a staked lock when it is transferred", async function () {
+      const { alice, bob, token, locking, lockPositions } = await loadFixture(
+        deployFixture
+      );
+      const staking = await ethers.deployContract("CPROStaking", [
+        await token.getAddress(),
+        await locking.getAddress(),
+        7 * DAY,
+        0,
+      ]);
+      await locking.setLockStaking(await staking.getAddress());
+      await locking.setLockTypeTransferable(2, true);
+      await staking.connect(alice).stakeLock();
+      await lockPositions.mint(1n);
+
+      await expect(
+        lockPositions
+          .connect(alice)
+          .transferFrom(alice.address, bob.address, 1n)
+      )
+        .to.emit(staking, "LockUnstaked")
+        .withArgs(alice.address, 1n, AMOUNT);
+      expect(await staking.lockedStake(alice.address)).to.equal(0n);
+
+      // The new holder can stake it again
+      await staking.connect(bob).stakeLock();
+      expect(await staking.lockedStake(bob.address)).to.equal(AMOUNT);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import {
+  CSV_HEADER,
+  snapshotToCsv,
+  snapshotToJson,
+  takeSnapshot,
+} from "../../../scripts/report/snapshot.js";
+const { ethers, networkHelpers } = await network.connect();
+
+const { time, loadFixture } = networkHelpers;
+
+describe("Position report", function () {
+  async function deployFixture() {
+    const [owner, alice, bob, carol, sweepRecipient] =
+      await ethers.getSigners();
+
+    const token = await ethers.deployContract("CPROToken");
+    const vesting = await ethers.deployContract("CPROVesting", [
+      await token.getAddress(),
+    ]);
+    const locking = await ethers.deployContract("CPROLocking", [
+      await token.getAddress(),
+      ethers.parseEther("3000"),
+      3,
+      sweepRecipient.address,
+    ]);
+    await token.approve(await vesting.getAddress(), ethers.MaxUint256);
+    await token.approve(await locking.getAddress(), ethers.MaxUint256);
+    await locking.fund(ethers.parseEther("3000"));
+
+    const start = await time.latest();
+    for (const [account, amount] of [
+      [alice, "100"],
+      [bob, "200"],
+      [alice, "300"],
+    ] as const) {
+      await vesting.createVestingSchedule(
+        account.address,
+        ethers.parseEther(amount),
+        start,
+        0,
+        1000
+      );
+    }
+    await locking.addBeneficiary(alice.address, 1);
+    await locking.addBeneficiaryWithTerms(
+      bob.address,
+      4,
+      ethers.parseEther("500"),
+      start + 100
+    );
+    await locking.addBeneficiary(carol.address, 1);
+
+    return { owner, alice, bob, start, token, vesting, locking };
+  }
+
+  it("reads every position at one block, across pages", async function () {
+    const { alice, bob, start, vesting, locking } = await loadFixture(
+      deployFixture
+    );
+    await time.increaseTo(start + 500);
+    const before = await ethers.provider.getBlockNumber();
+
+    // Activity after the snapshot block is not visible in it
+    await vesting.connect(alice).claimAll();
+    await locking.connect(bob).claim();
+    await vesting.revokeVesting(2);
+
+    const snapshot = await takeSnapshot(ethers.provider, {
+      vesting: await vesting.getAddress(),
+      locking: await locking.getAddress(),
+      blockTag: before,
+      pageSize: 2,
+    });
+
+    expect(snapshot.blockNumber).to.equal(before);
+    expect(snapshot.vesting?.schedules.map((s) => s.scheduleId)).to.deep.equal([
+      1n,
+      2n,
+      3n,
+    ]);
+    expect(
+      snapshot.vesting?.schedules.map((s) => s.vestedAmount)
+    ).to.deep.equal([
+      ethers.parseEther("50"),
+      ethers.parseEther("100"),
+      ethers.parseEther("150"),
+    ]);
+    expect(snapshot.vesting?.totals).to.deep.equal({
+      totalAllocated: ethers.parseEther("600"),
+      totalClaimed: 0n,
+      totalRevoked: 0n,
+      totalVested: ethers.parseEther("300"),
+    });
+
+    expect(snapshot.locking?.locks.map((l) => l.owner)).to.have.length(3);
+    expect(snapshot.locking?.locks[1]).to.include({
+      lockId: 2n,
+      owner: bob.address,
+      lockType: 4,
+      claimed: false,
+    });
+    expect(snapshot.locking?.lockTypes).to.deep.equal([
+      { lockType: 1, assigned: ethers.parseEther("2000"), claimed: 0n },
+      { lockType: 4, assigned: ethers.parseEther("500"), claimed: 0n },
+    ]);
+    expect(snapshot.locking?.totals.totalAssigned).to.equal(
+      ethers.parseEther("2500")
+    );
+  });
+
+  it("tracks claims and revocations in the totals", async function () {
+    const { alice, bob, start, vesting, locking } = await loadFixture(
+      deployFixture
+    );
+    await time.setNextBlockTimestamp(start + 500);
+    await vesting.connect(alice).claimAll();
+    await time.setNextBlockTimestamp(start + 600);
+    await vesting.revokeVesting(2);
+    await locking.connect(bob).claim();
+
+    const snapshot = await takeSnapshot(ethers.provider, {
+      vesting: await vesting.getAddress(),
+      locking: await locking.getAddress(),
+    });
+
+    // alice claimed 50 + 150, bob was paid 120 on revocation
+    expect(snapshot.vesting?.totals).to.include({
+      totalClaimed: ethers.parseEther("320"),
+      totalRevoked: ethers.parseEther("80"),
+    });
+    expect(snapshot.locking?.lockTypes[1]).to.deep.equal({
+      lockType: 4,
+      assigned: ethers.parseEther("500"),
+      claimed: ethers.parseEther("500"),
+    });
+    expect(snapshot.locking?.totals.totalClaimed).to.equal(
+      ethers.parseEther("500")
+    );
+  });
+
+  it("writes one CSV row per position and JSON with decimal strings", async function () {
+    const { alice, bob, start, vesting, locking } = await loadFixture(
+      deployFixture
+    );
+    await time.setNextBlockTimestamp(start + 1000);
+    await vesting.revokeVesting(2);
+    await locking.connect(bob).claim();
+
+    const snapshot = await takeSnapshot(ethers.provider, {
+      vesting: await vesting.getAddress(),
+      locking: await locking.getAddress(),
+    });
+    const lines = snapshotToCsv(snapshot).trim().split("\n");
+
+    expect(lines[0]).to.equal(CSV_HEADER);
+    expect(lines).to.have.length(7);
+    expect(lines[1]).to.equal(
+      [
+        "vesting",
+        1,
+        alice.address,
+        "",
+        ethers.parseEther("100"),
+        0,
+        ethers.parseEther("100"),
+        start,
+        start + 1000,
+        "active",
+      ].join(",")
+    );
+    expect(lines[2].split(",").at(-1)).to.equal("revoked");
+    expect(lines[5]).to.equal(
+      [
+        "locking",
+        2,
+        bob.address,
+        4,
+        ethers.parseEther("500"),
+        ethers.parseEther("500"),
+        ethers.parseEther("500"),
+        "",
+        start + 100,
+        "claimed",
+      ].join(",")
+    );
+    expect(lines[4].split(",").at(-1)).to.equal("locked");
+
+    const json = JSON.parse(snapshotToJson(snapshot));
+    expect(json.chainId).to.equal("31337");
+    expect(json.vesting.totals.totalAllocated).to.equal(
+      ethers.parseEther("600").toString()
+    );
+    expect(json.locking.locks[0].lockType).to.equal(1);
+  });
+});
@@ -0,0 +1,460 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import {
+  AccountBlockedError,
+  AlreadyBeneficiaryError,
+  BalanceFrozenError,
+  BeforeDeadlineError,
+  ClaimExpiredError,
+  CproComplianceClient,
+  CproLockingClient,
+  CproTokenClient,
+  CproVestingClient,
+  InvalidLockTypeError,
+  InvalidSweepPolicyError,
+  LockNotExpiredError,
+  LockTermsError,
+  LockUpdateError,
+  NotEnoughFundedError,
+  PastDeadlineError,
+  UnauthorizedError,
+  VestingRevertError,
+} from "../../../sdk/src/index.js";
+const { ethers, networkHelpers } = await network.connect();
+
+const { time, loadFixture } = networkHelpers;
+
+describe("CPRO SDK", function () {
+  async function deployFixture() {
+    const [owner, sweepRecipient, alice, bob, carol] =
+      await ethers.getSigners();
+
+    const token = await ethers.deployContract("CPROToken");
+    const vesting = await ethers.deployContract("CPROVesting", [
+      await token.getAddress(),
+    ]);
+    const POOL = ethers.parseEther("1000");
+    const locking = await ethers.deployContract("CPROLocking", [
+      await token.getAddress(),
+      POOL,
+      2,
+      sweepRecipient.address,
+    ]);
+
+    const tokenClient = new CproTokenClient(await token.getAddress(), owner);
+    const vestingClient = new CproVestingClient(
+      await vesting.getAddress(),
+      owner
+    );
+    const lockingClient = new CproLockingClient(
+      await locking.getAddress(),
+      owner
+    );
+
+    await tokenClient.approve(await vesting.getAddress(), ethers.MaxUint256);
+    await tokenClient.approve(await locking.getAddress(), ethers.MaxUint256);
+
+    return {
+      owner,
+      sweepRecipient,
+      alice,
+      bob,
+      carol,
+      token,
+      vesting,
+      locking,
+      tokenClient,
+      vestingClient,
+      lockingClient,
+      POOL,
+    };
+  }
+
+  describe("CproVestingClient", function () {
+    it("returns schedules as named objects", async function () {
+      const { vestingClient, alice } = await loadFixture(deployFixture);
+      const start = await time.latest();
+
+      const { scheduleId } = await vestingClient.createVestingSchedule({
+        beneficiary: alice.address,
+        totalAmount: ethers.parseEther("100"),
+        startTime: start,
+        cliffDuration: 60,
+        vestingDuration: 600,
+      });
+
+      expect(scheduleId).to.equal(1n);
+      const schedule = await vestingClient.getSchedule(scheduleId);
+      expect(schedule).to.deep.equal({
+        scheduleId: 1n,
+        beneficiary: alice.address,
+        totalAmount: ethers.parseEther("100"),
+        claimedAmount: 0n,
+        startTime: BigInt(start),
+        cliffDuration: 60n,
+        vestingDuration: 600n,
+        revoked: false,
+        revocable: true,
+      });
+      expect(await vestingClient.getSchedules(alice.address)).to.deep.equal([
+        schedule,
+      ]);
+      expect(await vestingClient.getBeneficiaries()).to.deep.equal([
+        alice.address,
+      ]);
+    });
+
+    it("creates schedules with a vesting curve", async function () {
+      const { vestingClient, alice } = await loadFixture(deployFixture);
+      const start = await time.latest();
+      const curve = {
+        curveType: 3,
+        stepInterval: 0n,
+        initialUnlockBps: 0n,
+        milestones: [
+          { offset: 100n, unlockBps: 3000n },
+          { offset: 500n, unlockBps: 7000n },
+        ],
+      };
+
+      const { scheduleId } = await vestingClient.createVestingScheduleWithCurve(
+        {
+          beneficiary: alice.address,
+          totalAmount: ethers.parseEther("100"),
+          startTime: start,
+          cliffDuration: 0,
+          vestingDuration: 600,
+        },
+        curve
+      );
+
+      expect(await vestingClient.getCurve(scheduleId)).to.deep.equal(curve);
+      await time.increaseTo(start + 100);
+      expect(await vestingClient.getVestedAmount(alice.address)).to.equal(
+        ethers.parseEther("30")
+      );
+    });
+
+    it("signs claims for a relayer to submit", async function () {
+      const { vestingClient, alice, bob, token } = await loadFixture(
+        deployFixture
+      );
+      await vestingClient.createVestingSchedule({
+        beneficiary: alice.address,
+        totalAmount: ethers.parseEther("100"),
+        startTime: (await time.latest()) - 1000,
+        cliffDuration: 0,
+        vestingDuration: 100,
+      });
+
+      const claim = await vestingClient.createSignedClaim(
+        alice,
+        bob.address,
+        (await time.latest()) + 3600
+      );
+      expect(claim.nonce).to.equal(0n);
+      await vestingClient.claimWithSignature(claim);
+      expect(await token.balanceOf(bob.address)).to.equal(
+        ethers.parseEther("100")
+      );
+
+      await expect(vestingClient.claimWithSignature(claim)).to.be.rejectedWith(
+        VestingRevertError,
+        "CPROVesting: invalid signature"
+      );
+    });
+
+    it("returns null for an unknown schedule", async function () {
+      const { vestingClient, bob } = await loadFixture(deployFixture);
+      expect(await vestingClient.getSchedule(1)).to.equal(null);
+      expect(await vestingClient.getSchedules(bob.address)).to.deep.equal([]);
+    });
+
+    it("claims through a beneficiary runner", async function () {
+      const { vestingClient, tokenClient, alice } = await loadFixture(
+        deployFixture
+      );
+      const start = await time.latest();
+      for (const amount of ["100", "50"]) {
+        await vestingClient.createVestingSchedule({
+          beneficiary: alice.address,
+          totalAmount: ethers.parseEther(amount),
+          startTime: start,
+          cliffDuration: 0,
+          vestingDuration: 100,
+        });
+      }
+      await time.increase(200);
+
+      const asAlice = new CproVestingClient(vestingClient.address, alice);
+      expect(await asAlice.getClaimableAmount(alice.address)).to.equal(
+        ethers.parseEther("150")
+      );
+      await asAlice.claimTokens(2);
+      expect(await tokenClient.balanceOf(alice.address)).to.equal(
+        ethers.parseEther("50")
+      );
+
+      await asAlice.claimAll();
+      expect(await tokenClient.balanceOf(alice.address)).to.equal(
+        ethers.parseEther("150")
+      );
+      const schedule = await asAlice.getSchedule(1);
+      expect(schedule?.claimedAmount).to.equal(ethers.parseEther("100"));
+    });
+
+    it("maps CPROVesting revert strings to VestingRevertError", async function () {
+      const { vestingClient, alice } = await loadFixture(deployFixture);
+      const asAlice = new CproVestingClient(vestingClient.address, alice);
+
+      const error = await asAlice.claimAll().catch((e) => e);
+      expect(error).to.be.instanceOf(VestingRevertError);
+      expect(error.reason).to.equal("CPROVesting: no tokens to claim");
+    });
+
+    it("maps Ownable reverts to UnauthorizedError", async function () {
+      const { vestingClient, alice } = await loadFixture(deployFixture);
+      const asAlice = new CproVestingClient(vestingClient.address, alice);
+
+      const error = await asAlice.revokeVesting(1).catch((e) => e);
+      expect(error).to.be.instanceOf(UnauthorizedError);
+      expect(error.account).to.equal(alice.address);
+    });
+  });
+
+  describe("CproLockingClient", function () {
+    it("returns lock info as named objects", async function () {
+      const { lockingClient, POOL, alice } = await loadFixture(deployFixture);
+      await lockingClient.fund(POOL);
+      await lockingClient.addBeneficiary(alice.address, 3);
+
+      const byBeneficiary = await lockingClient.getBeneficiaryLockInfo(
+        alice.address
+      );
+      const byId = await lockingClient.getLockInfo(1);
+      expect(byBeneficiary).to.deep.equal(byId);
+      expect(byId).to.deep.equal({
+        lockId: 1n,
+        owner: alice.address,
+        amount: POOL / 2n,
+        unlockTime: await lockingClient.getEndTime(),
+        claimed: false,
+        lockType: 3,
+      });
+      expect(await lockingClient.getLockInfo(2)).to.equal(null);
+    });
+
+    it("delegates the votes of locked tokens", async function () {
+      const { lockingClient, tokenClient, POOL, alice, bob } =
+        await loadFixture(deployFixture);
+      await lockingClient.fund(POOL);
+      await lockingClient.addBeneficiary(alice.address, 0);
+      expect(await lockingClient.getVotesDelegatee(alice.address)).to.equal(
+        null
+      );
+
+      await new CproLockingClient(lockingClient.address, alice).delegateVotes(
+        bob.address
+      );
+      expect(await lockingClient.getVotesDelegatee(alice.address)).to.equal(
+        bob.address
+      );
+      expect(await tokenClient.getVotes(bob.address)).to.equal(POOL / 2n);
+    });
+
+    it("maps custom errors to typed exceptions", async function () {
+      const { lockingClient, POOL, alice, bob } = await loadFixture(
+        deployFixture
+      );
+
+      expect(
+        await lockingClient.addBeneficiary(alice.address, 0).catch((e) => e)
+      ).to.be.instanceOf(NotEnoughFundedError);
+
+      await lockingClient.fund(POOL);
+      expect(
+        await lockingClient.addBeneficiary(alice.address, 26).catch((e) => e)
+      ).to.be.instanceOf(InvalidLockTypeError);
+
+      await lockingClient.addBeneficiary(alice.address, 0);
+      expect(
+        await lockingClient.addBeneficiary(alice.address, 0).catch((e) => e)
+      ).to.be.instanceOf(AlreadyBeneficiaryError);
+
+      const asAlice = new CproLockingClient(lockingClient.address, alice);
+      expect(await asAlice.claim().catch((e) => e)).to.be.instanceOf(
+        BeforeDeadlineError
+      );
+
+      await time.increaseTo((await lockingClient.getEndTime()) + 1n);
+      expect(
+        await lockingClient.addBeneficiary(bob.address, 0).catch((e) => e)
+      ).to.be.instanceOf(PastDeadlineError);
+
+      await asAlice.claim();
+      expect(await lockingClient.getReservedForUnclaimed()).to.equal(0n);
+    });
+
+    it("sets the sweep split and expires unclaimed locks", async function () {
+      const { lockingClient, locking, token, POOL, alice, bob, carol } =
+        await loadFixture(deployFixture);
+      await lockingClient.fund(POOL);
+      await lockingClient.addBeneficiary(alice.address, 0);
+
+      expect(
+        await lockingClient
+          .setSweepSplit([{ recipient: bob.address, bps: 5000 }])
+          .catch((e) => e)
+      ).to.be.instanceOf(InvalidSweepPolicyError);
+      const split = [
+        { recipient: bob.address, bps: 2500 },
+        { recipient: carol.address, bps: 7500 },
+      ];
+      await lockingClient.setSweepSplit(split);
+      expect(await lockingClient.getSweepSplit()).to.deep.equal(split);
+      await lockingClient.sweepUnassigned();
+      expect(await token.balanceOf(bob.address)).to.equal(POOL / 8n);
+
+      const window = await locking.MIN_CLAIM_WINDOW();
+      await lockingClient.setClaimWindow(window);
+      expect(await lockingClient.getClaimWindow()).to.equal(window);
+      expect(
+        await lockingClient.expireLocks([1]).catch((e) => e)
+      ).to.be.instanceOf(LockNotExpiredError);
+
+      await time.increaseTo((await lockingClient.getEndTime()) + window);
+      const asAlice = new CproLockingClient(lockingClient.address, alice);
+      expect(await asAlice.claim().catch((e) => e)).to.be.instanceOf(
+        ClaimExpiredError
+      );
+      expect(await lockingClient.isLockClaimExpired(1)).to.equal(true);
+      await lockingClient.expireLocks([1]);
+      expect(await lockingClient.getReservedForUnclaimed()).to.equal(0n);
+    });
+
+    it("extends and unlocks locks early", async function () {
+      const { lockingClient, token, POOL, alice, bob } = await loadFixture(
+        deployFixture
+      );
+      await lockingClient.fund(POOL);
+      await lockingClient.addBeneficiary(alice.address, 0);
+      const asAlice = new CproLockingClient(lockingClient.address, alice);
+      const asBob = new CproLockingClient(lockingClient.address, bob);
+
+      expect(
+        await lockingClient.setEarlyUnlockPenalty(10001).catch((e) => e)
+      ).to.be.instanceOf(LockTermsError);
+      expect(await asAlice.unlockEarly(1).catch((e) => e)).to.be.instanceOf(
+        LockTermsError
+      );
+      await lockingClient.setEarlyUnlockPenalty(2000);
+      await lockingClient.setExtensionBonus(500);
+      expect(await lockingClient.getEarlyUnlockPenalty()).to.equal(2000);
+      expect(await lockingClient.getExtensionBonus()).to.equal(500);
+
+      const lock = await lockingClient.getLockInfo(1);
+      expect(
+        await asAlice.extendLock(1, lock?.unlockTime ?? 0n).catch((e) => e)
+      ).to.be.instanceOf(LockUpdateError);
+      expect(await asBob.unlockEarly(1).catch((e) => e)).to.be.instanceOf(
+        LockUpdateError
+      );
+
+      await asAlice.unlockEarly(1);
+      expect((await lockingClient.getLockInfo(1))?.claimed).to.equal(true);
+      expect(await token.balanceOf(alice.address)).to.equal(
+        ((POOL / 2n) * 8n) / 10n
+      );
+    });
+  });
+
+  describe("CproTokenClient", function () {
+    it("maps missing roles to UnauthorizedError", async function () {
+      const { tokenClient, alice } = await loadFixture(deployFixture);
+      const asAlice = new CproTokenClient(tokenClient.address, alice);
+
+      const error = await asAlice.queueMint(alice.address, 1n).catch((e) => e);
+      expect(error).to.be.instanceOf(UnauthorizedError);
+      expect(error.account).to.equal(alice.address);
+      expect(error.role).to.equal(await tokenClient.roleId("MINTER_ROLE"));
+    });
+
+    it("queues and executes mints", async function () {
+      const { tokenClient, alice } = await loadFixture(deployFixture);
+
+      const { requestId, executableAt } = await tokenClient.queueMint(
+        alice.address,
+        1000n
+      );
+      expect(await tokenClient.getMintRequest(requestId)).to.deep.equal({
+        requestId,
+        to: alice.address,
+        amount: 1000n,
+        executableAt,
+        executed: false,
+        cancelled: false,
+      });
+      expect(await tokenClient.getMintRequest(requestId + 1n)).to.equal(null);
+
+      await time.increaseTo(executableAt);
+      await tokenClient.executeMint(requestId);
+      expect(await tokenClient.balanceOf(alice.address)).to.equal(1000n);
+      expect((await tokenClient.getMintRequest(requestId))?.executed).to.equal(
+        true
+      );
+    });
+
+    it("grants and lists roles", async function () {
+      const { tokenClient, owner, alice } = await loadFixture(deployFixture);
+      await tokenClient.grantRole("PAUSER_ROLE", alice.address);
+
+      expect(await tokenClient.hasRole("PAUSER_ROLE", alice.address)).to.equal(
+        true
+      );
+      expect(await tokenClient.getRoleMembers("PAUSER_ROLE")).to.deep.equal([
+        owner.address,
+        alice.address,
+      ]);
+
+      await new CproTokenClient(tokenClient.address, alice).pause();
+      expect(await tokenClient.paused()).to.equal(true);
+    });
+
+    it("maps compliance module reverts to typed exceptions", async function () {
+      const { token, tokenClient, owner, alice, bob } = await loadFixture(
+        deployFixture
+      );
+      const compliance = await ethers.deployContract("CPROCompliance", [
+        await token.getAddress(),
+        owner.address,
+      ]);
+      const complianceClient = new CproComplianceClient(
+        await compliance.getAddress(),
+        owner
+      );
+      expect(await tokenClient.getComplianceModule()).to.equal(null);
+      await tokenClient.setComplianceModule(complianceClient.address);
+      expect(await tokenClient.getComplianceModule()).to.equal(
+        complianceClient.address
+      );
+
+      await tokenClient.transfer(alice.address, 100n);
+      await complianceClient.setFrozenAmount(alice.address, 60n);
+      expect(
+        await complianceClient.getTransferableBalance(alice.address)
+      ).to.equal(40n);
+      const asAlice = new CproTokenClient(tokenClient.address, alice);
+      const frozen = await asAlice.transfer(bob.address, 50n).catch((e) => e);
+      expect(frozen).to.be.instanceOf(BalanceFrozenError);
+      expect(frozen.reason).to.equal("BalanceFrozen");
+
+      await complianceClient.setBlocked(bob.address, true);
+      expect(await complianceClient.isBlocked(bob.address)).to.equal(true);
+      const blocked = await asAlice.transfer(bob.address, 1n).catch((e) => e);
+      expect(blocked).to.be.instanceOf(AccountBlockedError);
+
+      await tokenClient.setComplianceModule(null);
+      await asAlice.transfer(bob.address, 50n);
+    });
+  });
+});
@@ -0,0 +1,536 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import {
+  CproStakingClient,
+  UnbondingNotElapsedError,
+} from "../../../sdk/src/index.js";
+const { ethers, networkHelpers } = await network.connect();
+
+const { time, loadFixture } = networkHelpers;
+
+const DAY = 24 * 60 * 60;
+const WEEK = 7 * DAY;
+
+describe("CPROStaking", function () {
+  // One token per second over a week
+  const REWARD = ethers.parseEther(String(WEEK));
+  const RATE = ethers.parseEther("1");
+
+  async function deployFixture() {
+    const [owner, alice, bob, carol] = await ethers.getSigners();
+    const token = await ethers.deployContract("CPROToken");
+    const locking = await ethers.deployContract("CPROLocking", [
+      await token.getAddress(),
+      ethers.parseEther("3000"),
+      3,
+      owner.address,
+    ]);
+    const staking = await ethers.deployContract("CPROStaking", [
+      await token.getAddress(),
+      await locking.getAddress(),
+      WEEK,
+      0,
+    ]);
+
+    for (const account of [alice, bob, carol]) {
+      await token.transfer(account.address, ethers.parseEther("10000"));
+      await token
+        .connect(account)
+        .approve(await staking.getAddress(), ethers.MaxUint256);
+    }
+    await token.approve(await staking.getAddress(), ethers.MaxUint256);
+    await token.approve(await locking.getAddress(), ethers.MaxUint256);
+    await locking.fund(ethers.parseEther("3000"));
+
+    return { owner, alice, bob, carol, token, locking, staking };
+  }
+
+  /** Sends `action` in a block at `timestamp` */
+  async function at(timestamp: number, action: () => Promise<unknown>) {
+    await time.setNextBlockTimestamp(timestamp);
+    return action();
+  }
+
+  it("rejects invalid constructor arguments", async function () {
+    const { token, staking } = await loadFixture(deployFixture);
+    await expect(
+      ethers.deployContract("CPROStaking", [
+        ethers.ZeroAddress,
+        ethers.ZeroAddress,
+        WEEK,
+        0,
+      ])
+    ).to.be.revertedWith("CPROStaking: token is zero address");
+    await expect(
+      ethers.deployContract("CPROStaking", [
+        await token.getAddress(),
+        ethers.ZeroAddress,
+        0,
+        0,
+      ])
+    ).to.be.revertedWithCustomError(staking, "InvalidDuration");
+
+    const otherToken = await ethers.deployContract("CPROToken");
+    const otherLocking = await ethers.deployContract("CPROLocking", [
+      await otherToken.getAddress(),
+      1000n,
+      1,
+      (await ethers.getSigners())[0].address,
+    ]);
+    await expect(
+      ethers.deployContract("CPROStaking", [
+        await token.getAddress(),
+        await otherLocking.getAddress(),
+        WEEK,
+        0,
+      ])
+    ).to.be.revertedWith("CPROStaking: locking holds another token");
+  });
+
+  describe("reward math", function () {
+    it("pays a single staker the whole reward rate", async function () {
+      const { alice, token, staking } = await loadFixture(deployFixture);
+      const start = (await time.latest()) + 10;
+      await at(start, () =>
+        staking.connect(alice).stake(ethers.parseEther("100"))
+      );
+      await at(start + 100, () => staking.notifyRewardAmount(REWARD));
+
+      expect(await staking.rewardRate()).to.equal(RATE);
+      expect(await staking.periodFinish()).to.equal(start + 100 + WEEK);
+      expect(await staking.rewardForDuration()).to.equal(REWARD);
+
+      // Nothing accrued before the reward period started
+      await time.increaseTo(start + 100 + 1000);
+      expect(await staking.earned(alice.address)).to.equal(
+        ethers.parseEther("1000")
+      );
+
+      const balance = await token.balanceOf(alice.address);
+      await at(start + 100 + 2000, () => staking.connect(alice).claimRewards());
+      expect(await token.balanceOf(alice.address)).to.equal(
+        balance + ethers.parseEther("2000")
+      );
+      expect(await staking.earned(alice.address)).to.equal(0n);
+    });
+
+    it("shares rewards in proportion to the stakes", async function () {
+      const { alice, bob, carol, staking } = await loadFixture(deployFixture);
+      const start = (await time.latest()) + 10;
+      await at(start, () => staking.notifyRewardAmount(REWARD));
+      await at(start + 1000, () =>
+        staking.connect(alice).stake(ethers.parseEther("100"))
+      );
+      await at(start + 2000, () =>
+        staking.connect(bob).stake(ethers.parseEther("300"))
+      );
+      await at(start + 3000, () =>
+        staking.connect(carol).stake(ethers.parseEther("400"))
+      );
+      await time.increaseTo(start + 4000);
+
+      // 0-1000: nobody staked. 1000-2000: alice alone. 2000-3000: 1/4 and 3/4.
+      // 3000-4000: 1/8, 3/8 and 4/8.
+      expect(await staking.earned(alice.address)).to.equal(
+        ethers.parseEther("1375")
+      );
+      expect(await staking.earned(bob.address)).to.equal(
+        ethers.parseEther("1125")
+      );
+      expect(await staking.earned(carol.address)).to.equal(
+        ethers.parseEther("500")
+      );
+      expect(await staking.totalStaked()).to.equal(ethers.parseEther("800"));
+    });
+
+    it("stops accruing at the end of the period", async function () {
+      const { alice, token, staking } = await loadFixture(deployFixture);
+      const start = (await time.latest()) + 10;
+      await at(start, () =>
+        staking.connect(alice).stake(ethers.parseEther("1"))
+      );
+      await at(start + 1, () => staking.notifyRewardAmount(REWARD));
+
+      await time.increaseTo(start + 1 + WEEK);
+      expect(await staking.earned(alice.address)).to.equal(REWARD);
+      await time.increase(30 * DAY);
+      expect(await staking.earned(alice.address)).to.equal(REWARD);
+
+      // Every funded reward is paid out, stakes stay covered
+      await staking.connect(alice).exit();
+      expect(await token.balanceOf(await staking.getAddress())).to.equal(0n);
+    });
+
+    it("adds the rewards left to a new period funded early", async function () {
+      const { alice, staking } = await loadFixture(deployFixture);
+      const start = (await time.latest()) + 10;
+      await at(start, () =>
+        staking.connect(alice).stake(ethers.parseEther("10"))
+      );
+      await at(start + 1, () => staking.notifyRewardAmount(REWARD));
+
+      // Half way, 302400 tokens are left, 302400 more are added over a new week
+      const half = start + 1 + WEEK / 2;
+      await expect(at(half, () => staking.notifyRewardAmount(REWARD / 2n)))
+        .to.emit(staking, "RewardAdded")
+        .withArgs(REWARD, half + WEEK);
+      expect(await staking.rewardRate()).to.equal(RATE);
+
+      await time.increaseTo(half + WEEK);
+      expect(await staking.earned(alice.address)).to.equal(
+        REWARD + REWARD / 2n
+      );
+    });
+
+    it("keeps rewards earned before unstaking", async function () {
+      const { alice, bob, staking } = await loadFixture(deployFixture);
+      const start = (await time.latest()) + 10;
+      await at(start, () => staking.notifyRewardAmount(REWARD));
+      await at(start + 1, () =>
+        staking.connect(alice).stake(ethers.parseEther("100"))
+      );
+      await at(start + 2, () =>
+        staking.connect(bob).stake(ethers.parseEther("100"))
+      );
+      await at(start + 1002, () =>
+        staking.connect(alice).unstake(ethers.parseEther("100"))
+      );
+      await time.increaseTo(start + 2002);
+
+      // alice: 1 second alone, then half of 1000 seconds
+      expect(await staking.earned(alice.address)).to.equal(
+        ethers.parseEther("501")
+      );
+      expect(await staking.earned(bob.address)).to.equal(
+        ethers.parseEther("1500")
+      );
+    });
+
+    it("lets the owner recover the rewards of the time nothing was staked", async function () {
+      const { owner, alice, token, staking } = await loadFixture(deployFixture);
+      const start = (await time.latest()) + 10;
+      await at(start, () => staking.notifyRewardAmount(REWARD));
+      await at(start + 1000, () =>
+        staking.connect(alice).stake(ethers.parseEther("100"))
+      );
+      await at(start + 2000, () =>
+        staking.connect(alice).unstake(ethers.parseEther("100"))
+      );
+      await time.increaseTo(start + WEEK);
+
+      // Nobody staked for 1000 seconds, then after the unstake until the end
+      const unallocated = REWARD - ethers.parseEther("1000");
+      await expect(
+        staking.connect(alice).recoverUnallocatedRewards(alice.address)
+      ).to.be.revertedWithCustomError(staking, "OwnableUnauthorizedAccount");
+      const balance = await token.balanceOf(owner.address);
+      await expect(staking.recoverUnallocatedRewards(owner.address))
+        .to.emit(staking, "UnallocatedRewardsRecovered")
+        .withArgs(owner.address, unallocated);
+      expect(await token.balanceOf(owner.address)).to.equal(
+        balance + unallocated
+      );
+      await expect(
+        staking.recoverUnallocatedRewards(owner.address)
+      ).to.be.revertedWithCustomError(staking, "NothingToWithdraw");
+
+      // Alice's rewards stay covered
+      await staking.connect(alice).claimRewards();
+      expect(await token.balanceOf(await staking.getAddress())).to.equal(0n);
+    });
+  });
+
+  describe("unbonding", function () {
+    it("releases unstaked tokens after the unbonding period", async function () {
+      const { alice, token, staking } = await loadFixture(deployFixture);
+      await expect(staking.setUnbondingPeriod(3 * DAY))
+        .to.emit(staking, "UnbondingPeriodUpdated")
+        .withArgs(3 * DAY);
+      await staking.connect(alice).stake(ethers.parseEther("100"));
+      const balance = await token.balanceOf(alice.address);
+
+      const unstakedAt = (await time.latest()) + 10;
+      await expect(
+        at(unstakedAt, () =>
+          staking.connect(alice).unstake(ethers.parseEther("40"))
+        )
+      )
+        .to.emit(staking, "Unstaked")
+        .withArgs(alice.address, ethers.parseEther("40"), unstakedAt + 3 * DAY);
+      expect(await staking.stakeOf(alice.address)).to.equal(
+        ethers.parseEther("60")
+      );
+
+      await expect(staking.connect(alice).withdraw())
+        .to.be.revertedWithCustomError(staking, "UnbondingNotElapsed")
+        .withArgs(unstakedAt + 3 * DAY);
+      await time.increaseTo(unstakedAt + 3 * DAY);
+      await expect(staking.connect(alice).withdraw())
+        .to.emit(staking, "Withdrawn")
+        .withArgs(alice.address, ethers.parseEther("40"));
+      expect(await token.balanceOf(alice.address)).to.equal(
+        balance + ethers.parseEther("40")
+      );
+      await expect(
+        staking.connect(alice).withdraw()
+      ).to.be.revertedWithCustomError(staking, "NothingToWithdraw");
+    });
+
+    it("restarts the unbonding period of tokens already unbonding", async function () {
+      const { alice, staking } = await loadFixture(deployFixture);
+      await staking.setUnbondingPeriod(3 * DAY);
+      await staking.connect(alice).stake(ethers.parseEther("100"));
+      await staking.connect(alice).unstake(ethers.parseEther("10"));
+      await time.increase(2 * DAY);
+      await staking.connect(alice).unstake(ethers.parseEther("10"));
+
+      const [amount, releaseTime] = await staking.unbonding(alice.address);
+      expect(amount).to.equal(ethers.parseEther("20"));
+      expect(releaseTime).to.equal((await time.latest()) + 3 * DAY);
+    });
+
+    it("sends unstaked tokens at once without unbonding period", async function () {
+      const { alice, token, staking } = await loadFixture(deployFixture);
+      await staking.connect(alice).stake(ethers.parseEther("100"));
+      const balance = await token.balanceOf(alice.address);
+      await expect(staking.connect(alice).unstake(ethers.parseEther("100")))
+        .to.emit(staking, "Withdrawn")
+        .withArgs(alice.address, ethers.parseEther("100"));
+      expect(await token.balanceOf(alice.address)).to.equal(
+        balance + ethers.parseEther("100")
+      );
+
+      await expect(staking.connect(alice).unstake(1n))
+        .to.be.revertedWithCustomError(staking, "InsufficientStake")
+        .withArgs(0n, 1n);
+      await expect(
+        staking.connect(alice).stake(0n)
+      ).to.be.revertedWithCustomError(staking, "InvalidAmount");
+    });
+  });
+
+  describe("locks staked in place", function () {
+    async function lockFixture() {
+      const fixture = await deployFixture();
+      const { alice, locking, staking } = fixture;
+      const unlockTime = (await time.latest()) + 5 * DAY;
+      await locking.addBeneficiaryWithTerms(
+        alice.address,
+        1,
+        ethers.parseEther("500"),
+        unlockTime
+      );
+      await locking.setLockStaking(await staking.getAddress());
+      return { ...fixture, unlockTime };
+    }
+
+    it("earns on locked tokens until the lock is claimed", async function () {
+      const { alice, bob, token, locking, staking, unlockTime } =
+        await loadFixture(lockFixture);
+      const start = (await time.latest()) + 10;
+      await at(start, () => staking.notifyRewardAmount(REWARD));
+      await expect(at(start + 1, () => staking.connect(alice).stakeLock()))
+        .to.emit(staking, "LockStaked")
+        .withArgs(alice.address, 1n, ethers.parseEther("500"));
+      await at(start + 2, () =>
+        staking.connect(bob).stake(ethers.parseEther("500"))
+      );
+      expect(await staking.lockStaker(1)).to.equal(alice.address);
+      expect(await staking.stakeOf(alice.address)).to.equal(
+        ethers.parseEther("500")
+      );
+      // The tokens stay in the locking contract
+      expect(await token.balanceOf(await staking.getAddress())).to.equal(
+        REWARD + ethers.parseEther("500")
+      );
+
+      await expect(
+        staking.connect(alice).stakeLock()
+      ).to.be.revertedWithCustomError(staking, "LockNotStakeable");
+
+      // Claiming the lock ends its stake
+      await expect(at(unlockTime, () => locking.connect(alice).claim()))
+        .to.emit(staking, "LockUnstaked")
+        .withArgs(alice.address, 1n, ethers.parseEther("500"));
+      expect(await staking.stakeOf(alice.address)).to.equal(0n);
+      expect(await staking.totalStaked()).to.equal(ethers.parseEther("500"));
+
+      // 1 second alone, then half of the rest
+      const earned = RATE + (BigInt(unlockTime - start - 2) * RATE) / 2n;
+      expect(await staking.earned(alice.address)).to.equal(earned);
+      await time.increase(DAY);
+      expect(await staking.earned(alice.address)).to.equal(earned);
+
+      await expect(
+        staking.connect(alice).stakeLock()
+      ).to.be.revertedWithCustomError(staking, "LockNotStakeable");
+    });
+
+    it("ends the stake of a lock that expires unclaimed", async function () {
+      const { alice, locking, staking, unlockTime } = await loadFixture(
+        lockFixture
+      );
+      await staking.connect(alice).stakeLock();
+      const window = await locking.MIN_CLAIM_WINDOW();
+      await locking.setClaimWindow(window);
+
+      await time.increaseTo(BigInt(unlockTime) + window);
+      await expect(locking.expireLocks([1]))
+        .to.emit(staking, "LockUnstaked")
+        .withArgs(alice.address, 1n, ethers.parseEther("500"));
+      expect(await staking.totalStaked()).to.equal(0n);
+      await expect(
+        staking.connect(alice).stakeLock()
+      ).to.be.revertedWithCustomError(staking, "LockNotStakeable");
+    });
+
+    it("does not stake a lock past its claim window", async function () {
+      const { alice, locking, staking, unlockTime } = await loadFixture(
+        lockFixture
+      );
+      const window = await locking.MIN_CLAIM_WINDOW();
+      await locking.setClaimWindow(window);
+
+      // Not released by expireLocks yet
+      await time.increaseTo(BigInt(unlockTime) + window);
+      await expect(staking.connect(alice).stakeLock())
+        .to.be.revertedWithCustomError(staking, "LockNotStakeable")
+        .withArgs(1n);
+    });
+
+    it("follows the amount of a staked lock until it is unlocked early", async function () {
+      const { alice, token, locking, staking, unlockTime } = await loadFixture(
+        lockFixture
+      );
+      await staking.connect(alice).stakeLock();
+      await token
+        .connect(alice)
+        .approve(await locking.getAddress(), ethers.MaxUint256);
+
+      await expect(
+        locking.connect(alice).topUpLock(1, ethers.parseEther("100"))
+      )
+        .to.emit(staking, "LockStakeUpdated")
+        .withArgs(alice.address, 1n, ethers.parseEther("600"));
+      // 10% per year of the locked 500, over half a year
+      await locking.setExtensionBonus(1000);
+      await expect(
+        locking.connect(alice).extendLock(1, unlockTime + (365 / 2) * DAY)
+      )
+        .to.emit(staking, "LockStakeUpdated")
+        .withArgs(alice.address, 1n, ethers.parseEther("625"));
+      expect(await staking.stakeOf(alice.address)).to.equal(
+        ethers.parseEther("625")
+      );
+      expect(await staking.totalStaked()).to.equal(ethers.parseEther("625"));
+
+      await locking.setEarlyUnlockPenalty(1000);
+      await expect(locking.connect(alice).unlockEarly(1))
+        .to.emit(staking, "LockUnstaked")
+        .withArgs(alice.address, 1n, ethers.parseEther("625"));
+      expect(await staking.stakeOf(alice.address)).to.equal(0n);
+      expect(await staking.totalStaked()).to.equal(0n);
+    });
+
+    it("lets the beneficiary unstake the lock", async function () {
+      const { alice, bob, staking } = await loadFixture(lockFixture);
+      await expect(staking.connect(alice).unstakeLock())
+        .to.be.revertedWithCustomError(staking, "LockNotStaked")
+        .withArgs(1n);
+      await staking.connect(alice).stakeLock();
+      await expect(staking.connect(bob).unstakeLock())
+        .to.be.revertedWithCustomError(staking, "LockNotStaked")
+        .withArgs(0n);
+
+      await staking.connect(alice).unstakeLock();
+      expect(await staking.lockStaker(1)).to.equal(ethers.ZeroAddress);
+      expect(await staking.totalStaked()).to.equal(0n);
+      // And stake it again
+      await staking.connect(alice).stakeLock();
+    });
+
+    it("requires the locking contract to report claims to it", async function () {
+      const { owner, alice, token, locking, staking } = await loadFixture(
+        deployFixture
+      );
+      await locking.addBeneficiary(alice.address, 1);
+      await expect(
+        staking.connect(alice).stakeLock()
+      ).to.be.revertedWithCustomError(staking, "LockStakingDisabled");
+
+      await locking.setLockStaking(await staking.getAddress());
+      await expect(
+        locking.setLockStaking(await staking.getAddress())
+      ).to.be.revertedWithCustomError(locking, "LockStakingAlreadySet");
+      await expect(staking.onLockClaimed(1))
+        .to.be.revertedWithCustomError(staking, "NotLocking")
+        .withArgs(owner.address);
+      await expect(staking.onLockAmountChanged(1))
+        .to.be.revertedWithCustomError(staking, "NotLocking")
+        .withArgs(owner.address);
+
+      const withoutLocking = await ethers.deployContract("CPROStaking", [
+        await token.getAddress(),
+        ethers.ZeroAddress,
+        WEEK,
+        0,
+      ]);
+      await expect(
+        withoutLocking.connect(alice).stakeLock()
+      ).to.be.revertedWithCustomError(withoutLocking, "LockStakingDisabled");
+    });
+  });
+
+  it("restricts the reward settings to the owner", async function () {
+    const { alice, staking } = await loadFixture(deployFixture);
+    for (const call of [
+      staking.connect(alice).notifyRewardAmount(REWARD),
+      staking.connect(alice).setRewardsDuration(DAY),
+      staking.connect(alice).setUnbondingPeriod(DAY),
+    ]) {
+      await expect(call)
+        .to.be.revertedWithCustomError(staking, "OwnableUnauthorizedAccount")
+        .withArgs(alice.address);
+    }
+
+    await staking.notifyRewardAmount(REWARD);
+    const periodFinish = await staking.periodFinish();
+    await expect(staking.setRewardsDuration(DAY))
+      .to.be.revertedWithCustomError(staking, "RewardPeriodNotFinished")
+      .withArgs(periodFinish);
+    await time.increaseTo(periodFinish);
+    await expect(staking.setRewardsDuration(DAY))
+      .to.emit(staking, "RewardsDurationUpdated")
+      .withArgs(DAY);
+  });
+
+  it("is read and used through the SDK client", async function () {
+    const { owner, alice, staking } = await loadFixture(deployFixture);
+    const address = await staking.getAddress();
+    const asOwner = new CproStakingClient(address, owner);
+    const asAlice = new CproStakingClient(address, alice);
+    await asOwner.setUnbondingPeriod(DAY);
+    await asOwner.notifyRewardAmount(REWARD);
+    await asAlice.stake(ethers.parseEther("100"));
+    await asAlice.unstake(ethers.parseEther("25"));
+
+    const position = await asAlice.getPosition(alice.address);
+    expect(position).to.deep.include({
+      deposited: ethers.parseEther("75"),
+      lockedStake: 0n,
+      unbonding: ethers.parseEther("25"),
+      releaseTime: BigInt((await time.latest()) + DAY),
+    });
+    expect(position.earned).to.equal(ethers.parseEther("1"));
+    expect(await asAlice.getRewardPeriod()).to.deep.include({
+      rewardRate: RATE,
+      rewardsDuration: BigInt(WEEK),
+      totalStaked: ethers.parseEther("75"),
+    });
+    // The second before alice staked
+    expect(await asOwner.getUnallocatedRewards()).to.equal(RATE);
+
+    const error = await asAlice.withdraw().catch((e) => e);
+    expect(error).to.be.instanceOf(UnbondingNotElapsedError);
+  });
+});
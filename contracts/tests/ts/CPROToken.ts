@@ -1,9 +1,12 @@
 import { expect } from "chai";
 import { network } from "hardhat";
-const { ethers } = await network.connect();
+const { ethers, networkHelpers } = await network.connect();
+
+const { time } = networkHelpers;
 
 describe("CPROToken", function () {
   let token, owner, addr1, addr2;
+  let ADMIN_ROLE, MINTER_ROLE, PAUSER_ROLE, TREASURY_ROLE;
 
   beforeEach(async function () {
     [owner, addr1, addr2] = await ethers.getSigners();
@@ -11,8 +14,23 @@ describe("CPROToken", function () {
     const CPROToken = await ethers.getContractFactory("CPROToken");
     token = await CPROToken.deploy();
     await token.waitForDeployment();
+
+    ADMIN_ROLE = await token.ADMIN_ROLE();
+    MINTER_ROLE = await token.MINTER_ROLE();
+    PAUSER_ROLE = await token.PAUSER_ROLE();
+    TREASURY_ROLE = await token.TREASURY_ROLE();
   });
 
+  /**
+   * Queues a mint, waits for the mint delay and executes it. Returns the execution tx.
+   */
+  async function queueAndExecuteMint(to, amount, minter = owner) {
+    await token.connect(minter).queueMint(to, amount);
+    const requestId = await token.mintRequestCount();
+    await time.increase(await token.mintDelay());
+    return token.connect(minter).executeMint(requestId);
+  }
+
   it("Should deploy with initial supply to owner", async function () {
     const ownerBalance = await token.balanceOf(owner.address);
     expect(ownerBalance).to.equal(ethers.parseUnits("1000000", 18));
@@ -21,7 +39,7 @@ describe("CPROToken", function () {
   it("Owner can mint tokens", async function () {
     const mintAmount = ethers.parseUnits("1000", 18);
 
-    const tx = await token.mint(addr1.address, mintAmount);
+    const tx = await queueAndExecuteMint(addr1.address, mintAmount);
     await expect(tx)
       .to.emit(token, "TokensMinted")
       .withArgs(addr1.address, mintAmount);
@@ -32,9 +50,10 @@ describe("CPROToken", function () {
 
   it("Should not exceed MAX_SUPPLY", async function () {
     const tooMuch = await token.MAX_SUPPLY();
-    await expect(token.mint(addr1.address, tooMuch)).to.be.revertedWith(
-      "CPROToken: Cap exceeded"
-    );
+    await token.setMintCeiling(tooMuch, 30 * 24 * 60 * 60);
+    await expect(
+      queueAndExecuteMint(addr1.address, tooMuch)
+    ).to.be.revertedWith("CPROToken: Cap exceeded");
   });
 
   it("Owner can burn from their own balance", async function () {
@@ -49,12 +68,14 @@ describe("CPROToken", function () {
     );
   });
 
-  it("Non-owner cannot mint or burn", async function () {
-    await expect(token.connect(addr1).mint(addr1.address, 1000)).to.be.revert(
-      ethers
-    ); // onlyOwner modifier
+  it("Accounts without role cannot mint or burn", async function () {
+    await expect(token.connect(addr1).queueMint(addr1.address, 1000))
+      .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+      .withArgs(addr1.address, MINTER_ROLE);
 
-    await expect(token.connect(addr1).burnFromOwner(1000)).to.be.revert(ethers);
+    await expect(token.connect(addr1).burnFromOwner(1000))
+      .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+      .withArgs(addr1.address, TREASURY_ROLE);
   });
 
   it("Pause and unpause should work", async function () {
@@ -86,7 +107,7 @@ describe("CPROToken", function () {
 
   it("Should measure gas cost for mint", async function () {
     const mintAmount = ethers.parseUnits("500", 18);
-    const tx = await token.mint(addr1.address, mintAmount);
+    const tx = await queueAndExecuteMint(addr1.address, mintAmount);
     const receipt = await tx.wait();
 
     console.log("Mint Gas Used:", receipt.gasUsed.toString());
@@ -95,4 +116,306 @@ describe("CPROToken", function () {
       ethers.formatEther(receipt.gasUsed * tx.gasPrice)
     );
   });
+
+  describe("Roles", function () {
+    it("Deployer holds every role", async function () {
+      for (const role of [
+        await token.DEFAULT_ADMIN_ROLE(),
+        ADMIN_ROLE,
+        MINTER_ROLE,
+        PAUSER_ROLE,
+        TREASURY_ROLE,
+      ]) {
+        expect(await token.hasRole(role, owner.address)).to.equal(true);
+        expect(await token.getRoleMemberCount(role)).to.equal(1n);
+        expect(await token.getRoleMember(role, 0)).to.equal(owner.address);
+      }
+    });
+
+    it("Operational roles are administered by ADMIN_ROLE", async function () {
+      expect(await token.getRoleAdmin(ADMIN_ROLE)).to.equal(
+        await token.DEFAULT_ADMIN_ROLE()
+      );
+      for (const role of [MINTER_ROLE, PAUSER_ROLE, TREASURY_ROLE]) {
+        expect(await token.getRoleAdmin(role)).to.equal(ADMIN_ROLE);
+      }
+
+      // An ADMIN can hand out operational roles but not ADMIN itself
+      await token.grantRole(ADMIN_ROLE, addr1.address);
+      await token.connect(addr1).grantRole(MINTER_ROLE, addr2.address);
+      expect(await token.getRoleMemberCount(MINTER_ROLE)).to.equal(2n);
+
+      await expect(token.connect(addr1).grantRole(ADMIN_ROLE, addr2.address))
+        .to.be.revertedWithCustomError(
+          token,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(addr1.address, await token.DEFAULT_ADMIN_ROLE());
+
+      await expect(
+        token.connect(addr2).grantRole(PAUSER_ROLE, addr2.address)
+      ).to.be.revertedWithCustomError(
+        token,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+
+    it("Pauser can pause and unpause but not mint", async function () {
+      const [, , , bot] = await ethers.getSigners();
+      await token.grantRole(PAUSER_ROLE, bot.address);
+
+      await token.connect(bot).pause();
+      expect(await token.paused()).to.equal(true);
+      await token.connect(bot).unpause();
+      expect(await token.paused()).to.equal(false);
+
+      await expect(token.connect(bot).queueMint(bot.address, 1))
+        .to.be.revertedWithCustomError(
+          token,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(bot.address, MINTER_ROLE);
+      await expect(token.connect(bot).recoverERC20(addr1.address, 1))
+        .to.be.revertedWithCustomError(
+          token,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(bot.address, TREASURY_ROLE);
+    });
+
+    it("Minter can mint but not pause", async function () {
+      await token.grantRole(MINTER_ROLE, addr1.address);
+
+      await expect(queueAndExecuteMint(addr2.address, 1000, addr1))
+        .to.emit(token, "TokensMinted")
+        .withArgs(addr2.address, 1000);
+
+      await expect(token.connect(addr1).pause())
+        .to.be.revertedWithCustomError(
+          token,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(addr1.address, PAUSER_ROLE);
+    });
+
+    it("Treasury burns from its own balance", async function () {
+      await token.grantRole(TREASURY_ROLE, addr1.address);
+      await token.transfer(addr1.address, 1000);
+
+      await expect(token.connect(addr1).burnFromOwner(400))
+        .to.emit(token, "TokensBurnedByOwner")
+        .withArgs(400);
+      expect(await token.balanceOf(addr1.address)).to.equal(600);
+    });
+
+    it("Revoked accounts lose their permissions", async function () {
+      await token.revokeRole(MINTER_ROLE, owner.address);
+
+      await expect(
+        token.queueMint(addr1.address, 1000)
+      ).to.be.revertedWithCustomError(
+        token,
+        "AccessControlUnauthorizedAccount"
+      );
+      expect(await token.getRoleMemberCount(MINTER_ROLE)).to.equal(0n);
+    });
+  });
+
+  describe("Timelocked minting", function () {
+    const DAY = 24 * 60 * 60;
+    const EPOCH = 30 * DAY;
+
+    it("Queues mints with the configured delay", async function () {
+      const delay = await token.mintDelay();
+      expect(delay).to.equal(BigInt(2 * DAY));
+
+      const tx = await token.queueMint(addr1.address, 1000);
+      const executableAt = BigInt(await time.latest()) + delay;
+      await expect(tx)
+        .to.emit(token, "MintQueued")
+        .withArgs(1, addr1.address, 1000, executableAt);
+
+      const request = await token.mintRequests(1);
+      expect(request.to).to.equal(addr1.address);
+      expect(request.amount).to.equal(1000n);
+      expect(request.executableAt).to.equal(executableAt);
+      expect(await token.balanceOf(addr1.address)).to.equal(0);
+    });
+
+    it("Cannot execute before the delay has passed", async function () {
+      await token.queueMint(addr1.address, 1000);
+
+      await expect(token.executeMint(1)).to.be.revertedWith(
+        "CPROToken: Mint delay not elapsed"
+      );
+
+      await time.increase(2 * DAY);
+      await expect(token.executeMint(1))
+        .to.emit(token, "MintExecuted")
+        .withArgs(1, addr1.address, 1000);
+      expect(await token.balanceOf(addr1.address)).to.equal(1000);
+
+      await expect(token.executeMint(1)).to.be.revertedWith(
+        "CPROToken: Mint request not pending"
+      );
+      await expect(token.executeMint(2)).to.be.revertedWith(
+        "CPROToken: Unknown mint request"
+      );
+    });
+
+    it("Cancelled mints cannot be executed", async function () {
+      await token.queueMint(addr1.address, 1000);
+
+      await expect(token.cancelMint(1))
+        .to.emit(token, "MintCancelled")
+        .withArgs(1);
+
+      await time.increase(2 * DAY);
+      await expect(token.executeMint(1)).to.be.revertedWith(
+        "CPROToken: Mint request not pending"
+      );
+      await expect(token.cancelMint(1)).to.be.revertedWith(
+        "CPROToken: Mint request not pending"
+      );
+    });
+
+    it("Admins can veto a minter's request", async function () {
+      const [, , , minter, admin] = await ethers.getSigners();
+      await token.grantRole(MINTER_ROLE, minter.address);
+      await token.grantRole(ADMIN_ROLE, admin.address);
+
+      await token.connect(minter).queueMint(minter.address, 1000);
+
+      await expect(token.connect(addr1).cancelMint(1))
+        .to.be.revertedWithCustomError(
+          token,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(addr1.address, ADMIN_ROLE);
+
+      await expect(token.connect(admin).cancelMint(1)).to.emit(
+        token,
+        "MintCancelled"
+      );
+    });
+
+    it("Enforces the per-epoch ceiling", async function () {
+      const ceiling = await token.mintEpochCeiling();
+      expect(ceiling).to.equal((await token.MAX_SUPPLY()) / 100n);
+      expect(await token.mintEpochDuration()).to.equal(BigInt(EPOCH));
+
+      await token.queueMint(addr1.address, ceiling - 1000n);
+      await token.queueMint(addr2.address, 1001);
+      await token.queueMint(addr2.address, 1000);
+      await time.increase(2 * DAY);
+
+      await token.executeMint(1);
+      expect(await token.mintableInCurrentEpoch()).to.equal(1000n);
+      await expect(token.executeMint(2)).to.be.revertedWith(
+        "CPROToken: Epoch mint ceiling exceeded"
+      );
+      await token.executeMint(3);
+      expect(await token.mintableInCurrentEpoch()).to.equal(0n);
+
+      // The ceiling is available again in the next epoch
+      await time.increaseTo((await token.mintEpochStart()) + BigInt(EPOCH));
+      expect(await token.mintableInCurrentEpoch()).to.equal(ceiling);
+      await token.executeMint(2);
+      expect(await token.mintedInEpoch()).to.equal(1001n);
+    });
+
+    it("Keeps counting the amount minted when the ceiling changes", async function () {
+      const ceiling = await token.mintEpochCeiling();
+      await token.queueMint(addr1.address, ceiling);
+      await token.queueMint(addr2.address, ceiling);
+      await time.increase(2 * DAY);
+      await token.executeMint(1);
+
+      // A shorter epoch starts now, the full ceiling minted still counts in it
+      await expect(token.setMintCeiling(ceiling, DAY))
+        .to.emit(token, "MintCeilingUpdated")
+        .withArgs(ceiling, DAY);
+      expect(await token.mintEpochStart()).to.equal(await time.latest());
+      expect(await token.mintableInCurrentEpoch()).to.equal(0n);
+      await expect(token.executeMint(2)).to.be.revertedWith(
+        "CPROToken: Epoch mint ceiling exceeded"
+      );
+
+      await time.increaseTo((await token.mintEpochStart()) + BigInt(DAY));
+      expect(await token.mintableInCurrentEpoch()).to.equal(ceiling);
+      await token.executeMint(2);
+      expect(await token.balanceOf(addr2.address)).to.equal(ceiling);
+    });
+
+    it("Expires requests not executed in time", async function () {
+      await token.queueMint(addr1.address, 1000);
+      const request = await token.mintRequests(1);
+      const expiry =
+        request.executableAt + (await token.MINT_REQUEST_VALIDITY());
+
+      await time.increaseTo(expiry);
+      await expect(token.executeMint(1)).to.be.revertedWith(
+        "CPROToken: Mint request expired"
+      );
+      // It can still be cancelled to clear it
+      await expect(token.cancelMint(1)).to.emit(token, "MintCancelled");
+    });
+
+    it("Lets any minter cancel the requests of another", async function () {
+      const [, , , minter] = await ethers.getSigners();
+      await token.grantRole(MINTER_ROLE, minter.address);
+      await token.queueMint(addr1.address, 1000);
+
+      await expect(token.connect(minter).cancelMint(1))
+        .to.emit(token, "MintCancelled")
+        .withArgs(1);
+    });
+
+    it("Cannot execute while paused", async function () {
+      await token.queueMint(addr1.address, 1000);
+      await time.increase(2 * DAY);
+      await token.pause();
+
+      await expect(token.executeMint(1)).to.be.revertedWithCustomError(
+        token,
+        "EnforcedPause"
+      );
+    });
+
+    it("Admins configure the delay and the ceiling", async function () {
+      await expect(token.setMintDelay(3 * DAY))
+        .to.emit(token, "MintDelayUpdated")
+        .withArgs(3 * DAY);
+      await expect(token.setMintDelay(DAY - 1)).to.be.revertedWith(
+        "CPROToken: Mint delay too short"
+      );
+
+      await expect(token.setMintCeiling(5000, 7 * DAY))
+        .to.emit(token, "MintCeilingUpdated")
+        .withArgs(5000, 7 * DAY);
+      await expect(token.setMintCeiling(5000, 0)).to.be.revertedWith(
+        "CPROToken: Invalid epoch duration"
+      );
+
+      await expect(token.connect(addr1).setMintDelay(3 * DAY))
+        .to.be.revertedWithCustomError(
+          token,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(addr1.address, ADMIN_ROLE);
+      await expect(token.connect(addr1).setMintCeiling(0, DAY))
+        .to.be.revertedWithCustomError(
+          token,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(addr1.address, ADMIN_ROLE);
+
+      // Requests are bound by the values in force when they are queued/executed
+      await token.queueMint(addr1.address, 5001);
+      await time.increase(3 * DAY);
+      await expect(token.executeMint(1)).to.be.revertedWith(
+        "CPROToken: Epoch mint ceiling exceeded"
+      );
+    });
+  });
 });
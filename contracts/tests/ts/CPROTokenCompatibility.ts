@@ -0,0 +1,182 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+const { ethers, networkHelpers } = await network.connect();
+
+const { time, loadFixture } = networkHelpers;
+
+const DAY = 24 * 60 * 60;
+
+describe("Token compatibility", function () {
+  const SUPPLY = ethers.parseEther("1000000");
+  const AMOUNT = ethers.parseEther("1000");
+
+  /**
+   * Deploys vesting and locking over `token`, approved for the owner. Locking has a pool of two AMOUNT shares.
+   */
+  async function deployOver(token) {
+    const [owner] = await ethers.getSigners();
+    const vesting = await ethers.deployContract("CPROVesting", [
+      await token.getAddress(),
+    ]);
+    const locking = await ethers.deployContract("CPROLocking", [
+      await token.getAddress(),
+      AMOUNT * 2n,
+      2,
+      owner.address,
+    ]);
+    await token.approve(await vesting.getAddress(), ethers.MaxUint256);
+    await token.approve(await locking.getAddress(), ethers.MaxUint256);
+    return { vesting, locking };
+  }
+
+  async function feeFixture() {
+    const [owner, alice, bob] = await ethers.getSigners();
+    // 1% of every transfer is burned
+    const token = await ethers.deployContract("FeeOnTransferERC20Mock", [
+      SUPPLY,
+      100,
+    ]);
+    return { owner, alice, bob, token, ...(await deployOver(token)) };
+  }
+
+  async function rebasingFixture() {
+    const [owner, alice, bob] = await ethers.getSigners();
+    const token = await ethers.deployContract("RebasingERC20Mock", [SUPPLY]);
+    return { owner, alice, bob, token, ...(await deployOver(token)) };
+  }
+
+  /** Parameters of a revocable AMOUNT schedule vesting linearly over a day */
+  function params(beneficiary: string, startTime: number) {
+    return {
+      beneficiary,
+      totalAmount: AMOUNT,
+      startTime,
+      cliffDuration: 0,
+      vestingDuration: DAY,
+      revocable: true,
+    };
+  }
+
+  /** Tokens vesting owes its beneficiaries, against what it holds */
+  async function vestingCoverage(vesting, token) {
+    const owed =
+      (await vesting.totalAllocated()) -
+      (await vesting.totalClaimed()) -
+      (await vesting.totalRevoked());
+    const held =
+      (await token.balanceOf(await vesting.getAddress())) +
+      (await vesting.totalEscrowed());
+    return { owed, held };
+  }
+
+  it("rejects fee-on-transfer tokens when creating schedules", async function () {
+    const { alice, bob, token, vesting } = await loadFixture(feeFixture);
+    const start = await time.latest();
+
+    await expect(
+      vesting.createVestingSchedule(alice.address, AMOUNT, start, 0, DAY)
+    ).to.be.revertedWith("CPROVesting: fee-on-transfer tokens not supported");
+    await expect(
+      vesting.createVestingScheduleWithCurve(params(alice.address, start), {
+        curveType: 0,
+        stepInterval: 0,
+        initialUnlockBps: 0,
+        milestones: [],
+      })
+    ).to.be.revertedWith("CPROVesting: fee-on-transfer tokens not supported");
+    await expect(
+      vesting.createVestingSchedulesBatch([
+        params(alice.address, start),
+        params(bob.address, start),
+      ])
+    ).to.be.revertedWith("CPROVesting: fee-on-transfer tokens not supported");
+
+    expect(await vesting.totalAllocated()).to.equal(0n);
+    expect(await token.balanceOf(await vesting.getAddress())).to.equal(0n);
+  });
+
+  it("rejects fee-on-transfer tokens when funding locks", async function () {
+    const { alice, bob, token, locking } = await loadFixture(feeFixture);
+
+    await expect(locking.fund(AMOUNT * 2n)).to.be.revertedWithCustomError(
+      locking,
+      "TransferFeeNotSupported"
+    );
+    expect(await locking.heldBalance()).to.equal(0n);
+
+    // Tokens sent directly arrive short, and only back the locks they cover
+    await token.transfer(await locking.getAddress(), AMOUNT * 2n);
+    const unlockTime = (await time.latest()) + 30 * DAY;
+    await locking.addBeneficiaryWithTerms(alice.address, 0, AMOUNT, unlockTime);
+    await expect(
+      locking.addBeneficiaryWithTerms(bob.address, 0, AMOUNT, unlockTime)
+    ).to.be.revertedWithCustomError(locking, "NotEnoughFunded");
+
+    // Nor can a lock be topped up with them
+    await token.transfer(alice.address, AMOUNT);
+    await token
+      .connect(alice)
+      .approve(await locking.getAddress(), ethers.MaxUint256);
+    await expect(
+      locking.connect(alice).topUpLock(1, AMOUNT / 2n)
+    ).to.be.revertedWithCustomError(locking, "TransferFeeNotSupported");
+  });
+
+  it("refuses new schedules once a negative rebase leaves vesting insolvent", async function () {
+    const { alice, bob, token, vesting } = await loadFixture(rebasingFixture);
+    const start = await time.latest();
+    await vesting.createVestingSchedule(alice.address, AMOUNT, start, 0, DAY);
+
+    // Balances halve, vesting now holds half of what it owes
+    await token.rebase(5_000);
+    const { owed, held } = await vestingCoverage(vesting, token);
+    expect(held).to.equal(owed / 2n);
+
+    await expect(
+      vesting.createVestingSchedule(bob.address, AMOUNT, start, 0, DAY)
+    ).to.be.revertedWith("CPROVesting: insolvent");
+
+    // Topping the balance back up lets schedules be created again
+    await token.transfer(await vesting.getAddress(), AMOUNT / 2n);
+    await vesting.createVestingSchedule(bob.address, AMOUNT, start, 0, DAY);
+    const after = await vestingCoverage(vesting, token);
+    expect(after.held).to.equal(after.owed);
+  });
+
+  it("refuses new locks once a negative rebase leaves locking short", async function () {
+    const { alice, bob, token, locking } = await loadFixture(rebasingFixture);
+    await locking.fund(AMOUNT * 2n);
+    const unlockTime = (await time.latest()) + 30 * DAY;
+    await locking.addBeneficiaryWithTerms(alice.address, 0, AMOUNT, unlockTime);
+
+    await token.rebase(5_000);
+    expect(await locking.heldBalance()).to.equal(AMOUNT);
+    await expect(
+      locking.addBeneficiaryWithTerms(bob.address, 0, AMOUNT, unlockTime)
+    ).to.be.revertedWithCustomError(locking, "NotEnoughFunded");
+
+    // The lock already assigned is still covered and paid in full
+    await time.increaseTo(unlockTime);
+    await locking.connect(alice).claim();
+    expect(await token.balanceOf(alice.address)).to.equal(AMOUNT);
+  });
+
+  it("stays solvent through a positive rebase", async function () {
+    const { alice, bob, token, vesting } = await loadFixture(rebasingFixture);
+    const start = await time.latest();
+    await vesting.createVestingSchedule(alice.address, AMOUNT, start, 0, DAY);
+
+    // Balances double, the surplus stays in the contract
+    await token.rebase(20_000);
+    await vesting.createVestingSchedule(bob.address, AMOUNT, start, 0, DAY);
+    const { owed, held } = await vestingCoverage(vesting, token);
+    expect(held).to.equal(owed + AMOUNT);
+
+    await time.increase(DAY);
+    await vesting.connect(alice).claimTokens(1);
+    await vesting.connect(bob).claimTokens(2);
+    expect(await token.balanceOf(alice.address)).to.equal(AMOUNT);
+    expect(await token.balanceOf(bob.address)).to.equal(AMOUNT);
+    expect(await token.balanceOf(await vesting.getAddress())).to.equal(AMOUNT);
+  });
+});
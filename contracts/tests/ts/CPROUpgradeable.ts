@@ -0,0 +1,335 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import { CproVestingClient } from "../../../sdk/src/index.js";
+const { ethers, networkHelpers } = await network.connect();
+
+const { time, loadFixture } = networkHelpers;
+
+// keccak256("eip1967.proxy.implementation") - 1
+const IMPLEMENTATION_SLOT =
+  "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+describe("Upgradeable vesting and locking", function () {
+  async function implementationOf(proxy) {
+    const slot = await ethers.provider.getStorage(
+      await proxy.getAddress(),
+      IMPLEMENTATION_SLOT
+    );
+    return ethers.getAddress(ethers.dataSlice(slot, 12));
+  }
+
+  /**
+   * Deploys a proxy of `name` initialized with `args`, returns it with the implementation's ABI.
+   */
+  async function deployProxy(name: string, args: unknown[]) {
+    const implementation = await ethers.deployContract(name);
+    const proxy = await ethers.deployContract("CPROProxy", [
+      await implementation.getAddress(),
+      implementation.interface.encodeFunctionData("initialize", args),
+    ]);
+    return {
+      implementation,
+      proxy: await ethers.getContractAt(name, await proxy.getAddress()),
+    };
+  }
+
+  async function deployFixture() {
+    const [owner, sweepRecipient, alice, bob, other] =
+      await ethers.getSigners();
+    const token = await ethers.deployContract("CPROToken");
+
+    const vestingV1 = await deployProxy("CPROVestingUpgradeable", [
+      await token.getAddress(),
+      owner.address,
+    ]);
+    const lockingV1 = await deployProxy("CPROLockingUpgradeable", [
+      await token.getAddress(),
+      ethers.parseEther("3000"),
+      3,
+      sweepRecipient.address,
+      owner.address,
+    ]);
+    const vesting = vestingV1.proxy;
+    const locking = lockingV1.proxy;
+
+    await token.approve(await vesting.getAddress(), ethers.MaxUint256);
+    await token.approve(await locking.getAddress(), ethers.MaxUint256);
+    await locking.fund(ethers.parseEther("3000"));
+
+    return {
+      owner,
+      sweepRecipient,
+      alice,
+      bob,
+      other,
+      token,
+      vesting,
+      locking,
+      vestingImplementation: vestingV1.implementation,
+      lockingImplementation: lockingV1.implementation,
+    };
+  }
+
+  describe("CPROVestingUpgradeable", function () {
+    it("is initialized once, through the proxy", async function () {
+      const { owner, alice, token, vesting, vestingImplementation } =
+        await loadFixture(deployFixture);
+
+      expect(await vesting.owner()).to.equal(owner.address);
+      expect(await vesting.token()).to.equal(await token.getAddress());
+      expect(await vesting.getScheduleCount()).to.equal(0n);
+      expect(await implementationOf(vesting)).to.equal(
+        await vestingImplementation.getAddress()
+      );
+
+      await expect(
+        vesting.initialize(await token.getAddress(), alice.address)
+      ).to.be.revertedWithCustomError(vesting, "InvalidInitialization");
+      await expect(
+        vestingImplementation.initialize(
+          await token.getAddress(),
+          alice.address
+        )
+      ).to.be.revertedWithCustomError(vesting, "InvalidInitialization");
+      await expect(
+        deployProxy("CPROVestingUpgradeable", [
+          ethers.ZeroAddress,
+          owner.address,
+        ])
+      ).to.be.revertedWith("CPROVesting: token is zero address");
+    });
+
+    it("keeps schedules, curves, claims and escrows across an upgrade", async function () {
+      const { owner, alice, bob, token, vesting } = await loadFixture(
+        deployFixture
+      );
+      const start = await time.latest();
+      await vesting.createVestingSchedule(
+        alice.address,
+        ethers.parseEther("100"),
+        start,
+        0,
+        1000
+      );
+      await vesting.createVestingScheduleWithCurve(
+        {
+          beneficiary: bob.address,
+          totalAmount: ethers.parseEther("300"),
+          startTime: start,
+          cliffDuration: 0,
+          vestingDuration: 1000,
+          revocable: false,
+        },
+        {
+          curveType: 1,
+          stepInterval: 250,
+          initialUnlockBps: 0,
+          milestones: [],
+        }
+      );
+      await time.setNextBlockTimestamp(start + 400);
+      await vesting.connect(alice).claimAll();
+      await vesting.connect(bob).delegateVotes(bob.address);
+
+      const read = async () => ({
+        schedules: [
+          await vesting.getVestingSchedule(1),
+          await vesting.getVestingSchedule(2),
+        ],
+        curve: await vesting.getVestingCurve(2),
+        vested: await vesting.getScheduleVestedAmount(2),
+        totals: [
+          await vesting.totalAllocated(),
+          await vesting.totalClaimed(),
+          await vesting.totalEscrowed(),
+        ],
+        escrow: await vesting.votingEscrow(bob.address),
+        beneficiaries: await vesting.getBeneficiaries(0, 10),
+        domain: await vesting.eip712Domain(),
+        owner: await vesting.owner(),
+      });
+      const before = await read();
+
+      const v2 = await ethers.deployContract("CPROVestingUpgradeableV2Mock");
+      await expect(
+        vesting.upgradeToAndCall(
+          await v2.getAddress(),
+          v2.interface.encodeFunctionData("initializeV2")
+        )
+      )
+        .to.emit(vesting, "Upgraded")
+        .withArgs(await v2.getAddress());
+
+      expect(await implementationOf(vesting)).to.equal(await v2.getAddress());
+      expect(await read()).to.deep.equal(before);
+      const upgraded = await ethers.getContractAt(
+        "CPROVestingUpgradeableV2Mock",
+        await vesting.getAddress()
+      );
+      expect(await upgraded.version()).to.equal("2");
+      expect(await upgraded.upgradedAt()).to.equal(await time.latest());
+      await expect(upgraded.initializeV2()).to.be.revertedWithCustomError(
+        upgraded,
+        "InvalidInitialization"
+      );
+
+      // Claims continue where they stopped, from the escrow for bob
+      await time.setNextBlockTimestamp(start + 1000);
+      await vesting.connect(alice).claimAll();
+      await vesting.connect(bob).claimAll();
+      expect(await token.balanceOf(alice.address)).to.equal(
+        ethers.parseEther("100")
+      );
+      expect(await token.balanceOf(bob.address)).to.equal(
+        ethers.parseEther("300")
+      );
+      expect(await vesting.totalEscrowed()).to.equal(0n);
+
+      // The SDK client works against the proxy
+      const client = new CproVestingClient(await vesting.getAddress(), owner);
+      expect((await client.getSchedule(2n))?.claimedAmount).to.equal(
+        ethers.parseEther("300")
+      );
+    });
+
+    it("only lets the owner upgrade, to a UUPS implementation", async function () {
+      const { other, token, vesting } = await loadFixture(deployFixture);
+      const v2 = await ethers.deployContract("CPROVestingUpgradeableV2Mock");
+
+      await expect(
+        vesting.connect(other).upgradeToAndCall(await v2.getAddress(), "0x")
+      )
+        .to.be.revertedWithCustomError(vesting, "OwnableUnauthorizedAccount")
+        .withArgs(other.address);
+      await expect(
+        vesting.upgradeToAndCall(await token.getAddress(), "0x")
+      ).to.be.revertedWithCustomError(vesting, "ERC1967InvalidImplementation");
+    });
+  });
+
+  describe("CPROLockingUpgradeable", function () {
+    it("is initialized once, with the constructor checks of CPROLocking", async function () {
+      const { owner, sweepRecipient, token, locking, lockingImplementation } =
+        await loadFixture(deployFixture);
+
+      expect(await locking.owner()).to.equal(owner.address);
+      expect(await locking.sharePerBeneficiary()).to.equal(
+        ethers.parseEther("1000")
+      );
+      expect(await locking.sweepRecipient()).to.equal(sweepRecipient.address);
+      expect(await locking.lockCount()).to.equal(0n);
+
+      const args = [
+        await token.getAddress(),
+        ethers.parseEther("3000"),
+        3,
+        sweepRecipient.address,
+        owner.address,
+      ];
+      await expect(locking.initialize(...args)).to.be.revertedWithCustomError(
+        locking,
+        "InvalidInitialization"
+      );
+      await expect(
+        lockingImplementation.initialize(...args)
+      ).to.be.revertedWithCustomError(locking, "InvalidInitialization");
+      await expect(
+        deployProxy("CPROLockingUpgradeable", [
+          await token.getAddress(),
+          ethers.parseEther("3000"),
+          0,
+          sweepRecipient.address,
+          owner.address,
+        ])
+      ).to.be.revertedWith(
+        "CPROLocking: expected beneficiaries count must be greater than 0"
+      );
+    });
+
+    it("keeps locks and totals across an upgrade", async function () {
+      const { alice, bob, other, token, locking } = await loadFixture(
+        deployFixture
+      );
+      const now = await time.latest();
+      await locking.addBeneficiary(alice.address, 2);
+      await locking.addBeneficiaryWithTerms(
+        bob.address,
+        5,
+        ethers.parseEther("500"),
+        now + 100
+      );
+      await time.increaseTo(now + 100);
+      await locking.connect(bob).claim();
+
+      const read = async () => ({
+        locks: await locking.getLocks(0, 10),
+        lockTypes: await locking.getAllLockTypeTotals(),
+        totals: [await locking.totalAssigned(), await locking.totalClaimed()],
+        endTime: await locking.endTime(),
+        domain: await locking.eip712Domain(),
+      });
+      const before = await read();
+
+      const v2 = await ethers.deployContract("CPROLockingUpgradeableV2Mock");
+      await locking.upgradeToAndCall(
+        await v2.getAddress(),
+        v2.interface.encodeFunctionData("initializeV2")
+      );
+      expect(await read()).to.deep.equal(before);
+      expect(
+        await (
+          await ethers.getContractAt(
+            "CPROLockingUpgradeableV2Mock",
+            await locking.getAddress()
+          )
+        ).version()
+      ).to.equal("2");
+
+      await expect(locking.connect(bob).claim()).to.be.revertedWithCustomError(
+        locking,
+        "NothingToClaim"
+      );
+      await locking.addBeneficiary(other.address, 2);
+      await time.increaseTo(before.endTime);
+      await locking.connect(alice).claim();
+      expect(await token.balanceOf(alice.address)).to.equal(
+        ethers.parseEther("1000")
+      );
+      expect(await locking.lockCount()).to.equal(3n);
+    });
+  });
+
+  it("rejects fee-on-transfer tokens like the non-upgradeable contracts", async function () {
+    const [owner, alice] = await ethers.getSigners();
+    const token = await ethers.deployContract("FeeOnTransferERC20Mock", [
+      ethers.parseEther("1000000"),
+      100,
+    ]);
+    const { proxy: vesting } = await deployProxy("CPROVestingUpgradeable", [
+      await token.getAddress(),
+      owner.address,
+    ]);
+    const { proxy: locking } = await deployProxy("CPROLockingUpgradeable", [
+      await token.getAddress(),
+      ethers.parseEther("3000"),
+      3,
+      owner.address,
+      owner.address,
+    ]);
+    await token.approve(await vesting.getAddress(), ethers.MaxUint256);
+    await token.approve(await locking.getAddress(), ethers.MaxUint256);
+
+    await expect(
+      vesting.createVestingSchedule(
+        alice.address,
+        ethers.parseEther("1000"),
+        await time.latest(),
+        0,
+        1000
+      )
+    ).to.be.revertedWith("CPROVesting: fee-on-transfer tokens not supported");
+    await expect(
+      locking.fund(ethers.parseEther("3000"))
+    ).to.be.revertedWithCustomError(locking, "TransferFeeNotSupported");
+  });
+});
@@ -1,5 +1,6 @@
 import { expect } from "chai";
 import { network } from "hardhat";
+import { claimDomain, signClaim } from "../../../sdk/src/index.js";
 const { ethers } = await network.connect();
 
 describe("CPROVesting", function () {
@@ -37,9 +38,8 @@ describe("CPROVesting", function () {
       600 // duration = 10 minutes
     );
 
-    const schedule = await vesting.getBeneficiaryVestingSchedule(
-      beneficiary.address
-    );
+    const schedule = await vesting.getVestingSchedule(1);
+    expect(schedule.beneficiary).to.equal(beneficiary.address);
     expect(schedule.totalAmount).to.equal(ethers.parseEther("1000"));
     expect(schedule.revoked).to.equal(false);
   });
@@ -55,9 +55,9 @@ describe("CPROVesting", function () {
       600
     );
 
-    await expect(vesting.connect(beneficiary).claimTokens()).to.be.revertedWith(
-      "CPROVesting: no tokens to claim"
-    );
+    await expect(
+      vesting.connect(beneficiary).claimTokens(1)
+    ).to.be.revertedWith("CPROVesting: no tokens to claim");
   });
 
   it("should allow partial claim after cliff", async function () {
@@ -75,7 +75,7 @@ describe("CPROVesting", function () {
     await ethers.provider.send("evm_increaseTime", [5]);
     await ethers.provider.send("evm_mine");
 
-    await vesting.connect(beneficiary).claimTokens();
+    await vesting.connect(beneficiary).claimTokens(1);
 
     const balance = await token.balanceOf(beneficiary.address);
     expect(balance).to.be.gt(0);
@@ -97,7 +97,7 @@ describe("CPROVesting", function () {
     await ethers.provider.send("evm_mine");
 
     // Revoke
-    await vesting.revokeVesting(beneficiary.address);
+    await vesting.revokeVesting(1);
 
     const beneficiaryBalance = await token.balanceOf(beneficiary.address);
     const ownerBalance = await token.balanceOf(owner.address);
@@ -106,4 +106,1290 @@ describe("CPROVesting", function () {
     expect(beneficiaryBalance).to.be.gt(0);
     expect(ownerBalance).to.be.gt(0);
   });
+
+  describe("multiple schedules per beneficiary", function () {
+    const DAY = 24 * 60 * 60;
+
+    // Hire grant: 1000 CPRO, 30 day cliff over 100 days
+    // Performance grant: 500 CPRO, no cliff over 50 days, starting 10 days later
+    async function createMixedSchedules() {
+      const now = (await ethers.provider.getBlock("latest")).timestamp;
+
+      await vesting.createVestingSchedule(
+        beneficiary.address,
+        ethers.parseEther("1000"),
+        now,
+        30 * DAY,
+        100 * DAY
+      );
+      await vesting.createVestingSchedule(
+        beneficiary.address,
+        ethers.parseEther("500"),
+        now + 10 * DAY,
+        0,
+        50 * DAY
+      );
+      return now;
+    }
+
+    it("should assign incremental schedule IDs per beneficiary", async function () {
+      await createMixedSchedules();
+      await vesting.createVestingSchedule(
+        other.address,
+        ethers.parseEther("10"),
+        0,
+        0,
+        1
+      );
+
+      expect(
+        await vesting.getBeneficiaryScheduleIds(beneficiary.address)
+      ).to.deep.equal([1n, 2n]);
+      expect(
+        await vesting.getBeneficiaryScheduleIds(other.address)
+      ).to.deep.equal([3n]);
+      expect(await vesting.getBeneficiariesCount()).to.equal(2n);
+    });
+
+    it("should emit the schedule ID on creation", async function () {
+      await expect(
+        vesting.createVestingSchedule(
+          beneficiary.address,
+          ethers.parseEther("10"),
+          0,
+          0,
+          1
+        )
+      )
+        .to.emit(vesting, "VestingScheduleCreated")
+        .withArgs(beneficiary.address, 1n, ethers.parseEther("10"), 0, 0, 1);
+    });
+
+    it("should aggregate vested and claimable amounts across mixed cliffs", async function () {
+      const now = await createMixedSchedules();
+
+      // Day 20: hire grant still in cliff, performance grant 10/50 vested
+      await ethers.provider.send("evm_setNextBlockTimestamp", [now + 20 * DAY]);
+      await ethers.provider.send("evm_mine");
+
+      expect(await vesting.getScheduleVestedAmount(1)).to.equal(0n);
+      expect(await vesting.getScheduleVestedAmount(2)).to.equal(
+        ethers.parseEther("100")
+      );
+      expect(await vesting.getVestedAmount(beneficiary.address)).to.equal(
+        ethers.parseEther("100")
+      );
+
+      await expect(
+        vesting.connect(beneficiary).claimTokens(1)
+      ).to.be.revertedWith("CPROVesting: no tokens to claim");
+
+      // Day 40: hire grant 40/100 vested, performance grant 30/50 vested
+      await ethers.provider.send("evm_setNextBlockTimestamp", [now + 40 * DAY]);
+      await ethers.provider.send("evm_mine");
+
+      expect(await vesting.getClaimableAmount(beneficiary.address)).to.equal(
+        ethers.parseEther("400") + ethers.parseEther("300")
+      );
+    });
+
+    it("should claim a single schedule without touching the others", async function () {
+      const now = await createMixedSchedules();
+
+      await ethers.provider.send("evm_setNextBlockTimestamp", [now + 60 * DAY]);
+      await expect(vesting.connect(beneficiary).claimTokens(2))
+        .to.emit(vesting, "TokensClaimed")
+        .withArgs(beneficiary.address, 2n, ethers.parseEther("500"));
+
+      expect(await token.balanceOf(beneficiary.address)).to.equal(
+        ethers.parseEther("500")
+      );
+      expect(await vesting.getScheduleClaimableAmount(1)).to.equal(
+        ethers.parseEther("600")
+      );
+    });
+
+    it("should not allow claiming someone else's schedule", async function () {
+      await createMixedSchedules();
+      await ethers.provider.send("evm_increaseTime", [200 * DAY]);
+      await ethers.provider.send("evm_mine");
+
+      await expect(vesting.connect(other).claimTokens(1)).to.be.revertedWith(
+        "CPROVesting: caller is not the beneficiary"
+      );
+    });
+
+    it("should claim every schedule at once with claimAll", async function () {
+      const now = await createMixedSchedules();
+
+      await ethers.provider.send("evm_setNextBlockTimestamp", [now + 40 * DAY]);
+      await expect(vesting.connect(beneficiary).claimAll())
+        .to.emit(vesting, "TokensClaimed")
+        .withArgs(beneficiary.address, 1n, ethers.parseEther("400"))
+        .and.to.emit(vesting, "TokensClaimed")
+        .withArgs(beneficiary.address, 2n, ethers.parseEther("300"));
+
+      expect(await token.balanceOf(beneficiary.address)).to.equal(
+        ethers.parseEther("700")
+      );
+      expect(await vesting.getClaimableAmount(beneficiary.address)).to.equal(
+        0n
+      );
+
+      await ethers.provider.send("evm_setNextBlockTimestamp", [
+        now + 200 * DAY,
+      ]);
+      await vesting.connect(beneficiary).claimAll();
+      expect(await token.balanceOf(beneficiary.address)).to.equal(
+        ethers.parseEther("1500")
+      );
+
+      await expect(vesting.connect(beneficiary).claimAll()).to.be.revertedWith(
+        "CPROVesting: no tokens to claim"
+      );
+    });
+
+    it("should revoke one schedule and keep the others vesting", async function () {
+      const now = await createMixedSchedules();
+
+      // Revoke the hire grant during its cliff: everything goes back to the owner
+      await ethers.provider.send("evm_setNextBlockTimestamp", [now + 20 * DAY]);
+      await expect(vesting.revokeVesting(1))
+        .to.emit(vesting, "VestingRevoked")
+        .withArgs(beneficiary.address, 1n, ethers.parseEther("1000"));
+
+      await expect(vesting.revokeVesting(1)).to.be.revertedWith(
+        "CPROVesting: already revoked"
+      );
+
+      await ethers.provider.send("evm_setNextBlockTimestamp", [
+        now + 200 * DAY,
+      ]);
+      await ethers.provider.send("evm_mine");
+
+      expect(await vesting.getScheduleClaimableAmount(1)).to.equal(0n);
+      expect(await vesting.getClaimableAmount(beneficiary.address)).to.equal(
+        ethers.parseEther("500")
+      );
+
+      await vesting.connect(beneficiary).claimAll();
+      expect(await token.balanceOf(beneficiary.address)).to.equal(
+        ethers.parseEther("500")
+      );
+    });
+  });
+
+  describe("createVestingSchedulesBatch", function () {
+    function row(address, amount, cliff = 0, duration = 100) {
+      return {
+        beneficiary: address,
+        totalAmount: ethers.parseEther(amount),
+        startTime: 0,
+        cliffDuration: cliff,
+        vestingDuration: duration,
+        revocable: true,
+      };
+    }
+
+    it("should create every schedule and pull the summed amount once", async function () {
+      const vestingAddress = await vesting.getAddress();
+
+      const tx = vesting.createVestingSchedulesBatch([
+        row(beneficiary.address, "100"),
+        row(other.address, "250", 10),
+        row(beneficiary.address, "50"),
+      ]);
+      await expect(tx)
+        .to.emit(vesting, "VestingScheduleCreated")
+        .withArgs(other.address, 2n, ethers.parseEther("250"), 0, 10, 100);
+      await expect(tx)
+        .to.emit(token, "Transfer")
+        .withArgs(owner.address, vestingAddress, ethers.parseEther("400"));
+
+      expect(await token.balanceOf(vestingAddress)).to.equal(
+        ethers.parseEther("400")
+      );
+      expect(
+        await vesting.getBeneficiaryScheduleIds(beneficiary.address)
+      ).to.deep.equal([1n, 3n]);
+      expect(await vesting.getBeneficiariesCount()).to.equal(2n);
+    });
+
+    it("should revert the whole batch when one row is invalid", async function () {
+      await expect(
+        vesting.createVestingSchedulesBatch([
+          row(beneficiary.address, "100"),
+          row(other.address, "100", 200),
+        ])
+      ).to.be.revertedWith(
+        "CPROVesting: cliff duration exceeds vesting duration"
+      );
+
+      expect(await vesting.getBeneficiariesCount()).to.equal(0n);
+      expect(await token.balanceOf(await vesting.getAddress())).to.equal(0n);
+    });
+
+    it("should reject an empty batch", async function () {
+      await expect(vesting.createVestingSchedulesBatch([])).to.be.revertedWith(
+        "CPROVesting: empty batch"
+      );
+    });
+
+    it("should only be callable by the owner", async function () {
+      await expect(
+        vesting
+          .connect(other)
+          .createVestingSchedulesBatch([row(other.address, "1")])
+      ).to.be.revertedWithCustomError(vesting, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("voting power", function () {
+    async function createSchedule(address, amount, duration = 1000) {
+      const now = (await ethers.provider.getBlock("latest")).timestamp;
+      await vesting.createVestingSchedule(
+        address,
+        ethers.parseEther(amount),
+        now,
+        0,
+        duration
+      );
+    }
+
+    it("should have no voting power until the beneficiary delegates", async function () {
+      await createSchedule(beneficiary.address, "1000");
+      await token.connect(beneficiary).delegate(beneficiary.address);
+
+      expect(await token.getVotes(beneficiary.address)).to.equal(0n);
+      expect(await vesting.votesDelegatee(beneficiary.address)).to.equal(
+        ethers.ZeroAddress
+      );
+    });
+
+    it("should move the unclaimed tokens into an escrow delegating to the delegatee", async function () {
+      await createSchedule(beneficiary.address, "1000");
+      await createSchedule(beneficiary.address, "500");
+
+      // First contract created by the vesting contract
+      const escrow = ethers.getCreateAddress({
+        from: await vesting.getAddress(),
+        nonce: 1,
+      });
+      await expect(vesting.connect(beneficiary).delegateVotes(other.address))
+        .to.emit(vesting, "VotesDelegated")
+        .withArgs(beneficiary.address, escrow, other.address);
+
+      expect(await vesting.votingEscrow(beneficiary.address)).to.equal(escrow);
+      expect(await token.balanceOf(escrow)).to.equal(ethers.parseEther("1500"));
+      expect(await token.balanceOf(await vesting.getAddress())).to.equal(0n);
+      expect(await vesting.totalEscrowed()).to.equal(ethers.parseEther("1500"));
+      expect(await token.getVotes(other.address)).to.equal(
+        ethers.parseEther("1500")
+      );
+      expect(await vesting.votesDelegatee(beneficiary.address)).to.equal(
+        other.address
+      );
+
+      // Redelegating keeps the same escrow
+      await vesting.connect(beneficiary).delegateVotes(beneficiary.address);
+      expect(await vesting.votingEscrow(beneficiary.address)).to.equal(escrow);
+      expect(await token.getVotes(other.address)).to.equal(0n);
+      expect(await token.getVotes(beneficiary.address)).to.equal(
+        ethers.parseEther("1500")
+      );
+    });
+
+    it("should add later schedules to the escrow", async function () {
+      await createSchedule(beneficiary.address, "1000");
+      await vesting.connect(beneficiary).delegateVotes(beneficiary.address);
+
+      await createSchedule(beneficiary.address, "200");
+      await vesting.createVestingSchedulesBatch([
+        {
+          beneficiary: beneficiary.address,
+          totalAmount: ethers.parseEther("300"),
+          startTime: 0,
+          cliffDuration: 0,
+          vestingDuration: 100,
+          revocable: true,
+        },
+        {
+          beneficiary: other.address,
+          totalAmount: ethers.parseEther("50"),
+          startTime: 0,
+          cliffDuration: 0,
+          vestingDuration: 100,
+          revocable: true,
+        },
+      ]);
+
+      expect(await token.getVotes(beneficiary.address)).to.equal(
+        ethers.parseEther("1500")
+      );
+      expect(await token.balanceOf(await vesting.getAddress())).to.equal(
+        ethers.parseEther("50")
+      );
+    });
+
+    it("should decrease the voting power on claim", async function () {
+      await createSchedule(beneficiary.address, "1000", 100);
+      await vesting.connect(beneficiary).delegateVotes(other.address);
+
+      await ethers.provider.send("evm_increaseTime", [50]);
+      await ethers.provider.send("evm_mine", []);
+      await vesting.connect(beneficiary).claimTokens(1);
+
+      const claimed = await token.balanceOf(beneficiary.address);
+      expect(claimed).to.be.greaterThan(0n);
+      expect(await token.getVotes(other.address)).to.equal(
+        ethers.parseEther("1000") - claimed
+      );
+
+      await ethers.provider.send("evm_increaseTime", [100]);
+      await ethers.provider.send("evm_mine", []);
+      await vesting.connect(beneficiary).claimAll();
+
+      expect(await token.balanceOf(beneficiary.address)).to.equal(
+        ethers.parseEther("1000")
+      );
+      expect(await token.getVotes(other.address)).to.equal(0n);
+      expect(await vesting.totalEscrowed()).to.equal(0n);
+    });
+
+    it("should remove the voting power of revoked schedules", async function () {
+      await createSchedule(beneficiary.address, "1000", 100);
+      await createSchedule(beneficiary.address, "400", 100);
+      await vesting.connect(beneficiary).delegateVotes(other.address);
+
+      await ethers.provider.send("evm_increaseTime", [49]);
+      await ethers.provider.send("evm_mine", []);
+      const ownerBalance = await token.balanceOf(owner.address);
+      await vesting.revokeVesting(1);
+
+      // Vested part paid to the beneficiary, unvested part back to the owner
+      const paid = await token.balanceOf(beneficiary.address);
+      expect(
+        (await token.balanceOf(owner.address)) - ownerBalance + paid
+      ).to.equal(ethers.parseEther("1000"));
+      expect(await token.getVotes(other.address)).to.equal(
+        ethers.parseEther("400")
+      );
+    });
+
+    it("should only let beneficiaries delegate", async function () {
+      await expect(
+        vesting.connect(other).delegateVotes(other.address)
+      ).to.be.revertedWith("CPROVesting: no vesting schedule exists");
+    });
+  });
+
+  describe("vesting curves", function () {
+    const LINEAR = 0;
+    const STEPPED = 1;
+    const INITIAL_UNLOCK = 2;
+    const MILESTONES = 3;
+    const MONTH = 30 * 24 * 60 * 60;
+
+    function curve(curveType, fields = {}) {
+      return {
+        curveType,
+        stepInterval: 0,
+        initialUnlockBps: 0,
+        milestones: [],
+        ...fields,
+      };
+    }
+
+    function params(totalAmount, startTime, cliff, duration) {
+      return {
+        beneficiary: beneficiary.address,
+        totalAmount,
+        startTime,
+        cliffDuration: cliff,
+        vestingDuration: duration,
+        revocable: true,
+      };
+    }
+
+    async function latest() {
+      return (await ethers.provider.getBlock("latest")).timestamp;
+    }
+
+    async function mineAt(timestamp) {
+      await ethers.provider.send("evm_mine", [timestamp]);
+    }
+
+    /**
+     * Reference model of CPROVesting._calculateVestedAmount.
+     */
+    function expectedVested(p, c, now) {
+      const total = BigInt(p.totalAmount);
+      const start = BigInt(p.startTime);
+      const cliff = BigInt(p.cliffDuration);
+      const duration = BigInt(p.vestingDuration);
+      now = BigInt(now);
+
+      if (now < start) return 0n;
+      const initial =
+        c.curveType === INITIAL_UNLOCK
+          ? (total * BigInt(c.initialUnlockBps)) / 10_000n
+          : 0n;
+      if (now < start + cliff) return initial;
+      if (now >= start + duration) return total;
+
+      let elapsed = now - start;
+      if (c.curveType === MILESTONES) {
+        const bps = c.milestones
+          .filter((m) => BigInt(m.offset) <= elapsed)
+          .reduce((sum, m) => sum + BigInt(m.unlockBps), 0n);
+        return (total * bps) / 10_000n;
+      }
+      if (c.curveType === STEPPED) {
+        elapsed -= elapsed % BigInt(c.stepInterval);
+      }
+      return initial + ((total - initial) * elapsed) / duration;
+    }
+
+    it("should release a stepped schedule at the end of each interval", async function () {
+      const start = (await latest()) + 10;
+      await vesting.createVestingScheduleWithCurve(
+        params(ethers.parseEther("1200"), start, 0, 12 * MONTH),
+        curve(STEPPED, { stepInterval: MONTH })
+      );
+
+      await mineAt(start + MONTH - 1);
+      expect(await vesting.getScheduleVestedAmount(1)).to.equal(0n);
+      await mineAt(start + MONTH);
+      expect(await vesting.getScheduleVestedAmount(1)).to.equal(
+        ethers.parseEther("100")
+      );
+      await mineAt(start + 3 * MONTH + 100);
+      expect(await vesting.getScheduleVestedAmount(1)).to.equal(
+        ethers.parseEther("300")
+      );
+    });
+
+    it("should release the initial unlock at start, even during the cliff", async function () {
+      const start = (await latest()) + 10;
+      await vesting.createVestingScheduleWithCurve(
+        params(ethers.parseEther("1000"), start, 100, 1000),
+        curve(INITIAL_UNLOCK, { initialUnlockBps: 1500 })
+      );
+
+      await mineAt(start - 1);
+      expect(await vesting.getScheduleVestedAmount(1)).to.equal(0n);
+      await mineAt(start);
+      expect(await vesting.getScheduleVestedAmount(1)).to.equal(
+        ethers.parseEther("150")
+      );
+      await mineAt(start + 99);
+      expect(await vesting.getScheduleVestedAmount(1)).to.equal(
+        ethers.parseEther("150")
+      );
+      // 150 + 850 * 500 / 1000
+      await mineAt(start + 500);
+      expect(await vesting.getScheduleVestedAmount(1)).to.equal(
+        ethers.parseEther("575")
+      );
+    });
+
+    it("should release milestone tranches and settle them on revoke", async function () {
+      const start = (await latest()) + 10;
+      await vesting.createVestingScheduleWithCurve(
+        params(ethers.parseEther("1000"), start, 0, 1000),
+        curve(MILESTONES, {
+          milestones: [
+            { offset: 300, unlockBps: 2500 },
+            { offset: 600, unlockBps: 5000 },
+            { offset: 1000, unlockBps: 2500 },
+          ],
+        })
+      );
+
+      await mineAt(start + 299);
+      expect(await vesting.getScheduleVestedAmount(1)).to.equal(0n);
+      await mineAt(start + 300);
+      await vesting.connect(beneficiary).claimTokens(1);
+      expect(await token.balanceOf(beneficiary.address)).to.equal(
+        ethers.parseEther("250")
+      );
+
+      await ethers.provider.send("evm_setNextBlockTimestamp", [start + 700]);
+      await expect(vesting.revokeVesting(1))
+        .to.emit(vesting, "VestingRevoked")
+        .withArgs(beneficiary.address, 1, ethers.parseEther("250"));
+      expect(await token.balanceOf(beneficiary.address)).to.equal(
+        ethers.parseEther("750")
+      );
+    });
+
+    it("should store the curve and emit it", async function () {
+      const milestones = [
+        { offset: 10, unlockBps: 4000 },
+        { offset: 20, unlockBps: 6000 },
+      ];
+      await expect(
+        vesting.createVestingScheduleWithCurve(
+          params(ethers.parseEther("100"), 0, 0, 100),
+          curve(MILESTONES, { milestones })
+        )
+      )
+        .to.emit(vesting, "VestingCurveSet")
+        .withArgs(1, MILESTONES);
+
+      const stored = await vesting.getVestingCurve(1);
+      expect(stored.curveType).to.equal(BigInt(MILESTONES));
+      expect(
+        stored.milestones.map((m) => [m.offset, m.unlockBps])
+      ).to.deep.equal([
+        [10n, 4000n],
+        [20n, 6000n],
+      ]);
+
+      await vesting.createVestingSchedule(
+        beneficiary.address,
+        ethers.parseEther("100"),
+        0,
+        0,
+        100
+      );
+      expect((await vesting.getVestingCurve(2)).curveType).to.equal(
+        BigInt(LINEAR)
+      );
+    });
+
+    it("should reject invalid curves", async function () {
+      const p = params(ethers.parseEther("100"), 0, 0, 100);
+      const cases = [
+        [curve(STEPPED), "CPROVesting: invalid step interval"],
+        [
+          curve(STEPPED, { stepInterval: 101 }),
+          "CPROVesting: invalid step interval",
+        ],
+        [
+          curve(LINEAR, { stepInterval: 10 }),
+          "CPROVesting: step interval not used by curve",
+        ],
+        [
+          curve(INITIAL_UNLOCK, { initialUnlockBps: 10_001 }),
+          "CPROVesting: initial unlock exceeds 100%",
+        ],
+        [
+          curve(STEPPED, { stepInterval: 10, initialUnlockBps: 100 }),
+          "CPROVesting: initial unlock not used by curve",
+        ],
+        [curve(MILESTONES), "CPROVesting: invalid milestone count"],
+        [
+          curve(LINEAR, { milestones: [{ offset: 0, unlockBps: 10_000 }] }),
+          "CPROVesting: milestones not used by curve",
+        ],
+        [
+          curve(MILESTONES, {
+            milestones: [
+              { offset: 50, unlockBps: 5000 },
+              { offset: 50, unlockBps: 5000 },
+            ],
+          }),
+          "CPROVesting: milestones not in order",
+        ],
+        [
+          curve(MILESTONES, {
+            milestones: [
+              { offset: 50, unlockBps: 10_000 },
+              { offset: 60, unlockBps: 0 },
+            ],
+          }),
+          "CPROVesting: empty milestone",
+        ],
+        [
+          curve(MILESTONES, {
+            milestones: [{ offset: 101, unlockBps: 10_000 }],
+          }),
+          "CPROVesting: milestone after vesting end",
+        ],
+        [
+          curve(MILESTONES, {
+            milestones: [{ offset: 100, unlockBps: 9_999 }],
+          }),
+          "CPROVesting: milestones must total 100%",
+        ],
+      ];
+
+      for (const [c, reason] of cases) {
+        await expect(
+          vesting.createVestingScheduleWithCurve(p, c)
+        ).to.be.revertedWith(reason);
+      }
+      await expect(
+        vesting
+          .connect(other)
+          .createVestingScheduleWithCurve(
+            p,
+            curve(STEPPED, { stepInterval: 10 })
+          )
+      ).to.be.revertedWithCustomError(vesting, "OwnableUnauthorizedAccount");
+    });
+
+    describe("properties", function () {
+      // Deterministic pseudo-random generator (mulberry32), so failures reproduce
+      function random(seed) {
+        return function () {
+          seed = (seed + 0x6d2b79f5) | 0;
+          let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+          t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+          return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+      }
+
+      function randomInt(rand, min, max) {
+        return min + Math.floor(rand() * (max - min + 1));
+      }
+
+      function randomCurve(rand, curveType, duration) {
+        if (curveType === STEPPED) {
+          return curve(STEPPED, { stepInterval: randomInt(rand, 1, duration) });
+        }
+        if (curveType === INITIAL_UNLOCK) {
+          return curve(INITIAL_UNLOCK, {
+            initialUnlockBps: randomInt(rand, 0, 10_000),
+          });
+        }
+        if (curveType === MILESTONES) {
+          const count = randomInt(rand, 1, 8);
+          const offsets = new Set();
+          while (offsets.size < count) {
+            offsets.add(randomInt(rand, 0, duration));
+          }
+          let remaining = 10_000;
+          const milestones = [...offsets]
+            .sort((a, b) => a - b)
+            .map((offset, i) => {
+              const unlockBps =
+                i === count - 1
+                  ? remaining
+                  : randomInt(rand, 1, remaining - (count - 1 - i));
+              remaining -= unlockBps;
+              return { offset, unlockBps };
+            });
+          return curve(MILESTONES, { milestones });
+        }
+        return curve(LINEAR);
+      }
+
+      it("should vest monotonically, never above the total, as the reference model", async function () {
+        const rand = random(0xc960);
+        const start = (await latest()) + 100;
+        const schedules = [];
+
+        for (let i = 0; i < 16; i++) {
+          const duration = randomInt(rand, 1, 5000);
+          const p = params(
+            // Odd amounts, to exercise rounding
+            BigInt(randomInt(rand, 1, 1e9)) * 10n ** 9n + 7n,
+            start + randomInt(rand, 0, 500),
+            randomInt(rand, 0, duration),
+            duration
+          );
+          const c = randomCurve(rand, i % 4, duration);
+          await vesting.createVestingScheduleWithCurve(p, c);
+          schedules.push({ id: i + 1, p, c, last: 0n });
+        }
+
+        let now = start - 50;
+        while (now < start + 6000) {
+          now += randomInt(rand, 1, 200);
+          await mineAt(now);
+
+          for (const s of schedules) {
+            const vested = await vesting.getScheduleVestedAmount(s.id);
+            expect(vested).to.equal(expectedVested(s.p, s.c, now));
+            expect(vested).to.be.gte(s.last);
+            expect(vested).to.be.lte(s.p.totalAmount);
+            s.last = vested;
+          }
+        }
+
+        for (const s of schedules) {
+          expect(s.last).to.equal(s.p.totalAmount);
+        }
+      });
+
+      it("should never pay out more than the total across claims and revoke", async function () {
+        const rand = random(0x5eed);
+        const start = (await latest()) + 10;
+        const vestingAddress = await vesting.getAddress();
+
+        for (let curveType = 0; curveType < 4; curveType++) {
+          const before = await token.balanceOf(beneficiary.address);
+          const p = params(
+            ethers.parseEther("1000") + 13n,
+            start,
+            randomInt(rand, 0, 500),
+            1000
+          );
+          await vesting.createVestingScheduleWithCurve(
+            p,
+            randomCurve(rand, curveType, 1000)
+          );
+          const id = curveType + 1;
+
+          // Claim whenever something is claimable, then revoke part-way
+          const revokeAt = start + randomInt(rand, 0, 1200);
+          let now = await latest();
+          while (now + 1 < revokeAt) {
+            now = Math.min(now + randomInt(rand, 1, 150), revokeAt - 1);
+            await mineAt(now);
+            if ((await vesting.getScheduleClaimableAmount(id)) > 0n) {
+              await vesting.connect(beneficiary).claimTokens(id);
+              now = await latest();
+            }
+          }
+          const ownerBefore = await token.balanceOf(owner.address);
+          await vesting.revokeVesting(id);
+
+          const paid = (await token.balanceOf(beneficiary.address)) - before;
+          const returned = (await token.balanceOf(owner.address)) - ownerBefore;
+          expect(paid).to.be.lte(p.totalAmount);
+          expect(paid + returned).to.equal(p.totalAmount);
+        }
+        expect(await token.balanceOf(vestingAddress)).to.equal(0n);
+      });
+    });
+  });
+
+  describe("revocation policy", function () {
+    const VESTED = ethers.parseEther("400");
+    const UNVESTED = ethers.parseEther("600");
+
+    async function createSchedule(revocable) {
+      const now = (await ethers.provider.getBlock("latest")).timestamp;
+      await vesting.createVestingSchedulesBatch([
+        {
+          beneficiary: beneficiary.address,
+          totalAmount: ethers.parseEther("1000"),
+          startTime: now,
+          cliffDuration: 0,
+          vestingDuration: 1000,
+          revocable,
+        },
+      ]);
+      // Revoke 400 seconds in
+      await ethers.provider.send("evm_setNextBlockTimestamp", [now + 400]);
+    }
+
+    it("should store the revocable flag", async function () {
+      await createSchedule(false);
+      await vesting.createVestingSchedule(
+        beneficiary.address,
+        ethers.parseEther("1"),
+        0,
+        0,
+        1
+      );
+
+      expect((await vesting.getVestingSchedule(1)).revocable).to.equal(false);
+      expect((await vesting.getVestingSchedule(2)).revocable).to.equal(true);
+    });
+
+    it("should not revoke non-revocable schedules", async function () {
+      await createSchedule(false);
+
+      await expect(vesting.revokeVesting(1)).to.be.revertedWith(
+        "CPROVesting: schedule is not revocable"
+      );
+      await expect(vesting.revokeVestingAsBadLeaver(1)).to.be.revertedWith(
+        "CPROVesting: schedule is not revocable"
+      );
+    });
+
+    it("should pay the vested tokens to a good leaver", async function () {
+      await createSchedule(true);
+
+      await expect(vesting.revokeVesting(1))
+        .to.emit(vesting, "RevocationPolicyApplied")
+        .withArgs(1, false, 0, owner.address, UNVESTED);
+      expect(await token.balanceOf(beneficiary.address)).to.equal(VESTED);
+    });
+
+    it("should forfeit the vested but unclaimed tokens of a bad leaver", async function () {
+      await createSchedule(true);
+      const ownerBefore = await token.balanceOf(owner.address);
+
+      const tx = vesting.revokeVestingAsBadLeaver(1);
+      await expect(tx)
+        .to.emit(vesting, "VestingRevoked")
+        .withArgs(beneficiary.address, 1, UNVESTED);
+      await expect(tx)
+        .to.emit(vesting, "RevocationPolicyApplied")
+        .withArgs(1, true, VESTED, owner.address, VESTED + UNVESTED);
+      await expect(tx).to.not.emit(vesting, "TokensClaimed");
+
+      expect(await token.balanceOf(beneficiary.address)).to.equal(0n);
+      expect(await token.balanceOf(owner.address)).to.equal(
+        ownerBefore + VESTED + UNVESTED
+      );
+      await expect(
+        vesting.connect(beneficiary).claimTokens(1)
+      ).to.be.revertedWith("CPROVesting: no tokens to claim");
+    });
+
+    it("should keep what a bad leaver already claimed", async function () {
+      await createSchedule(true);
+      await vesting.connect(beneficiary).claimTokens(1);
+
+      // 1 more second vested since the claim
+      await expect(vesting.revokeVestingAsBadLeaver(1))
+        .to.emit(vesting, "RevocationPolicyApplied")
+        .withArgs(
+          1,
+          true,
+          ethers.parseEther("1"),
+          owner.address,
+          ethers.parseEther("600")
+        );
+      expect(await token.balanceOf(beneficiary.address)).to.equal(VESTED);
+    });
+
+    it("should return revoked tokens to the revocation recipient", async function () {
+      await expect(vesting.setRevocationRecipient(other.address))
+        .to.emit(vesting, "RevocationRecipientUpdated")
+        .withArgs(other.address);
+      await createSchedule(true);
+
+      await expect(vesting.revokeVesting(1))
+        .to.emit(vesting, "RevocationPolicyApplied")
+        .withArgs(1, false, 0, other.address, UNVESTED);
+      expect(await token.balanceOf(other.address)).to.equal(UNVESTED);
+
+      // Zero goes back to returning them to the owner
+      await vesting.setRevocationRecipient(ethers.ZeroAddress);
+      expect(await vesting.revocationRecipient()).to.equal(ethers.ZeroAddress);
+    });
+
+    it("should only let the owner set the policy", async function () {
+      await createSchedule(true);
+
+      await expect(
+        vesting.connect(other).revokeVestingAsBadLeaver(1)
+      ).to.be.revertedWithCustomError(vesting, "OwnableUnauthorizedAccount");
+      await expect(
+        vesting.connect(other).setRevocationRecipient(other.address)
+      ).to.be.revertedWithCustomError(vesting, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("schedule transfer", function () {
+    const WEEK = 7 * 24 * 60 * 60;
+    let start, newKey;
+
+    beforeEach(async function () {
+      [, , , newKey] = await ethers.getSigners();
+      start = (await ethers.provider.getBlock("latest")).timestamp;
+      for (const amount of ["1000", "500"]) {
+        await vesting.createVestingSchedule(
+          beneficiary.address,
+          ethers.parseEther(amount),
+          start,
+          0,
+          1000
+        );
+      }
+    });
+
+    it("should move a schedule once the new address accepts", async function () {
+      await ethers.provider.send("evm_setNextBlockTimestamp", [start + 100]);
+      await vesting.connect(beneficiary).claimTokens(1);
+
+      await expect(
+        vesting.connect(beneficiary).proposeScheduleTransfer(1, newKey.address)
+      )
+        .to.emit(vesting, "ScheduleTransferProposed")
+        .withArgs(1, beneficiary.address, newKey.address);
+      expect(await vesting.pendingScheduleTransfers(1)).to.equal(
+        newKey.address
+      );
+      // Still the beneficiary's until accepted
+      expect((await vesting.getVestingSchedule(1)).beneficiary).to.equal(
+        beneficiary.address
+      );
+
+      await expect(vesting.connect(newKey).acceptScheduleTransfer(1))
+        .to.emit(vesting, "ScheduleTransferred")
+        .withArgs(1, beneficiary.address, newKey.address);
+
+      const schedule = await vesting.getVestingSchedule(1);
+      expect(schedule.beneficiary).to.equal(newKey.address);
+      expect(schedule.claimedAmount).to.equal(ethers.parseEther("100"));
+      expect(await vesting.pendingScheduleTransfers(1)).to.equal(
+        ethers.ZeroAddress
+      );
+      expect(
+        await vesting.getBeneficiaryScheduleIds(beneficiary.address)
+      ).to.deep.equal([2n]);
+      expect(
+        await vesting.getBeneficiaryScheduleIds(newKey.address)
+      ).to.deep.equal([1n]);
+      expect(await vesting.getBeneficiariesCount()).to.equal(2n);
+      expect(await vesting.getBeneficiary(1)).to.equal(newKey.address);
+
+      // The new beneficiary claims, the previous one cannot
+      await expect(
+        vesting.connect(beneficiary).claimTokens(1)
+      ).to.be.revertedWith("CPROVesting: caller is not the beneficiary");
+      await ethers.provider.send("evm_setNextBlockTimestamp", [start + 300]);
+      await vesting.connect(newKey).claimTokens(1);
+      expect(await token.balanceOf(newKey.address)).to.equal(
+        ethers.parseEther("200")
+      );
+    });
+
+    it("should only let the proposed address accept", async function () {
+      await vesting
+        .connect(beneficiary)
+        .proposeScheduleTransfer(1, newKey.address);
+
+      await expect(
+        vesting.connect(other).acceptScheduleTransfer(1)
+      ).to.be.revertedWith(
+        "CPROVesting: caller is not the proposed beneficiary"
+      );
+      await expect(
+        vesting.connect(other).proposeScheduleTransfer(2, other.address)
+      ).to.be.revertedWith("CPROVesting: caller is not the beneficiary");
+
+      // Withdrawing the proposal
+      await vesting
+        .connect(beneficiary)
+        .proposeScheduleTransfer(1, ethers.ZeroAddress);
+      await expect(
+        vesting.connect(newKey).acceptScheduleTransfer(1)
+      ).to.be.revertedWith(
+        "CPROVesting: caller is not the proposed beneficiary"
+      );
+    });
+
+    it("should not transfer revoked schedules", async function () {
+      await vesting
+        .connect(beneficiary)
+        .proposeScheduleTransfer(1, newKey.address);
+      await vesting.revokeVesting(1);
+
+      await expect(
+        vesting.connect(newKey).acceptScheduleTransfer(1)
+      ).to.be.revertedWith("CPROVesting: already revoked");
+      await expect(
+        vesting.connect(beneficiary).proposeScheduleTransfer(1, other.address)
+      ).to.be.revertedWith("CPROVesting: already revoked");
+    });
+
+    it("should let the owner recover a schedule after the delay", async function () {
+      const tx = vesting.initiateScheduleRecovery(2, newKey.address);
+      const executableAt = (await latestAfter(tx)) + WEEK;
+      await expect(tx)
+        .to.emit(vesting, "ScheduleRecoveryInitiated")
+        .withArgs(2, beneficiary.address, newKey.address, executableAt);
+
+      await expect(vesting.executeScheduleRecovery(2)).to.be.revertedWith(
+        "CPROVesting: recovery delay not elapsed"
+      );
+      await expect(
+        vesting.connect(other).executeScheduleRecovery(2)
+      ).to.be.revertedWithCustomError(vesting, "OwnableUnauthorizedAccount");
+
+      await ethers.provider.send("evm_setNextBlockTimestamp", [executableAt]);
+      await expect(vesting.executeScheduleRecovery(2))
+        .to.emit(vesting, "ScheduleTransferred")
+        .withArgs(2, beneficiary.address, newKey.address);
+      expect((await vesting.getVestingSchedule(2)).beneficiary).to.equal(
+        newKey.address
+      );
+      expect((await vesting.scheduleRecoveries(2)).newBeneficiary).to.equal(
+        ethers.ZeroAddress
+      );
+      await expect(vesting.executeScheduleRecovery(2)).to.be.revertedWith(
+        "CPROVesting: no recovery pending"
+      );
+    });
+
+    it("should let the beneficiary cancel a recovery", async function () {
+      await vesting.initiateScheduleRecovery(1, other.address);
+
+      await expect(
+        vesting.connect(newKey).cancelScheduleRecovery(1)
+      ).to.be.revertedWith(
+        "CPROVesting: caller is not the owner or beneficiary"
+      );
+      await expect(vesting.connect(beneficiary).cancelScheduleRecovery(1))
+        .to.emit(vesting, "ScheduleRecoveryCancelled")
+        .withArgs(1);
+
+      await ethers.provider.send("evm_increaseTime", [WEEK]);
+      await expect(vesting.executeScheduleRecovery(1)).to.be.revertedWith(
+        "CPROVesting: no recovery pending"
+      );
+
+      // The beneficiary still holds their key, the owner cannot try again
+      expect(await vesting.recoveryVetoed(1)).to.equal(true);
+      await expect(
+        vesting.initiateScheduleRecovery(1, other.address)
+      ).to.be.revertedWith("CPROVesting: recovery vetoed by the beneficiary");
+
+      // Cancelled by the owner, a recovery can be started again
+      await vesting.initiateScheduleRecovery(2, other.address);
+      await vesting.cancelScheduleRecovery(2);
+      expect(await vesting.recoveryVetoed(2)).to.equal(false);
+      await vesting.initiateScheduleRecovery(2, other.address);
+
+      // Once the schedule moves, its new beneficiary can be helped again
+      await vesting
+        .connect(beneficiary)
+        .proposeScheduleTransfer(1, newKey.address);
+      await vesting.connect(newKey).acceptScheduleTransfer(1);
+      expect(await vesting.recoveryVetoed(1)).to.equal(false);
+      await vesting.initiateScheduleRecovery(1, other.address);
+    });
+
+    it("should not recover non-revocable schedules", async function () {
+      await vesting.createVestingSchedulesBatch([
+        {
+          beneficiary: beneficiary.address,
+          totalAmount: ethers.parseEther("1000"),
+          startTime: start,
+          cliffDuration: 0,
+          vestingDuration: 1000,
+          revocable: false,
+        },
+      ]);
+
+      await expect(
+        vesting.initiateScheduleRecovery(3, newKey.address)
+      ).to.be.revertedWith("CPROVesting: schedule is not revocable");
+      expect((await vesting.getVestingSchedule(3)).beneficiary).to.equal(
+        beneficiary.address
+      );
+    });
+
+    it("should move the voting power of the unclaimed tokens", async function () {
+      await vesting.connect(beneficiary).delegateVotes(beneficiary.address);
+      await vesting.createVestingSchedule(
+        newKey.address,
+        ethers.parseEther("10"),
+        start,
+        0,
+        1000
+      );
+      await vesting.connect(newKey).delegateVotes(newKey.address);
+
+      await vesting
+        .connect(beneficiary)
+        .proposeScheduleTransfer(2, newKey.address);
+      await vesting.connect(newKey).acceptScheduleTransfer(2);
+
+      expect(await token.getVotes(beneficiary.address)).to.equal(
+        ethers.parseEther("1000")
+      );
+      expect(await token.getVotes(newKey.address)).to.equal(
+        ethers.parseEther("510")
+      );
+      expect(await vesting.totalEscrowed()).to.equal(ethers.parseEther("1510"));
+
+      await ethers.provider.send("evm_increaseTime", [1000]);
+      await vesting.connect(newKey).claimAll();
+      expect(await token.balanceOf(newKey.address)).to.equal(
+        ethers.parseEther("510")
+      );
+    });
+
+    async function latestAfter(tx) {
+      await (await tx).wait();
+      return (await ethers.provider.getBlock("latest")).timestamp;
+    }
+  });
+
+  describe("claims on behalf", function () {
+    let relayer, domain;
+
+    beforeEach(async function () {
+      [, , , relayer] = await ethers.getSigners();
+      const { chainId } = await ethers.provider.getNetwork();
+      domain = claimDomain("CPROVesting", await vesting.getAddress(), chainId);
+
+      const now = (await ethers.provider.getBlock("latest")).timestamp;
+      for (const amount of ["100", "300"]) {
+        await vesting.createVestingSchedule(
+          beneficiary.address,
+          ethers.parseEther(amount),
+          now - 1000,
+          0,
+          100
+        );
+      }
+    });
+
+    async function sign(signer, recipient, deadline) {
+      return signClaim(signer, domain, {
+        beneficiary: beneficiary.address,
+        recipient,
+        nonce: await vesting.nonces(beneficiary.address),
+        deadline: BigInt(deadline),
+      });
+    }
+
+    function submit(claim) {
+      return vesting
+        .connect(relayer)
+        .claimWithSignature(
+          claim.beneficiary,
+          claim.recipient,
+          claim.deadline,
+          claim.v,
+          claim.r,
+          claim.s
+        );
+    }
+
+    async function inOneHour() {
+      return (await ethers.provider.getBlock("latest")).timestamp + 3600;
+    }
+
+    it("should let anyone claim every schedule for the beneficiary", async function () {
+      const tx = vesting.connect(relayer).claimFor(beneficiary.address);
+      await expect(tx)
+        .to.emit(vesting, "TokensClaimed")
+        .withArgs(beneficiary.address, 1, ethers.parseEther("100"));
+      await expect(tx)
+        .to.emit(vesting, "TokensClaimed")
+        .withArgs(beneficiary.address, 2, ethers.parseEther("300"));
+
+      expect(await token.balanceOf(beneficiary.address)).to.equal(
+        ethers.parseEther("400")
+      );
+      await expect(
+        vesting.connect(relayer).claimFor(beneficiary.address)
+      ).to.be.revertedWith("CPROVesting: no tokens to claim");
+    });
+
+    it("should pay a signed claim to the chosen recipient", async function () {
+      const claim = await sign(beneficiary, other.address, await inOneHour());
+
+      await submit(claim);
+      expect(await token.balanceOf(other.address)).to.equal(
+        ethers.parseEther("400")
+      );
+      expect(await token.balanceOf(relayer.address)).to.equal(0n);
+      expect(await vesting.nonces(beneficiary.address)).to.equal(1n);
+    });
+
+    it("should reject replayed, expired and forged signatures", async function () {
+      const forged = await sign(other, other.address, await inOneHour());
+      await expect(submit(forged)).to.be.revertedWith(
+        "CPROVesting: invalid signature"
+      );
+
+      const claim = await sign(
+        beneficiary,
+        beneficiary.address,
+        await inOneHour()
+      );
+      await expect(
+        submit({ ...claim, recipient: relayer.address })
+      ).to.be.revertedWith("CPROVesting: invalid signature");
+
+      const expired = await sign(
+        beneficiary,
+        beneficiary.address,
+        (
+          await ethers.provider.getBlock("latest")
+        ).timestamp
+      );
+      await expect(submit(expired)).to.be.revertedWith(
+        "CPROVesting: expired signature"
+      );
+
+      await submit(claim);
+      await expect(submit(claim)).to.be.revertedWith(
+        "CPROVesting: invalid signature"
+      );
+    });
+
+    it("should pay a signed claim from the voting escrow", async function () {
+      await vesting.connect(beneficiary).delegateVotes(beneficiary.address);
+
+      await submit(await sign(beneficiary, other.address, await inOneHour()));
+      expect(await token.balanceOf(other.address)).to.equal(
+        ethers.parseEther("400")
+      );
+      expect(await vesting.totalEscrowed()).to.equal(0n);
+    });
+  });
+
+  describe("reporting views", function () {
+    let start;
+
+    beforeEach(async function () {
+      start = (await ethers.provider.getBlock("latest")).timestamp;
+      for (const [account, amount] of [
+        [beneficiary, "100"],
+        [other, "200"],
+        [beneficiary, "300"],
+      ]) {
+        await vesting.createVestingSchedule(
+          account.address,
+          ethers.parseEther(amount),
+          start,
+          0,
+          1000
+        );
+      }
+    });
+
+    it("should page through beneficiaries", async function () {
+      expect(await vesting.getBeneficiaries(0, 10)).to.deep.equal([
+        beneficiary.address,
+        other.address,
+      ]);
+      expect(await vesting.getBeneficiaries(1, 1)).to.deep.equal([
+        other.address,
+      ]);
+      expect(await vesting.getBeneficiaries(2, 10)).to.deep.equal([]);
+    });
+
+    it("should page through schedules with their vested amounts", async function () {
+      await ethers.provider.send("evm_setNextBlockTimestamp", [start + 500]);
+      await ethers.provider.send("evm_mine");
+
+      expect(await vesting.getScheduleCount()).to.equal(3n);
+      const [schedules, vested] = await vesting.getVestingSchedules(1, 5);
+      expect(schedules.map((s) => s.beneficiary)).to.deep.equal([
+        other.address,
+        beneficiary.address,
+      ]);
+      expect(schedules[1].totalAmount).to.equal(ethers.parseEther("300"));
+      expect(vested).to.deep.equal([
+        ethers.parseEther("100"),
+        ethers.parseEther("150"),
+      ]);
+
+      const [empty, none] = await vesting.getVestingSchedules(3, 5);
+      expect(empty).to.deep.equal([]);
+      expect(none).to.deep.equal([]);
+    });
+
+    it("should track allocated, claimed, revoked and vested totals", async function () {
+      expect(await vesting.totalAllocated()).to.equal(ethers.parseEther("600"));
+
+      await ethers.provider.send("evm_setNextBlockTimestamp", [start + 500]);
+      await vesting.connect(beneficiary).claimAll();
+      await ethers.provider.send("evm_setNextBlockTimestamp", [start + 600]);
+      await vesting.revokeVesting(2);
+      await ethers.provider.send("evm_setNextBlockTimestamp", [start + 800]);
+      await ethers.provider.send("evm_mine");
+
+      // 50 + 150 claimed at 500, 120 paid to other on revocation
+      expect(await vesting.totalClaimed()).to.equal(ethers.parseEther("320"));
+      expect(await vesting.totalRevoked()).to.equal(ethers.parseEther("80"));
+      // 80 + 240 on the live schedules, 120 on the revoked one
+      expect(await vesting.getTotalVested()).to.equal(ethers.parseEther("440"));
+    });
+  });
 });
@@ -0,0 +1,293 @@
+import { expect } from "chai";
+import { mkdtemp, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { network } from "hardhat";
+import { CproVestingClient } from "../../../sdk/src/index.js";
+import { parseVestingCsv } from "../../../scripts/vesting-import/csv.js";
+import {
+  dryRunVestingRows,
+  hashCsv,
+  submitVestingRows,
+} from "../../../scripts/vesting-import/submit.js";
+const { ethers, networkHelpers } = await network.connect();
+
+const { loadFixture } = networkHelpers;
+
+const HEADER = "address,amount,start,cliff,duration,revocable";
+
+describe("Vesting CSV import", function () {
+  async function deployFixture() {
+    const [owner, ...rest] = await ethers.getSigners();
+    const investors = rest.slice(0, 12);
+
+    const token = await ethers.deployContract("CPROToken");
+    const vesting = await ethers.deployContract("CPROVesting", [
+      await token.getAddress(),
+    ]);
+    await token.approve(await vesting.getAddress(), ethers.MaxUint256);
+
+    const csv = [
+      HEADER,
+      ...investors.map(
+        (investor, i) =>
+          `${investor.address},${i + 1}000,1700000000,${i * 10},${
+            100 + i * 10
+          },${i % 2 === 0}`
+      ),
+    ].join("\n");
+
+    return {
+      owner,
+      investors,
+      token,
+      vesting,
+      client: new CproVestingClient(await vesting.getAddress(), owner),
+      csv,
+    };
+  }
+
+  describe("parseVestingCsv", function () {
+    const alice = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+    it("parses valid rows and sums the amounts", function () {
+      const { rows, total, errors } = parseVestingCsv(
+        `${HEADER}\n${alice},1.5,100,10,20,FALSE\n`
+      );
+      expect(errors).to.deep.equal([]);
+      expect(rows).to.deep.equal([
+        {
+          line: 2,
+          beneficiary: alice,
+          totalAmount: ethers.parseEther("1.5"),
+          startTime: 100n,
+          cliffDuration: 10n,
+          vestingDuration: 20n,
+          revocable: false,
+        },
+      ]);
+      expect(total).to.equal(ethers.parseEther("1.5"));
+    });
+
+    it("reports bad checksums, invalid addresses and duplicates", function () {
+      const badChecksum = alice.replace("C8", "c8");
+      const { errors, warnings } = parseVestingCsv(
+        [
+          HEADER,
+          `${alice},1,0,0,1,true`,
+          `${badChecksum},1,0,0,1,true`,
+          "0x1234,1,0,0,1,true",
+          `${alice.toLowerCase()},1,0,0,1,true`,
+        ].join("\n")
+      );
+      expect(errors).to.deep.equal([
+        `line 3: bad checksum for ${badChecksum}`,
+        "line 4: invalid address 0x1234",
+        `line 5: duplicate beneficiary ${alice} (first seen on line 2)`,
+      ]);
+      expect(warnings).to.deep.equal([
+        `line 5: ${alice.toLowerCase()} is not checksummed`,
+      ]);
+    });
+
+    it("applies the contract rules offline", function () {
+      const { errors } = parseVestingCsv(
+        [
+          HEADER,
+          `${alice},0,0,0,1,true`,
+          `${alice},1,0,0,0,true`,
+          `${alice},1,0,5,1,true`,
+          `${alice},1,-1,0,1,true`,
+          `${alice},1,0,0,1,yes`,
+          `${alice},1,0,0,1`,
+        ].join("\n"),
+        { allowDuplicates: true }
+      );
+      expect(errors).to.deep.equal([
+        "line 2: total amount must be > 0",
+        "line 3: vesting duration must be > 0",
+        "line 4: cliff duration exceeds vesting duration",
+        "line 5: start, cliff and duration must be integers",
+        "line 6: revocable must be true or false",
+        "line 7: expected 6 columns, got 5",
+      ]);
+    });
+
+    it("rejects negative amounts and durations", function () {
+      const { rows, total, errors } = parseVestingCsv(
+        [
+          HEADER,
+          `${alice},3,0,0,1,true`,
+          `${alice},-1,0,0,1,true`,
+          `${alice},1,0,-1,1,true`,
+          `${alice},1,0,0,-1,true`,
+        ].join("\n"),
+        { allowDuplicates: true, expectedTotal: ethers.parseEther("2") }
+      );
+      expect(rows).to.have.length(1);
+      expect(total).to.equal(ethers.parseEther("3"));
+      expect(errors).to.deep.equal([
+        "line 3: total amount must be > 0",
+        "line 4: start, cliff and duration must be integers",
+        "line 5: start, cliff and duration must be integers",
+        `total ${ethers.parseEther(
+          "3"
+        )} does not match expected total ${ethers.parseEther("2")}`,
+      ]);
+    });
+
+    it("checks the expected total", function () {
+      const { errors } = parseVestingCsv(`${HEADER}\n${alice},1,0,0,1,true`, {
+        expectedTotal: ethers.parseEther("2"),
+      });
+      expect(errors).to.deep.equal([
+        `total ${ethers.parseEther(
+          "1"
+        )} does not match expected total ${ethers.parseEther("2")}`,
+      ]);
+    });
+  });
+
+  describe("submitVestingRows", function () {
+    it("splits the import into gas-bounded chunks", async function () {
+      const { client, csv, vesting, investors } = await loadFixture(
+        deployFixture
+      );
+      const { rows } = parseVestingCsv(csv);
+
+      const progress = await submitVestingRows(client, rows, {
+        csvHash: hashCsv(csv),
+        chunkSize: 12,
+        maxGas: 1_000_000n,
+      });
+
+      expect(progress.completedRows).to.equal(12);
+      expect(progress.batches.length).to.be.greaterThan(1);
+      for (const batch of progress.batches) {
+        expect(BigInt(batch.gasUsed)).to.be.lessThanOrEqual(1_000_000n);
+      }
+      expect(await vesting.getBeneficiariesCount()).to.equal(12n);
+
+      const last = await client.getSchedules(investors[11].address);
+      expect(last[0].totalAmount).to.equal(ethers.parseEther("12000"));
+      expect(last[0].vestingDuration).to.equal(210n);
+      expect(last[0].revocable).to.equal(false);
+      const first = await client.getSchedules(investors[0].address);
+      expect(first[0].revocable).to.equal(true);
+    });
+
+    it("resumes an interrupted import from the progress file", async function () {
+      const { client, csv, vesting } = await loadFixture(deployFixture);
+      const { rows } = parseVestingCsv(csv);
+      const dir = await mkdtemp(path.join(tmpdir(), "cpro-import-"));
+      const progressFile = path.join(dir, "progress.json");
+      const options = { csvHash: hashCsv(csv), chunkSize: 5, progressFile };
+
+      const interrupted = submitVestingRows(client, rows, {
+        ...options,
+        onBatch: () => {
+          throw new Error("connection lost");
+        },
+      });
+      await expect(interrupted).to.be.rejectedWith("connection lost");
+
+      const saved = JSON.parse(await readFile(progressFile, "utf8"));
+      expect(saved.completedRows).to.equal(5);
+      expect(await vesting.getBeneficiariesCount()).to.equal(5n);
+
+      const progress = await submitVestingRows(client, rows, options);
+      expect(progress.completedRows).to.equal(12);
+      expect(progress.batches.map((b) => b.firstLine)).to.deep.equal([
+        2, 7, 12,
+      ]);
+      expect(await vesting.getBeneficiariesCount()).to.equal(12n);
+
+      await expect(
+        submitVestingRows(client, rows, { ...options, csvHash: hashCsv("") })
+      ).to.be.rejectedWith("was written for another csvHash");
+    });
+
+    it("checks a batch sent before the interruption instead of sending it again", async function () {
+      const { client, csv, vesting } = await loadFixture(deployFixture);
+      const { rows } = parseVestingCsv(csv);
+      const dir = await mkdtemp(path.join(tmpdir(), "cpro-import-"));
+      const progressFile = path.join(dir, "progress.json");
+      const options = { csvHash: hashCsv(csv), chunkSize: 5, progressFile };
+      const base = {
+        csvHash: options.csvHash,
+        vesting: await vesting.getAddress(),
+        chainId: String((await ethers.provider.getNetwork()).chainId),
+        completedRows: 0,
+        batches: [],
+      };
+
+      // The process stopped after sending lines 2-6, before their receipt
+      const { receipt } = await client.createVestingSchedulesBatch(
+        rows.slice(0, 5).map(({ line: _line, ...params }) => params)
+      );
+      await writeFile(
+        progressFile,
+        JSON.stringify({
+          ...base,
+          pending: { firstLine: 2, lastLine: 6, txHash: receipt.hash },
+        })
+      );
+
+      const progress = await submitVestingRows(client, rows, options);
+      expect(progress.pending).to.equal(undefined);
+      expect(progress.batches[0]).to.include({
+        firstLine: 2,
+        lastLine: 6,
+        txHash: receipt.hash,
+      });
+      expect(progress.batches[0].scheduleIds).to.deep.equal([
+        "1",
+        "2",
+        "3",
+        "4",
+        "5",
+      ]);
+      expect(await vesting.getScheduleCount()).to.equal(12n);
+
+      // A transaction the node never saw is sent again
+      const fresh = await loadFixture(deployFixture);
+      await writeFile(
+        progressFile,
+        JSON.stringify({
+          ...base,
+          vesting: await fresh.vesting.getAddress(),
+          pending: { firstLine: 2, lastLine: 6, txHash: ethers.ZeroHash },
+        })
+      );
+      const resent = await submitVestingRows(fresh.client, rows, options);
+      expect(resent.batches.map((b) => b.firstLine)).to.deep.equal([2, 7, 12]);
+      expect(await fresh.vesting.getScheduleCount()).to.equal(12n);
+    });
+  });
+
+  describe("dryRunVestingRows", function () {
+    it("replays the import as the owner and leaves no state behind", async function () {
+      const { owner, csv, vesting, token } = await loadFixture(deployFixture);
+      const { rows } = parseVestingCsv(csv);
+      // Nothing approved yet: the dry run handles it as the impersonated owner
+      await token.approve(await vesting.getAddress(), 0);
+
+      const report = await dryRunVestingRows(
+        ethers.provider,
+        await vesting.getAddress(),
+        rows,
+        { csvHash: hashCsv(csv), chunkSize: 4 }
+      );
+
+      expect(report.owner).to.equal(owner.address);
+      expect(report.scheduleCount).to.equal(12);
+      expect(report.batches.length).to.equal(3);
+      expect(report.gasUsed).to.be.greaterThan(0n);
+
+      expect(await vesting.getBeneficiariesCount()).to.equal(0n);
+      expect(
+        await token.allowance(owner.address, await vesting.getAddress())
+      ).to.equal(0n);
+    });
+  });
+});
@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.28;
+
+import {ERC1967Proxy} from "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+
+/// @title ERC-1967 proxy of the upgradeable CPRO contracts
+/// @notice Deploy with the implementation and the encoded `initialize` call, so the proxy cannot be
+/// initialized by anyone else. Upgrades go through the implementation's `upgradeToAndCall`.
+contract CPROProxy is ERC1967Proxy {
+    constructor(
+        address implementation,
+        bytes memory initData
+    ) ERC1967Proxy(implementation, initData) {}
+}
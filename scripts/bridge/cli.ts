@@ -0,0 +1,74 @@
+/**
+ * Relay CPRO bridge transfers from one chain to another.
+ *
+ *   SOURCE_RPC_URL=... RPC_URL=... PRIVATE_KEY=... npx tsx scripts/bridge/cli.ts --source-adapter 0x... --adapter 0x... --from-block 123
+ *
+ * Transfers sent through the CPROBridgeAdapter of the source chain are
+ * delivered to the adapter of the destination chain (RPC_URL) by the relayer
+ * account (PRIVATE_KEY). The source chain is polled until the process is
+ * stopped; run one relayer per direction.
+ */
+import { setTimeout as sleep } from "node:timers/promises";
+import { parseArgs } from "node:util";
+import { JsonRpcProvider, Wallet } from "ethers";
+import { relayTransfers } from "./relayer.js";
+
+const { values } = parseArgs({
+  options: {
+    "source-adapter": { type: "string" },
+    adapter: { type: "string" },
+    "from-block": { type: "string", default: "0" },
+    confirmations: { type: "string", default: "2" },
+    interval: { type: "string", default: "10000" },
+  },
+});
+
+async function main() {
+  if (!values["source-adapter"] || !values.adapter) {
+    throw new Error("--source-adapter and --adapter are required");
+  }
+  const { SOURCE_RPC_URL, RPC_URL, PRIVATE_KEY } = process.env;
+  if (!SOURCE_RPC_URL || !RPC_URL || !PRIVATE_KEY) {
+    throw new Error("SOURCE_RPC_URL, RPC_URL and PRIVATE_KEY must be set");
+  }
+
+  const sourceProvider = new JsonRpcProvider(SOURCE_RPC_URL);
+  const relayer = new Wallet(PRIVATE_KEY, new JsonRpcProvider(RPC_URL));
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+  process.once("SIGTERM", () => controller.abort());
+
+  let fromBlock = Number(values["from-block"]);
+  while (!controller.signal.aborted) {
+    try {
+      const { toBlock } = await relayTransfers(
+        {
+          provider: sourceProvider,
+          adapter: values["source-adapter"],
+          fromBlock,
+        },
+        { relayer, adapter: values.adapter },
+        {
+          confirmations: Number(values.confirmations),
+          log: (message) => console.error(message),
+        }
+      );
+      fromBlock = toBlock + 1;
+    } catch (error) {
+      console.error(
+        `relay failed: ${error instanceof Error ? error.message : error}`
+      );
+    }
+    await sleep(Number(values.interval), undefined, {
+      signal: controller.signal,
+    }).catch(() => {});
+  }
+
+  sourceProvider.destroy();
+  relayer.provider?.destroy();
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,96 @@
+import { Contract, type Provider, type Signer } from "ethers";
+import { CPRO_BRIDGE_ADAPTER_ABI } from "../../sdk/src/index.js";
+
+/** Adapter on the chain transfers are sent from */
+export interface RelaySource {
+  provider: Provider;
+  adapter: string;
+  /** First block searched for `TransferSent` events */
+  fromBlock: number;
+}
+
+/** Adapter on the chain transfers are delivered to, with the relayer account */
+export interface RelayDestination {
+  relayer: Signer;
+  adapter: string;
+}
+
+export interface RelayOptions {
+  /** Blocks behind the source head whose transfers are not relayed yet */
+  confirmations?: number;
+  log?: (message: string) => void;
+}
+
+export interface RelayedTransfer {
+  nonce: bigint;
+  to: string;
+  amount: bigint;
+  txHash: string;
+}
+
+export interface RelayResult {
+  /** Transfers delivered by this call */
+  relayed: RelayedTransfer[];
+  /** Last source block searched, the next call can start after it */
+  toBlock: number;
+}
+
+/**
+ * Deliver the transfers sent from `source` to the chain of `destination`
+ * that were not delivered yet. Transfers are delivered in nonce order, one
+ * transaction each; a failed delivery stops the round and is retried by the
+ * next one.
+ */
+export async function relayTransfers(
+  source: RelaySource,
+  destination: RelayDestination,
+  options: RelayOptions = {}
+): Promise<RelayResult> {
+  const log = options.log ?? (() => {});
+  const sourceAdapter = new Contract(
+    source.adapter,
+    CPRO_BRIDGE_ADAPTER_ABI,
+    source.provider
+  );
+  const destinationAdapter = new Contract(
+    destination.adapter,
+    CPRO_BRIDGE_ADAPTER_ABI,
+    destination.relayer
+  );
+  const [{ chainId: sourceChainId }, destinationNetwork] = await Promise.all([
+    source.provider.getNetwork(),
+    destination.relayer.provider!.getNetwork(),
+  ]);
+
+  const toBlock =
+    (await source.provider.getBlockNumber()) - (options.confirmations ?? 0);
+  if (toBlock < source.fromBlock) {
+    return { relayed: [], toBlock: source.fromBlock - 1 };
+  }
+  const events = await sourceAdapter.queryFilter(
+    sourceAdapter.filters.TransferSent(null, destinationNetwork.chainId),
+    source.fromBlock,
+    toBlock
+  );
+
+  const relayed: RelayedTransfer[] = [];
+  for (const event of events) {
+    if (!("args" in event)) {
+      continue;
+    }
+    const { nonce, to, amount } = event.args;
+    if (await destinationAdapter.delivered(sourceChainId, nonce)) {
+      continue;
+    }
+    const tx = await destinationAdapter.deliverTransfer(
+      sourceChainId,
+      nonce,
+      to,
+      amount
+    );
+    await tx.wait();
+    log(`delivered transfer ${nonce} of ${amount} to ${to}`);
+    relayed.push({ nonce, to, amount, txHash: tx.hash });
+  }
+  return { relayed, toBlock };
+}
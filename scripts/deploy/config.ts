@@ -0,0 +1,120 @@
+import { ZeroAddress, getAddress, isAddress, parseUnits } from "ethers";
+
+/** Validated deployment configuration of one network */
+export interface DeployConfig {
+  locking: {
+    /** Total pool, in wei */
+    poolSize: bigint;
+    /** Expected number of beneficiaries, the default share is poolSize / beneficiaries */
+    beneficiaries: bigint;
+    /** Receiver of the unassigned tokens after endTime */
+    sweepRecipient: string;
+    /** Whether the deployer funds the pool right after deployment */
+    fund: boolean;
+  };
+  /** Account receiving every token role and the vesting/locking ownership, e.g. a CPROTimelock */
+  admin?: string;
+}
+
+/** `networks/<network>.json` as parsed, before any field is checked */
+interface RawDeployConfig {
+  locking?: Record<string, unknown>;
+  admin?: unknown;
+}
+
+export interface DeployConfigResult {
+  config?: DeployConfig;
+  errors: string[];
+}
+
+/**
+ * Validate a deployment configuration as read from `networks/<network>.json`:
+ *
+ *   {
+ *     "locking": { "poolSize": "500000", "beneficiaries": 50, "sweepRecipient": "0x...", "fund": true },
+ *     "admin": "0x..."
+ *   }
+ *
+ * `poolSize` is in whole tokens. Every problem is collected so the file can
+ * be fixed in one pass, nothing is deployed while errors remain.
+ * @param raw Parsed JSON content
+ */
+export function parseDeployConfig(raw: unknown): DeployConfigResult {
+  const errors: string[] = [];
+  const input = (raw ?? {}) as RawDeployConfig;
+  const locking = input.locking ?? {};
+
+  let poolSize = 0n;
+  try {
+    poolSize = parseUnits(String(locking.poolSize ?? ""), 18);
+    if (poolSize <= 0n) {
+      errors.push("locking.poolSize: must be greater than 0");
+    }
+  } catch {
+    errors.push(`locking.poolSize: invalid amount ${locking.poolSize}`);
+  }
+
+  const count = Number(locking.beneficiaries);
+  if (!Number.isSafeInteger(count) || count <= 0) {
+    errors.push(
+      `locking.beneficiaries: must be a positive integer, got ${locking.beneficiaries}`
+    );
+  } else if (poolSize > 0n && poolSize / BigInt(count) === 0n) {
+    errors.push("locking.beneficiaries: the per-beneficiary share would be 0");
+  }
+
+  const sweepRecipient = checkAddress(
+    "locking.sweepRecipient",
+    locking.sweepRecipient,
+    errors
+  );
+
+  if (locking.fund !== undefined && typeof locking.fund !== "boolean") {
+    errors.push("locking.fund: must be true or false");
+  }
+
+  const admin =
+    input.admin === undefined || input.admin === null
+      ? undefined
+      : checkAddress("admin", input.admin, errors);
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+  return {
+    config: {
+      locking: {
+        poolSize,
+        beneficiaries: BigInt(count),
+        sweepRecipient: sweepRecipient!,
+        fund: locking.fund === true,
+      },
+      admin,
+    },
+    errors,
+  };
+}
+
+function checkAddress(
+  field: string,
+  value: unknown,
+  errors: string[]
+): string | undefined {
+  const text = String(value ?? "").trim();
+  let address: string;
+  try {
+    address = getAddress(text);
+  } catch {
+    errors.push(
+      isAddress(text.toLowerCase())
+        ? `${field}: bad checksum for ${text}`
+        : `${field}: invalid address ${text}`
+    );
+    return undefined;
+  }
+  if (address === ZeroAddress) {
+    errors.push(`${field}: must not be the zero address`);
+    return undefined;
+  }
+  return address;
+}
@@ -0,0 +1,47 @@
+/**
+ * Deploy and configure the CPRO contracts on a Hardhat network.
+ *
+ *   npx hardhat run scripts/deploy/deploy.ts --network localhost
+ *
+ * The configuration is read from `scripts/deploy/networks/<network>.json`
+ * (or DEPLOY_CONFIG) and validated before anything is sent. Addresses,
+ * constructor arguments, transactions and block numbers are written to
+ * `deployments/<network>.json` (or DEPLOY_MANIFEST) after every step; running
+ * the script again against the same manifest only performs what is missing.
+ */
+import { readFile } from "node:fs/promises";
+import { network } from "hardhat";
+import { parseDeployConfig } from "./config.js";
+import { deployAll } from "./pipeline.js";
+
+async function main() {
+  const connection = await network.connect();
+  const { ethers, networkName } = connection;
+
+  const configFile =
+    process.env.DEPLOY_CONFIG ?? `scripts/deploy/networks/${networkName}.json`;
+  const manifestFile =
+    process.env.DEPLOY_MANIFEST ?? `deployments/${networkName}.json`;
+
+  const { config, errors } = parseDeployConfig(
+    JSON.parse(await readFile(configFile, "utf8"))
+  );
+  if (!config) {
+    errors.forEach((error) => console.error(`error: ${error}`));
+    throw new Error(`${configFile} is invalid`);
+  }
+
+  const [signer] = await ethers.getSigners();
+  console.log(`deploying to ${networkName} as ${signer.address}`);
+  await deployAll(ethers, signer, config, {
+    network: networkName,
+    manifestFile,
+    log: (message) => console.log(message),
+  });
+  console.log(`manifest written to ${manifestFile}`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
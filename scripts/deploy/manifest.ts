@@ -0,0 +1,62 @@
+import { existsSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+/** A deployed contract, as recorded in the manifest */
+export interface DeployedContract {
+  address: string;
+  /** Constructor arguments, bigints as decimal strings */
+  args: unknown[];
+  txHash: string;
+  blockNumber: number;
+}
+
+/** A configuration transaction, as recorded in the manifest */
+export interface CompletedStep {
+  txHashes: string[];
+  blockNumber: number;
+}
+
+/** Content of `deployments/<network>.json`, rewritten after every step */
+export interface DeploymentManifest {
+  network: string;
+  chainId: string;
+  deployer: string;
+  contracts: Record<string, DeployedContract>;
+  steps: Record<string, CompletedStep>;
+}
+
+/**
+ * Load the manifest of a previous run, or start a new one.
+ * Refuses a manifest written for another chain.
+ */
+export async function loadManifest(
+  manifestFile: string,
+  expected: Pick<DeploymentManifest, "network" | "chainId" | "deployer">
+): Promise<DeploymentManifest> {
+  if (!existsSync(manifestFile)) {
+    return { ...expected, contracts: {}, steps: {} };
+  }
+  const manifest: DeploymentManifest = JSON.parse(
+    await readFile(manifestFile, "utf8")
+  );
+  if (manifest.chainId !== expected.chainId) {
+    throw new Error(
+      `${manifestFile} was written for chain ${manifest.chainId}, not ${expected.chainId}`
+    );
+  }
+  return manifest;
+}
+
+export async function saveManifest(
+  manifestFile: string,
+  manifest: DeploymentManifest
+): Promise<void> {
+  await mkdir(dirname(manifestFile), { recursive: true });
+  await writeFile(manifestFile, JSON.stringify(manifest, null, 2) + "\n");
+}
+
+/** Constructor arguments as stored in the manifest */
+export function serializeArgs(args: unknown[]): unknown[] {
+  return args.map((arg) => (typeof arg === "bigint" ? arg.toString() : arg));
+}
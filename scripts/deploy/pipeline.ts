@@ -0,0 +1,200 @@
+import type {
+  BaseContract,
+  Contract,
+  ContractTransactionResponse,
+  Signer,
+} from "ethers";
+import type { DeployConfig } from "./config.js";
+import {
+  loadManifest,
+  saveManifest,
+  serializeArgs,
+  type DeploymentManifest,
+} from "./manifest.js";
+
+/**
+ * Deploys contracts from their compiled artifacts, e.g. the `ethers` object of
+ * a Hardhat network connection.
+ */
+export interface ArtifactDeployer {
+  deployContract(
+    name: string,
+    args: unknown[],
+    signer: Signer
+  ): Promise<BaseContract>;
+  getContractAt(
+    name: string,
+    address: string,
+    signer: Signer
+  ): Promise<BaseContract>;
+}
+
+export interface DeployOptions {
+  /** Name of the network, stored in the manifest */
+  network: string;
+  /** Where the manifest is read from and written to */
+  manifestFile: string;
+  log?: (message: string) => void;
+}
+
+const TOKEN_ROLES = [
+  "DEFAULT_ADMIN_ROLE",
+  "ADMIN_ROLE",
+  "MINTER_ROLE",
+  "PAUSER_ROLE",
+  "TREASURY_ROLE",
+] as const;
+
+/**
+ * Deploy CPROToken, CPROVesting and CPROLocking in order, fund the locking
+ * pool and hand everything over to `config.admin`.
+ *
+ * Every deployment and configuration transaction is recorded in the manifest
+ * as soon as it is mined. Re-running against the same manifest skips what is
+ * recorded, so an interrupted run resumes and a complete one sends nothing.
+ * @param deployer Artifact deployer of the target network
+ * @param signer Account paying for and initially owning the deployment
+ * @param config Validated deployment configuration
+ * @param options Manifest location and logging
+ */
+export async function deployAll(
+  deployer: ArtifactDeployer,
+  signer: Signer,
+  config: DeployConfig,
+  options: DeployOptions
+): Promise<DeploymentManifest> {
+  const log = options.log ?? (() => {});
+  const provider = signer.provider;
+  if (!provider) {
+    throw new Error("the deployer signer must be connected to a provider");
+  }
+  const { chainId } = await provider.getNetwork();
+  const deployerAddress = await signer.getAddress();
+  const manifest = await loadManifest(options.manifestFile, {
+    network: options.network,
+    chainId: chainId.toString(),
+    deployer: deployerAddress,
+  });
+  const save = () => saveManifest(options.manifestFile, manifest);
+
+  async function deploy(name: string, args: unknown[]): Promise<Contract> {
+    const recorded = manifest.contracts[name];
+    if (recorded) {
+      if (
+        JSON.stringify(recorded.args) !== JSON.stringify(serializeArgs(args))
+      ) {
+        throw new Error(
+          `${name} in ${
+            options.manifestFile
+          } was deployed with other arguments (${JSON.stringify(
+            recorded.args
+          )}), remove it to redeploy`
+        );
+      }
+      if ((await provider!.getCode(recorded.address)) === "0x") {
+        throw new Error(
+          `${name} in ${options.manifestFile} has no code at ${recorded.address}, the manifest does not match this chain`
+        );
+      }
+      log(`${name}: reusing ${recorded.address}`);
+      return (await deployer.getContractAt(
+        name,
+        recorded.address,
+        signer
+      )) as Contract;
+    }
+
+    const contract = (await deployer.deployContract(
+      name,
+      args,
+      signer
+    )) as Contract;
+    await contract.waitForDeployment();
+    const receipt = await contract.deploymentTransaction()!.wait();
+    manifest.contracts[name] = {
+      address: await contract.getAddress(),
+      args: serializeArgs(args),
+      txHash: receipt!.hash,
+      blockNumber: receipt!.blockNumber,
+    };
+    await save();
+    log(`${name}: deployed at ${manifest.contracts[name].address}`);
+    return contract;
+  }
+
+  async function step(
+    name: string,
+    send: () => Promise<ContractTransactionResponse[]>
+  ): Promise<void> {
+    if (manifest.steps[name]) {
+      log(`${name}: already done`);
+      return;
+    }
+    const txHashes: string[] = [];
+    let blockNumber = 0;
+    for (const tx of await send()) {
+      const receipt = await tx.wait();
+      txHashes.push(receipt!.hash);
+      blockNumber = receipt!.blockNumber;
+    }
+    manifest.steps[name] = { txHashes, blockNumber };
+    await save();
+    log(`${name}: done`);
+  }
+
+  const token = await deploy("CPROToken", []);
+  const tokenAddress = await token.getAddress();
+  const vesting = await deploy("CPROVesting", [tokenAddress]);
+  const { poolSize, beneficiaries, sweepRecipient } = config.locking;
+  const locking = await deploy("CPROLocking", [
+    tokenAddress,
+    poolSize,
+    beneficiaries,
+    sweepRecipient,
+  ]);
+  const lockingAddress = await locking.getAddress();
+
+  if (config.locking.fund) {
+    await step("fundLocking", async () => {
+      const balance: bigint = await token.balanceOf(deployerAddress);
+      if (balance < poolSize) {
+        throw new Error(
+          `the deployer holds ${balance}, funding the locking pool needs ${poolSize}`
+        );
+      }
+      // Sequential, fund pulls what approve allowed
+      const approval = await token.approve(lockingAddress, poolSize);
+      await approval.wait();
+      return [approval, await locking.fund(poolSize)];
+    });
+  }
+
+  if (config.admin) {
+    const admin = config.admin;
+    await step("transferVestingOwnership", async () => [
+      await vesting.transferOwnership(admin),
+    ]);
+    await step("transferLockingOwnership", async () => [
+      await locking.transferOwnership(admin),
+    ]);
+    await step("grantTokenRoles", async () => {
+      const txs: ContractTransactionResponse[] = [];
+      for (const role of TOKEN_ROLES) {
+        txs.push(await token.grantRole(await token[role](), admin));
+      }
+      return txs;
+    });
+    // Last, the deployer loses DEFAULT_ADMIN_ROLE and cannot fix anything after it
+    await step("renounceDeployerTokenRoles", async () => {
+      const txs: ContractTransactionResponse[] = [];
+      for (const role of TOKEN_ROLES) {
+        txs.push(
+          await token.renounceRole(await token[role](), deployerAddress)
+        );
+      }
+      return txs;
+    });
+  }
+
+  return manifest;
+}
@@ -0,0 +1,88 @@
+import { createServer, type Server, type ServerResponse } from "node:http";
+import { getAddress, isAddress } from "ethers";
+import type { IndexerStore } from "./store.js";
+
+/**
+ * HTTP/JSON API over an index. Amounts are decimal strings, every response
+ * carries the block the index has reached.
+ *
+ * - `GET /status`: chain and last indexed block
+ * - `GET /positions/:address`: vesting schedules and locks held by the address
+ * - `GET /claims/:address`: vesting and locking payouts to the address
+ * - `GET /supply`: total supply and every mint and burn
+ * - `GET /expiries`: locks and Merkle allocations expired after their claim window
+ */
+export function createApiServer(store: IndexerStore): Server {
+  return createServer((request, response) => {
+    if (request.method !== "GET") {
+      return send(response, 405, { error: "only GET is supported" });
+    }
+    const [resource, address, ...rest] = new URL(
+      request.url ?? "/",
+      "http://localhost"
+    ).pathname
+      .split("/")
+      .filter(Boolean);
+    const indexedBlock = store.indexedBlock;
+
+    try {
+      if (resource === "status" && address === undefined) {
+        return send(response, 200, { chainId: store.chainId, indexedBlock });
+      }
+      if (resource === "supply" && address === undefined) {
+        const changes = store.getSupplyChanges();
+        const totalSupply = changes.reduce(
+          (total, change) =>
+            change.kind === "mint"
+              ? total + change.amount
+              : total - change.amount,
+          0n
+        );
+        return send(response, 200, { indexedBlock, totalSupply, changes });
+      }
+      if (resource === "expiries" && address === undefined) {
+        return send(response, 200, { indexedBlock, ...store.getExpiries() });
+      }
+      if (
+        (resource === "positions" || resource === "claims") &&
+        address !== undefined &&
+        rest.length === 0
+      ) {
+        if (!isAddress(address)) {
+          return send(response, 400, { error: `invalid address ${address}` });
+        }
+        const account = getAddress(address);
+        return send(
+          response,
+          200,
+          resource === "positions"
+            ? {
+                address: account,
+                indexedBlock,
+                schedules: store.getSchedules(account),
+                locks: store.getLocks(account),
+              }
+            : {
+                address: account,
+                indexedBlock,
+                claims: store.getClaims(account),
+              }
+        );
+      }
+      send(response, 404, { error: "not found" });
+    } catch (error) {
+      send(response, 500, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+}
+
+function send(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { "content-type": "application/json" });
+  response.end(
+    JSON.stringify(body, (_key, value) =>
+      typeof value === "bigint" ? value.toString() : value
+    )
+  );
+}
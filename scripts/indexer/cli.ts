@@ -0,0 +1,82 @@
+/**
+ * Index the events of a CPRO deployment into SQLite and serve them over HTTP.
+ *
+ *   RPC_URL=... npx tsx scripts/indexer/cli.ts --manifest deployments/mainnet.json [--db indexer.sqlite] [--port 8080]
+ *
+ * Contract addresses and the first block are read from the deployment
+ * manifest. The chain is followed until the process is stopped; restarting it
+ * resumes from the last indexed block, and blocks that were reorganised away
+ * are rolled back before indexing continues.
+ */
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { JsonRpcProvider } from "ethers";
+import type { DeploymentManifest } from "../deploy/manifest.js";
+import { createApiServer } from "./api.js";
+import { IndexerStore } from "./store.js";
+import {
+  DEFAULT_BLOCK_RANGE,
+  DEFAULT_CONFIRMATIONS,
+  contractsFromManifest,
+  follow,
+} from "./sync.js";
+
+const { values } = parseArgs({
+  options: {
+    manifest: { type: "string" },
+    db: { type: "string", default: "indexer.sqlite" },
+    port: { type: "string", default: "8080" },
+    confirmations: { type: "string", default: String(DEFAULT_CONFIRMATIONS) },
+    "block-range": { type: "string", default: String(DEFAULT_BLOCK_RANGE) },
+    interval: { type: "string", default: "4000" },
+  },
+});
+
+async function main() {
+  if (!values.manifest) {
+    throw new Error("--manifest is required");
+  }
+  const { RPC_URL } = process.env;
+  if (!RPC_URL) {
+    throw new Error("RPC_URL must be set");
+  }
+
+  const manifest: DeploymentManifest = JSON.parse(
+    await readFile(values.manifest, "utf8")
+  );
+  const contracts = contractsFromManifest(manifest);
+  const provider = new JsonRpcProvider(RPC_URL);
+  const { chainId } = await provider.getNetwork();
+  if (chainId.toString() !== contracts.chainId) {
+    throw new Error(
+      `${values.manifest} is for chain ${contracts.chainId}, RPC_URL is on chain ${chainId}`
+    );
+  }
+
+  const store = new IndexerStore(values.db);
+  store.open(contracts);
+  const server = createApiServer(store);
+  server.listen(Number(values.port), () =>
+    console.error(`serving ${values.db} on port ${values.port}`)
+  );
+
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+  process.once("SIGTERM", () => controller.abort());
+  await follow(provider, store, contracts, {
+    confirmations: Number(values.confirmations),
+    blockRange: Number(values["block-range"]),
+    interval: Number(values.interval),
+    signal: controller.signal,
+    log: (message) => console.error(message),
+  });
+
+  server.close();
+  store.close();
+  provider.destroy();
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
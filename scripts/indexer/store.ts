@@ -0,0 +1,460 @@
+import Database from "better-sqlite3";
+
+/** Contracts followed by an index, fixed when the database is created */
+export interface IndexedContracts {
+  chainId: string;
+  token?: string;
+  vesting?: string;
+  locking?: string;
+  /** First block that can hold events of these contracts */
+  startBlock: number;
+}
+
+export type IndexedContractName = "CPROToken" | "CPROVesting" | "CPROLocking";
+
+/** A decoded event, as stored */
+export interface IndexedEvent {
+  blockNumber: number;
+  logIndex: number;
+  timestamp: number;
+  txHash: string;
+  contract: IndexedContractName;
+  name: string;
+  /** Address the event is about: beneficiary, mint receiver or burner */
+  account: string | null;
+  /** Schedule or lock ID */
+  refId: bigint | null;
+  amount: bigint | null;
+  /** Every event argument, bigints as decimal strings */
+  args: Record<string, string | number | boolean>;
+}
+
+/** Where and when an event was emitted */
+export interface EventRef {
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+}
+
+/** A vesting schedule rebuilt from its events */
+export interface IndexedSchedule {
+  scheduleId: bigint;
+  beneficiary: string;
+  totalAmount: bigint;
+  claimedAmount: bigint;
+  startTime: bigint;
+  cliffDuration: bigint;
+  vestingDuration: bigint;
+  revoked: boolean;
+  /** Amount returned on revocation, 0 while not revoked */
+  unvestedAmount: bigint;
+  created: EventRef;
+}
+
+/**
+ * A lock rebuilt from its events. Merkle allocations only appear once
+ * claimed, and their claim does not carry the lock type or unlock time.
+ */
+export interface IndexedLock {
+  lockId: bigint;
+  beneficiary: string;
+  amount: bigint;
+  lockType: number | null;
+  unlockTime: bigint | null;
+  claimed: boolean;
+  /** Left unclaimed past the claim window and released by `expireLocks` */
+  expired: boolean;
+  created: EventRef;
+}
+
+export interface IndexedClaim extends EventRef {
+  contract: "CPROVesting" | "CPROLocking";
+  /** Schedule ID for vesting, lock ID for locking */
+  id: bigint;
+  amount: bigint;
+}
+
+/** Locks and Merkle allocations released after their claim window */
+export interface IndexedExpiries {
+  locks: (EventRef & { lockId: bigint; beneficiary: string; amount: bigint })[];
+  /** Amount of the unclaimed Merkle allocations, null until they expire */
+  merkleAllocations: (EventRef & { amount: bigint }) | null;
+}
+
+export interface SupplyChange extends EventRef {
+  kind: "mint" | "burn";
+  account: string;
+  amount: bigint;
+}
+
+interface EventRow {
+  block_number: number;
+  log_index: number;
+  block_timestamp: number;
+  tx_hash: string;
+  contract: IndexedContractName;
+  name: string;
+  account: string | null;
+  ref_id: string | null;
+  amount: string | null;
+  args: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_timestamp INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    contract TEXT NOT NULL,
+    name TEXT NOT NULL,
+    account TEXT,
+    ref_id TEXT,
+    amount TEXT,
+    args TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_account ON events (account, contract);
+  CREATE INDEX IF NOT EXISTS events_by_ref ON events (contract, ref_id);
+`;
+
+const META_KEYS = ["chainId", "token", "vesting", "locking"] as const;
+
+/**
+ * SQLite store of the indexed events. The `blocks` table keeps the hashes of
+ * recent indexed blocks, which is how a reorganisation is detected and how
+ * far it is rolled back.
+ */
+export class IndexerStore {
+  private readonly db: Database.Database;
+
+  constructor(file: string) {
+    this.db = new Database(file);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  /**
+   * Bind a new database to `contracts`, or check that an existing one was
+   * created for them.
+   */
+  open(contracts: IndexedContracts): void {
+    const existing = this.getMeta("chainId");
+    if (existing === undefined) {
+      const insert = this.db.prepare(
+        "INSERT INTO meta (key, value) VALUES (?, ?)"
+      );
+      this.db.transaction(() => {
+        for (const key of META_KEYS) {
+          insert.run(key, contracts[key]?.toLowerCase() ?? "");
+        }
+        insert.run("indexedBlock", String(contracts.startBlock - 1));
+      })();
+      return;
+    }
+    for (const key of META_KEYS) {
+      const stored = this.getMeta(key);
+      if (stored !== (contracts[key]?.toLowerCase() ?? "")) {
+        throw new Error(
+          `database was created for another ${key} (${stored}), use a new file`
+        );
+      }
+    }
+  }
+
+  /** Last block whose events are all stored */
+  get indexedBlock(): number {
+    return Number(this.getMeta("indexedBlock"));
+  }
+
+  get chainId(): string | undefined {
+    return this.getMeta("chainId");
+  }
+
+  /** Stored block hashes, most recent first */
+  recentBlocks(): { number: number; hash: string }[] {
+    return this.db
+      .prepare("SELECT number, hash FROM blocks ORDER BY number DESC")
+      .all() as { number: number; hash: string }[];
+  }
+
+  /**
+   * Store the events of a block range and move the indexed block to `toBlock`.
+   * `blocks` are the hashes to remember for reorg detection, those older than
+   * `keepFrom` are forgotten.
+   */
+  append(
+    events: IndexedEvent[],
+    blocks: { number: number; hash: string }[],
+    toBlock: number,
+    keepFrom: number
+  ): void {
+    const insertEvent = this.db.prepare(
+      `INSERT INTO events (block_number, log_index, block_timestamp, tx_hash, contract, name, account, ref_id, amount, args)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    const insertBlock = this.db.prepare(
+      "INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)"
+    );
+    this.db.transaction(() => {
+      for (const event of events) {
+        insertEvent.run(
+          event.blockNumber,
+          event.logIndex,
+          event.timestamp,
+          event.txHash,
+          event.contract,
+          event.name,
+          event.account?.toLowerCase() ?? null,
+          event.refId?.toString() ?? null,
+          event.amount?.toString() ?? null,
+          JSON.stringify(event.args)
+        );
+      }
+      for (const block of blocks) {
+        insertBlock.run(block.number, block.hash);
+      }
+      this.db.prepare("DELETE FROM blocks WHERE number < ?").run(keepFrom);
+      this.setMeta("indexedBlock", String(toBlock));
+    })();
+  }
+
+  /** Forget everything after `blockNumber` */
+  rollback(blockNumber: number): void {
+    this.db.transaction(() => {
+      this.db
+        .prepare("DELETE FROM events WHERE block_number > ?")
+        .run(blockNumber);
+      this.db.prepare("DELETE FROM blocks WHERE number > ?").run(blockNumber);
+      this.setMeta("indexedBlock", String(blockNumber));
+    })();
+  }
+
+  /** Vesting schedules currently held by `account` */
+  getSchedules(account: string): IndexedSchedule[] {
+    const rows = this.refEvents(account, "CPROVesting", [
+      "VestingScheduleCreated",
+      "ScheduleTransferred",
+    ]);
+    const schedules = new Map<string, IndexedSchedule>();
+    for (const row of rows) {
+      const args = JSON.parse(row.args);
+      const schedule = schedules.get(row.ref_id!);
+      switch (row.name) {
+        case "VestingScheduleCreated":
+          schedules.set(row.ref_id!, {
+            scheduleId: BigInt(row.ref_id!),
+            beneficiary: args.beneficiary,
+            totalAmount: BigInt(args.totalAmount),
+            claimedAmount: 0n,
+            startTime: BigInt(args.startTime),
+            cliffDuration: BigInt(args.cliffDuration),
+            vestingDuration: BigInt(args.vestingDuration),
+            revoked: false,
+            unvestedAmount: 0n,
+            created: toRef(row),
+          });
+          break;
+        case "TokensClaimed":
+          schedule!.claimedAmount += BigInt(row.amount!);
+          break;
+        case "VestingRevoked":
+          schedule!.revoked = true;
+          schedule!.unvestedAmount = BigInt(row.amount!);
+          break;
+        case "ScheduleTransferred":
+          schedule!.beneficiary = args.newBeneficiary;
+          break;
+      }
+    }
+    return [...schedules.values()].filter(
+      (schedule) => schedule.beneficiary.toLowerCase() === account.toLowerCase()
+    );
+  }
+
+  /** Locks currently held by `account`, including its claimed Merkle allocation */
+  getLocks(account: string): IndexedLock[] {
+    const rows = this.refEvents(account, "CPROLocking", [
+      "BeneficiaryAdded",
+      "Claimed",
+      "LockTransferred",
+    ]);
+    const locks = new Map<string, IndexedLock>();
+    for (const row of rows) {
+      const args = JSON.parse(row.args);
+      const lock = locks.get(row.ref_id!);
+      switch (row.name) {
+        case "BeneficiaryAdded":
+          locks.set(row.ref_id!, {
+            lockId: BigInt(row.ref_id!),
+            beneficiary: args.beneficiary,
+            amount: BigInt(row.amount!),
+            lockType: Number(args.lockType),
+            unlockTime: BigInt(args.unlockTime),
+            claimed: false,
+            expired: false,
+            created: toRef(row),
+          });
+          break;
+        case "Claimed":
+          if (lock) {
+            lock.claimed = true;
+          } else {
+            locks.set(row.ref_id!, {
+              lockId: BigInt(row.ref_id!),
+              beneficiary: args.beneficiary,
+              amount: BigInt(row.amount!),
+              lockType: null,
+              unlockTime: null,
+              claimed: true,
+              expired: false,
+              created: toRef(row),
+            });
+          }
+          break;
+        case "LockTransferred":
+          lock!.beneficiary = args.to;
+          break;
+        case "LockExpired":
+          lock!.expired = true;
+          break;
+        case "LockExtended":
+          lock!.unlockTime = BigInt(args.unlockTime);
+          lock!.amount += BigInt(row.amount!);
+          break;
+        case "LockToppedUp":
+          lock!.amount += BigInt(row.amount!);
+          break;
+      }
+    }
+    return [...locks.values()].filter(
+      (lock) => lock.beneficiary.toLowerCase() === account.toLowerCase()
+    );
+  }
+
+  /** Vesting and locking payouts to `account`, oldest first */
+  getClaims(account: string): IndexedClaim[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM events
+         WHERE account = ?
+           AND ((contract = 'CPROVesting' AND name = 'TokensClaimed')
+             OR (contract = 'CPROLocking' AND name = 'Claimed'))
+         ORDER BY block_number, log_index`
+      )
+      .all(account.toLowerCase()) as EventRow[];
+    return rows.map((row) => ({
+      ...toRef(row),
+      contract: row.contract as IndexedClaim["contract"],
+      id: BigInt(row.ref_id!),
+      amount: BigInt(row.amount!),
+    }));
+  }
+
+  /** Expired locks, oldest first, and the expiry of the Merkle allocations */
+  getExpiries(): IndexedExpiries {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM events
+         WHERE contract = 'CPROLocking'
+           AND name IN ('LockExpired', 'MerkleAllocationsExpired')
+         ORDER BY block_number, log_index`
+      )
+      .all() as EventRow[];
+    const merkle = rows.find((row) => row.name === "MerkleAllocationsExpired");
+    return {
+      locks: rows
+        .filter((row) => row.name === "LockExpired")
+        .map((row) => ({
+          ...toRef(row),
+          lockId: BigInt(row.ref_id!),
+          beneficiary: JSON.parse(row.args).beneficiary,
+          amount: BigInt(row.amount!),
+        })),
+      merkleAllocations: merkle
+        ? { ...toRef(merkle), amount: BigInt(merkle.amount!) }
+        : null,
+    };
+  }
+
+  /** Mints and burns of CPRO, oldest first */
+  getSupplyChanges(): SupplyChange[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM events
+         WHERE contract = 'CPROToken' AND name = 'Transfer'
+         ORDER BY block_number, log_index`
+      )
+      .all() as EventRow[];
+    return rows.map((row) => {
+      const args = JSON.parse(row.args);
+      return {
+        ...toRef(row),
+        kind: BigInt(args.from) === 0n ? "mint" : "burn",
+        account: BigInt(args.from) === 0n ? args.to : args.from,
+        amount: BigInt(row.amount!),
+      };
+    });
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Every event of the schedules or locks that `account` was ever given
+   * through one of `entryEvents`, in chain order.
+   */
+  private refEvents(
+    account: string,
+    contract: IndexedContractName,
+    entryEvents: string[]
+  ): EventRow[] {
+    return this.db
+      .prepare(
+        `SELECT * FROM events
+         WHERE contract = ? AND ref_id IN (
+           SELECT ref_id FROM events
+           WHERE account = ? AND contract = ? AND name IN (${entryEvents
+             .map(() => "?")
+             .join(", ")})
+         )
+         ORDER BY block_number, log_index`
+      )
+      .all(
+        contract,
+        account.toLowerCase(),
+        contract,
+        ...entryEvents
+      ) as EventRow[];
+  }
+
+  private getMeta(key: string): string | undefined {
+    const row = this.db
+      .prepare("SELECT value FROM meta WHERE key = ?")
+      .get(key) as { value: string } | undefined;
+    return row?.value;
+  }
+
+  private setMeta(key: string, value: string): void {
+    this.db
+      .prepare("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)")
+      .run(key, value);
+  }
+}
+
+function toRef(row: EventRow): EventRef {
+  return {
+    blockNumber: row.block_number,
+    timestamp: row.block_timestamp,
+    txHash: row.tx_hash,
+  };
+}
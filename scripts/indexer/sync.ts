@@ -0,0 +1,342 @@
+import { setTimeout as sleep } from "node:timers/promises";
+import {
+  Interface,
+  ZeroAddress,
+  ZeroHash,
+  type Log,
+  type Provider,
+  type Result,
+} from "ethers";
+import {
+  CPRO_LOCKING_ABI,
+  CPRO_TOKEN_ABI,
+  CPRO_VESTING_ABI,
+} from "../../sdk/src/index.js";
+import type { DeploymentManifest } from "../deploy/manifest.js";
+import type {
+  IndexedContractName,
+  IndexedContracts,
+  IndexedEvent,
+  IndexerStore,
+} from "./store.js";
+
+export interface SyncOptions {
+  /** Blocks behind the head that are not indexed yet */
+  confirmations?: number;
+  /** Blocks per `eth_getLogs` call */
+  blockRange?: number;
+  /** Recent block hashes kept, the deepest reorg rolled back precisely */
+  reorgDepth?: number;
+  log?: (message: string) => void;
+}
+
+export interface SyncResult {
+  /** Block the index was rolled back to after a reorg */
+  rolledBackTo?: number;
+  /** Last indexed block */
+  indexedBlock: number;
+  /** Events stored by this call */
+  events: number;
+}
+
+export const DEFAULT_CONFIRMATIONS = 2;
+export const DEFAULT_BLOCK_RANGE = 2000;
+export const DEFAULT_REORG_DEPTH = 64;
+
+type EventKey = Pick<IndexedEvent, "account" | "refId" | "amount">;
+
+/** Indexed events of each contract, with the account, ID and amount they carry */
+const INDEXED_EVENTS: Record<
+  IndexedContractName,
+  Record<string, (args: Result) => EventKey>
+> = {
+  CPROVesting: {
+    VestingScheduleCreated: (args) => ({
+      account: args.beneficiary,
+      refId: args.scheduleId,
+      amount: args.totalAmount,
+    }),
+    TokensClaimed: (args) => ({
+      account: args.beneficiary,
+      refId: args.scheduleId,
+      amount: args.amount,
+    }),
+    VestingRevoked: (args) => ({
+      account: args.beneficiary,
+      refId: args.scheduleId,
+      amount: args.unvestedAmount,
+    }),
+    ScheduleTransferred: (args) => ({
+      account: args.newBeneficiary,
+      refId: args.scheduleId,
+      amount: null,
+    }),
+  },
+  CPROLocking: {
+    BeneficiaryAdded: (args) => ({
+      account: args.beneficiary,
+      refId: args.lockId,
+      amount: args.amount,
+    }),
+    Claimed: (args) => ({
+      account: args.beneficiary,
+      refId: args.lockId,
+      amount: args.amount,
+    }),
+    Swept: (args) => ({ account: args.to, refId: null, amount: args.amount }),
+    LockTransferred: (args) => ({
+      account: args.to,
+      refId: args.lockId,
+      amount: null,
+    }),
+    LockExpired: (args) => ({
+      account: args.beneficiary,
+      refId: args.lockId,
+      amount: args.amount,
+    }),
+    MerkleAllocationsExpired: (args) => ({
+      account: null,
+      refId: null,
+      amount: args.amount,
+    }),
+    LockExtended: (args) => ({
+      account: null,
+      refId: args.lockId,
+      amount: args.bonus,
+    }),
+    LockToppedUp: (args) => ({
+      account: null,
+      refId: args.lockId,
+      amount: args.amount,
+    }),
+  },
+  CPROToken: {
+    TokensMinted: (args) => ({
+      account: args.to,
+      refId: null,
+      amount: args.amount,
+    }),
+    // Only mints and burns are fetched, see `fetchLogs`
+    Transfer: (args) => ({
+      account: args.from === ZeroAddress ? args.to : args.from,
+      refId: null,
+      amount: args.value,
+    }),
+  },
+};
+
+const INTERFACES: Record<IndexedContractName, Interface> = {
+  CPROToken: new Interface(CPRO_TOKEN_ABI),
+  CPROVesting: new Interface(CPRO_VESTING_ABI),
+  CPROLocking: new Interface(CPRO_LOCKING_ABI),
+};
+
+const TRANSFER_TOPIC = INTERFACES.CPROToken.getEvent("Transfer")!.topicHash;
+
+/** Topics of every indexed event but `Transfer`, fetched in one query */
+const EVENT_TOPICS = (Object.keys(INDEXED_EVENTS) as IndexedContractName[])
+  .flatMap((contract) =>
+    Object.keys(INDEXED_EVENTS[contract]).map(
+      (name) => INTERFACES[contract].getEvent(name)!.topicHash
+    )
+  )
+  .filter((topic) => topic !== TRANSFER_TOPIC);
+
+/** Contracts of a deployment manifest, indexed from the first deployment block */
+export function contractsFromManifest(
+  manifest: DeploymentManifest
+): IndexedContracts {
+  const { CPROToken, CPROVesting, CPROLocking } = manifest.contracts;
+  const deployed = [CPROToken, CPROVesting, CPROLocking].filter(Boolean);
+  if (deployed.length === 0) {
+    throw new Error(`the manifest of ${manifest.network} has no contracts`);
+  }
+  return {
+    chainId: manifest.chainId,
+    token: CPROToken?.address,
+    vesting: CPROVesting?.address,
+    locking: CPROLocking?.address,
+    startBlock: Math.min(...deployed.map((contract) => contract.blockNumber)),
+  };
+}
+
+/**
+ * Roll back a reorganisation, then index every block up to the head minus
+ * `confirmations`. The store is updated after each block range, so an
+ * interrupted sync resumes where it stopped.
+ */
+export async function syncOnce(
+  provider: Provider,
+  store: IndexerStore,
+  contracts: IndexedContracts,
+  options: SyncOptions = {}
+): Promise<SyncResult> {
+  const confirmations = options.confirmations ?? DEFAULT_CONFIRMATIONS;
+  const blockRange = options.blockRange ?? DEFAULT_BLOCK_RANGE;
+  const reorgDepth = options.reorgDepth ?? DEFAULT_REORG_DEPTH;
+  const log = options.log ?? (() => {});
+
+  const result: SyncResult = { indexedBlock: store.indexedBlock, events: 0 };
+  const rolledBackTo = await findForkPoint(provider, store, contracts);
+  if (rolledBackTo !== undefined) {
+    log(`reorg detected, rolling back to block ${rolledBackTo}`);
+    store.rollback(rolledBackTo);
+    result.rolledBackTo = rolledBackTo;
+  }
+
+  const target = (await provider.getBlockNumber()) - confirmations;
+  for (
+    let fromBlock = store.indexedBlock + 1;
+    fromBlock <= target;
+    fromBlock += blockRange
+  ) {
+    const toBlock = Math.min(fromBlock + blockRange - 1, target);
+    const logs = await fetchLogs(provider, contracts, fromBlock, toBlock);
+
+    // Blocks holding events plus the range end, whose hashes are kept
+    const numbers = [...new Set([...logs.map((l) => l.blockNumber), toBlock])];
+    const blocks = new Map<number, { hash: string; timestamp: number }>();
+    for (const number of numbers) {
+      const block = await provider.getBlock(number);
+      if (!block?.hash) {
+        throw new Error(`block ${number} is not available`);
+      }
+      blocks.set(number, { hash: block.hash, timestamp: block.timestamp });
+    }
+    for (const entry of logs) {
+      if (blocks.get(entry.blockNumber)!.hash !== entry.blockHash) {
+        throw new Error(
+          `block ${entry.blockNumber} changed while indexing, retry later`
+        );
+      }
+    }
+
+    const events = logs.map((entry) =>
+      decodeLog(contracts, entry, blocks.get(entry.blockNumber)!.timestamp)
+    );
+    store.append(
+      events,
+      [...blocks].map(([number, { hash }]) => ({ number, hash })),
+      toBlock,
+      toBlock - reorgDepth
+    );
+    result.indexedBlock = toBlock;
+    result.events += events.length;
+    log(`indexed blocks ${fromBlock}-${toBlock}, ${events.length} events`);
+  }
+  return result;
+}
+
+/**
+ * Keep the index in sync until `signal` is aborted, polling every
+ * `interval` milliseconds. Failed rounds are logged and retried.
+ */
+export async function follow(
+  provider: Provider,
+  store: IndexerStore,
+  contracts: IndexedContracts,
+  options: SyncOptions & { interval: number; signal: AbortSignal }
+): Promise<void> {
+  const log = options.log ?? (() => {});
+  while (!options.signal.aborted) {
+    try {
+      await syncOnce(provider, store, contracts, options);
+    } catch (error) {
+      log(`sync failed: ${error instanceof Error ? error.message : error}`);
+    }
+    // Rejects once aborted, which ends the loop
+    await sleep(options.interval, undefined, { signal: options.signal }).catch(
+      () => {}
+    );
+  }
+}
+
+/**
+ * The last stored block still on the chain when the indexed head was
+ * reorganised, undefined when it was not. A reorg deeper than the kept
+ * hashes restarts from the first block.
+ */
+async function findForkPoint(
+  provider: Provider,
+  store: IndexerStore,
+  contracts: IndexedContracts
+): Promise<number | undefined> {
+  const recent = store.recentBlocks();
+  for (const [i, stored] of recent.entries()) {
+    const block = await provider.getBlock(stored.number);
+    if (block?.hash === stored.hash) {
+      return i === 0 ? undefined : stored.number;
+    }
+  }
+  return recent.length === 0 ? undefined : contracts.startBlock - 1;
+}
+
+/** Events of the indexed contracts, in chain order */
+async function fetchLogs(
+  provider: Provider,
+  contracts: IndexedContracts,
+  fromBlock: number,
+  toBlock: number
+): Promise<Log[]> {
+  const addresses = [contracts.vesting, contracts.locking, contracts.token];
+  const queries = [
+    provider.getLogs({
+      address: addresses.filter((address) => address !== undefined),
+      topics: [EVENT_TOPICS],
+      fromBlock,
+      toBlock,
+    }),
+  ];
+  if (contracts.token) {
+    // Mints and burns, every other transfer is left out
+    for (const filter of [
+      [TRANSFER_TOPIC, ZeroHash],
+      [TRANSFER_TOPIC, null, ZeroHash],
+    ]) {
+      queries.push(
+        provider.getLogs({
+          address: contracts.token,
+          topics: filter,
+          fromBlock,
+          toBlock,
+        })
+      );
+    }
+  }
+  return (await Promise.all(queries))
+    .flat()
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+}
+
+function decodeLog(
+  contracts: IndexedContracts,
+  entry: Log,
+  timestamp: number
+): IndexedEvent {
+  const address = entry.address.toLowerCase();
+  const contract: IndexedContractName =
+    address === contracts.vesting?.toLowerCase()
+      ? "CPROVesting"
+      : address === contracts.locking?.toLowerCase()
+      ? "CPROLocking"
+      : "CPROToken";
+  const parsed = INTERFACES[contract].parseLog(entry)!;
+  return {
+    blockNumber: entry.blockNumber,
+    logIndex: entry.index,
+    timestamp,
+    txHash: entry.transactionHash,
+    contract,
+    name: parsed.name,
+    ...INDEXED_EVENTS[contract][parsed.name](parsed.args),
+    args: Object.fromEntries(
+      parsed.fragment.inputs.map((input, i) => {
+        const value = parsed.args[i];
+        return [
+          input.name,
+          typeof value === "bigint" ? value.toString() : value,
+        ];
+      })
+    ),
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Snapshot every vesting schedule and lock at a block, as CSV or JSON.
+ *
+ *   RPC_URL=... npx tsx scripts/report/cli.ts --vesting 0x... --locking 0x... [--block 19000000] [--format json] [--out snapshot.csv]
+ *
+ * Positions are read through the paginated views of CPROVesting and
+ * CPROLocking, all at the same block. The report goes to stdout unless
+ * `--out` is given.
+ */
+import { writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { JsonRpcProvider } from "ethers";
+import {
+  DEFAULT_PAGE_SIZE,
+  snapshotToCsv,
+  snapshotToJson,
+  takeSnapshot,
+} from "./snapshot.js";
+
+const { values } = parseArgs({
+  options: {
+    vesting: { type: "string" },
+    locking: { type: "string" },
+    block: { type: "string" },
+    format: { type: "string", default: "csv" },
+    out: { type: "string" },
+    "page-size": { type: "string", default: String(DEFAULT_PAGE_SIZE) },
+  },
+});
+
+async function main() {
+  if (!values.vesting && !values.locking) {
+    throw new Error("--vesting or --locking is required");
+  }
+  if (values.format !== "csv" && values.format !== "json") {
+    throw new Error(`--format must be csv or json, got ${values.format}`);
+  }
+  const { RPC_URL } = process.env;
+  if (!RPC_URL) {
+    throw new Error("RPC_URL must be set");
+  }
+
+  const snapshot = await takeSnapshot(new JsonRpcProvider(RPC_URL), {
+    vesting: values.vesting,
+    locking: values.locking,
+    blockTag: values.block !== undefined ? Number(values.block) : undefined,
+    pageSize: Number(values["page-size"]),
+    log: (message) => console.error(message),
+  });
+  const report =
+    values.format === "json"
+      ? snapshotToJson(snapshot)
+      : snapshotToCsv(snapshot);
+
+  if (values.out) {
+    await writeFile(values.out, report);
+    console.error(
+      `snapshot of block ${snapshot.blockNumber} written to ${values.out}`
+    );
+  } else {
+    process.stdout.write(report);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
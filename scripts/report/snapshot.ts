@@ -0,0 +1,171 @@
+import type { BlockTag, Provider } from "ethers";
+import {
+  CproLockingClient,
+  CproVestingClient,
+  type LockInfo,
+  type LockingTotals,
+  type LockTypeTotals,
+  type VestingPosition,
+  type VestingTotals,
+} from "../../sdk/src/index.js";
+
+/** Every vesting schedule and lock, read at a single block */
+export interface PositionSnapshot {
+  chainId: bigint;
+  blockNumber: number;
+  blockTimestamp: number;
+  vesting?: {
+    address: string;
+    totals: VestingTotals;
+    schedules: VestingPosition[];
+  };
+  locking?: {
+    address: string;
+    totals: LockingTotals;
+    lockTypes: LockTypeTotals[];
+    locks: LockInfo[];
+  };
+}
+
+export interface SnapshotOptions {
+  /** CPROVesting address, vesting is skipped when omitted */
+  vesting?: string;
+  /** CPROLocking address, locking is skipped when omitted */
+  locking?: string;
+  /** Block to read at, latest when omitted */
+  blockTag?: BlockTag;
+  /** Schedules or locks read per call */
+  pageSize?: number;
+  log?: (message: string) => void;
+}
+
+export const DEFAULT_PAGE_SIZE = 200;
+
+/**
+ * Read every position of the vesting and locking contracts at one block.
+ * The block is resolved first, so that all pages see the same state.
+ */
+export async function takeSnapshot(
+  provider: Provider,
+  options: SnapshotOptions
+): Promise<PositionSnapshot> {
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const log = options.log ?? (() => {});
+
+  const block = await provider.getBlock(options.blockTag ?? "latest");
+  if (!block) {
+    throw new Error(`block ${options.blockTag} not found`);
+  }
+  const { chainId } = await provider.getNetwork();
+  const snapshot: PositionSnapshot = {
+    chainId,
+    blockNumber: block.number,
+    blockTimestamp: block.timestamp,
+  };
+
+  if (options.vesting) {
+    const vesting = new CproVestingClient(options.vesting, provider);
+    const count = await vesting.getScheduleCount(block.number);
+    const schedules: VestingPosition[] = [];
+    while (schedules.length < count) {
+      schedules.push(
+        ...(await vesting.getSchedulesPage(
+          schedules.length,
+          pageSize,
+          block.number
+        ))
+      );
+      log(`vesting: ${schedules.length}/${count} schedules`);
+    }
+    snapshot.vesting = {
+      address: options.vesting,
+      totals: await vesting.getTotals(block.number),
+      schedules,
+    };
+  }
+
+  if (options.locking) {
+    const locking = new CproLockingClient(options.locking, provider);
+    const count = await locking.getLockCount(block.number);
+    const locks: LockInfo[] = [];
+    while (locks.length < count) {
+      locks.push(
+        ...(await locking.getLocksPage(locks.length, pageSize, block.number))
+      );
+      log(`locking: ${locks.length}/${count} locks`);
+    }
+    snapshot.locking = {
+      address: options.locking,
+      totals: await locking.getTotals(block.number),
+      lockTypes: await locking.getLockTypeTotals(block.number),
+      locks,
+    };
+  }
+
+  return snapshot;
+}
+
+/** The snapshot as JSON, with amounts and timestamps as decimal strings */
+export function snapshotToJson(snapshot: PositionSnapshot): string {
+  return JSON.stringify(
+    snapshot,
+    (_key, value) => (typeof value === "bigint" ? value.toString() : value),
+    2
+  );
+}
+
+export const CSV_HEADER =
+  "contract,id,beneficiary,lock_type,amount,claimed,vested,start,end,status";
+
+/**
+ * The snapshot as CSV, one row per vesting schedule then per lock. Amounts
+ * are in wei, `start`/`end` are unix seconds (`start` is empty for locks).
+ * Status is `active`, `completed` or `revoked` for schedules and `locked`,
+ * `unlocked` or `claimed` for locks.
+ */
+export function snapshotToCsv(snapshot: PositionSnapshot): string {
+  const rows = [CSV_HEADER];
+
+  for (const schedule of snapshot.vesting?.schedules ?? []) {
+    const status = schedule.revoked
+      ? "revoked"
+      : schedule.claimedAmount === schedule.totalAmount
+      ? "completed"
+      : "active";
+    rows.push(
+      [
+        "vesting",
+        schedule.scheduleId,
+        schedule.beneficiary,
+        "",
+        schedule.totalAmount,
+        schedule.claimedAmount,
+        schedule.vestedAmount,
+        schedule.startTime,
+        schedule.startTime + schedule.vestingDuration,
+        status,
+      ].join(",")
+    );
+  }
+
+  for (const lock of snapshot.locking?.locks ?? []) {
+    const unlocked = lock.unlockTime <= BigInt(snapshot.blockTimestamp);
+    const status = lock.claimed ? "claimed" : unlocked ? "unlocked" : "locked";
+    rows.push(
+      [
+        "locking",
+        lock.lockId,
+        lock.owner,
+        lock.lockType,
+        lock.amount,
+        lock.claimed ? lock.amount : 0n,
+        unlocked ? lock.amount : 0n,
+        "",
+        lock.unlockTime,
+        status,
+      ].join(",")
+    );
+  }
+
+  return rows.join("\n") + "\n";
+}
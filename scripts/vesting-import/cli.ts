@@ -0,0 +1,110 @@
+/**
+ * Import vesting schedules from a CSV into CPROVesting.
+ *
+ *   npx tsx scripts/vesting-import/cli.ts --file round.csv --vesting 0x... [--dry-run --fork-url http://127.0.0.1:8545]
+ *
+ * The CSV columns are `address,amount,start,cliff,duration,revocable`. The
+ * file is always validated offline first. With `--dry-run` the import is
+ * replayed on a Hardhat fork as the impersonated owner and nothing is sent to
+ * the real chain. Otherwise rows are submitted with RPC_URL / PRIVATE_KEY in
+ * gas-bounded chunks and progress is saved around every batch, so an
+ * interrupted run can simply be started again without sending a batch twice.
+ */
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { JsonRpcProvider, Wallet, formatUnits, parseUnits } from "ethers";
+import { CproTokenClient, CproVestingClient } from "../../sdk/src/index.js";
+import { parseVestingCsv } from "./csv.js";
+import {
+  DEFAULT_CHUNK_SIZE,
+  DEFAULT_MAX_GAS,
+  dryRunVestingRows,
+  hashCsv,
+  submitVestingRows,
+} from "./submit.js";
+
+const { values } = parseArgs({
+  options: {
+    file: { type: "string" },
+    vesting: { type: "string" },
+    decimals: { type: "string", default: "18" },
+    "expected-total": { type: "string" },
+    "allow-duplicates": { type: "boolean", default: false },
+    "chunk-size": { type: "string", default: String(DEFAULT_CHUNK_SIZE) },
+    "max-gas": { type: "string", default: String(DEFAULT_MAX_GAS) },
+    progress: { type: "string" },
+    "dry-run": { type: "boolean", default: false },
+    "fork-url": { type: "string", default: "http://127.0.0.1:8545" },
+  },
+});
+
+async function main() {
+  if (!values.file || !values.vesting) {
+    throw new Error("--file and --vesting are required");
+  }
+  const decimals = Number(values.decimals);
+  const content = await readFile(values.file, "utf8");
+
+  const { rows, total, errors, warnings } = parseVestingCsv(content, {
+    decimals,
+    allowDuplicates: values["allow-duplicates"],
+    expectedTotal:
+      values["expected-total"] !== undefined
+        ? parseUnits(values["expected-total"], decimals)
+        : undefined,
+  });
+  warnings.forEach((warning) => console.warn(`warning: ${warning}`));
+  if (errors.length > 0) {
+    errors.forEach((error) => console.error(`error: ${error}`));
+    throw new Error(`${values.file} has ${errors.length} invalid rows`);
+  }
+  console.log(
+    `${rows.length} schedules, ${formatUnits(total, decimals)} tokens in total`
+  );
+
+  const options = {
+    csvHash: hashCsv(content),
+    chunkSize: Number(values["chunk-size"]),
+    maxGas: BigInt(values["max-gas"]),
+    log: (message: string) => console.log(message),
+  };
+
+  if (values["dry-run"]) {
+    const fork = new JsonRpcProvider(values["fork-url"]);
+    const report = await dryRunVestingRows(fork, values.vesting, rows, options);
+    console.log(
+      `dry run OK: ${report.scheduleCount} schedules in ${report.batches.length} transactions, ${report.gasUsed} gas, as owner ${report.owner}`
+    );
+    return;
+  }
+
+  const { RPC_URL, PRIVATE_KEY } = process.env;
+  if (!RPC_URL || !PRIVATE_KEY) {
+    throw new Error("RPC_URL and PRIVATE_KEY must be set to submit");
+  }
+  const signer = new Wallet(PRIVATE_KEY, new JsonRpcProvider(RPC_URL));
+  const vesting = new CproVestingClient(values.vesting, signer);
+
+  const token = new CproTokenClient(await vesting.contract.token(), signer);
+  const allowance: bigint = await token.contract.allowance(
+    signer.address,
+    values.vesting
+  );
+  if (allowance < total) {
+    console.log(`approving ${formatUnits(total, decimals)} tokens`);
+    await token.approve(values.vesting, total);
+  }
+
+  const progress = await submitVestingRows(vesting, rows, {
+    ...options,
+    progressFile: values.progress ?? `${values.file}.progress.json`,
+  });
+  console.log(
+    `done: ${progress.completedRows} schedules in ${progress.batches.length} transactions`
+  );
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,169 @@
+import { getAddress, isAddress, parseUnits } from "ethers";
+
+/** One schedule to create, as read from the import CSV */
+export interface VestingImportRow {
+  /** 1-based line number in the CSV file, for error reporting */
+  line: number;
+  beneficiary: string;
+  totalAmount: bigint;
+  startTime: bigint;
+  cliffDuration: bigint;
+  vestingDuration: bigint;
+  /** Whether the owner can revoke the schedule, fixed at creation */
+  revocable: boolean;
+}
+
+export interface VestingCsvOptions {
+  /** Decimals of the vested token, amounts in the CSV are in whole tokens */
+  decimals?: number;
+  /** Accept several rows for the same beneficiary */
+  allowDuplicates?: boolean;
+  /** Reject the file unless the amounts sum up to exactly this value (in wei) */
+  expectedTotal?: bigint;
+}
+
+export interface VestingCsvResult {
+  rows: VestingImportRow[];
+  total: bigint;
+  errors: string[];
+  warnings: string[];
+}
+
+const COLUMNS = [
+  "address",
+  "amount",
+  "start",
+  "cliff",
+  "duration",
+  "revocable",
+] as const;
+
+/**
+ * Parse and validate an import CSV with the columns
+ * `address,amount,start,cliff,duration,revocable` (start as unix seconds, cliff
+ * and duration in seconds, revocable `true` or `false`). There is no default
+ * for `revocable`, so investor schedules are never made revocable by omission.
+ * Nothing is sent on-chain; every problem is collected so the whole file can
+ * be fixed in one pass.
+ * @param content CSV file content
+ * @param options Validation options
+ */
+export function parseVestingCsv(
+  content: string,
+  options: VestingCsvOptions = {}
+): VestingCsvResult {
+  const decimals = options.decimals ?? 18;
+  const rows: VestingImportRow[] = [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const seen = new Map<string, number>();
+
+  const lines = content.split(/\r?\n/);
+  const header = lines[0]?.split(",").map((c) => c.trim().toLowerCase());
+  if (header?.join(",") !== COLUMNS.join(",")) {
+    errors.push(`line 1: expected header "${COLUMNS.join(",")}"`);
+    return { rows, total: 0n, errors, warnings };
+  }
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = i + 1;
+    if (lines[i].trim() === "") continue;
+
+    const cells = lines[i].split(",").map((c) => c.trim());
+    if (cells.length !== COLUMNS.length) {
+      errors.push(
+        `line ${line}: expected ${COLUMNS.length} columns, got ${cells.length}`
+      );
+      continue;
+    }
+    const [address, amount, start, cliff, duration, revocable] = cells;
+
+    let beneficiary: string;
+    try {
+      beneficiary = getAddress(address);
+    } catch {
+      errors.push(
+        isAddress(address.toLowerCase())
+          ? `line ${line}: bad checksum for ${address}`
+          : `line ${line}: invalid address ${address}`
+      );
+      continue;
+    }
+    if (address !== beneficiary) {
+      warnings.push(`line ${line}: ${address} is not checksummed`);
+    }
+    if (BigInt(beneficiary) === 0n) {
+      errors.push(`line ${line}: beneficiary is zero address`);
+      continue;
+    }
+
+    const previous = seen.get(beneficiary);
+    if (previous !== undefined && !options.allowDuplicates) {
+      errors.push(
+        `line ${line}: duplicate beneficiary ${beneficiary} (first seen on line ${previous})`
+      );
+      continue;
+    }
+    seen.set(beneficiary, previous ?? line);
+
+    let totalAmount: bigint;
+    try {
+      totalAmount = parseUnits(amount, decimals);
+    } catch {
+      errors.push(`line ${line}: invalid amount ${amount}`);
+      continue;
+    }
+
+    const [startTime, cliffDuration, vestingDuration] = [
+      start,
+      cliff,
+      duration,
+    ].map((value) => (/^\d+$/.test(value) ? BigInt(value) : -1n));
+    if (startTime < 0n || cliffDuration < 0n || vestingDuration < 0n) {
+      errors.push(`line ${line}: start, cliff and duration must be integers`);
+      continue;
+    }
+    // Spreadsheets export booleans as TRUE / FALSE
+    const flag = revocable.toLowerCase();
+    if (flag !== "true" && flag !== "false") {
+      errors.push(`line ${line}: revocable must be true or false`);
+      continue;
+    }
+
+    // Same checks as CPROVesting._createVestingSchedule
+    if (totalAmount <= 0n) {
+      errors.push(`line ${line}: total amount must be > 0`);
+      continue;
+    }
+    if (vestingDuration === 0n) {
+      errors.push(`line ${line}: vesting duration must be > 0`);
+      continue;
+    }
+    if (cliffDuration > vestingDuration) {
+      errors.push(`line ${line}: cliff duration exceeds vesting duration`);
+      continue;
+    }
+
+    rows.push({
+      line,
+      beneficiary,
+      totalAmount,
+      startTime,
+      cliffDuration,
+      vestingDuration,
+      revocable: flag === "true",
+    });
+  }
+
+  const total = rows.reduce((sum, row) => sum + row.totalAmount, 0n);
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push("no schedules found");
+  }
+  if (options.expectedTotal !== undefined && total !== options.expectedTotal) {
+    errors.push(
+      `total ${total} does not match expected total ${options.expectedTotal}`
+    );
+  }
+
+  return { rows, total, errors, warnings };
+}
@@ -0,0 +1,274 @@
+import { existsSync } from "node:fs";
+import { readFile, writeFile } from "node:fs/promises";
+import {
+  keccak256,
+  parseEther,
+  toQuantity,
+  toUtf8Bytes,
+  type Provider,
+  type Signer,
+} from "ethers";
+import {
+  CproTokenClient,
+  CproVestingClient,
+  type CreateVestingScheduleParams,
+} from "../../sdk/src/index.js";
+import type { VestingImportRow } from "./csv.js";
+
+/** One mined `createVestingSchedulesBatch` transaction */
+export interface ImportBatch {
+  firstLine: number;
+  lastLine: number;
+  txHash: string;
+  gasUsed: string;
+  scheduleIds: string[];
+}
+
+/** A batch transaction sent but not yet known to be mined */
+export interface PendingBatch {
+  firstLine: number;
+  lastLine: number;
+  txHash: string;
+}
+
+/**
+ * Content of the progress file, rewritten when a batch is sent and again
+ * once it is mined
+ */
+export interface ImportProgress {
+  csvHash: string;
+  vesting: string;
+  chainId: string;
+  completedRows: number;
+  batches: ImportBatch[];
+  /** Set between sending a batch and recording its receipt */
+  pending?: PendingBatch;
+}
+
+export interface SubmitOptions {
+  /** Hash of the CSV content, binds the progress file to one input */
+  csvHash: string;
+  /** Maximum rows per transaction */
+  chunkSize?: number;
+  /** Chunks are halved until their estimated gas fits under this limit */
+  maxGas?: bigint;
+  /** Where to persist progress, nothing is persisted when omitted */
+  progressFile?: string;
+  /** Called after each mined batch, once progress has been saved */
+  onBatch?: (batch: ImportBatch) => void | Promise<void>;
+  log?: (message: string) => void;
+}
+
+export const DEFAULT_CHUNK_SIZE = 100;
+export const DEFAULT_MAX_GAS = 8_000_000n;
+
+/** Hash identifying an import CSV */
+export function hashCsv(content: string): string {
+  return keccak256(toUtf8Bytes(content));
+}
+
+/**
+ * Load the progress of a previous run, or start a new one.
+ * Refuses to resume a run made for another CSV, contract or chain.
+ */
+export async function loadProgress(
+  progressFile: string | undefined,
+  expected: Omit<ImportProgress, "completedRows" | "batches" | "pending">
+): Promise<ImportProgress> {
+  if (!progressFile || !existsSync(progressFile)) {
+    return { ...expected, completedRows: 0, batches: [] };
+  }
+  const progress: ImportProgress = JSON.parse(
+    await readFile(progressFile, "utf8")
+  );
+  for (const key of ["csvHash", "vesting", "chainId"] as const) {
+    if (progress[key].toLowerCase() !== expected[key].toLowerCase()) {
+      throw new Error(
+        `${progressFile} was written for another ${key} (${progress[key]}), delete it to start over`
+      );
+    }
+  }
+  return progress;
+}
+
+/**
+ * Create the schedules in gas-bounded chunks, resuming after the last batch
+ * recorded in the progress file. A batch that was sent but not recorded as
+ * mined is looked up first and only sent again if it never made it on chain.
+ * @param vesting Client connected with the vesting owner
+ * @param rows Validated rows, in CSV order
+ * @param options Chunking and progress options
+ */
+export async function submitVestingRows(
+  vesting: CproVestingClient,
+  rows: VestingImportRow[],
+  options: SubmitOptions
+): Promise<ImportProgress> {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const maxGas = options.maxGas ?? DEFAULT_MAX_GAS;
+  const log = options.log ?? (() => {});
+
+  const network = await vesting.runner.provider?.getNetwork();
+  const progress = await loadProgress(options.progressFile, {
+    csvHash: options.csvHash,
+    vesting: vesting.address,
+    chainId: String(network?.chainId ?? 0n),
+  });
+  if (progress.completedRows > 0) {
+    log(`resuming after ${progress.completedRows} of ${rows.length} rows`);
+  }
+
+  const save = async () => {
+    if (options.progressFile) {
+      await writeFile(options.progressFile, JSON.stringify(progress, null, 2));
+    }
+  };
+  const record = async (
+    size: number,
+    txHash: string,
+    result: { scheduleIds: bigint[]; receipt: { gasUsed: bigint } }
+  ) => {
+    const start = progress.completedRows;
+    const batch: ImportBatch = {
+      firstLine: rows[start].line,
+      lastLine: rows[start + size - 1].line,
+      txHash,
+      gasUsed: result.receipt.gasUsed.toString(),
+      scheduleIds: result.scheduleIds.map(String),
+    };
+    progress.batches.push(batch);
+    progress.completedRows += size;
+    delete progress.pending;
+    await save();
+    log(
+      `lines ${batch.firstLine}-${batch.lastLine}: ${size} schedules, ${batch.gasUsed} gas, tx ${batch.txHash}`
+    );
+    await options.onBatch?.(batch);
+  };
+
+  if (progress.pending) {
+    const { firstLine, lastLine, txHash } = progress.pending;
+    const start = progress.completedRows;
+    const end = rows.findIndex((row) => row.line === lastLine) + 1;
+    if (rows[start]?.line !== firstLine || end <= start) {
+      throw new Error(
+        `${options.progressFile} has a pending batch for lines ${firstLine}-${lastLine} that does not follow the completed rows`
+      );
+    }
+    log(`checking tx ${txHash}, sent for lines ${firstLine}-${lastLine}`);
+    const mined = await vesting.waitForSchedulesBatch(txHash);
+    if (mined) {
+      await record(end - start, txHash, mined);
+    } else {
+      log(
+        `tx ${txHash} was not mined, sending lines ${firstLine}-${lastLine} again`
+      );
+      delete progress.pending;
+      await save();
+    }
+  }
+
+  while (progress.completedRows < rows.length) {
+    const start = progress.completedRows;
+    let size = Math.min(chunkSize, rows.length - start);
+    let chunk = toParams(rows.slice(start, start + size));
+
+    let gas = await vesting.estimateBatchGas(chunk);
+    while (gas > maxGas && size > 1) {
+      size = Math.ceil(size / 2);
+      chunk = toParams(rows.slice(start, start + size));
+      gas = await vesting.estimateBatchGas(chunk);
+    }
+    if (gas > maxGas) {
+      throw new Error(
+        `line ${rows[start].line}: a single schedule needs ${gas} gas, above the ${maxGas} limit`
+      );
+    }
+
+    const result = await vesting.createVestingSchedulesBatch(
+      chunk,
+      async (txHash) => {
+        // Saved before waiting, a resumed run must not send these rows twice
+        progress.pending = {
+          firstLine: rows[start].line,
+          lastLine: rows[start + size - 1].line,
+          txHash,
+        };
+        await save();
+      }
+    );
+    await record(size, result.receipt.hash, result);
+  }
+
+  return progress;
+}
+
+/** A JSON-RPC provider of a Hardhat node, usually started with `--fork` */
+export interface ForkProvider extends Provider {
+  /** Raw JSON-RPC call, its result is whatever the method returns */
+  send(method: string, params: unknown[]): Promise<unknown>;
+  getSigner(address: string): Promise<Signer>;
+}
+
+export interface DryRunReport {
+  owner: string;
+  batches: ImportBatch[];
+  scheduleCount: number;
+  gasUsed: bigint;
+}
+
+/**
+ * Run the whole import against a Hardhat fork as the vesting owner
+ * (impersonated, so no key is needed), then revert the fork to its previous state.
+ * @param provider Provider of the fork node
+ * @param vestingAddress CPROVesting address on the forked chain
+ * @param rows Validated rows, in CSV order
+ * @param options Chunking options, progress is never persisted
+ */
+export async function dryRunVestingRows(
+  provider: ForkProvider,
+  vestingAddress: string,
+  rows: VestingImportRow[],
+  options: Omit<SubmitOptions, "progressFile">
+): Promise<DryRunReport> {
+  // ID of the snapshot, a hex quantity
+  const snapshot = (await provider.send("evm_snapshot", [])) as string;
+  const readOnly = new CproVestingClient(vestingAddress, provider);
+  const owner: string = await readOnly.contract.owner();
+
+  try {
+    await provider.send("hardhat_impersonateAccount", [owner]);
+    await provider.send("hardhat_setBalance", [
+      owner,
+      toQuantity(parseEther("100")),
+    ]);
+    const signer = await provider.getSigner(owner);
+
+    const total = rows.reduce((sum, row) => sum + row.totalAmount, 0n);
+    const token = new CproTokenClient(await readOnly.contract.token(), signer);
+    const balance = await token.balanceOf(owner);
+    if (balance < total) {
+      throw new Error(
+        `owner ${owner} holds ${balance}, the import needs ${total}`
+      );
+    }
+    await token.approve(vestingAddress, total);
+
+    const vesting = new CproVestingClient(vestingAddress, signer);
+    const { batches } = await submitVestingRows(vesting, rows, options);
+
+    return {
+      owner,
+      batches,
+      scheduleCount: rows.length,
+      gasUsed: batches.reduce((sum, b) => sum + BigInt(b.gasUsed), 0n),
+    };
+  } finally {
+    await provider.send("evm_revert", [snapshot]);
+    await provider.send("hardhat_stopImpersonatingAccount", [owner]);
+  }
+}
+
+function toParams(rows: VestingImportRow[]): CreateVestingScheduleParams[] {
+  return rows.map(({ line: _line, ...params }) => params);
+}
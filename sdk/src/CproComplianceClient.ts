@@ -0,0 +1,72 @@
+import type { ContractRunner, ContractTransactionReceipt } from "ethers";
+import { CPRO_COMPLIANCE_ABI } from "./abis.js";
+import { CproBaseClient } from "./client.js";
+
+/**
+ * Typed client for CPROCompliance, the transfer restrictions of CPROToken.
+ */
+export class CproComplianceClient extends CproBaseClient {
+  /**
+   * @param address Deployed CPROCompliance address
+   * @param runner Provider for reads, signer for writes
+   */
+  constructor(address: string, runner: ContractRunner) {
+    super(address, CPRO_COMPLIANCE_ABI, runner);
+  }
+
+  async isBlocked(account: string): Promise<boolean> {
+    return this.read<boolean>("blocked", account);
+  }
+
+  /** Part of the balance of an account that cannot be sent */
+  async getFrozenAmount(account: string): Promise<bigint> {
+    return this.read<bigint>("frozenAmount", account);
+  }
+
+  /** Balance an account can currently send */
+  async getTransferableBalance(account: string): Promise<bigint> {
+    return this.read<bigint>("transferableBalance", account);
+  }
+
+  async isAllowlistEnabled(): Promise<boolean> {
+    return this.read<boolean>("allowlistEnabled");
+  }
+
+  async isAllowlisted(account: string): Promise<boolean> {
+    return this.read<boolean>("allowlisted", account);
+  }
+
+  /** Block or unblock an account (COMPLIANCE_ROLE only) */
+  async setBlocked(
+    account: string,
+    blocked: boolean
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("setBlocked", account, blocked);
+  }
+
+  /**
+   * Freeze part of the balance of an account (COMPLIANCE_ROLE only).
+   * @param amount Amount that cannot be sent, 0 to unfreeze
+   */
+  async setFrozenAmount(
+    account: string,
+    amount: bigint
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("setFrozenAmount", account, amount);
+  }
+
+  /** Turn allowlist mode on or off (COMPLIANCE_ROLE only) */
+  async setAllowlistEnabled(
+    enabled: boolean
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("setAllowlistEnabled", enabled);
+  }
+
+  /** Add accounts to the allowlist or remove them (COMPLIANCE_ROLE only) */
+  async setAllowlisted(
+    accounts: string[],
+    allowed: boolean
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("setAllowlisted", accounts, allowed);
+  }
+}
@@ -0,0 +1,443 @@
+import type {
+  BlockTag,
+  ContractRunner,
+  ContractTransactionReceipt,
+  Signer,
+} from "ethers";
+import { CPRO_LOCKING_ABI } from "./abis.js";
+import { claimDomain, signClaim, type SignedClaim } from "./claims.js";
+import { CproBaseClient } from "./client.js";
+import type { LockAllocationProof } from "./merkle.js";
+import type {
+  LockInfo,
+  LockTypeTotals,
+  LockingTotals,
+  SweepShare,
+} from "./types.js";
+
+type RawLockInfo = [bigint | string, bigint, bigint, boolean, bigint];
+
+/**
+ * Typed client for CPROLocking.
+ */
+export class CproLockingClient extends CproBaseClient {
+  /**
+   * @param address Deployed CPROLocking address
+   * @param runner Provider for reads, signer for writes
+   */
+  constructor(address: string, runner: ContractRunner) {
+    super(address, CPRO_LOCKING_ABI, runner);
+  }
+
+  /**
+   * Get the lock of a beneficiary.
+   * @param beneficiary Beneficiary address
+   * @return the lock, or null when the address is not a beneficiary
+   */
+  async getBeneficiaryLockInfo(beneficiary: string): Promise<LockInfo | null> {
+    const [lockId, amount, unlockTime, claimed, lockType] =
+      await this.read<RawLockInfo>("getBeneficiaryLockInfo", beneficiary);
+    if (lockId === 0n) {
+      return null;
+    }
+    return {
+      lockId: BigInt(lockId),
+      owner: beneficiary,
+      amount,
+      unlockTime,
+      claimed,
+      lockType: Number(lockType),
+    };
+  }
+
+  /**
+   * Get a lock by its identifier.
+   * @param lockId Lock identifier
+   * @return the lock, or null when no lock has this identifier
+   */
+  async getLockInfo(lockId: bigint | number): Promise<LockInfo | null> {
+    const [owner, amount, unlockTime, claimed, lockType] =
+      await this.read<RawLockInfo>("getLockInfo", lockId);
+    if (BigInt(owner) === 0n) {
+      return null;
+    }
+    return {
+      lockId: BigInt(lockId),
+      owner: String(owner),
+      amount,
+      unlockTime,
+      claimed,
+      lockType: Number(lockType),
+    };
+  }
+
+  /** Number of locks created, their identifiers run from 1 to this count */
+  async getLockCount(blockTag?: BlockTag): Promise<bigint> {
+    return this.readAt<bigint>(blockTag, "lockCount");
+  }
+
+  /**
+   * Get a page of locks in identifier order.
+   * @param offset Number of locks skipped, the first one returned has identifier `offset + 1`
+   * @param limit Maximum number of locks returned
+   * @param blockTag Block to read at, latest when omitted
+   */
+  async getLocksPage(
+    offset: bigint | number,
+    limit: bigint | number,
+    blockTag?: BlockTag
+  ): Promise<LockInfo[]> {
+    const page = await this.readAt<RawLockInfo[]>(
+      blockTag,
+      "getLocks",
+      offset,
+      limit
+    );
+    return page.map(([owner, amount, unlockTime, claimed, lockType], i) => ({
+      lockId: BigInt(offset) + BigInt(i) + 1n,
+      owner: String(owner),
+      amount,
+      unlockTime,
+      claimed,
+      lockType: Number(lockType),
+    }));
+  }
+
+  /**
+   * Contract-level totals.
+   * @param blockTag Block to read at, latest when omitted
+   */
+  async getTotals(blockTag?: BlockTag): Promise<LockingTotals> {
+    const [totalAssigned, totalClaimed, heldBalance] = await Promise.all([
+      this.readAt<bigint>(blockTag, "totalAssigned"),
+      this.readAt<bigint>(blockTag, "totalClaimed"),
+      this.readAt<bigint>(blockTag, "heldBalance"),
+    ]);
+    return { totalAssigned, totalClaimed, heldBalance };
+  }
+
+  /**
+   * Assigned and claimed totals of every lock type that has locks.
+   * @param blockTag Block to read at, latest when omitted
+   */
+  async getLockTypeTotals(blockTag?: BlockTag): Promise<LockTypeTotals[]> {
+    const totals = await this.readAt<[bigint, bigint][]>(
+      blockTag,
+      "getAllLockTypeTotals"
+    );
+    return totals
+      .map(([assigned, claimed], lockType) => ({ lockType, assigned, claimed }))
+      .filter(({ assigned }) => assigned > 0n);
+  }
+
+  /** Global unlock timestamp and deadline for adding beneficiaries */
+  async getEndTime(): Promise<bigint> {
+    return this.read<bigint>("endTime");
+  }
+
+  /** Whether the user holds an unclaimed lock that is unlocked */
+  async canClaim(user: string): Promise<boolean> {
+    return this.read<boolean>("canClaim", user);
+  }
+
+  /** Tokens that must stay in the contract for unclaimed allocations */
+  async getReservedForUnclaimed(): Promise<bigint> {
+    return this.read<bigint>("reservedForUnclaimed");
+  }
+
+  /** Pull `amount` tokens from the runner into the contract (owner only) */
+  async fund(amount: bigint): Promise<ContractTransactionReceipt> {
+    return this.send("fund", amount);
+  }
+
+  /** Add a beneficiary with the default share, unlocking at `endTime` (owner only) */
+  async addBeneficiary(
+    beneficiary: string,
+    lockType: number
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("addBeneficiary", beneficiary, lockType);
+  }
+
+  /**
+   * Add a beneficiary with its own amount and unlock time (owner only).
+   * @param beneficiary Beneficiary address
+   * @param lockType Lock type identifier (0-25)
+   * @param amount Tokens locked
+   * @param unlockTime Timestamp from which the tokens can be claimed
+   */
+  async addBeneficiaryWithTerms(
+    beneficiary: string,
+    lockType: number,
+    amount: bigint,
+    unlockTime: bigint | number
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(
+      "addBeneficiaryWithTerms",
+      beneficiary,
+      lockType,
+      amount,
+      unlockTime
+    );
+  }
+
+  /**
+   * Let beneficiaries stake their locks in place with a CPROStaking
+   * contract. It can be set once (owner only).
+   */
+  async setLockStaking(staking: string): Promise<ContractTransactionReceipt> {
+    return this.send("setLockStaking", staking);
+  }
+
+  /**
+   * Represent the locks as tokens of a CPROLockPositions contract, whose
+   * transfers move them. It can be set once (owner only).
+   */
+  async setPositions(positions: string): Promise<ContractTransactionReceipt> {
+    return this.send("setPositions", positions);
+  }
+
+  /** Whether the locks of a type can be transferred with their token */
+  async isLockTypeTransferable(lockType: number): Promise<boolean> {
+    return this.read<boolean>("transferableLockType", lockType);
+  }
+
+  /** Allow or forbid transfers of the locks of a type (owner only) */
+  async setLockTypeTransferable(
+    lockType: number,
+    transferable: boolean
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("setLockTypeTransferable", lockType, transferable);
+  }
+
+  /** Claim the unlocked tokens of the runner */
+  async claim(): Promise<ContractTransactionReceipt> {
+    return this.send("claim");
+  }
+
+  /**
+   * Claim the unlocked tokens of a beneficiary on their behalf, they are
+   * paid to the beneficiary
+   */
+  async claimFor(beneficiary: string): Promise<ContractTransactionReceipt> {
+    return this.send("claimFor", beneficiary);
+  }
+
+  /**
+   * Sign a claim of the signer's unclaimed tokens, for a relayer to submit
+   * with `claimWithSignature`.
+   * @param signer Beneficiary signer, connected to a provider
+   * @param recipient Address receiving the tokens
+   * @param deadline Unix timestamp after which the signature is rejected
+   */
+  async createSignedClaim(
+    signer: Signer,
+    recipient: string,
+    deadline: bigint | number
+  ): Promise<SignedClaim> {
+    if (!signer.provider) {
+      throw new Error("createSignedClaim: signer has no provider");
+    }
+    const beneficiary = await signer.getAddress();
+    const { chainId } = await signer.provider.getNetwork();
+    return signClaim(
+      signer,
+      claimDomain("CPROLocking", this.address, chainId),
+      {
+        beneficiary,
+        recipient,
+        nonce: await this.read<bigint>("nonces", beneficiary),
+        deadline: BigInt(deadline),
+      }
+    );
+  }
+
+  /** Submit a claim signed by its beneficiary, the runner pays the gas */
+  async claimWithSignature(
+    claim: SignedClaim
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(
+      "claimWithSignature",
+      claim.beneficiary,
+      claim.recipient,
+      claim.deadline,
+      claim.v,
+      claim.r,
+      claim.s
+    );
+  }
+
+  /**
+   * Current delegate of the beneficiary's unclaimed tokens, or null when
+   * they never delegated (those tokens then carry no voting power)
+   */
+  async getVotesDelegatee(beneficiary: string): Promise<string | null> {
+    const delegatee = await this.read<string>("votesDelegatee", beneficiary);
+    return BigInt(delegatee) === 0n ? null : delegatee;
+  }
+
+  /**
+   * Delegate the voting power of the runner's unclaimed tokens. The first
+   * call moves them into a voting escrow of the runner.
+   */
+  async delegateVotes(delegatee: string): Promise<ContractTransactionReceipt> {
+    return this.send("delegateVotes", delegatee);
+  }
+
+  /**
+   * Commit a Merkle tree of allocations (owner only).
+   * @param root Root of a `LockAllocationTree`
+   * @param total Sum of the tree allocations
+   */
+  async setMerkleRoot(
+    root: string,
+    total: bigint
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("setMerkleRoot", root, total);
+  }
+
+  /** Whether the Merkle allocation of the beneficiary was claimed */
+  async isMerkleClaimed(beneficiary: string): Promise<boolean> {
+    return this.read<boolean>("merkleClaimed", beneficiary);
+  }
+
+  /** Whether the allocation can be claimed right now */
+  async canClaimWithProof(allocation: LockAllocationProof): Promise<boolean> {
+    return this.read<boolean>(
+      "canClaimWithProof",
+      allocation.beneficiary,
+      allocation.lockType,
+      allocation.amount,
+      allocation.proof
+    );
+  }
+
+  /**
+   * Claim a Merkle allocation. The runner must be the allocation beneficiary.
+   * @param allocation Proof from `LockAllocationTree.getProof`
+   */
+  async claimWithProof(
+    allocation: LockAllocationProof
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(
+      "claimWithProof",
+      allocation.lockType,
+      allocation.amount,
+      allocation.proof
+    );
+  }
+
+  /** Seconds after their unlock time locks can be claimed, 0 when claims never expire */
+  async getClaimWindow(): Promise<bigint> {
+    return this.read<bigint>("claimWindow");
+  }
+
+  /** Whether the claim window of a lock is over, released by `expireLocks` or not */
+  async isLockClaimExpired(lockId: bigint | number): Promise<boolean> {
+    return this.read<boolean>("lockClaimExpired", lockId);
+  }
+
+  /**
+   * Let locks be claimed for `window` seconds after their unlock time, at
+   * least `MIN_CLAIM_WINDOW`, or 0 for no expiry (owner only).
+   */
+  async setClaimWindow(
+    window: bigint | number
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("setClaimWindow", window);
+  }
+
+  /** Release locks left unclaimed past their claim window (owner only) */
+  async expireLocks(
+    lockIds: (bigint | number)[]
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("expireLocks", lockIds);
+  }
+
+  /** Release the Merkle allocations left unclaimed past their claim window (owner only) */
+  async expireMerkleAllocations(): Promise<ContractTransactionReceipt> {
+    return this.send("expireMerkleAllocations");
+  }
+
+  /** Recipients of the swept tokens, empty when they all go to the sweep recipient */
+  async getSweepSplit(): Promise<SweepShare[]> {
+    const split = await this.read<[string, bigint][]>("getSweepSplit");
+    return split.map(([recipient, bps]) => ({ recipient, bps: Number(bps) }));
+  }
+
+  /**
+   * Split the swept tokens between recipients by basis points summing to
+   * 10000, or send them all to the sweep recipient with an empty split
+   * (owner only).
+   */
+  async setSweepSplit(
+    split: SweepShare[]
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("setSweepSplit", split);
+  }
+
+  /** Bonus paid per year a lock is extended, in basis points of its amount */
+  async getExtensionBonus(): Promise<number> {
+    return Number(await this.read<bigint>("extensionBonusBps"));
+  }
+
+  /** Set the bonus paid per year a lock is extended, in basis points (owner only) */
+  async setExtensionBonus(
+    bps: bigint | number
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("setExtensionBonus", bps);
+  }
+
+  /** Share of a lock forfeited when it is unlocked early, in basis points, 0 when disabled */
+  async getEarlyUnlockPenalty(): Promise<number> {
+    return Number(await this.read<bigint>("earlyUnlockPenaltyBps"));
+  }
+
+  /**
+   * Set the share of a lock forfeited when it is unlocked early, in basis
+   * points, 0 to disable early unlocks (owner only).
+   */
+  async setEarlyUnlockPenalty(
+    bps: bigint | number
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("setEarlyUnlockPenalty", bps);
+  }
+
+  /**
+   * Move the unlock time of your lock later, earning the extension bonus
+   * for the time added. The bonus is forfeited if the lock is unlocked early.
+   * @param lockId Your lock
+   * @param unlockTime New unlock time, in seconds, at most `MAX_EXTENSION` from now
+   */
+  async extendLock(
+    lockId: bigint | number,
+    unlockTime: bigint | number
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("extendLock", lockId, unlockTime);
+  }
+
+  /**
+   * Add your own tokens to your lock. Approve the locking contract for
+   * `amount` beforehand.
+   */
+  async topUpLock(
+    lockId: bigint | number,
+    amount: bigint
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("topUpLock", lockId, amount);
+  }
+
+  /** Claim your lock before its unlock time, forfeiting its extension bonuses and the early unlock penalty */
+  async unlockEarly(
+    lockId: bigint | number
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("unlockEarly", lockId);
+  }
+
+  /**
+   * Send the tokens not reserved for unclaimed allocations to the sweep
+   * recipients, also before `endTime` (owner only)
+   */
+  async sweepUnassigned(): Promise<ContractTransactionReceipt> {
+    return this.send("sweepUnassigned");
+  }
+}
@@ -0,0 +1,90 @@
+import {
+  decodeBase64,
+  toUtf8String,
+  type ContractRunner,
+  type ContractTransactionReceipt,
+} from "ethers";
+import { CPRO_POSITIONS_ABI } from "./abis.js";
+import { CproBaseClient } from "./client.js";
+import { CproContractError } from "./errors.js";
+import type { PositionMetadata } from "./types.js";
+
+const DATA_URI_PREFIX = "data:application/json;base64,";
+
+/**
+ * Typed client for CPROVestingPositions and CPROLockPositions, the ERC-721
+ * tokens of vesting schedules and locks. Token IDs are the schedule and lock IDs.
+ */
+export class CproPositionsClient extends CproBaseClient {
+  /**
+   * @param address Deployed CPROVestingPositions or CPROLockPositions address
+   * @param runner Provider for reads, signer for writes
+   */
+  constructor(address: string, runner: ContractRunner) {
+    super(address, CPRO_POSITIONS_ABI, runner);
+  }
+
+  /** Vesting or locking contract holding the positions */
+  async getSource(): Promise<string> {
+    return this.read<string>("source");
+  }
+
+  /**
+   * Holder of the token of a position, or null when it was not minted.
+   * The holder is the beneficiary of the position.
+   */
+  async getHolder(id: bigint | number): Promise<string | null> {
+    const tokenURI = await this.getTokenURI(id);
+    return tokenURI === null ? null : this.read<string>("ownerOf", id);
+  }
+
+  /** Metadata of a position, or null when its token was not minted */
+  async getMetadata(id: bigint | number): Promise<PositionMetadata | null> {
+    const tokenURI = await this.getTokenURI(id);
+    if (tokenURI === null) return null;
+
+    const json = JSON.parse(
+      toUtf8String(decodeBase64(tokenURI.slice(DATA_URI_PREFIX.length)))
+    ) as {
+      name: string;
+      attributes: { trait_type: string; value: string | number | boolean }[];
+    };
+    return {
+      name: json.name,
+      attributes: Object.fromEntries(
+        json.attributes.map(({ trait_type, value }) => [trait_type, value])
+      ),
+    };
+  }
+
+  /** Mint the token of a position to its beneficiary, anyone can send it */
+  async mint(id: bigint | number): Promise<ContractTransactionReceipt> {
+    return this.send("mint", id);
+  }
+
+  /**
+   * Transfer a token, moving its position to `to`. The source reverts when
+   * the position cannot change hands.
+   */
+  async transfer(
+    from: string,
+    to: string,
+    id: bigint | number
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("safeTransferFrom", from, to, id);
+  }
+
+  private async getTokenURI(id: bigint | number): Promise<string | null> {
+    try {
+      return await this.read<string>("tokenURI", id);
+    } catch (error) {
+      if (
+        error instanceof CproContractError &&
+        error.reason === "ERC721NonexistentToken"
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
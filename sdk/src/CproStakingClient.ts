@@ -0,0 +1,126 @@
+import type {
+  BlockTag,
+  ContractRunner,
+  ContractTransactionReceipt,
+} from "ethers";
+import { CPRO_STAKING_ABI } from "./abis.js";
+import { CproBaseClient } from "./client.js";
+import type { RewardPeriod, StakePosition } from "./types.js";
+
+/**
+ * Typed client for CPROStaking.
+ */
+export class CproStakingClient extends CproBaseClient {
+  /**
+   * @param address Deployed CPROStaking address
+   * @param runner Provider for reads, signer for writes
+   */
+  constructor(address: string, runner: ContractRunner) {
+    super(address, CPRO_STAKING_ABI, runner);
+  }
+
+  /**
+   * Get the stake, rewards and unbonding tokens of an account.
+   * @param blockTag Block to read at, latest when omitted
+   */
+  async getPosition(
+    account: string,
+    blockTag?: BlockTag
+  ): Promise<StakePosition> {
+    const [deposited, lockedStake, earned, [unbonding, releaseTime]] =
+      await Promise.all([
+        this.readAt<bigint>(blockTag, "deposited", account),
+        this.readAt<bigint>(blockTag, "lockedStake", account),
+        this.readAt<bigint>(blockTag, "earned", account),
+        this.readAt<[bigint, bigint]>(blockTag, "unbonding", account),
+      ]);
+    return { deposited, lockedStake, earned, unbonding, releaseTime };
+  }
+
+  /** Current reward rate and period, with the total stake it is shared by */
+  async getRewardPeriod(blockTag?: BlockTag): Promise<RewardPeriod> {
+    const [rewardRate, periodFinish, rewardsDuration, totalStaked] =
+      await Promise.all([
+        this.readAt<bigint>(blockTag, "rewardRate"),
+        this.readAt<bigint>(blockTag, "periodFinish"),
+        this.readAt<bigint>(blockTag, "rewardsDuration"),
+        this.readAt<bigint>(blockTag, "totalStaked"),
+      ]);
+    return { rewardRate, periodFinish, rewardsDuration, totalStaked };
+  }
+
+  /** Delay between unstaking and withdrawing, in seconds */
+  async getUnbondingPeriod(): Promise<bigint> {
+    return this.read<bigint>("unbondingPeriod");
+  }
+
+  /** Stake tokens of the runner, approved to the contract beforehand */
+  async stake(amount: bigint): Promise<ContractTransactionReceipt> {
+    return this.send("stake", amount);
+  }
+
+  /** Stop staking deposited tokens, withdrawable after the unbonding period */
+  async unstake(amount: bigint): Promise<ContractTransactionReceipt> {
+    return this.send("unstake", amount);
+  }
+
+  /** Withdraw the unbonded tokens of the runner */
+  async withdraw(): Promise<ContractTransactionReceipt> {
+    return this.send("withdraw");
+  }
+
+  async claimRewards(): Promise<ContractTransactionReceipt> {
+    return this.send("claimRewards");
+  }
+
+  /** Unstake every deposited token and claim the rewards */
+  async exit(): Promise<ContractTransactionReceipt> {
+    return this.send("exit");
+  }
+
+  /** Stake the CPROLocking lock of the runner in place */
+  async stakeLock(): Promise<ContractTransactionReceipt> {
+    return this.send("stakeLock");
+  }
+
+  async unstakeLock(): Promise<ContractTransactionReceipt> {
+    return this.send("unstakeLock");
+  }
+
+  /**
+   * Fund a new reward period starting now, with the rewards left from the
+   * current one (owner only).
+   * @param reward Tokens pulled from the runner, approved beforehand
+   */
+  async notifyRewardAmount(
+    reward: bigint
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("notifyRewardAmount", reward);
+  }
+
+  /** Change the length of the next reward periods (owner only) */
+  async setRewardsDuration(
+    duration: bigint | number
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("setRewardsDuration", duration);
+  }
+
+  /** Change the unbonding period of future unstakes (owner only) */
+  async setUnbondingPeriod(
+    period: bigint | number
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("setUnbondingPeriod", period);
+  }
+
+  /** Rewards of the time nothing was staked, owed to no one */
+  async getUnallocatedRewards(): Promise<bigint> {
+    return this.read<bigint>("unallocatedRewards");
+  }
+
+  /** Send the rewards of the time nothing was staked to `to` (owner only) */
+  async recoverUnallocatedRewards(
+    to: string
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("recoverUnallocatedRewards", to);
+  }
+}
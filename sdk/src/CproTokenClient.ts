@@ -0,0 +1,215 @@
+import {
+  ZeroAddress,
+  type ContractRunner,
+  type ContractTransactionReceipt,
+} from "ethers";
+import { CPRO_TOKEN_ABI } from "./abis.js";
+import { CproBaseClient } from "./client.js";
+import type { BridgeLimits, MintRequest } from "./types.js";
+
+/** Roles of CPROToken, see `CproTokenClient.roleId` */
+export type CproTokenRole =
+  | "DEFAULT_ADMIN_ROLE"
+  | "ADMIN_ROLE"
+  | "MINTER_ROLE"
+  | "PAUSER_ROLE"
+  | "TREASURY_ROLE";
+
+/**
+ * Typed client for CPROToken.
+ */
+export class CproTokenClient extends CproBaseClient {
+  /**
+   * @param address Deployed CPROToken address
+   * @param runner Provider for reads, signer for writes
+   */
+  constructor(address: string, runner: ContractRunner) {
+    super(address, CPRO_TOKEN_ABI, runner);
+  }
+
+  async balanceOf(account: string): Promise<bigint> {
+    return this.read<bigint>("balanceOf", account);
+  }
+
+  async totalSupply(): Promise<bigint> {
+    return this.read<bigint>("totalSupply");
+  }
+
+  async paused(): Promise<boolean> {
+    return this.read<boolean>("paused");
+  }
+
+  /** Identifier (bytes32) of a role */
+  async roleId(role: CproTokenRole): Promise<string> {
+    return this.read<string>(role);
+  }
+
+  async hasRole(role: CproTokenRole, account: string): Promise<boolean> {
+    return this.read<boolean>("hasRole", await this.roleId(role), account);
+  }
+
+  /** Every account holding a role */
+  async getRoleMembers(role: CproTokenRole): Promise<string[]> {
+    const members = await this.read<string[]>(
+      "getRoleMembers",
+      await this.roleId(role)
+    );
+    return [...members];
+  }
+
+  /** A queued mint, or null when the id is unknown */
+  async getMintRequest(requestId: bigint): Promise<MintRequest | null> {
+    const [to, amount, executableAt, executed, cancelled] = await this.read<
+      [string, bigint, bigint, boolean, boolean]
+    >("mintRequests", requestId);
+    if (BigInt(to) === 0n) {
+      return null;
+    }
+    return { requestId, to, amount, executableAt, executed, cancelled };
+  }
+
+  /** Amount that can still be minted in the current epoch */
+  async getMintableInCurrentEpoch(): Promise<bigint> {
+    return this.read<bigint>("mintableInCurrentEpoch");
+  }
+
+  /** Compliance module checking every transfer, or null when there is none */
+  async getComplianceModule(): Promise<string | null> {
+    const module = await this.read<string>("complianceModule");
+    return BigInt(module) === 0n ? null : module;
+  }
+
+  /** Minting and burning limits of a bridge, all zero for an unknown bridge */
+  async getBridgeLimits(bridge: string): Promise<BridgeLimits> {
+    const [
+      mintingMaxLimit,
+      mintingCurrentLimit,
+      burningMaxLimit,
+      burningCurrentLimit,
+    ] = await Promise.all([
+      this.read<bigint>("mintingMaxLimitOf", bridge),
+      this.read<bigint>("mintingCurrentLimitOf", bridge),
+      this.read<bigint>("burningMaxLimitOf", bridge),
+      this.read<bigint>("burningCurrentLimitOf", bridge),
+    ]);
+    return {
+      mintingMaxLimit,
+      mintingCurrentLimit,
+      burningMaxLimit,
+      burningCurrentLimit,
+    };
+  }
+
+  /** Tokens held on other chains, counted towards MAX_SUPPLY (home chain only) */
+  async getBridgedOutSupply(): Promise<bigint> {
+    return this.read<bigint>("bridgedOutSupply");
+  }
+
+  /** Current voting power of an account */
+  async getVotes(account: string): Promise<bigint> {
+    return this.read<bigint>("getVotes", account);
+  }
+
+  async approve(
+    spender: string,
+    amount: bigint
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("approve", spender, amount);
+  }
+
+  async transfer(
+    to: string,
+    amount: bigint
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("transfer", to, amount);
+  }
+
+  /** Delegate the voting power of the runner */
+  async delegate(delegatee: string): Promise<ContractTransactionReceipt> {
+    return this.send("delegate", delegatee);
+  }
+
+  /** Grant a role (admin of that role only) */
+  async grantRole(
+    role: CproTokenRole,
+    account: string
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("grantRole", await this.roleId(role), account);
+  }
+
+  /** Revoke a role (admin of that role only) */
+  async revokeRole(
+    role: CproTokenRole,
+    account: string
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("revokeRole", await this.roleId(role), account);
+  }
+
+  /**
+   * Queue a mint, executable after the mint delay (MINTER_ROLE only).
+   * @return the identifier of the request, its execution time and the transaction receipt
+   */
+  async queueMint(
+    to: string,
+    amount: bigint
+  ): Promise<{
+    requestId: bigint;
+    executableAt: bigint;
+    receipt: ContractTransactionReceipt;
+  }> {
+    const receipt = await this.send("queueMint", to, amount);
+    const [queued] = this.parseEvents(receipt, "MintQueued");
+    return {
+      requestId: queued.args.requestId,
+      executableAt: queued.args.executableAt,
+      receipt,
+    };
+  }
+
+  /** Mint the tokens of a queued request once its delay has passed (MINTER_ROLE only) */
+  async executeMint(requestId: bigint): Promise<ContractTransactionReceipt> {
+    return this.send("executeMint", requestId);
+  }
+
+  /** Cancel a queued request (MINTER_ROLE or ADMIN_ROLE) */
+  async cancelMint(requestId: bigint): Promise<ContractTransactionReceipt> {
+    return this.send("cancelMint", requestId);
+  }
+
+  /** Burn tokens from the runner balance (TREASURY_ROLE only) */
+  async burnFromOwner(amount: bigint): Promise<ContractTransactionReceipt> {
+    return this.send("burnFromOwner", amount);
+  }
+
+  /** Pause all transfers (PAUSER_ROLE only) */
+  async pause(): Promise<ContractTransactionReceipt> {
+    return this.send("pause");
+  }
+
+  /** Resume transfers (PAUSER_ROLE only) */
+  async unpause(): Promise<ContractTransactionReceipt> {
+    return this.send("unpause");
+  }
+
+  /**
+   * Set the daily limits of a bridge, 0 for both to revoke it (ADMIN_ROLE only).
+   * @param bridge Bridge contract minting and burning on this chain
+   */
+  async setBridgeLimits(
+    bridge: string,
+    mintingLimit: bigint,
+    burningLimit: bigint
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("setBridgeLimits", bridge, mintingLimit, burningLimit);
+  }
+
+  /**
+   * Set the compliance module checking every transfer (ADMIN_ROLE only).
+   * @param module CPROCompliance address, null to remove the restrictions
+   */
+  async setComplianceModule(
+    module: string | null
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("setComplianceModule", module ?? ZeroAddress);
+  }
+}
@@ -0,0 +1,572 @@
+import {
+  ZeroAddress,
+  type BlockTag,
+  type ContractRunner,
+  type ContractTransactionReceipt,
+  type Signer,
+  type TransactionReceipt,
+} from "ethers";
+import { CPRO_VESTING_ABI } from "./abis.js";
+import { claimDomain, signClaim, type SignedClaim } from "./claims.js";
+import { CproBaseClient } from "./client.js";
+import type {
+  CreateVestingScheduleParams,
+  ScheduleRecovery,
+  VestingCurve,
+  VestingPosition,
+  VestingSchedule,
+  VestingTotals,
+} from "./types.js";
+
+type RawVestingSchedule = [
+  string,
+  bigint,
+  bigint,
+  bigint,
+  bigint,
+  bigint,
+  boolean,
+  boolean
+];
+
+/** `CPROVesting.VestingSchedule` as stored: the fields above with `exists` before `revocable` */
+type RawPagedSchedule = [...RawVestingSchedule, boolean];
+
+/** Page size used when the client walks a whole list */
+const PAGE_SIZE = 500;
+
+/**
+ * Typed client for CPROVesting.
+ */
+export class CproVestingClient extends CproBaseClient {
+  /**
+   * @param address Deployed CPROVesting address
+   * @param runner Provider for reads, signer for writes
+   */
+  constructor(address: string, runner: ContractRunner) {
+    super(address, CPRO_VESTING_ABI, runner);
+  }
+
+  /**
+   * Get a vesting schedule by its identifier.
+   * @param scheduleId Schedule identifier
+   * @return the schedule, or null when no schedule has this identifier
+   */
+  async getSchedule(
+    scheduleId: bigint | number
+  ): Promise<VestingSchedule | null> {
+    const [
+      beneficiary,
+      totalAmount,
+      claimedAmount,
+      startTime,
+      cliffDuration,
+      vestingDuration,
+      revoked,
+      revocable,
+    ] = await this.read<RawVestingSchedule>("getVestingSchedule", scheduleId);
+    if (totalAmount === 0n) {
+      return null;
+    }
+    return {
+      scheduleId: BigInt(scheduleId),
+      beneficiary,
+      totalAmount,
+      claimedAmount,
+      startTime,
+      cliffDuration,
+      vestingDuration,
+      revoked,
+      revocable,
+    };
+  }
+
+  /**
+   * Get the vesting curve of a schedule, linear for schedules created
+   * without one.
+   * @param scheduleId Schedule identifier
+   */
+  async getCurve(scheduleId: bigint | number): Promise<VestingCurve> {
+    const [curveType, stepInterval, initialUnlockBps, milestones] =
+      await this.read<[bigint, bigint, bigint, [bigint, bigint][]]>(
+        "getVestingCurve",
+        scheduleId
+      );
+    return {
+      curveType: Number(curveType),
+      stepInterval,
+      initialUnlockBps,
+      milestones: milestones.map(([offset, unlockBps]) => ({
+        offset,
+        unlockBps,
+      })),
+    };
+  }
+
+  /**
+   * Get every schedule of a beneficiary, in creation order.
+   * @param beneficiary Beneficiary address
+   */
+  async getSchedules(beneficiary: string): Promise<VestingSchedule[]> {
+    const ids = await this.read<bigint[]>(
+      "getBeneficiaryScheduleIds",
+      beneficiary
+    );
+    const schedules: VestingSchedule[] = [];
+    for (const id of ids) {
+      const schedule = await this.getSchedule(id);
+      if (schedule) {
+        schedules.push(schedule);
+      }
+    }
+    return schedules;
+  }
+
+  /** Amount the beneficiary can claim right now, across all schedules */
+  async getClaimableAmount(beneficiary: string): Promise<bigint> {
+    return this.read<bigint>("getClaimableAmount", beneficiary);
+  }
+
+  /** Amount vested so far for the beneficiary across all schedules, claimed or not */
+  async getVestedAmount(beneficiary: string): Promise<bigint> {
+    return this.read<bigint>("getVestedAmount", beneficiary);
+  }
+
+  /** Amount claimable right now from a single schedule */
+  async getScheduleClaimableAmount(
+    scheduleId: bigint | number
+  ): Promise<bigint> {
+    return this.read<bigint>("getScheduleClaimableAmount", scheduleId);
+  }
+
+  /** Every beneficiary that was ever given a schedule, in creation order */
+  async getBeneficiaries(blockTag?: BlockTag): Promise<string[]> {
+    const beneficiaries: string[] = [];
+    for (;;) {
+      const page = await this.getBeneficiariesPage(
+        beneficiaries.length,
+        PAGE_SIZE,
+        blockTag
+      );
+      beneficiaries.push(...page);
+      if (page.length < PAGE_SIZE) {
+        return beneficiaries;
+      }
+    }
+  }
+
+  /**
+   * Get a page of beneficiaries, in creation order.
+   * @param offset Index of the first beneficiary
+   * @param limit Maximum number of beneficiaries returned
+   * @param blockTag Block to read at, latest when omitted
+   */
+  async getBeneficiariesPage(
+    offset: bigint | number,
+    limit: bigint | number,
+    blockTag?: BlockTag
+  ): Promise<string[]> {
+    const page = await this.readAt<string[]>(
+      blockTag,
+      "getBeneficiaries",
+      offset,
+      limit
+    );
+    return [...page];
+  }
+
+  /** Number of schedules created, their identifiers run from 1 to this count */
+  async getScheduleCount(blockTag?: BlockTag): Promise<bigint> {
+    return this.readAt<bigint>(blockTag, "getScheduleCount");
+  }
+
+  /**
+   * Get a page of schedules in identifier order, with their vested amount.
+   * @param offset Number of schedules skipped, the first one returned has identifier `offset + 1`
+   * @param limit Maximum number of schedules returned
+   * @param blockTag Block to read at, latest when omitted
+   */
+  async getSchedulesPage(
+    offset: bigint | number,
+    limit: bigint | number,
+    blockTag?: BlockTag
+  ): Promise<VestingPosition[]> {
+    const [schedules, vestedAmounts] = await this.readAt<
+      [RawPagedSchedule[], bigint[]]
+    >(blockTag, "getVestingSchedules", offset, limit);
+    return schedules.map(
+      (
+        [
+          beneficiary,
+          totalAmount,
+          claimedAmount,
+          startTime,
+          cliffDuration,
+          vestingDuration,
+          revoked,
+          ,
+          revocable,
+        ],
+        i
+      ) => ({
+        scheduleId: BigInt(offset) + BigInt(i) + 1n,
+        beneficiary,
+        totalAmount,
+        claimedAmount,
+        startTime,
+        cliffDuration,
+        vestingDuration,
+        revoked,
+        revocable,
+        vestedAmount: vestedAmounts[i],
+      })
+    );
+  }
+
+  /**
+   * Contract-level totals. `totalVested` iterates over every schedule on
+   * chain, which the node may refuse for very large deployments.
+   * @param blockTag Block to read at, latest when omitted
+   */
+  async getTotals(blockTag?: BlockTag): Promise<VestingTotals> {
+    const [totalAllocated, totalClaimed, totalRevoked, totalVested] =
+      await Promise.all([
+        this.readAt<bigint>(blockTag, "totalAllocated"),
+        this.readAt<bigint>(blockTag, "totalClaimed"),
+        this.readAt<bigint>(blockTag, "totalRevoked"),
+        this.readAt<bigint>(blockTag, "getTotalVested"),
+      ]);
+    return { totalAllocated, totalClaimed, totalRevoked, totalVested };
+  }
+
+  /**
+   * Create a revocable vesting schedule, `params.revocable` is ignored. The
+   * runner must be the owner and must have approved the vesting contract for
+   * `totalAmount`.
+   * @return the identifier of the new schedule and the transaction receipt
+   */
+  async createVestingSchedule(
+    params: CreateVestingScheduleParams
+  ): Promise<{ scheduleId: bigint; receipt: ContractTransactionReceipt }> {
+    const receipt = await this.send(
+      "createVestingSchedule",
+      params.beneficiary,
+      params.totalAmount,
+      params.startTime,
+      params.cliffDuration,
+      params.vestingDuration
+    );
+    const [created] = this.parseEvents(receipt, "VestingScheduleCreated");
+    return { scheduleId: created.args.scheduleId, receipt };
+  }
+
+  /**
+   * Create a vesting schedule following a stepped, initial unlock or
+   * milestones curve. The runner must be the owner and must have approved the
+   * vesting contract for `totalAmount`.
+   * @return the identifier of the new schedule and the transaction receipt
+   */
+  async createVestingScheduleWithCurve(
+    params: CreateVestingScheduleParams,
+    curve: VestingCurve
+  ): Promise<{ scheduleId: bigint; receipt: ContractTransactionReceipt }> {
+    const receipt = await this.send(
+      "createVestingScheduleWithCurve",
+      toScheduleParams(params),
+      [
+        curve.curveType,
+        curve.stepInterval,
+        curve.initialUnlockBps,
+        curve.milestones.map((milestone) => [
+          milestone.offset,
+          milestone.unlockBps,
+        ]),
+      ]
+    );
+    const [created] = this.parseEvents(receipt, "VestingScheduleCreated");
+    return { scheduleId: created.args.scheduleId, receipt };
+  }
+
+  /**
+   * Create several vesting schedules in one transaction. The runner must be
+   * the owner and must have approved the vesting contract for the summed amount.
+   * @param onSent Called with the transaction hash before waiting for it to be mined
+   * @return the identifiers of the new schedules, in input order, and the transaction receipt
+   */
+  async createVestingSchedulesBatch(
+    schedules: CreateVestingScheduleParams[],
+    onSent?: (txHash: string) => void | Promise<void>
+  ): Promise<{ scheduleIds: bigint[]; receipt: ContractTransactionReceipt }> {
+    const receipt = await this.sendNotifying(
+      onSent,
+      "createVestingSchedulesBatch",
+      schedules.map(toScheduleParams)
+    );
+    return { scheduleIds: this.createdScheduleIds(receipt), receipt };
+  }
+
+  /**
+   * Wait for a `createVestingSchedulesBatch` transaction sent earlier, for
+   * instance by a process that stopped before it was mined.
+   * @param txHash Hash of the sent transaction
+   * @return the identifiers of the new schedules and the transaction receipt,
+   * or null when the node does not know the transaction or it reverted
+   */
+  async waitForSchedulesBatch(
+    txHash: string
+  ): Promise<{ scheduleIds: bigint[]; receipt: TransactionReceipt } | null> {
+    const provider = this.runner.provider;
+    if (!provider) {
+      throw new Error("waitForSchedulesBatch: runner has no provider");
+    }
+    if ((await provider.getTransaction(txHash)) === null) return null;
+    const receipt = await provider.waitForTransaction(txHash);
+    if (receipt === null || receipt.status !== 1) return null;
+    return { scheduleIds: this.createdScheduleIds(receipt), receipt };
+  }
+
+  /** Gas needed to create the given schedules with `createVestingSchedulesBatch` */
+  async estimateBatchGas(
+    schedules: CreateVestingScheduleParams[]
+  ): Promise<bigint> {
+    return this.estimateGas(
+      "createVestingSchedulesBatch",
+      schedules.map(toScheduleParams)
+    );
+  }
+
+  /** Claim the vested tokens of one of the runner's schedules */
+  async claimTokens(
+    scheduleId: bigint | number
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("claimTokens", scheduleId);
+  }
+
+  /** Claim the vested tokens of every schedule of the runner */
+  async claimAll(): Promise<ContractTransactionReceipt> {
+    return this.send("claimAll");
+  }
+
+  /**
+   * Claim the vested tokens of every schedule of a beneficiary on their
+   * behalf, they are paid to the beneficiary
+   */
+  async claimFor(beneficiary: string): Promise<ContractTransactionReceipt> {
+    return this.send("claimFor", beneficiary);
+  }
+
+  /**
+   * Sign a claim of the signer's unclaimed tokens, for a relayer to submit
+   * with `claimWithSignature`.
+   * @param signer Beneficiary signer, connected to a provider
+   * @param recipient Address receiving the tokens
+   * @param deadline Unix timestamp after which the signature is rejected
+   */
+  async createSignedClaim(
+    signer: Signer,
+    recipient: string,
+    deadline: bigint | number
+  ): Promise<SignedClaim> {
+    if (!signer.provider) {
+      throw new Error("createSignedClaim: signer has no provider");
+    }
+    const beneficiary = await signer.getAddress();
+    const { chainId } = await signer.provider.getNetwork();
+    return signClaim(
+      signer,
+      claimDomain("CPROVesting", this.address, chainId),
+      {
+        beneficiary,
+        recipient,
+        nonce: await this.read<bigint>("nonces", beneficiary),
+        deadline: BigInt(deadline),
+      }
+    );
+  }
+
+  /** Submit a claim signed by its beneficiary, the runner pays the gas */
+  async claimWithSignature(
+    claim: SignedClaim
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(
+      "claimWithSignature",
+      claim.beneficiary,
+      claim.recipient,
+      claim.deadline,
+      claim.v,
+      claim.r,
+      claim.s
+    );
+  }
+
+  /**
+   * Address the beneficiary proposed to take a schedule over, or null when
+   * no transfer is pending
+   */
+  async getPendingTransfer(
+    scheduleId: bigint | number
+  ): Promise<string | null> {
+    const proposed = await this.read<string>(
+      "pendingScheduleTransfers",
+      scheduleId
+    );
+    return BigInt(proposed) === 0n ? null : proposed;
+  }
+
+  /** Pending owner-initiated recovery of a schedule, or null */
+  async getRecovery(
+    scheduleId: bigint | number
+  ): Promise<ScheduleRecovery | null> {
+    const [newBeneficiary, executableAt] = await this.read<[string, bigint]>(
+      "scheduleRecoveries",
+      scheduleId
+    );
+    if (BigInt(newBeneficiary) === 0n) {
+      return null;
+    }
+    return { scheduleId: BigInt(scheduleId), newBeneficiary, executableAt };
+  }
+
+  /** Whether the beneficiary cancelled a recovery, blocking new ones */
+  async isRecoveryVetoed(scheduleId: bigint | number): Promise<boolean> {
+    return this.read<boolean>("recoveryVetoed", scheduleId);
+  }
+
+  /**
+   * Propose to move one of the runner's schedules to a new address, which
+   * then accepts it with `acceptScheduleTransfer`
+   */
+  async proposeScheduleTransfer(
+    scheduleId: bigint | number,
+    newBeneficiary: string
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("proposeScheduleTransfer", scheduleId, newBeneficiary);
+  }
+
+  /** Take over a schedule proposed to the runner */
+  async acceptScheduleTransfer(
+    scheduleId: bigint | number
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("acceptScheduleTransfer", scheduleId);
+  }
+
+  /**
+   * Start moving a revocable schedule to a new address (owner only),
+   * executable after `RECOVERY_DELAY`
+   */
+  async initiateScheduleRecovery(
+    scheduleId: bigint | number,
+    newBeneficiary: string
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("initiateScheduleRecovery", scheduleId, newBeneficiary);
+  }
+
+  /** Complete a recovery once its delay has passed (owner only) */
+  async executeScheduleRecovery(
+    scheduleId: bigint | number
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("executeScheduleRecovery", scheduleId);
+  }
+
+  /**
+   * Cancel a pending recovery (owner or current beneficiary). A cancel by the
+   * beneficiary blocks further recoveries until the schedule moves
+   */
+  async cancelScheduleRecovery(
+    scheduleId: bigint | number
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("cancelScheduleRecovery", scheduleId);
+  }
+
+  /**
+   * Represent the schedules as tokens of a CPROVestingPositions contract,
+   * whose transfers move them. It can be set once (owner only).
+   */
+  async setPositions(positions: string): Promise<ContractTransactionReceipt> {
+    return this.send("setPositions", positions);
+  }
+
+  /** Whether a schedule can be transferred with its token */
+  async isScheduleTransferable(scheduleId: bigint | number): Promise<boolean> {
+    return !(await this.read<boolean>("nonTransferableSchedule", scheduleId));
+  }
+
+  /** Allow or forbid transfers of a schedule with its token (owner only) */
+  async setScheduleTransferable(
+    scheduleId: bigint | number,
+    transferable: boolean
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("setScheduleTransferable", scheduleId, transferable);
+  }
+
+  /**
+   * Current delegate of the beneficiary's unclaimed tokens, or null when
+   * they never delegated (those tokens then carry no voting power)
+   */
+  async getVotesDelegatee(beneficiary: string): Promise<string | null> {
+    const delegatee = await this.read<string>("votesDelegatee", beneficiary);
+    return BigInt(delegatee) === 0n ? null : delegatee;
+  }
+
+  /**
+   * Delegate the voting power of the runner's unclaimed tokens. The first
+   * call moves them into a voting escrow of the runner.
+   */
+  async delegateVotes(delegatee: string): Promise<ContractTransactionReceipt> {
+    return this.send("delegateVotes", delegatee);
+  }
+
+  /**
+   * Revoke a revocable schedule as a good leaver (owner only): the vested
+   * tokens are paid to the beneficiary
+   */
+  async revokeVesting(
+    scheduleId: bigint | number
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("revokeVesting", scheduleId);
+  }
+
+  /**
+   * Revoke a revocable schedule as a bad leaver (owner only): the vested but
+   * unclaimed tokens are returned with the unvested ones
+   */
+  async revokeVestingAsBadLeaver(
+    scheduleId: bigint | number
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("revokeVestingAsBadLeaver", scheduleId);
+  }
+
+  /** Account receiving revoked tokens, or null when they go to the owner */
+  async getRevocationRecipient(): Promise<string | null> {
+    const recipient = await this.read<string>("revocationRecipient");
+    return BigInt(recipient) === 0n ? null : recipient;
+  }
+
+  /**
+   * Change where revoked tokens are returned (owner only), null to return
+   * them to the owner
+   */
+  async setRevocationRecipient(
+    recipient: string | null
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("setRevocationRecipient", recipient ?? ZeroAddress);
+  }
+
+  /** Identifiers of the schedules created by a transaction, in creation order */
+  private createdScheduleIds(receipt: TransactionReceipt): bigint[] {
+    return this.parseEvents(receipt, "VestingScheduleCreated").map(
+      (created) => created.args.scheduleId as bigint
+    );
+  }
+}
+
+function toScheduleParams(params: CreateVestingScheduleParams) {
+  return [
+    params.beneficiary,
+    params.totalAmount,
+    params.startTime,
+    params.cliffDuration,
+    params.vestingDuration,
+    params.revocable ?? true,
+  ];
+}
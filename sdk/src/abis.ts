@@ -0,0 +1,404 @@
+/**
+ * Human-readable ABIs of the CPRO contracts, kept in sync with the Solidity
+ * sources in `contracts/`. Only the surface used by the clients is listed.
+ */
+
+export const CPRO_TOKEN_ABI = [
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function totalSupply() view returns (uint256)",
+  "function cap() view returns (uint256)",
+  "function MAX_SUPPLY() view returns (uint256)",
+  "function balanceOf(address account) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function paused() view returns (bool)",
+  "function DEFAULT_ADMIN_ROLE() view returns (bytes32)",
+  "function ADMIN_ROLE() view returns (bytes32)",
+  "function MINTER_ROLE() view returns (bytes32)",
+  "function PAUSER_ROLE() view returns (bytes32)",
+  "function TREASURY_ROLE() view returns (bytes32)",
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "function getRoleAdmin(bytes32 role) view returns (bytes32)",
+  "function getRoleMember(bytes32 role, uint256 index) view returns (address)",
+  "function getRoleMemberCount(bytes32 role) view returns (uint256)",
+  "function getRoleMembers(bytes32 role) view returns (address[])",
+  "function getVotes(address account) view returns (uint256)",
+  "function delegates(address account) view returns (address)",
+  "function approve(address spender, uint256 value) returns (bool)",
+  "function transfer(address to, uint256 value) returns (bool)",
+  "function delegate(address delegatee)",
+  "function MINT_REQUEST_VALIDITY() view returns (uint256)",
+  "function mintDelay() view returns (uint256)",
+  "function mintEpochCeiling() view returns (uint256)",
+  "function mintEpochDuration() view returns (uint256)",
+  "function mintRequestCount() view returns (uint256)",
+  "function mintRequests(uint256 requestId) view returns (address to, uint256 amount, uint256 executableAt, bool executed, bool cancelled)",
+  "function mintableInCurrentEpoch() view returns (uint256)",
+  "function queueMint(address to, uint256 amount) returns (uint256 requestId)",
+  "function executeMint(uint256 requestId)",
+  "function cancelMint(uint256 requestId)",
+  "function setMintDelay(uint256 newDelay)",
+  "function setMintCeiling(uint256 ceiling, uint256 epochDuration)",
+  "function burnFromOwner(uint256 amount)",
+  "function pause()",
+  "function unpause()",
+  "function recoverERC20(address tokenAddress, uint256 tokenAmount)",
+  "function grantRole(bytes32 role, address account)",
+  "function revokeRole(bytes32 role, address account)",
+  "function renounceRole(bytes32 role, address callerConfirmation)",
+  "function complianceModule() view returns (address)",
+  "function setComplianceModule(address module)",
+  "function BRIDGE_LIMIT_DURATION() view returns (uint256)",
+  "function bridgedOutSupply() view returns (uint256)",
+  "function mintingMaxLimitOf(address bridge) view returns (uint256)",
+  "function burningMaxLimitOf(address bridge) view returns (uint256)",
+  "function mintingCurrentLimitOf(address bridge) view returns (uint256)",
+  "function burningCurrentLimitOf(address bridge) view returns (uint256)",
+  "function setBridgeLimits(address bridge, uint256 mintingLimit, uint256 burningLimit)",
+  "function bridgeMint(address to, uint256 amount)",
+  "function bridgeBurn(address from, uint256 amount)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "event TokensMinted(address indexed to, uint256 amount)",
+  "event TokensBurnedByOwner(uint256 amount)",
+  "event TokensRecovered(address indexed tokenAddress, uint256 amount)",
+  "event MintQueued(uint256 indexed requestId, address indexed to, uint256 amount, uint256 executableAt)",
+  "event MintExecuted(uint256 indexed requestId, address indexed to, uint256 amount)",
+  "event MintCancelled(uint256 indexed requestId)",
+  "event ComplianceModuleUpdated(address indexed module)",
+  "event BridgeLimitsUpdated(address indexed bridge, uint256 mintingLimit, uint256 burningLimit)",
+  "event BridgeMinted(address indexed bridge, address indexed to, uint256 amount)",
+  "event BridgeBurned(address indexed bridge, address indexed from, uint256 amount)",
+  "event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)",
+  "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+  "error EnforcedPause()",
+  "error ExpectedPause()",
+  "error ERC20ExceededCap(uint256 increasedSupply, uint256 cap)",
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  // Raised by the compliance module, bubbled up by the token
+  "error AccountBlocked(address account)",
+  "error NotAllowlisted(address account)",
+  "error BalanceFrozen(address account, uint256 transferable, uint256 amount)",
+] as const;
+
+export const CPRO_COMPLIANCE_ABI = [
+  "function COMPLIANCE_ROLE() view returns (bytes32)",
+  "function token() view returns (address)",
+  "function blocked(address account) view returns (bool)",
+  "function frozenAmount(address account) view returns (uint256)",
+  "function allowlistEnabled() view returns (bool)",
+  "function allowlisted(address account) view returns (bool)",
+  "function transferableBalance(address account) view returns (uint256)",
+  "function checkTransfer(address from, address to, uint256 amount) view",
+  "function setBlocked(address account, bool isBlocked)",
+  "function setFrozenAmount(address account, uint256 amount)",
+  "function setAllowlistEnabled(bool enabled)",
+  "function setAllowlisted(address[] accounts, bool allowed)",
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "function grantRole(bytes32 role, address account)",
+  "function revokeRole(bytes32 role, address account)",
+  "event BlockedUpdated(address indexed account, bool blocked)",
+  "event FrozenAmountUpdated(address indexed account, uint256 amount)",
+  "event AllowlistModeUpdated(bool enabled)",
+  "event AllowlistUpdated(address indexed account, bool allowed)",
+  "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+  "error AccountBlocked(address account)",
+  "error NotAllowlisted(address account)",
+  "error BalanceFrozen(address account, uint256 transferable, uint256 amount)",
+] as const;
+
+export const CPRO_BRIDGE_ADAPTER_ABI = [
+  "function token() view returns (address)",
+  "function relayer() view returns (address)",
+  "function peers(uint256 chainId) view returns (address)",
+  "function sentCount() view returns (uint256)",
+  "function delivered(uint256 sourceChainId, uint256 nonce) view returns (bool)",
+  "function setPeer(uint256 chainId, address adapter)",
+  "function setRelayer(address relayer)",
+  "function transferToChain(uint256 destinationChainId, address to, uint256 amount) returns (uint256 nonce)",
+  "function deliverTransfer(uint256 sourceChainId, uint256 nonce, address to, uint256 amount)",
+  "event TransferSent(uint256 indexed nonce, uint256 indexed destinationChainId, address indexed from, address to, uint256 amount)",
+  "event TransferDelivered(uint256 indexed sourceChainId, uint256 indexed nonce, address indexed to, uint256 amount)",
+  "error UnknownChain(uint256 chainId)",
+  "error NotRelayer(address account)",
+  "error AlreadyDelivered(uint256 sourceChainId, uint256 nonce)",
+  "error InvalidTransfer()",
+  "error OwnableUnauthorizedAccount(address account)",
+] as const;
+
+export const CPRO_VESTING_ABI = [
+  "function token() view returns (address)",
+  "function owner() view returns (address)",
+  "function getScheduleClaimableAmount(uint256 scheduleId) view returns (uint256)",
+  "function getScheduleVestedAmount(uint256 scheduleId) view returns (uint256)",
+  "function getClaimableAmount(address beneficiary) view returns (uint256)",
+  "function getVestedAmount(address beneficiary) view returns (uint256)",
+  "function getVestingCurve(uint256 scheduleId) view returns ((uint8 curveType, uint256 stepInterval, uint256 initialUnlockBps, (uint256 offset, uint256 unlockBps)[] milestones))",
+  "function getVestingSchedule(uint256 scheduleId) view returns (address beneficiary, uint256 totalAmount, uint256 claimedAmount, uint256 startTime, uint256 cliffDuration, uint256 vestingDuration, bool revoked, bool revocable)",
+  "function getBeneficiaryScheduleIds(address beneficiary) view returns (uint256[])",
+  "function getBeneficiariesCount() view returns (uint256)",
+  "function getBeneficiary(uint256 index) view returns (address)",
+  "function getBeneficiaries(uint256 offset, uint256 limit) view returns (address[] page)",
+  "function getScheduleCount() view returns (uint256)",
+  "function getVestingSchedules(uint256 offset, uint256 limit) view returns ((address beneficiary, uint256 totalAmount, uint256 claimedAmount, uint256 startTime, uint256 cliffDuration, uint256 vestingDuration, bool revoked, bool exists, bool revocable)[] schedules, uint256[] vestedAmounts)",
+  "function getTotalVested() view returns (uint256 totalVested)",
+  "function totalAllocated() view returns (uint256)",
+  "function totalClaimed() view returns (uint256)",
+  "function totalRevoked() view returns (uint256)",
+  "function createVestingSchedule(address beneficiary, uint256 totalAmount, uint256 startTime, uint256 cliffDuration, uint256 vestingDuration) returns (uint256 scheduleId)",
+  "function createVestingScheduleWithCurve((address beneficiary, uint256 totalAmount, uint256 startTime, uint256 cliffDuration, uint256 vestingDuration, bool revocable) params, (uint8 curveType, uint256 stepInterval, uint256 initialUnlockBps, (uint256 offset, uint256 unlockBps)[] milestones) curve) returns (uint256 scheduleId)",
+  "function createVestingSchedulesBatch((address beneficiary, uint256 totalAmount, uint256 startTime, uint256 cliffDuration, uint256 vestingDuration, bool revocable)[] schedules) returns (uint256[] scheduleIds)",
+  "function claimTokens(uint256 scheduleId)",
+  "function claimAll()",
+  "function claimFor(address beneficiary)",
+  "function claimWithSignature(address beneficiary, address recipient, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+  "function nonces(address owner) view returns (uint256)",
+  "function votingEscrow(address beneficiary) view returns (address)",
+  "function votesDelegatee(address beneficiary) view returns (address)",
+  "function totalEscrowed() view returns (uint256)",
+  "function delegateVotes(address delegatee)",
+  "function RECOVERY_DELAY() view returns (uint256)",
+  "function pendingScheduleTransfers(uint256 scheduleId) view returns (address)",
+  "function scheduleRecoveries(uint256 scheduleId) view returns (address newBeneficiary, uint256 executableAt)",
+  "function recoveryVetoed(uint256 scheduleId) view returns (bool)",
+  "function proposeScheduleTransfer(uint256 scheduleId, address newBeneficiary)",
+  "function acceptScheduleTransfer(uint256 scheduleId)",
+  "function initiateScheduleRecovery(uint256 scheduleId, address newBeneficiary) returns (uint256 executableAt)",
+  "function executeScheduleRecovery(uint256 scheduleId)",
+  "function cancelScheduleRecovery(uint256 scheduleId)",
+  "function revokeVesting(uint256 scheduleId)",
+  "function revokeVestingAsBadLeaver(uint256 scheduleId)",
+  "function revocationRecipient() view returns (address)",
+  "function setRevocationRecipient(address recipient)",
+  "function emergencyWithdraw(address _token, uint256 amount)",
+  "function positions() view returns (address)",
+  "function setPositions(address _positions)",
+  "function nonTransferableSchedule(uint256 scheduleId) view returns (bool)",
+  "function setScheduleTransferable(uint256 scheduleId, bool transferable)",
+  "event VestingScheduleCreated(address indexed beneficiary, uint256 indexed scheduleId, uint256 totalAmount, uint256 startTime, uint256 cliffDuration, uint256 vestingDuration)",
+  "event TokensClaimed(address indexed beneficiary, uint256 indexed scheduleId, uint256 amount)",
+  "event VestingCurveSet(uint256 indexed scheduleId, uint8 curveType)",
+  "event VestingRevoked(address indexed beneficiary, uint256 indexed scheduleId, uint256 unvestedAmount)",
+  "event RevocationPolicyApplied(uint256 indexed scheduleId, bool badLeaver, uint256 forfeitedVestedAmount, address indexed returnedTo, uint256 returnedAmount)",
+  "event RevocationRecipientUpdated(address indexed revocationRecipient)",
+  "event ScheduleTransferProposed(uint256 indexed scheduleId, address indexed beneficiary, address indexed newBeneficiary)",
+  "event ScheduleRecoveryInitiated(uint256 indexed scheduleId, address indexed beneficiary, address indexed newBeneficiary, uint256 executableAt)",
+  "event ScheduleRecoveryCancelled(uint256 indexed scheduleId)",
+  "event ScheduleTransferred(uint256 indexed scheduleId, address indexed previousBeneficiary, address indexed newBeneficiary)",
+  "event PositionsSet(address indexed positions)",
+  "event ScheduleTransferableSet(uint256 indexed scheduleId, bool transferable)",
+  "event VotesDelegated(address indexed beneficiary, address indexed escrow, address indexed delegatee)",
+  "error OwnableUnauthorizedAccount(address account)",
+  "error ReentrancyGuardReentrantCall()",
+  "error SafeERC20FailedOperation(address token)",
+] as const;
+
+export const CPRO_LOCKING_ABI = [
+  "function token() view returns (address)",
+  "function owner() view returns (address)",
+  "function endTime() view returns (uint256)",
+  "function sharePerBeneficiary() view returns (uint256)",
+  "function sweepRecipient() view returns (address)",
+  "function totalAssigned() view returns (uint256)",
+  "function totalClaimed() view returns (uint256)",
+  "function beneficiariesCount() view returns (uint256)",
+  "function allocation(address beneficiary) view returns (uint256)",
+  "function beneficiaryLockId(address beneficiary) view returns (uint256)",
+  "function lockAmount(uint256 lockId) view returns (uint256)",
+  "function lockUnlockTime(uint256 lockId) view returns (uint256)",
+  "function lockClaimed(uint256 lockId) view returns (bool)",
+  "function canClaim(address user) view returns (bool)",
+  "function reservedForUnclaimed() view returns (uint256)",
+  "function heldBalance() view returns (uint256)",
+  "function votingEscrow(address beneficiary) view returns (address)",
+  "function votesDelegatee(address beneficiary) view returns (address)",
+  "function totalEscrowed() view returns (uint256)",
+  "function getBeneficiaryLockInfo(address beneficiary) view returns (uint256 lockId, uint256 amount, uint256 unlockTime, bool claimed, uint8 lockTypeId)",
+  "function getLockInfo(uint256 lockId) view returns (address owner, uint256 amount, uint256 unlockTime, bool claimed, uint8 lockTypeId)",
+  "function lockCount() view returns (uint256)",
+  "function getLocks(uint256 offset, uint256 limit) view returns ((address owner, uint256 amount, uint256 unlockTime, bool claimed, uint8 lockType)[] page)",
+  "function lockTypeTotals(uint8 lockType) view returns (uint256 assigned, uint256 claimed)",
+  "function getAllLockTypeTotals() view returns ((uint256 assigned, uint256 claimed)[26] totals)",
+  "function fund(uint256 amount)",
+  "function addBeneficiary(address beneficiary, uint8 lockType_)",
+  "function addBeneficiaryWithTerms(address beneficiary, uint8 lockType_, uint256 amount, uint256 unlockTime)",
+  "function merkleRoot() view returns (bytes32)",
+  "function merkleTotal() view returns (uint256)",
+  "function merkleClaimed(address beneficiary) view returns (bool)",
+  "function canClaimWithProof(address user, uint8 lockType_, uint256 amount, bytes32[] proof) view returns (bool)",
+  "function claim()",
+  "function claimFor(address beneficiary)",
+  "function claimWithSignature(address beneficiary, address recipient, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+  "function nonces(address owner) view returns (uint256)",
+  "function setMerkleRoot(bytes32 root, uint256 total)",
+  "function claimWithProof(uint8 lockType_, uint256 amount, bytes32[] proof)",
+  "function sweepUnassigned()",
+  "function delegateVotes(address delegatee)",
+  "function lockStaking() view returns (address)",
+  "function setLockStaking(address staking)",
+  "function lockOwner(uint256 lockId) view returns (address)",
+  "function positions() view returns (address)",
+  "function setPositions(address positions_)",
+  "function transferableLockType(uint8 lockType) view returns (bool)",
+  "function setLockTypeTransferable(uint8 lockType_, bool transferable)",
+  "function MIN_CLAIM_WINDOW() view returns (uint256)",
+  "function claimWindow() view returns (uint256)",
+  "function setClaimWindow(uint256 window)",
+  "function claimWindowSetAt() view returns (uint256)",
+  "function lockClaimExpired(uint256 lockId) view returns (bool)",
+  "function totalExpired() view returns (uint256)",
+  "function lockExpired(uint256 lockId) view returns (bool)",
+  "function merkleExpired() view returns (bool)",
+  "function expireLocks(uint256[] lockIds)",
+  "function expireMerkleAllocations()",
+  "function getSweepSplit() view returns ((address recipient, uint16 bps)[])",
+  "function setSweepSplit((address recipient, uint16 bps)[] split)",
+  "function extensionBonusBps() view returns (uint256)",
+  "function setExtensionBonus(uint256 bps)",
+  "function earlyUnlockPenaltyBps() view returns (uint256)",
+  "function setEarlyUnlockPenalty(uint256 bps)",
+  "function totalForfeited() view returns (uint256)",
+  "function MAX_EXTENSION() view returns (uint256)",
+  "function lockBonus(uint256 lockId) view returns (uint256)",
+  "function lockToppedUp(uint256 lockId) view returns (uint256)",
+  "function extendLock(uint256 lockId, uint256 unlockTime) returns (uint256 bonus)",
+  "function topUpLock(uint256 lockId, uint256 amount)",
+  "function unlockEarly(uint256 lockId)",
+  "event Funded(address indexed from, uint256 amount)",
+  "event BeneficiaryAdded(address indexed beneficiary, uint256 indexed lockId, uint256 amount, uint8 lockType, uint256 unlockTime)",
+  "event Claimed(address indexed beneficiary, uint256 indexed lockId, uint256 amount)",
+  "event Swept(address indexed to, uint256 amount)",
+  "event SweepSplitSet((address recipient, uint16 bps)[] split)",
+  "event ClaimWindowSet(uint256 window)",
+  "event LockExpired(uint256 indexed lockId, address indexed beneficiary, uint256 amount)",
+  "event MerkleAllocationsExpired(uint256 amount)",
+  "event ExtensionBonusSet(uint256 bps)",
+  "event EarlyUnlockPenaltySet(uint256 bps)",
+  "event LockExtended(uint256 indexed lockId, uint256 unlockTime, uint256 bonus)",
+  "event LockToppedUp(uint256 indexed lockId, uint256 amount)",
+  "event LockUnlockedEarly(uint256 indexed lockId, address indexed beneficiary, uint256 amount, uint256 penalty)",
+  "event MerkleRootSet(bytes32 indexed root, uint256 total)",
+  "event LockStakingSet(address indexed staking)",
+  "event PositionsSet(address indexed positions)",
+  "event LockTypeTransferableSet(uint8 indexed lockType, bool transferable)",
+  "event LockTransferred(uint256 indexed lockId, address indexed from, address indexed to)",
+  "event VotesDelegated(address indexed beneficiary, address indexed escrow, address indexed delegatee)",
+  "error PastDeadline()",
+  "error BeforeDeadline()",
+  "error AlreadyBeneficiary()",
+  "error NothingToClaim()",
+  "error NotEnoughFunded()",
+  "error NoSweepable()",
+  "error InvalidLockType()",
+  "error MerkleRootAlreadySet()",
+  "error InvalidProof()",
+  "error AlreadyClaimed()",
+  "error ExpiredSignature(uint256 deadline)",
+  "error InvalidSigner(address signer, address beneficiary)",
+  "error LockStakingAlreadySet()",
+  "error PositionsAlreadySet()",
+  "error NotPositions(address account)",
+  "error LockNotTransferable(uint256 lockId)",
+  "error TransferFeeNotSupported()",
+  "error ClaimExpired()",
+  "error LockNotExpired(uint256 lockId)",
+  "error NothingToExpire()",
+  "error InvalidClaimWindow()",
+  "error InvalidSweepSplit()",
+  "error InvalidBps()",
+  "error NotLockOwner(uint256 lockId)",
+  "error LockNotActive(uint256 lockId)",
+  "error AlreadyUnlocked(uint256 lockId)",
+  "error InvalidUnlockTime()",
+  "error EarlyUnlockDisabled()",
+  "error OwnableUnauthorizedAccount(address account)",
+  "error ReentrancyGuardReentrantCall()",
+  "error SafeERC20FailedOperation(address token)",
+] as const;
+
+export const CPRO_STAKING_ABI = [
+  "function token() view returns (address)",
+  "function locking() view returns (address)",
+  "function owner() view returns (address)",
+  "function rewardsDuration() view returns (uint256)",
+  "function periodFinish() view returns (uint256)",
+  "function rewardRate() view returns (uint256)",
+  "function rewardForDuration() view returns (uint256)",
+  "function rewardPerToken() view returns (uint256)",
+  "function unbondingPeriod() view returns (uint256)",
+  "function totalStaked() view returns (uint256)",
+  "function deposited(address account) view returns (uint256)",
+  "function lockedStake(address account) view returns (uint256)",
+  "function lockStaker(uint256 lockId) view returns (address)",
+  "function lockStakeAmount(uint256 lockId) view returns (uint256)",
+  "function stakeOf(address account) view returns (uint256)",
+  "function earned(address account) view returns (uint256)",
+  "function unbonding(address account) view returns (uint256 amount, uint256 releaseTime)",
+  "function stake(uint256 amount)",
+  "function unstake(uint256 amount)",
+  "function withdraw()",
+  "function claimRewards()",
+  "function exit()",
+  "function stakeLock()",
+  "function unstakeLock()",
+  "function notifyRewardAmount(uint256 reward)",
+  "function setRewardsDuration(uint256 duration)",
+  "function setUnbondingPeriod(uint256 period)",
+  "function unallocatedRewards() view returns (uint256)",
+  "function recoverUnallocatedRewards(address to)",
+  "event RewardAdded(uint256 reward, uint256 periodFinish)",
+  "event RewardsDurationUpdated(uint256 duration)",
+  "event UnbondingPeriodUpdated(uint256 period)",
+  "event Staked(address indexed account, uint256 amount)",
+  "event Unstaked(address indexed account, uint256 amount, uint256 releaseTime)",
+  "event Withdrawn(address indexed account, uint256 amount)",
+  "event RewardPaid(address indexed account, uint256 reward)",
+  "event LockStaked(address indexed account, uint256 indexed lockId, uint256 amount)",
+  "event LockUnstaked(address indexed account, uint256 indexed lockId, uint256 amount)",
+  "event LockStakeUpdated(address indexed account, uint256 indexed lockId, uint256 amount)",
+  "event UnallocatedRewardsRecovered(address indexed to, uint256 amount)",
+  "error InvalidAmount()",
+  "error InsufficientStake(uint256 staked, uint256 amount)",
+  "error NothingToWithdraw()",
+  "error UnbondingNotElapsed(uint256 releaseTime)",
+  "error RewardPeriodNotFinished(uint256 periodFinish)",
+  "error InvalidDuration()",
+  "error LockStakingDisabled()",
+  "error LockNotStakeable(uint256 lockId)",
+  "error LockNotStaked(uint256 lockId)",
+  "error NotLocking(address account)",
+  "error OwnableUnauthorizedAccount(address account)",
+  "error ReentrancyGuardReentrantCall()",
+  "error SafeERC20FailedOperation(address token)",
+] as const;
+
+/** Shared by CPROVestingPositions and CPROLockPositions */
+export const CPRO_POSITIONS_ABI = [
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function source() view returns (address)",
+  "function balanceOf(address owner) view returns (uint256)",
+  "function ownerOf(uint256 tokenId) view returns (address)",
+  "function tokenURI(uint256 tokenId) view returns (string)",
+  "function getApproved(uint256 tokenId) view returns (address)",
+  "function isApprovedForAll(address owner, address operator) view returns (bool)",
+  "function mint(uint256 id)",
+  "function approve(address to, uint256 tokenId)",
+  "function setApprovalForAll(address operator, bool approved)",
+  "function transferFrom(address from, address to, uint256 tokenId)",
+  "function safeTransferFrom(address from, address to, uint256 tokenId)",
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+  "event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)",
+  "event ApprovalForAll(address indexed owner, address indexed operator, bool approved)",
+  "error UnknownPosition(uint256 id)",
+  "error NotSource(address account)",
+  "error ERC721NonexistentToken(uint256 tokenId)",
+  "error ERC721InsufficientApproval(address operator, uint256 tokenId)",
+  "error ERC721InvalidSender(address sender)",
+  "error ERC721InvalidReceiver(address receiver)",
+  // Reverts of the source when a position cannot change hands
+  "error LockNotTransferable(uint256 lockId)",
+  "error AlreadyBeneficiary()",
+] as const;
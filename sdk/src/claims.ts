@@ -0,0 +1,84 @@
+import {
+  Signature,
+  type Signer,
+  type TypedDataDomain,
+  type TypedDataField,
+} from "ethers";
+
+/**
+ * A claim a beneficiary authorizes a relayer to submit with
+ * `claimWithSignature` on CPROVesting or CPROLocking.
+ */
+export interface ClaimAuthorization {
+  beneficiary: string;
+  /** Address receiving the claimed tokens */
+  recipient: string;
+  /** Current `nonces(beneficiary)` of the contract */
+  nonce: bigint;
+  /** Unix timestamp after which the signature is rejected */
+  deadline: bigint;
+}
+
+/** A claim together with the beneficiary's signature, split for the contract call */
+export interface SignedClaim extends ClaimAuthorization {
+  v: number;
+  r: string;
+  s: string;
+}
+
+/** EIP-712 type of a claim, as declared by the contracts' `CLAIM_TYPEHASH` */
+export const CLAIM_TYPES: Record<string, TypedDataField[]> = {
+  Claim: [
+    { name: "beneficiary", type: "address" },
+    { name: "recipient", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/**
+ * EIP-712 domain of a CPROVesting or CPROLocking deployment.
+ * @param contractName "CPROVesting" or "CPROLocking"
+ * @param verifyingContract Deployed contract address
+ * @param chainId Chain the contract is deployed on
+ */
+export function claimDomain(
+  contractName: "CPROVesting" | "CPROLocking",
+  verifyingContract: string,
+  chainId: bigint | number
+): TypedDataDomain {
+  return { name: contractName, version: "1", chainId, verifyingContract };
+}
+
+/**
+ * Typed data of a claim, in the shape of `eth_signTypedData_v4` (for wallets
+ * that sign the JSON payload themselves).
+ */
+export function buildClaimTypedData(
+  domain: TypedDataDomain,
+  claim: ClaimAuthorization
+) {
+  return {
+    domain,
+    types: CLAIM_TYPES,
+    primaryType: "Claim" as const,
+    message: claim,
+  };
+}
+
+/**
+ * Sign a claim with the beneficiary's signer.
+ * @param signer Signer of `claim.beneficiary`
+ * @param domain Domain of the contract, see `claimDomain`
+ * @param claim Claim to authorize
+ */
+export async function signClaim(
+  signer: Signer,
+  domain: TypedDataDomain,
+  claim: ClaimAuthorization
+): Promise<SignedClaim> {
+  const signature = Signature.from(
+    await signer.signTypedData(domain, CLAIM_TYPES, claim)
+  );
+  return { ...claim, v: signature.v, r: signature.r, s: signature.s };
+}
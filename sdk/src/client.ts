@@ -0,0 +1,132 @@
+import {
+  Contract,
+  type BlockTag,
+  type ContractRunner,
+  type ContractTransactionReceipt,
+  type ContractTransactionResponse,
+  type InterfaceAbi,
+  type LogDescription,
+  type TransactionReceipt,
+} from "ethers";
+import { withCproErrors } from "./errors.js";
+
+/**
+ * Shared plumbing of the CPRO clients: holds the ethers contract and converts
+ * reverts of both reads and writes into typed SDK errors.
+ */
+export abstract class CproBaseClient {
+  /** Underlying ethers contract, for calls not wrapped by the client */
+  readonly contract: Contract;
+
+  protected constructor(
+    readonly address: string,
+    abi: InterfaceAbi,
+    readonly runner: ContractRunner
+  ) {
+    this.contract = new Contract(address, abi, runner);
+  }
+
+  /**
+   * Calls a view function.
+   * @param method Function name
+   * @param args Function arguments
+   */
+  protected async read<T>(method: string, ...args: unknown[]): Promise<T> {
+    return withCproErrors(
+      this.contract.getFunction(method).staticCall(...args),
+      this.contract.interface
+    );
+  }
+
+  /**
+   * Calls a view function at a past block, or at the latest block when
+   * `blockTag` is undefined.
+   * @param blockTag Block to read the state of
+   * @param method Function name
+   * @param args Function arguments
+   */
+  protected async readAt<T>(
+    blockTag: BlockTag | undefined,
+    method: string,
+    ...args: unknown[]
+  ): Promise<T> {
+    return blockTag === undefined
+      ? this.read<T>(method, ...args)
+      : this.read<T>(method, ...args, { blockTag });
+  }
+
+  /**
+   * Estimates the gas a transaction would use.
+   * @param method Function name
+   * @param args Function arguments
+   */
+  protected async estimateGas(
+    method: string,
+    ...args: unknown[]
+  ): Promise<bigint> {
+    return withCproErrors(
+      this.contract.getFunction(method).estimateGas(...args),
+      this.contract.interface
+    );
+  }
+
+  /**
+   * Sends a transaction and waits for it to be mined.
+   * @param method Function name
+   * @param args Function arguments
+   */
+  protected async send(
+    method: string,
+    ...args: unknown[]
+  ): Promise<ContractTransactionReceipt> {
+    return this.sendNotifying(undefined, method, ...args);
+  }
+
+  /**
+   * Like `send`, reporting the transaction hash before waiting for it to be
+   * mined, so that a caller can record transactions that may never confirm.
+   * @param onSent Called with the hash of the sent transaction
+   * @param method Function name
+   * @param args Function arguments
+   */
+  protected async sendNotifying(
+    onSent: ((txHash: string) => void | Promise<void>) | undefined,
+    method: string,
+    ...args: unknown[]
+  ): Promise<ContractTransactionReceipt> {
+    return withCproErrors(
+      (async () => {
+        const tx: ContractTransactionResponse = await this.contract
+          .getFunction(method)
+          .send(...args);
+        await onSent?.(tx.hash);
+        const receipt = await tx.wait();
+        if (receipt === null) {
+          throw new Error(`${method}: transaction was not mined`);
+        }
+        return receipt;
+      })(),
+      this.contract.interface
+    );
+  }
+
+  /**
+   * Decodes the events of this contract with the given name from a receipt.
+   * @param receipt Mined transaction receipt
+   * @param eventName Event name
+   */
+  protected parseEvents(
+    receipt: TransactionReceipt,
+    eventName: string
+  ): LogDescription[] {
+    const events: LogDescription[] = [];
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== this.address.toLowerCase()) continue;
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === eventName) {
+        events.push(parsed);
+      }
+    }
+    return events;
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Typed exceptions for reverts raised by the CPRO contracts.
+ *
+ * Every revert surfaced by a client is converted with `toCproError`, so callers
+ * can branch on `instanceof` instead of matching revert strings or selectors.
+ */
+import type { Interface } from "ethers";
+
+/** Base class of every error thrown by the SDK for a contract revert. */
+export class CproContractError extends Error {
+  /**
+   * @param message Human readable description
+   * @param reason Revert reason string or custom error name
+   * @param cause Original error thrown by ethers
+   */
+  constructor(
+    message: string,
+    readonly reason: string,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** CPROLocking: beneficiaries can no longer be added after `endTime`. */
+export class PastDeadlineError extends CproContractError {}
+
+/** CPROLocking: the action is only available after `endTime`. */
+export class BeforeDeadlineError extends CproContractError {}
+
+/** CPROLocking: the address already holds a lock. */
+export class AlreadyBeneficiaryError extends CproContractError {}
+
+/** CPROLocking: the caller has no unclaimed allocation. */
+export class NothingToClaimError extends CproContractError {}
+
+/** CPROLocking: the contract balance does not cover the new allocation. */
+export class NotEnoughFundedError extends CproContractError {}
+
+/** CPROLocking: there is nothing left to sweep. */
+export class NoSweepableError extends CproContractError {}
+
+/** CPROLocking: the lock type is outside the supported range. */
+export class InvalidLockTypeError extends CproContractError {}
+
+/** CPROLocking: a Merkle root was already committed. */
+export class MerkleRootAlreadySetError extends CproContractError {}
+
+/** CPROLocking: the Merkle proof does not match the committed root. */
+export class InvalidProofError extends CproContractError {}
+
+/** CPROLocking: the Merkle allocation was already claimed. */
+export class AlreadyClaimedError extends CproContractError {}
+
+/** CPROLocking: the deadline of a signed claim has passed. */
+export class ExpiredSignatureError extends CproContractError {}
+
+/** CPROLocking: a signed claim was not signed by its beneficiary, or its nonce was used. */
+export class InvalidSignerError extends CproContractError {}
+
+/**
+ * The caller is not allowed to perform the action: not the owner, or missing
+ * the role in `role` for role-based contracts.
+ */
+export class UnauthorizedError extends CproContractError {
+  constructor(
+    message: string,
+    reason: string,
+    readonly account: string,
+    cause?: unknown,
+    readonly role?: string
+  ) {
+    super(message, reason, cause);
+  }
+}
+
+/** The token is paused and the action moves tokens. */
+export class TokenPausedError extends CproContractError {}
+
+/** CPROCompliance: the sender or receiver of a transfer is blocked. */
+export class AccountBlockedError extends CproContractError {}
+
+/** CPROCompliance: allowlist mode is on and the sender or receiver is not allowlisted. */
+export class NotAllowlistedError extends CproContractError {}
+
+/** CPROCompliance: the transfer would move frozen tokens. */
+export class BalanceFrozenError extends CproContractError {}
+
+/** CPROStaking: the account has staked less than the amount unstaked. */
+export class InsufficientStakeError extends CproContractError {}
+
+/** CPROStaking: the unbonding period of the unstaked tokens is not over. */
+export class UnbondingNotElapsedError extends CproContractError {}
+
+/** CPROStaking: there are no unbonded tokens to withdraw. */
+export class NothingToWithdrawError extends CproContractError {}
+
+/** CPROStaking: the reward period must be over to change its length. */
+export class RewardPeriodNotFinishedError extends CproContractError {}
+
+/** CPROStaking: the lock cannot be staked, or is not staked by the caller. */
+export class LockStakingError extends CproContractError {}
+
+/** CPROLocking: the lock is claimed or its type is not transferable. */
+export class LockNotTransferableError extends CproContractError {}
+
+/** CPROLocking: the token takes a fee on transfers and cannot fund the locks. */
+export class TransferFeeNotSupportedError extends CproContractError {}
+
+/** CPROLocking: the claim window of the lock or Merkle allocation is over. */
+export class ClaimExpiredError extends CproContractError {}
+
+/** CPROLocking: the lock cannot expire, it is claimed, already expired or still in its claim window. */
+export class LockNotExpiredError extends CproContractError {}
+
+/** CPROLocking: the claim window or the sweep split is invalid. */
+export class InvalidSweepPolicyError extends CproContractError {}
+
+/** CPROLocking: the caller does not own the lock, or it is claimed, expired or past its unlock time. */
+export class LockUpdateError extends CproContractError {}
+
+/** CPROLocking: the extension bonus or early unlock penalty is invalid, or early unlocks are disabled. */
+export class LockTermsError extends CproContractError {}
+
+/** CPROPositions: no schedule or lock has this ID. */
+export class UnknownPositionError extends CproContractError {}
+
+/** A `CPROVesting: ...` revert string. */
+export class VestingRevertError extends CproContractError {}
+
+/** A `CPROLocking: ...` revert string. */
+export class LockingRevertError extends CproContractError {}
+
+/** A `CPROToken: ...` revert string. */
+export class TokenRevertError extends CproContractError {}
+
+type CproErrorClass = new (
+  message: string,
+  reason: string,
+  cause?: unknown
+) => CproContractError;
+
+const CUSTOM_ERRORS: Record<string, CproErrorClass> = {
+  PastDeadline: PastDeadlineError,
+  BeforeDeadline: BeforeDeadlineError,
+  AlreadyBeneficiary: AlreadyBeneficiaryError,
+  NothingToClaim: NothingToClaimError,
+  NotEnoughFunded: NotEnoughFundedError,
+  NoSweepable: NoSweepableError,
+  InvalidLockType: InvalidLockTypeError,
+  MerkleRootAlreadySet: MerkleRootAlreadySetError,
+  InvalidProof: InvalidProofError,
+  AlreadyClaimed: AlreadyClaimedError,
+  ExpiredSignature: ExpiredSignatureError,
+  InvalidSigner: InvalidSignerError,
+  EnforcedPause: TokenPausedError,
+  AccountBlocked: AccountBlockedError,
+  NotAllowlisted: NotAllowlistedError,
+  BalanceFrozen: BalanceFrozenError,
+  InsufficientStake: InsufficientStakeError,
+  UnbondingNotElapsed: UnbondingNotElapsedError,
+  NothingToWithdraw: NothingToWithdrawError,
+  RewardPeriodNotFinished: RewardPeriodNotFinishedError,
+  LockStakingDisabled: LockStakingError,
+  LockNotStakeable: LockStakingError,
+  LockNotStaked: LockStakingError,
+  LockNotTransferable: LockNotTransferableError,
+  TransferFeeNotSupported: TransferFeeNotSupportedError,
+  ClaimExpired: ClaimExpiredError,
+  LockNotExpired: LockNotExpiredError,
+  NothingToExpire: LockNotExpiredError,
+  InvalidClaimWindow: InvalidSweepPolicyError,
+  InvalidSweepSplit: InvalidSweepPolicyError,
+  NotLockOwner: LockUpdateError,
+  LockNotActive: LockUpdateError,
+  AlreadyUnlocked: LockUpdateError,
+  InvalidUnlockTime: LockUpdateError,
+  InvalidBps: LockTermsError,
+  EarlyUnlockDisabled: LockTermsError,
+  UnknownPosition: UnknownPositionError,
+};
+
+const REVERT_PREFIXES: Record<string, CproErrorClass> = {
+  "CPROVesting:": VestingRevertError,
+  "CPROLocking:": LockingRevertError,
+  "CPROToken:": TokenRevertError,
+};
+
+interface EthersRevertLike {
+  data?: string;
+  reason?: string | null;
+  revert?: { name: string; args: ReadonlyArray<unknown> } | null;
+  shortMessage?: string;
+  message?: string;
+}
+
+/**
+ * Converts an error thrown by an ethers contract call into a `CproContractError`.
+ * Errors that are not contract reverts (network, signer, ...) are returned unchanged.
+ * @param error Error thrown by ethers or by the node
+ * @param iface Interface used to decode raw revert data, when ethers did not
+ */
+export function toCproError(error: unknown, iface?: Interface): unknown {
+  if (error instanceof CproContractError || typeof error !== "object") {
+    return error;
+  }
+  const raw = (error ?? {}) as EthersRevertLike;
+  const { shortMessage, message } = raw;
+  let { reason, revert } = raw;
+  const description = shortMessage ?? message ?? "execution reverted";
+
+  if (!revert && iface && typeof raw.data === "string" && raw.data !== "0x") {
+    const parsed = iface.parseError(raw.data);
+    if (parsed?.name === "Error") {
+      reason ??= String(parsed.args[0]);
+    } else if (parsed) {
+      revert = { name: parsed.name, args: [...parsed.args] };
+    }
+  }
+
+  if (revert) {
+    if (
+      revert.name === "OwnableUnauthorizedAccount" ||
+      revert.name === "AccessControlUnauthorizedAccount"
+    ) {
+      return new UnauthorizedError(
+        description,
+        revert.name,
+        String(revert.args[0]),
+        error,
+        revert.args[1] === undefined ? undefined : String(revert.args[1])
+      );
+    }
+    const ErrorClass = CUSTOM_ERRORS[revert.name];
+    if (ErrorClass) {
+      return new ErrorClass(description, revert.name, error);
+    }
+  }
+
+  if (reason) {
+    for (const [prefix, ErrorClass] of Object.entries(REVERT_PREFIXES)) {
+      if (reason.startsWith(prefix)) {
+        return new ErrorClass(reason, reason, error);
+      }
+    }
+  }
+
+  if (revert || reason) {
+    return new CproContractError(
+      description,
+      revert?.name ?? reason ?? "unknown",
+      error
+    );
+  }
+  return error;
+}
+
+/**
+ * Awaits a contract call, rethrowing reverts as typed SDK errors.
+ * @param call Pending contract call
+ * @param iface Interface of the called contract
+ */
+export async function withCproErrors<T>(
+  call: Promise<T>,
+  iface?: Interface
+): Promise<T> {
+  try {
+    return await call;
+  } catch (error) {
+    throw toCproError(error, iface);
+  }
+}
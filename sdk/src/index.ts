@@ -0,0 +1,11 @@
+export * from "./abis.js";
+export * from "./claims.js";
+export * from "./errors.js";
+export * from "./merkle.js";
+export * from "./types.js";
+export { CproTokenClient, type CproTokenRole } from "./CproTokenClient.js";
+export { CproVestingClient } from "./CproVestingClient.js";
+export { CproLockingClient } from "./CproLockingClient.js";
+export { CproComplianceClient } from "./CproComplianceClient.js";
+export { CproStakingClient } from "./CproStakingClient.js";
+export { CproPositionsClient } from "./CproPositionsClient.js";
@@ -0,0 +1,130 @@
+import { AbiCoder, concat, getAddress, keccak256 } from "ethers";
+
+/** One leaf of a CPROLocking Merkle allocation */
+export interface LockAllocation {
+  beneficiary: string;
+  lockType: number;
+  amount: bigint;
+}
+
+/** A Merkle allocation together with what its beneficiary passes to `claimWithProof` */
+export interface LockAllocationProof extends LockAllocation {
+  leaf: string;
+  proof: string[];
+}
+
+/**
+ * Hash of an allocation leaf, as computed by `CPROLocking._verifyMerkleProof`:
+ * `keccak256(bytes.concat(keccak256(abi.encode(beneficiary, lockType, amount))))`.
+ */
+export function hashLockAllocation(allocation: LockAllocation): string {
+  const encoded = AbiCoder.defaultAbiCoder().encode(
+    ["address", "uint8", "uint256"],
+    [allocation.beneficiary, allocation.lockType, allocation.amount]
+  );
+  return keccak256(keccak256(encoded));
+}
+
+/** Hash of two nodes, sorted like OpenZeppelin's `MerkleProof` expects */
+function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b)
+    ? keccak256(concat([a, b]))
+    : keccak256(concat([b, a]));
+}
+
+/**
+ * Merkle tree of CPROLocking allocations, compatible with `setMerkleRoot` and
+ * `claimWithProof`. Each beneficiary may appear only once.
+ */
+export class LockAllocationTree {
+  /** Sum of all allocated amounts, to pass to `setMerkleRoot` */
+  readonly total: bigint;
+
+  private readonly layers: string[][];
+  private readonly allocations = new Map<string, LockAllocation>();
+
+  constructor(allocations: LockAllocation[]) {
+    if (allocations.length === 0) {
+      throw new Error("LockAllocationTree: no allocations");
+    }
+    for (const allocation of allocations) {
+      const beneficiary = getAddress(allocation.beneficiary);
+      if (this.allocations.has(beneficiary)) {
+        throw new Error(
+          `LockAllocationTree: duplicate beneficiary ${beneficiary}`
+        );
+      }
+      if (allocation.lockType < 0 || allocation.lockType > 25) {
+        throw new Error(
+          `LockAllocationTree: invalid lock type for ${beneficiary}`
+        );
+      }
+      if (allocation.amount <= 0n) {
+        throw new Error(
+          `LockAllocationTree: amount must be > 0 for ${beneficiary}`
+        );
+      }
+      this.allocations.set(beneficiary, { ...allocation, beneficiary });
+    }
+    this.total = allocations.reduce((sum, a) => sum + a.amount, 0n);
+
+    // Sorted leaves make the root independent of the input order
+    let layer = [...this.allocations.values()]
+      .map(hashLockAllocation)
+      .sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+    this.layers = [layer];
+    while (layer.length > 1) {
+      const next: string[] = [];
+      for (let i = 0; i < layer.length; i += 2) {
+        next.push(
+          i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]
+        );
+      }
+      this.layers.push(next);
+      layer = next;
+    }
+  }
+
+  /** Root to commit with `setMerkleRoot` */
+  get root(): string {
+    return this.layers[this.layers.length - 1][0];
+  }
+
+  /**
+   * Proof of a beneficiary's allocation.
+   * @param beneficiary Beneficiary address
+   */
+  getProof(beneficiary: string): LockAllocationProof {
+    const allocation = this.allocations.get(getAddress(beneficiary));
+    if (!allocation) {
+      throw new Error(`LockAllocationTree: ${beneficiary} has no allocation`);
+    }
+    const leaf = hashLockAllocation(allocation);
+    const proof: string[] = [];
+    let index = this.layers[0].indexOf(leaf);
+    for (const layer of this.layers.slice(0, -1)) {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < layer.length) {
+        proof.push(layer[sibling]);
+      }
+      index = Math.floor(index / 2);
+    }
+    return { ...allocation, leaf, proof };
+  }
+
+  /** Proofs of every allocation, e.g. to publish as a claim file */
+  getProofs(): LockAllocationProof[] {
+    return [...this.allocations.keys()].map((b) => this.getProof(b));
+  }
+
+  /**
+   * Check a proof against a root, as `MerkleProof.verify` does on-chain.
+   */
+  static verify(
+    root: string,
+    allocation: LockAllocation,
+    proof: string[]
+  ): boolean {
+    return proof.reduce(hashPair, hashLockAllocation(allocation)) === root;
+  }
+}
@@ -0,0 +1,153 @@
+/** Vesting schedule as stored by CPROVesting */
+export interface VestingSchedule {
+  scheduleId: bigint;
+  beneficiary: string;
+  totalAmount: bigint;
+  claimedAmount: bigint;
+  startTime: bigint;
+  cliffDuration: bigint;
+  vestingDuration: bigint;
+  revoked: boolean;
+  revocable: boolean;
+}
+
+/** A vesting schedule with its amount vested at the block it was read at */
+export interface VestingPosition extends VestingSchedule {
+  vestedAmount: bigint;
+}
+
+/** Contract-level totals of CPROVesting */
+export interface VestingTotals {
+  /** Sum of the total amounts of all schedules */
+  totalAllocated: bigint;
+  /** Paid to beneficiaries, by claims and revocations */
+  totalClaimed: bigint;
+  /** Returned by revocations, unvested and forfeited */
+  totalRevoked: bigint;
+  /** Vested so far across all schedules, claimed or not */
+  totalVested: bigint;
+}
+
+/** Arguments of `CPROVesting.createVestingSchedule` */
+export interface CreateVestingScheduleParams {
+  beneficiary: string;
+  totalAmount: bigint;
+  startTime: bigint | number;
+  cliffDuration: bigint | number;
+  vestingDuration: bigint | number;
+  /** Whether the owner can revoke the schedule, true when omitted */
+  revocable?: boolean;
+}
+
+/** Tranche of a milestones vesting curve */
+export interface VestingMilestone {
+  /** Seconds after the schedule start */
+  offset: bigint | number;
+  /** Share of the total amount released, in basis points */
+  unlockBps: bigint | number;
+}
+
+/**
+ * Vesting curve of a CPROVesting schedule. `curveType` is the
+ * `CPROVesting.CurveType` value: 0 linear, 1 stepped, 2 initial unlock then
+ * linear, 3 milestones. Only the fields of the curve type are set.
+ */
+export interface VestingCurve {
+  curveType: number;
+  stepInterval: bigint | number;
+  initialUnlockBps: bigint | number;
+  milestones: VestingMilestone[];
+}
+
+/** Owner-initiated move of a vesting schedule to a new beneficiary */
+export interface ScheduleRecovery {
+  scheduleId: bigint;
+  newBeneficiary: string;
+  executableAt: bigint;
+}
+
+/** Lock held by a beneficiary in CPROLocking */
+export interface LockInfo {
+  lockId: bigint;
+  owner: string;
+  amount: bigint;
+  unlockTime: bigint;
+  claimed: boolean;
+  lockType: number;
+}
+
+/** Contract-level totals of CPROLocking */
+export interface LockingTotals {
+  /** Allocated to beneficiaries, including the whole Merkle total */
+  totalAssigned: bigint;
+  totalClaimed: bigint;
+  /** Held in the contract and in the voting escrows of its beneficiaries */
+  heldBalance: bigint;
+}
+
+/** Tokens locked and claimed for one CPROLocking lock type */
+export interface LockTypeTotals {
+  lockType: number;
+  /** Locked for this type, Merkle allocations count once claimed */
+  assigned: bigint;
+  claimed: bigint;
+}
+
+/** Recipient of a part of the tokens swept from CPROLocking */
+export interface SweepShare {
+  recipient: string;
+  /** Share of the swept tokens, in basis points */
+  bps: number;
+}
+
+/** Mint queued in CPROToken */
+export interface MintRequest {
+  requestId: bigint;
+  to: string;
+  amount: bigint;
+  executableAt: bigint;
+  executed: boolean;
+  cancelled: boolean;
+}
+
+/** Limits of a bridge on CPROToken, replenished over `BRIDGE_LIMIT_DURATION` */
+export interface BridgeLimits {
+  mintingMaxLimit: bigint;
+  /** Amount the bridge can mint now */
+  mintingCurrentLimit: bigint;
+  burningMaxLimit: bigint;
+  /** Amount the bridge can burn now */
+  burningCurrentLimit: bigint;
+}
+
+/** Stake of an account in CPROStaking */
+export interface StakePosition {
+  /** Tokens deposited */
+  deposited: bigint;
+  /** Tokens of the account's lock staked in place in CPROLocking */
+  lockedStake: bigint;
+  /** Rewards claimable now */
+  earned: bigint;
+  /** Tokens unstaked and not withdrawn yet */
+  unbonding: bigint;
+  /** Time the unbonding tokens can be withdrawn from */
+  releaseTime: bigint;
+}
+
+/** Reward period of CPROStaking */
+export interface RewardPeriod {
+  /** Rewards paid per second to all stakers together */
+  rewardRate: bigint;
+  /** End of the current period, rewards stop accruing after it */
+  periodFinish: bigint;
+  /** Length of the next periods */
+  rewardsDuration: bigint;
+  totalStaked: bigint;
+}
+
+/** Metadata of a CPROVestingPositions or CPROLockPositions token, decoded from its `tokenURI` */
+export interface PositionMetadata {
+  name: string;
+  /** Attributes by trait: amounts as decimal strings, times as Unix timestamps */
+  attributes: Record<string, string | number | boolean>;
+}